@@ -7,17 +7,40 @@ import QRForm, {
   FormParams,
   CategoryItem,
   BrandItem,
-  MetadataTypeItem,
+  getMetadataTypeItem,
+  getWifiFormFields,
 } from "@/components/forms/QRForm";
 import { addQrData, removeQrData } from "@/store/reducers/qrSlice";
 import { RootState } from "@/store/rootReducer";
 import { generateUniqueId } from "@/utils/uniqueId";
 import QRRecord from "@/types/qrType";
 import { getNextQrIndex, insertOrUpdateQrCodes } from "@/services/localDB/qrDB";
+import { markScanHistorySaved } from "@/services/localDB/scanHistoryDB";
 import { returnItemCodeByBin, returnItemData } from "@/utils/returnItemData";
+import { getSymbologyFromCodeFormat } from "@/utils/symbology";
 import { useLocale } from "@/context/LocaleContext";
 import { t } from "@/i18n";
-import { getVietQRData } from "@/utils/vietQR";
+import { buildVietQRPayload } from "@/utils/vietQR";
+import { analyzeCode, VietQRScanResult } from "@/utils/qrUtils";
+import { ContactInfo, parseContact } from "@/utils/contactQR";
+import {
+  CalendarEvent,
+  getEventLastDay,
+  parseCalendarEvent,
+} from "@/utils/calendarQR";
+import { formatValidityDate } from "@/utils/cardValidity";
+import { formatEMVAmount } from "@/utils/emvQR";
+import { WifiNetwork, parseWifi } from "@/utils/wifiQR";
+import {
+  PaymentRequest,
+  formatPaymentAccount,
+  parsePaymentCode,
+} from "@/utils/paymentQR";
+import {
+  BoardingPass,
+  formatRoute,
+  parseBoardingPass,
+} from "@/utils/boardingPass";
 
 const AddScreen: React.FC = () => {
   const dispatch = useDispatch();
@@ -42,29 +65,28 @@ const AddScreen: React.FC = () => {
       q: { display: t("addScreen.bankCategory"), value: "bank" },
       ewallet: { display: t("addScreen.ewalletCategory"), value: "ewallet" },
       store: { display: t("addScreen.storeCategory"), value: "store" },
+      wifi: { display: t("addScreen.wifiCategory"), value: "wifi" },
+      flight: { display: t("addScreen.flightCategory"), value: "flight" },
+      // Foreign and crypto payees have no local brand; keep them as store cards.
+      payment: { display: t("addScreen.storeCategory"), value: "store" },
     }),
     [t],
   );
 
-  const metadataTypeData: MetadataTypeItem[] = useMemo(
-    () => [
-      { display: t("addScreen.qr"), value: "qr" },
-      { display: t("addScreen.barcode"), value: "barcode" },
-    ],
-    [t],
-  );
-
   const getItemDataHelper = useCallback(
     (itemCode: string): BrandItem | null => {
       const itemData = returnItemData(itemCode);
-      if (!itemData || !["bank", "store", "ewallet"].includes(itemData.type)) {
+      if (
+        !itemData ||
+        !["bank", "store", "ewallet", "wifi", "flight"].includes(itemData.type)
+      ) {
         return null;
       }
       return {
         code: itemCode,
         name: itemData.name,
         full_name: itemData.full_name[currentLocale] || itemData.name,
-        type: itemData.type as "bank" | "store" | "ewallet",
+        type: itemData.type as "bank" | "store" | "ewallet" | "wifi" | "flight",
         bin: itemData.bin,
       };
     },
@@ -72,41 +94,141 @@ const AddScreen: React.FC = () => {
   );
 
   const itemCode = useMemo(() => {
+    // Wi-Fi and flight cards share a single built-in brand each.
+    if (codeType === "wifi") return "WIFI";
+    if (codeType === "flight") return "FLIGHT";
     return codeProvider || returnItemCodeByBin(codeBin || "");
-  }, [codeBin, codeProvider]);
+  }, [codeBin, codeProvider, codeType]);
+
+  // Payment codes can embed account details, an amount and a message.
+  const scannedPayment = useMemo((): VietQRScanResult | null => {
+    if (!codeValue || (codeType !== "bank" && codeType !== "ewallet")) {
+      return null;
+    }
+    const result = analyzeCode(codeValue, {});
+    return result.codeType === "bank" || result.codeType === "ewallet"
+      ? result
+      : null;
+  }, [codeValue, codeType]);
+
+  // Crypto and foreign payment codes keep the beneficiary and the account
+  // they pay into; the card shows the original code.
+  const scannedInternationalPayment = useMemo((): PaymentRequest | null => {
+    if (!codeValue || codeType !== "payment") return null;
+    return parsePaymentCode(codeValue);
+  }, [codeValue, codeType]);
+
+  // Contact codes prefill the label with the person or company name.
+  const scannedContact = useMemo((): ContactInfo | null => {
+    if (!codeValue || codeType !== "contact") return null;
+    return parseContact(codeValue);
+  }, [codeValue, codeType]);
+
+  // Event codes keep their dates so the card shows as past afterwards.
+  const scannedEvent = useMemo((): CalendarEvent | null => {
+    if (!codeValue || codeType !== "event") return null;
+    return parseCalendarEvent(codeValue);
+  }, [codeValue, codeType]);
+
+  // Wi-Fi codes fill in the network fields; the form rebuilds the payload.
+  const scannedWifi = useMemo((): WifiNetwork | null => {
+    if (!codeValue || codeType !== "wifi") return null;
+    return parseWifi(codeValue);
+  }, [codeValue, codeType]);
+
+  // Boarding passes keep their flight dates so the card expires after
+  // the last leg.
+  const scannedBoardingPass = useMemo((): BoardingPass | null => {
+    if (!codeValue || codeType !== "flight") return null;
+    return parseBoardingPass(codeValue);
+  }, [codeValue, codeType]);
+
+  const boardingPassValidity = useMemo(() => {
+    const dates = (scannedBoardingPass?.legs ?? []).flatMap((leg) =>
+      leg.date ? [leg.date] : [],
+    );
+    if (dates.length === 0) return null;
+    return {
+      validFrom: formatValidityDate(dates[0]),
+      validUntil: formatValidityDate(dates[dates.length - 1]),
+    };
+  }, [scannedBoardingPass]);
+
+  const paymentNotice = useMemo(() => {
+    if (scannedInternationalPayment) {
+      const lines: string[] = [];
+      if (scannedInternationalPayment.amount) {
+        lines.push(
+          `${t("addScreen.scannedAmount")}: ${formatEMVAmount(
+            scannedInternationalPayment.amount,
+            scannedInternationalPayment.currency,
+          )}`,
+        );
+      }
+      if (scannedInternationalPayment.message) {
+        lines.push(
+          `${t("addScreen.scannedMessage")}: ${scannedInternationalPayment.message}`,
+        );
+      }
+      return lines.length > 0 ? lines.join("\n") : undefined;
+    }
+    if (!scannedPayment) return undefined;
+    const lines: string[] = [];
+    if (scannedPayment.amount) {
+      lines.push(
+        `${t("addScreen.scannedAmount")}: ${formatEMVAmount(
+          scannedPayment.amount,
+          scannedPayment.currency,
+        )}`,
+      );
+    }
+    if (scannedPayment.message) {
+      lines.push(`${t("addScreen.scannedMessage")}: ${scannedPayment.message}`);
+    }
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  }, [scannedPayment, scannedInternationalPayment]);
 
   const initialValues: FormParams = useMemo(() => {
     const categoryKey = codeType as keyof typeof categoryMap;
     const category = categoryKey ? categoryMap[categoryKey] : null;
     const brand = itemCode ? getItemDataHelper(itemCode) : null;
 
-    let metadataType: MetadataTypeItem = metadataTypeData[0]; // Default to QR
-    if (codeFormat) {
-      // Expo Router params are strings. "256" is a common value for QR.
-      // Adjust these values based on what your scanner actually provides.
-      if (codeFormat.includes("QR_CODE") || codeFormat === "256") {
-        metadataType =
-          metadataTypeData.find((item) => item.value === "qr") ||
-          metadataTypeData[0];
-      } else if (
-        codeFormat.includes("CODE_128") ||
-        codeFormat.includes("EAN_13") ||
-        codeFormat === "1"
-      ) {
-        // Example barcode formats
-        metadataType =
-          metadataTypeData.find((item) => item.value === "barcode") ||
-          metadataTypeData[0];
-      }
-    }
+    // Keep the symbology the code was scanned in; QR when it is unknown.
+    const metadataType = getMetadataTypeItem(
+      getSymbologyFromCodeFormat(codeFormat) ?? "qr"
+    );
 
     return {
       metadataType,
       category: category as CategoryItem, // Cast, as it might be null initially
       brand,
       metadata: codeValue || "",
-      accountName: "",
-      accountNumber: "",
+      accountName: scannedPayment?.merchantName ?? scannedWifi?.ssid ?? "",
+      accountNumber: scannedPayment?.merchantNumber ?? "",
+      label:
+        scannedContact?.name ||
+        scannedContact?.organization ||
+        scannedEvent?.summary ||
+        scannedInternationalPayment?.beneficiary ||
+        (scannedBoardingPass ? formatRoute(scannedBoardingPass) : "") ||
+        "",
+      notes:
+        scannedEvent?.location ??
+        (scannedInternationalPayment
+          ? [
+              formatPaymentAccount(scannedInternationalPayment),
+              scannedInternationalPayment.reference,
+            ]
+              .filter(Boolean)
+              .join("\n")
+          : ""),
+      validFrom: scannedEvent
+        ? formatValidityDate(scannedEvent.start.date)
+        : (boardingPassValidity?.validFrom ?? ""),
+      validUntil: scannedEvent
+        ? formatValidityDate(getEventLastDay(scannedEvent))
+        : (boardingPassValidity?.validUntil ?? ""),
+      ...getWifiFormFields(scannedWifi ? codeValue : undefined),
     };
   }, [
     codeType,
@@ -114,33 +236,25 @@ const AddScreen: React.FC = () => {
     codeValue,
     codeFormat,
     categoryMap,
-    metadataTypeData,
     getItemDataHelper,
+    scannedPayment,
+    scannedInternationalPayment,
+    scannedContact,
+    scannedEvent,
+    scannedWifi,
+    scannedBoardingPass,
+    boardingPassValidity,
   ]);
 
   const handleAttemptBankMetadataFetch = useCallback(
     async (accountNumber: string, accountName: string, brandBin: string) => {
       setIsVietQrLoading(true);
       try {
-         ("Fetching VietQR data...");
-        const response = await getVietQRData(
-          accountNumber,
-          accountName ?? "",
-          brandBin,
-          0,
-          "",
-        );
-        if (response && response.data && response.data.qrCode) {
-          return { qrCode: response.data.qrCode, error: null };
-        } else {
-          console.warn("VietQR response did not contain qrCode:", response);
-          return { qrCode: null, error: t("addScreen.vietQrGenerationError") };
-        }
-      } catch (apiError: any) {
-        console.error("VietQR API error:", apiError);
-        const errorMessage =
-          apiError?.message || t("addScreen.vietQrApiError");
-        return { qrCode: null, error: errorMessage };
+        const qrCode = buildVietQRPayload({ bin: brandBin, accountNumber });
+        return { qrCode, error: null };
+      } catch (encodeError: any) {
+        console.error("VietQR encoding error:", encodeError);
+        return { qrCode: null, error: t("addScreen.vietQrGenerationError") };
       } finally {
         setIsVietQrLoading(false);
       }
@@ -182,6 +296,10 @@ const AddScreen: React.FC = () => {
           metadata_type: values.metadataType?.value || "qr",
           account_name: values.accountName,
           account_number: values.accountNumber,
+          label: values.label.trim(),
+          notes: values.notes.trim(),
+          valid_from: values.validFrom.trim(),
+          valid_until: values.validUntil.trim(),
           type: values.category?.value || "store",
           created: now,
           updated: now,
@@ -191,6 +309,7 @@ const AddScreen: React.FC = () => {
 
         dispatch(addQrData(newQrRecord));
         await insertOrUpdateQrCodes([newQrRecord]);
+        if (codeValue) await markScanHistorySaved(userId, codeValue);
         router.replace("/(auth)/home");
       } catch (error) {
         console.error("Submission error:", error);
@@ -202,7 +321,7 @@ const AddScreen: React.FC = () => {
         formikHelpers.setSubmitting(false);
       }
     },
-    [dispatch, userId, isVietQrLoading, t],
+    [dispatch, userId, isVietQrLoading, t, codeValue],
   );
 
   return (
@@ -215,6 +334,7 @@ const AddScreen: React.FC = () => {
       codeProvider={codeProvider}
       isMetadataLoading={isVietQrLoading}
       onAttemptBankMetadataFetch={handleAttemptBankMetadataFetch}
+      paymentNotice={paymentNotice}
     />
   );
 };
@@ -0,0 +1,24 @@
+import { Stack } from 'expo-router';
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { ThemedView } from '@/components/ThemedView';
+
+export default function CollectionsLayout() {
+  return (
+    <ThemedView style={styles.container}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          animation: 'ios_from_right'
+        }}
+      >
+        <Stack.Screen name="collections" />
+      </Stack>
+    </ThemedView>
+  );
+}
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,368 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import { router } from "expo-router";
+import { useDispatch, useSelector } from "react-redux";
+import DraggableFlatList, {
+  ScaleDecorator,
+  RenderItemParams,
+} from "react-native-draggable-flatlist";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedButton } from "@/components/buttons/ThemedButton";
+import { ThemedInput } from "@/components/Inputs";
+import { ThemedModal } from "@/components/modals/ThemedIconModal";
+import { ThemedTopToast } from "@/components/toast/ThemedTopToast";
+import { t } from "@/i18n";
+import { Colors } from "@/constants/Colors";
+import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
+import { useTheme } from "@/context/ThemeContext";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { RootState } from "@/store/rootReducer";
+import {
+  setCollections,
+  setCollectionItems,
+} from "@/store/reducers/collectionSlice";
+import {
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  updateCollectionIndexes,
+  getCollectionsByUserId,
+  getCollectionItemsByUserId,
+} from "@/services/localDB/collectionDB";
+import CollectionRecord from "@/types/collectionType";
+import { triggerHapticFeedback } from "@/utils/haptic";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+  getResponsiveHeight,
+} from "@/utils/responsive";
+
+const MAX_COLLECTION_NAME_LENGTH = 30;
+
+const CollectionsScreen = () => {
+  const dispatch = useDispatch();
+  const userId = useSelector((state: RootState) => state.auth.user?.id ?? "");
+  const collections = useSelector(
+    (state: RootState) => state.collection.collections
+  );
+  const collectionItems = useSelector(
+    (state: RootState) => state.collection.items
+  );
+
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState("");
+  const [isToastVisible, setIsToastVisible] = useState(false);
+
+  const { borderColor } = useGlassStyle();
+  const { currentTheme: theme } = useTheme();
+  const iconColor = useMemo(
+    () => (theme === "light" ? Colors.light.icon : Colors.dark.icon),
+    [theme]
+  );
+  const sectionsColors = useMemo(
+    () =>
+      theme === "light"
+        ? Colors.light.cardBackground
+        : Colors.dark.cardBackground,
+    [theme]
+  );
+
+  const cardCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    collectionItems.forEach((item) => {
+      counts.set(item.collection_id, (counts.get(item.collection_id) ?? 0) + 1);
+    });
+    return counts;
+  }, [collectionItems]);
+
+  const showError = useCallback((message: string) => {
+    setToastMessage(message);
+    setIsToastVisible(true);
+  }, []);
+
+  const reloadCollections = useCallback(async () => {
+    const [localCollections, localCollectionItems] = await Promise.all([
+      getCollectionsByUserId(userId),
+      getCollectionItemsByUserId(userId),
+    ]);
+    dispatch(setCollections(localCollections));
+    dispatch(setCollectionItems(localCollectionItems));
+  }, [dispatch, userId]);
+
+  const onNavigateBack = useCallback(() => {
+    router.back();
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    const name = newName.trim();
+    if (!name || !userId) return;
+    try {
+      await createCollection(userId, name.slice(0, MAX_COLLECTION_NAME_LENGTH));
+      setNewName("");
+      await reloadCollections();
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      showError(t("collections.updateError"));
+    }
+  }, [newName, userId, reloadCollections, showError]);
+
+  const startRename = useCallback((collection: CollectionRecord) => {
+    setEditingId(collection.id);
+    setEditingName(collection.name);
+  }, []);
+
+  const handleRename = useCallback(async () => {
+    if (!editingId) return;
+    const name = editingName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await updateCollection(editingId, userId, {
+        name: name.slice(0, MAX_COLLECTION_NAME_LENGTH),
+      });
+      await reloadCollections();
+    } catch (error) {
+      console.error("Error renaming collection:", error);
+      showError(t("collections.updateError"));
+    }
+  }, [editingId, editingName, userId, reloadCollections, showError]);
+
+  const handleDelete = useCallback(async () => {
+    if (!pendingDeleteId) return;
+    const id = pendingDeleteId;
+    setPendingDeleteId(null);
+    try {
+      await deleteCollection(id, userId);
+      await reloadCollections();
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      showError(t("collections.updateError"));
+    }
+  }, [pendingDeleteId, userId, reloadCollections, showError]);
+
+  const onDragEnd = useCallback(
+    ({ data }: { data: CollectionRecord[] }) => {
+      triggerHapticFeedback();
+      const reindexed = data.map((collection, index) => ({
+        ...collection,
+        collection_index: index,
+      }));
+      dispatch(setCollections(reindexed));
+      updateCollectionIndexes(reindexed, userId).catch((error) => {
+        console.error("Error updating collection order:", error);
+        showError(t("collections.updateError"));
+      });
+    },
+    [dispatch, userId, showError]
+  );
+
+  const renderItem = useCallback(
+    ({ item, drag, isActive }: RenderItemParams<CollectionRecord>) => (
+      <ScaleDecorator activeScale={0.95}>
+        <Pressable
+          onLongPress={drag}
+          disabled={isActive || editingId === item.id}
+          style={[
+            styles.section,
+            { backgroundColor: sectionsColors, borderColor },
+          ]}
+        >
+          <View style={styles.leftSectionContainer}>
+            <MaterialCommunityIcons
+              name={
+                (item.icon ||
+                  "folder") as keyof typeof MaterialCommunityIcons.glyphMap
+              }
+              size={getResponsiveFontSize(18)}
+              color={iconColor}
+            />
+            {editingId === item.id ? (
+              <ThemedInput
+                style={styles.renameInput}
+                value={editingName}
+                placeholder={t("collections.namePlaceholder")}
+                onChangeText={setEditingName}
+                onSubmitEditing={handleRename}
+                rightButtonIconName="check"
+                onRightButtonPress={handleRename}
+              />
+            ) : (
+              <View style={styles.nameContainer}>
+                <ThemedText numberOfLines={1}>{item.name}</ThemedText>
+                <ThemedText style={styles.countText}>
+                  {`${cardCounts.get(item.id) ?? 0} ${t(
+                    "collections.cardCount"
+                  )}`}
+                </ThemedText>
+              </View>
+            )}
+          </View>
+          {editingId !== item.id && (
+            <View style={styles.actionsContainer}>
+              <ThemedButton
+                iconName="pencil-outline"
+                variant="text"
+                onPress={() => startRename(item)}
+              />
+              <ThemedButton
+                iconName="delete-outline"
+                variant="text"
+                onPress={() => setPendingDeleteId(item.id)}
+              />
+            </View>
+          )}
+        </Pressable>
+      </ScaleDecorator>
+    ),
+    [
+      editingId,
+      editingName,
+      sectionsColors,
+      borderColor,
+      iconColor,
+      cardCounts,
+      handleRename,
+      startRename,
+    ]
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.blurContainer} />
+      <View style={styles.headerContainer}>
+        <ThemedButton
+          iconName="chevron-left"
+          style={styles.titleButton}
+          onPress={onNavigateBack}
+        />
+        <ThemedText style={styles.title} type="title">
+          {t("collections.title")}
+        </ThemedText>
+      </View>
+      <ThemedInput
+        style={styles.addInput}
+        iconName="folder-plus-outline"
+        value={newName}
+        placeholder={t("collections.namePlaceholder")}
+        onChangeText={setNewName}
+        onSubmitEditing={handleCreate}
+        rightButtonIconName="plus"
+        onRightButtonPress={handleCreate}
+      />
+      <DraggableFlatList
+        data={collections}
+        keyExtractor={(item) => `collection-${item.id}`}
+        renderItem={renderItem}
+        onDragEnd={onDragEnd}
+        containerStyle={styles.listContainer}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            {t("collections.empty")}
+          </ThemedText>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+      <ThemedModal
+        primaryActionText={t("collections.delete")}
+        onPrimaryAction={handleDelete}
+        onDismiss={() => setPendingDeleteId(null)}
+        dismissable={true}
+        onSecondaryAction={() => setPendingDeleteId(null)}
+        secondaryActionText={t("collections.cancel")}
+        title={t("collections.confirmDeleteTitle")}
+        message={t("collections.confirmDeleteMessage")}
+        isVisible={pendingDeleteId !== null}
+        iconName="delete"
+      />
+      <ThemedTopToast
+        message={toastMessage}
+        isVisible={isToastVisible}
+        onVisibilityToggle={setIsToastVisible}
+        duration={2000}
+      />
+    </ThemedView>
+  );
+};
+
+export default React.memo(CollectionsScreen);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  blurContainer: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: STATUSBAR_HEIGHT,
+    zIndex: 10,
+  },
+  headerContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: getResponsiveWidth(3.6),
+    paddingTop: getResponsiveHeight(10),
+    gap: getResponsiveWidth(3.6),
+  },
+  title: {
+    fontSize: getResponsiveFontSize(28),
+  },
+  titleButton: {
+    zIndex: 11,
+  },
+  addInput: {
+    marginHorizontal: getResponsiveWidth(3.6),
+    marginTop: getResponsiveHeight(3),
+    marginBottom: getResponsiveHeight(2),
+  },
+  listContainer: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: getResponsiveWidth(3.6),
+    paddingBottom: getResponsiveHeight(4),
+    gap: getResponsiveHeight(1.2),
+  },
+  section: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: getResponsiveHeight(1.2),
+    paddingHorizontal: getResponsiveWidth(4.8),
+    borderRadius: getResponsiveWidth(4),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  leftSectionContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(2.4),
+    flex: 1,
+  },
+  nameContainer: {
+    flexShrink: 1,
+  },
+  countText: {
+    fontSize: getResponsiveFontSize(12),
+    opacity: 0.6,
+  },
+  renameInput: {
+    flex: 1,
+  },
+  actionsContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: getResponsiveHeight(4),
+  },
+});
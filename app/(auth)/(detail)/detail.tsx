@@ -40,7 +40,10 @@ import ThemedReuseableSheet from "@/components/bottomsheet/ThemedReusableSheet";
 
 // Utilities
 import { returnItemData } from "@/utils/returnItemData";
-import { getVietQRData } from "@/utils/vietQR";
+import { buildVietQRPayload } from "@/utils/vietQR";
+import { parseWifi } from "@/utils/wifiQR";
+import { parseBoardingPass } from "@/utils/boardingPass";
+import { MetadataType } from "@/utils/symbology";
 import { getIconPath } from "@/utils/returnIcon";
 import { returnItemsByType } from "@/utils/returnItemData";
 import { deleteQrCode, updateQrIndexes } from "@/services/localDB/qrDB";
@@ -54,6 +57,8 @@ import {
 } from "@/utils/responsive";
 import { ThemedTopToast } from "@/components/toast/ThemedTopToast";
 import SettingSheetContent from "@/components/bottomsheet/SettingSheetContent";
+import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
+import BoardingPassSheetContent from "@/components/bottomsheet/BoardingPassSheetContent";
 import { useGlassStyle } from "@/hooks/useGlassStyle";
 
 // Constants
@@ -81,11 +86,15 @@ const GUEST_USER_ID_STRING = "guest";
 interface ItemData {
   id: string;
   code: string;
-  type: "bank" | "store" | "ewallet";
+  type: "bank" | "store" | "ewallet" | "wifi" | "flight";
   metadata: string;
-  metadata_type: "qr" | "barcode";
+  metadata_type: MetadataType;
   account_name?: string;
   account_number?: string;
+  label?: string;
+  notes?: string;
+  valid_from?: string;
+  valid_until?: string;
   style?: object;
   qr_index?: number;
 }
@@ -105,7 +114,6 @@ const DetailScreen = () => {
   const dispatch = useDispatch();
   const { item: encodedItem, id } = useLocalSearchParams();
   const qrDataFromStore = useSelector((state: RootState) => state.qr.qrData);
-  const isOffline = useSelector((state: RootState) => state.network.isOffline);
   const currentUserId = useSelector((state: RootState) => state.auth?.user?.id);
   const router = useRouter();
 
@@ -116,7 +124,6 @@ const DetailScreen = () => {
 
   const [toastKey, setToastKey] = useState(0);
   const [amount, setAmount] = useState("");
-  const [isSyncing, setIsSyncing] = useState(false); // Used for transfer button loading
   const [isDeleteSyncing, setIsDeleteSyncing] = useState(false); // Separate state for delete operation
   const [isToastVisible, setIsToastVisible] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
@@ -140,6 +147,16 @@ const DetailScreen = () => {
     }
   }, [encodedItem]);
 
+  const wifiNetwork = useMemo(
+    () => (item?.type === "wifi" ? parseWifi(item.metadata) : null),
+    [item]
+  );
+
+  const boardingPass = useMemo(
+    () => (item?.type === "flight" ? parseBoardingPass(item.metadata) : null),
+    [item]
+  );
+
   const cardColor = useMemo(
     () =>
       currentTheme === "light"
@@ -425,14 +442,8 @@ const DetailScreen = () => {
   }, [router, allBanks]);
 
   const handleTransferAmount = useCallback(
-    throttle(async () => {
+    throttle(() => {
       if (!item || !amount) return;
-      if (isOffline) {
-        showTopToast(t("detailsScreen.offlineMessage"));
-        return;
-      }
-
-      setIsSyncing(true);
 
       try {
         const itemName = returnItemData(item.code, item.type);
@@ -441,15 +452,12 @@ const DetailScreen = () => {
         const numericAmount = parseInt(amount.replace(/,/g, ""), 10);
         if (isNaN(numericAmount)) throw new Error("Invalid amount format");
 
-        const response = await getVietQRData(
-          item.account_number ?? "",
-          item.account_name ?? "",
-          itemName?.bin || "",
-          numericAmount,
+        const qrCode = buildVietQRPayload({
+          bin: itemName?.bin || "",
+          accountNumber: item.account_number ?? "",
+          amount: numericAmount,
           message,
-        );
-        const qrCode = response?.data?.qrCode;
-        if (!qrCode) throw new Error("Failed to retrieve QR code");
+        });
 
         router.replace({
           pathname: "/qr-screen",
@@ -463,11 +471,9 @@ const DetailScreen = () => {
         console.error("Error generating QR code:", error);
         setToastMessage(t("detailsScreen.generateError"));
         setIsToastVisible(true);
-      } finally {
-        setIsSyncing(false);
       }
     }, THROTTLE_WAIT),
-    [item, amount, router, showTopToast, isOffline],
+    [item, amount, router],
   );
 
   const onCopyAccountNumber = useCallback(() => {
@@ -600,10 +606,30 @@ const DetailScreen = () => {
         metadata={item.metadata}
         accountName={item.account_name}
         accountNumber={item.account_number}
+        label={item.label}
+        notes={item.notes}
+        validFrom={item.valid_from}
+        validUntil={item.valid_until}
         onAccountNumberPress={onCopyAccountNumber}
         enableGlassmorphism={true}
       />
 
+      {wifiNetwork && (
+        <WifiSheetContent
+          network={wifiNetwork}
+          style={styles.inlineSheetWrapper}
+          onNotification={(notification) => showTopToast(notification.title)}
+        />
+      )}
+
+      {boardingPass && (
+        <BoardingPassSheetContent
+          boardingPass={boardingPass}
+          style={styles.inlineSheetWrapper}
+          onNotification={(notification) => showTopToast(notification.title)}
+        />
+      )}
+
       {(item.type === "bank" || item.type === "store") && (
         <View
           style={[
@@ -696,22 +722,15 @@ const DetailScreen = () => {
                     onPress={handleTransferAmount}
                     style={[
                       styles.transferButton,
-                      { opacity: amount && !isSyncing ? 1 : 0.5 },
+                      { opacity: amount ? 1 : 0.5 },
                     ]}
-                    disabled={!amount || isSyncing}
+                    disabled={!amount}
                   >
-                    {isSyncing ? (
-                      <ActivityIndicator
-                        size={getResponsiveFontSize(16)}
-                        color={iconColor}
-                      />
-                    ) : (
-                      <MaterialCommunityIcons
-                        name={"chevron-right"}
-                        size={getResponsiveFontSize(16)}
-                        color={iconColor}
-                      />
-                    )}
+                    <MaterialCommunityIcons
+                      name={"chevron-right"}
+                      size={getResponsiveFontSize(16)}
+                      color={iconColor}
+                    />
                   </Pressable>
                 </View>
                 <FlatList
@@ -833,6 +852,10 @@ const styles = StyleSheet.create({
     marginBottom: getResponsiveHeight(3.6),
   },
   pinnedCardWrapper: {},
+  inlineSheetWrapper: {
+    marginHorizontal: 0,
+    marginVertical: getResponsiveHeight(3.6),
+  },
   infoWrapper: {
     borderRadius: getResponsiveWidth(4),
     overflow: "hidden",
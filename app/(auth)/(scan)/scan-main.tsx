@@ -35,6 +35,10 @@ import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
 import { MAX_ZOOM_FACTOR, width } from "@/constants/Constants";
 import { triggerLightHapticFeedback } from "@/utils/haptic";
 import SheetType from "@/types/sheetType";
+import CodeChoice from "@/types/codeChoiceType";
+import { DecodedImage } from "@/utils/imageDecode";
+import { DetailScanResult, isActionScanResult } from "@/utils/qrUtils";
+import { WifiNetwork, buildWifiPayload } from "@/utils/wifiQR";
 
 // Components
 import { ThemedButton } from "@/components/buttons/ThemedButton";
@@ -45,12 +49,22 @@ import {
   ZoomControlHandle,
 } from "@/components/camera/ZoomControl";
 import { QRResult } from "@/components/camera/CodeResult";
+import { BatchTray } from "@/components/camera/BatchTray";
+import { CodeChoicePrompt } from "@/components/camera/CodeChoicePrompt";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedStatusToast } from "@/components/toast/ThemedStatusToast";
 import ThemedReuseableSheet from "@/components/bottomsheet/ThemedReusableSheet";
 import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
 import LinkingSheetContent from "@/components/bottomsheet/LinkingSheetContent";
+import ContactSheetContent from "@/components/bottomsheet/ContactSheetContent";
+import EventSheetContent from "@/components/bottomsheet/EventSheetContent";
+import GS1SheetContent from "@/components/bottomsheet/GS1SheetContent";
+import BoardingPassSheetContent from "@/components/bottomsheet/BoardingPassSheetContent";
+import PaymentSheetContent from "@/components/bottomsheet/PaymentSheetContent";
+import ActionSheetContent from "@/components/bottomsheet/ActionSheetContent";
 import ScanSettingsSheetContent from "@/components/bottomsheet/ScanSettingsSheetContent";
+import BatchReviewSheetContent from "@/components/bottomsheet/BatchReviewSheetContent";
+import CodeChooserSheetContent from "@/components/bottomsheet/CodeChooserSheetContent";
 
 // Hooks
 import { useLocale } from "@/context/LocaleContext";
@@ -124,10 +138,16 @@ export default function ScanScreen() {
     codeMetadata,
     codeValue,
     codeType,
+    codeFormat,
     iconName,
     showIndicator,
     toggleShowIndicator,
     createCodeScannerCallback,
+    isBatchMode,
+    toggleBatchMode,
+    batch,
+    codeChoices,
+    selectCode,
   } = useCameraScanner();
 
   // Layout and State
@@ -146,9 +166,15 @@ export default function ScanScreen() {
 
   // States for sheet content
   const [linkingUrl, setLinkingUrl] = useState<string | null>(null);
-  const [wifiSsid, setWifiSsid] = useState<string | null>(null);
-  const [wifiPassword, setWifiPassword] = useState<string | null>(null);
-  const [wifiIsWep, setWifiIsWep] = useState(false);
+  const [wifiNetwork, setWifiNetwork] = useState<WifiNetwork | null>(null);
+  const [detailResult, setDetailResult] = useState<DetailScanResult | null>(
+    null
+  );
+  const [codeChooser, setCodeChooser] = useState<{
+    choices: CodeChoice[];
+    onSelect: (choice: CodeChoice) => void;
+    image?: DecodedImage;
+  } | null>(null);
 
   const showToast = useCallback((message: string) => {
     setToastMessage(message);
@@ -169,10 +195,15 @@ export default function ScanScreen() {
   }, []);
 
   useEffect(() => {
-    if (codeValue && sheetType) {
+    // Keep a detail sheet open while its own code stays in frame.
+    if (
+      codeValue &&
+      sheetType &&
+      codeValue !== detailResult?.rawCodeValue
+    ) {
       bottomSheetRef.current?.close();
     }
-  }, [codeValue, sheetType]);
+  }, [codeValue, sheetType, detailResult]);
 
   useEffect(() => {
     if (codeValue) {
@@ -195,13 +226,18 @@ export default function ScanScreen() {
   const codeScanner = useCodeScanner({
     codeTypes: [
       "qr",
+      "aztec",
+      "pdf-417",
+      "data-matrix",
       "code-128",
       "code-39",
+      "code-93",
       "ean-13",
       "ean-8",
       "upc-a",
       "upc-e",
-      "data-matrix",
+      "itf",
+      "codabar",
     ],
     onCodeScanned: createCodeScannerCallback,
   });
@@ -242,39 +278,123 @@ export default function ScanScreen() {
       type: SheetType,
       id?: string,
       url?: string,
-      ssid?: string,
-      pass?: string,
-      isWep?: boolean,
-      isHidden?: boolean
+      wifi?: WifiNetwork
     ) => {
       if (type === null) return;
       setSheetType(type);
       if (url) setLinkingUrl(url);
-      if (ssid) setWifiSsid(ssid);
-      if (pass) setWifiPassword(pass);
-      if (isWep !== undefined) setWifiIsWep(isWep);
+      if (wifi) setWifiNetwork(wifi);
+      bottomSheetRef.current?.snapToIndex(0);
+    },
+    []
+  );
+
+  const onOpenDetails = useCallback((result: DetailScanResult) => {
+    setDetailResult(result);
+    setSheetType(isActionScanResult(result) ? "action" : result.codeType);
+    bottomSheetRef.current?.snapToIndex(0);
+  }, []);
+
+  const onSaveDetailsToWallet = useCallback(() => {
+    if (!detailResult) return;
+    bottomSheetRef.current?.close();
+    onNavigateToAddScreen(
+      detailResult.codeFormat,
+      detailResult.rawCodeValue,
+      undefined,
+      // Boarding passes are saved as flight cards.
+      detailResult.codeType === "boardingPass" ? "flight" : detailResult.codeType,
+      undefined
+    );
+  }, [detailResult, onNavigateToAddScreen]);
+
+  const onOpenBatchReview = useCallback(() => {
+    setSheetType("batchReview");
+    bottomSheetRef.current?.snapToIndex(0);
+  }, []);
+
+  const onSaveBatch = useCallback(async () => {
+    try {
+      const savedCount = await batch.saveAll();
+      bottomSheetRef.current?.close();
+      if (savedCount > 0) {
+        showToast(`${savedCount} ${t("scanScreen.batchSaved")}`);
+      }
+    } catch {
+      showToast(t("scanScreen.batchSaveFailed"));
+    }
+  }, [batch, showToast]);
+
+  const onChooseCode = useCallback(
+    (
+      choices: CodeChoice[],
+      onSelect: (choice: CodeChoice) => void,
+      image?: DecodedImage
+    ) => {
+      setCodeChooser({ choices, onSelect, image });
+      setSheetType("codeChooser");
       bottomSheetRef.current?.snapToIndex(0);
     },
     []
   );
 
+  // Let the chooser close before the picked code opens its own sheet.
+  const onSelectChoice = useCallback(
+    (choice: CodeChoice) => {
+      bottomSheetRef.current?.close();
+      setTimeout(() => {
+        if (isMounted.current) codeChooser?.onSelect(choice);
+      }, 300);
+    },
+    [codeChooser]
+  );
+
+  const onSelectHighlight = useCallback(
+    (index: number) => {
+      const choice = codeChoices[index];
+      if (choice) selectCode(choice);
+    },
+    [codeChoices, selectCode]
+  );
+
+  const onDecodeFailed = useCallback(
+    () => showToast(t("scanScreen.imageNoCode")),
+    [showToast]
+  );
+
   const onOpenGallery = useGalleryPicker({
     onOpenSheet,
     onNavigateToAddScreen,
+    onOpenDetails,
+    onChooseCode,
+    onDecodeFailed,
   });
 
+  // Enterprise networks need credentials a Wi-Fi card cannot hold.
+  const onSaveWifiToWallet = useCallback(() => {
+    if (!wifiNetwork || wifiNetwork.security === "EAP") return;
+    bottomSheetRef.current?.close();
+    onNavigateToAddScreen(
+      undefined,
+      buildWifiPayload(wifiNetwork),
+      undefined,
+      "wifi",
+      undefined
+    );
+  }, [wifiNetwork, onNavigateToAddScreen]);
+
   const renderSheetContent = useCallback(() => {
     if (!sheetType) return null;
     switch (sheetType) {
       case "wifi":
-        return (
+        return wifiNetwork ? (
           <WifiSheetContent
-            ssid={wifiSsid || ""}
-            password={wifiPassword || ""}
-            isWep={wifiIsWep}
-            isHidden={false}
+            network={wifiNetwork}
+            onSaveToWallet={
+              wifiNetwork.security !== "EAP" ? onSaveWifiToWallet : undefined
+            }
           />
-        );
+        ) : null;
       case "linking":
         return (
           <LinkingSheetContent
@@ -282,25 +402,100 @@ export default function ScanScreen() {
             onCopySuccess={() => showToast(t("scanScreen.copied"))}
           />
         );
+      case "contact":
+        return detailResult?.codeType === "contact" ? (
+          <ContactSheetContent
+            contact={detailResult.contact}
+            onSaveToWallet={onSaveDetailsToWallet}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
+      case "event":
+        return detailResult?.codeType === "event" ? (
+          <EventSheetContent
+            event={detailResult.event}
+            rawCodeValue={detailResult.rawCodeValue}
+            onSaveToWallet={onSaveDetailsToWallet}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
+      case "boardingPass":
+        return detailResult?.codeType === "boardingPass" ? (
+          <BoardingPassSheetContent
+            boardingPass={detailResult.boardingPass}
+            onSaveToWallet={onSaveDetailsToWallet}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
+      case "gs1":
+        return detailResult?.codeType === "gs1" ? (
+          <GS1SheetContent
+            gs1={detailResult.gs1}
+            rawCodeValue={detailResult.rawCodeValue}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
+      case "payment":
+        return detailResult?.codeType === "payment" ? (
+          <PaymentSheetContent
+            payment={detailResult.payment}
+            onSaveToWallet={onSaveDetailsToWallet}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
+      case "action":
+        return detailResult && isActionScanResult(detailResult) ? (
+          <ActionSheetContent
+            result={detailResult}
+            onNotification={(notification) => showToast(notification.title)}
+          />
+        ) : null;
       case "setting":
         return (
           <ScanSettingsSheetContent
             showIndicator={showIndicator}
             onToggleShowIndicator={toggleShowIndicator}
+            batchMode={isBatchMode}
+            onToggleBatchMode={toggleBatchMode}
             onNavigateToSettings={() => router.push("/settings")}
           />
         );
+      case "codeChooser":
+        return codeChooser ? (
+          <CodeChooserSheetContent
+            choices={codeChooser.choices}
+            image={codeChooser.image}
+            onSelect={onSelectChoice}
+          />
+        ) : null;
+      case "batchReview":
+        return (
+          <BatchReviewSheetContent
+            items={batch.items}
+            isSaving={batch.isSaving}
+            onChangeCategory={batch.setItemCategory}
+            onRemove={batch.removeItem}
+            onSaveAll={onSaveBatch}
+          />
+        );
       default:
         return null;
     }
   }, [
     sheetType,
-    wifiSsid,
-    wifiPassword,
-    wifiIsWep,
+    wifiNetwork,
+    onSaveWifiToWallet,
     linkingUrl,
+    detailResult,
+    onSaveDetailsToWallet,
     showIndicator,
     toggleShowIndicator,
+    isBatchMode,
+    toggleBatchMode,
+    batch,
+    onSaveBatch,
+    codeChooser,
+    onSelectChoice,
     router,
     showToast,
   ]);
@@ -403,7 +598,7 @@ export default function ScanScreen() {
 
   useEffect(() => {
     return () => {
-      setWifiPassword(null);
+      setWifiNetwork(null);
       setLinkingUrl(null);
     };
   }, []);
@@ -428,11 +623,27 @@ export default function ScanScreen() {
   const calculatedTitle =
     sheetType === "setting"
       ? t("scanScreen.settings")
-      : sheetType === "wifi"
-        ? t("scanScreen.wifi")
-        : sheetType === "linking"
-          ? t("scanScreen.linking")
-          : t("scanScreen.settings");
+      : sheetType === "batchReview"
+        ? t("scanScreen.batchReview")
+        : sheetType === "codeChooser"
+          ? t("scanScreen.chooseCode")
+          : sheetType === "wifi"
+            ? t("scanScreen.wifi")
+            : sheetType === "linking"
+              ? t("scanScreen.linking")
+              : sheetType === "contact"
+                ? t("scanScreen.contact")
+                : sheetType === "event"
+                  ? t("scanScreen.event")
+                  : sheetType === "boardingPass"
+                    ? t("scanScreen.boardingPass")
+                    : sheetType === "gs1"
+                      ? t("scanScreen.gs1")
+                      : sheetType === "payment"
+                        ? t("scanScreen.payment")
+                        : sheetType === "action" && detailResult
+                          ? t(`scanHistoryScreen.types.${detailResult.codeType}`)
+                          : t("scanScreen.settings");
 
   return (
     <View style={styles.container}>
@@ -465,6 +676,10 @@ export default function ScanScreen() {
                   {showIndicator && (
                     <ScannerFrame
                       highlight={codeScannerHighlights[0]}
+                      highlights={codeScannerHighlights}
+                      onSelectHighlight={
+                        isBatchMode ? undefined : onSelectHighlight
+                      }
                       layout={layout}
                       scanFrame={scanFrame}
                     />
@@ -483,12 +698,28 @@ export default function ScanScreen() {
         </GestureDetector>
 
         <View style={styles.qrResultContainer}>
-          {codeMetadata.length > 0 && (
-            <QRResult
-              codeValue={codeValue}
-              animatedStyle={animatedStyle}
-              onNavigateToAdd={onNavigateToAddScreen}
+          {isBatchMode ? (
+            <BatchTray
+              items={batch.items}
+              onRemove={batch.removeItem}
+              onReview={onOpenBatchReview}
+              onClear={batch.clear}
+            />
+          ) : codeChoices.length > 1 ? (
+            <CodeChoicePrompt
+              count={codeChoices.length}
+              onPress={() => onChooseCode(codeChoices, selectCode)}
             />
+          ) : (
+            codeMetadata.length > 0 && (
+              <QRResult
+                codeValue={codeValue}
+                codeFormat={codeFormat}
+                animatedStyle={animatedStyle}
+                onNavigateToAdd={onNavigateToAddScreen}
+                onOpenDetails={onOpenDetails}
+              />
+            )
           )}
         </View>
 
@@ -520,9 +751,7 @@ export default function ScanScreen() {
             <ThemedButton
               iconName="history"
               iconColor="white"
-              // Navigate to a new history screen
-              // onPress={() => router.push("/(guest)/scan/history")}
-              onPress={() => { }}
+              onPress={() => router.push("/(auth)/(scan)/history")}
               style={styles.bottomButton}
               variant="glass"
             />
@@ -573,14 +802,28 @@ export default function ScanScreen() {
             onChange={handleSheetChange}
             snapPoints={
               sheetType === "setting"
-                ? ["35%"]
-                : sheetType === "wifi"
-                  ? wifiPassword
-                    ? ["45%"]
-                    : ["38%"]
-                  : sheetType === "linking"
-                    ? ["35%"]
-                    : ["35%"]
+                ? ["42%"]
+                : sheetType === "batchReview"
+                  ? ["70%"]
+                  : sheetType === "codeChooser"
+                    ? codeChooser?.image
+                      ? ["75%"]
+                      : ["50%"]
+                    : sheetType === "wifi"
+                      ? wifiNetwork?.password
+                        ? ["45%"]
+                        : ["38%"]
+                      : sheetType === "linking"
+                        ? ["50%"]
+                        : sheetType === "contact" ||
+                            sheetType === "event" ||
+                            sheetType === "boardingPass" ||
+                            sheetType === "gs1" ||
+                            sheetType === "payment"
+                          ? ["55%"]
+                          : sheetType === "action"
+                            ? ["40%"]
+                            : ["35%"]
             }
             styles={{
               customContent: {
@@ -24,6 +24,8 @@ export default function ScanLayout() {
         <Stack.Screen name="settings" />
         <Stack.Screen name="theme" />
         <Stack.Screen name="language" />
+        <Stack.Screen name="backup" />
+        <Stack.Screen name="import" />
         <Stack.Screen name="edit" />
         <Stack.Screen name="edit-avatar" />
         <Stack.Screen name="edit-pass" />
@@ -0,0 +1,457 @@
+import React, { useState, useCallback, useEffect, useMemo } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import { KeyboardAwareScrollView } from "react-native-keyboard-aware-scroll-view";
+import { router } from "expo-router";
+import { useSelector, useDispatch } from "react-redux";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+// Components
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedButton } from "@/components/buttons/ThemedButton";
+import { ThemedToast } from "@/components/toast/ThemedToast";
+
+// Utils and hooks
+import { Colors } from "@/constants/Colors";
+import { GUEST_USER_ID } from "@/constants/Constants";
+import { t } from "@/i18n";
+import {
+  pickImportFile,
+  readImportFile,
+  mapImportRows,
+  commitImport,
+  isWalletImportError,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ImportTable,
+  ImportedCard,
+} from "@/services/walletImport";
+import { getQrCodesByUserId } from "@/services/localDB/qrDB";
+import { useTheme } from "@/context/ThemeContext";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { SYMBOLOGIES } from "@/utils/symbology";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+  getResponsiveHeight,
+} from "@/utils/responsive";
+import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
+import { RootState } from "@/store/rootReducer";
+import { setQrData } from "@/store/reducers/qrSlice";
+
+const ImportScreen = () => {
+  const { currentTheme: theme } = useTheme();
+  const { borderColor } = useGlassStyle();
+  const dispatch = useDispatch();
+  const userId = useSelector(
+    (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID
+  );
+
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [cards, setCards] = useState<ImportedCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [isToastVisible, setIsToastVisible] = useState(false);
+  const [toastIcon, setToastIcon] = useState<"error" | "check">("error");
+  const [toastMessage, setToastMessage] = useState("");
+
+  const iconColor = theme === "light" ? Colors.light.icon : Colors.dark.icon;
+  const errorColor = theme === "light" ? Colors.light.error : Colors.dark.error;
+  const sectionsColors =
+    theme === "light" ? Colors.light.cardBackground : Colors.dark.cardBackground;
+
+  const onDismissToast = useCallback(() => setIsToastVisible(false), []);
+  const onNavigateBack = useCallback(() => router.back(), []);
+
+  const showToast = useCallback(
+    (message: string, icon: "error" | "check" = "error") => {
+      setToastMessage(message);
+      setToastIcon(icon);
+      setIsToastVisible(true);
+    },
+    []
+  );
+
+  const showImportError = useCallback(
+    (error: unknown) => {
+      if (isWalletImportError(error)) {
+        showToast(t(`importScreen.errors.${error.code}`));
+      } else {
+        console.error("Wallet import failed:", error);
+        showToast(t("importScreen.errors.generic"));
+      }
+    },
+    [showToast]
+  );
+
+  // Re-map the rows whenever the user changes a column.
+  useEffect(() => {
+    if (!table || !mapping) {
+      setCards([]);
+      return;
+    }
+    let isCancelled = false;
+    mapImportRows(table, mapping, userId)
+      .then((mapped) => {
+        if (!isCancelled) setCards(mapped);
+      })
+      .catch(showImportError);
+    return () => {
+      isCancelled = true;
+    };
+  }, [table, mapping, userId, showImportError]);
+
+  const counts = useMemo(
+    () => ({
+      total: cards.length,
+      unresolved: cards.filter((card) => !card.isDuplicate && !card.brand)
+        .length,
+      duplicates: cards.filter((card) => card.isDuplicate).length,
+    }),
+    [cards]
+  );
+  const importableCount = counts.total - counts.duplicates;
+
+  const onChooseFile = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const fileUri = await pickImportFile();
+      if (!fileUri) return;
+      const loaded = await readImportFile(fileUri);
+      setTable(loaded);
+      setMapping(loaded.mapping);
+    } catch (error) {
+      setTable(null);
+      setMapping(null);
+      showImportError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showImportError]);
+
+  // Steps through the columns, then "not mapped", then back to the first.
+  const onCycleColumn = useCallback(
+    (field: ImportField) => {
+      if (!table) return;
+      setMapping((prev) => {
+        if (!prev) return prev;
+        const current = prev[field];
+        const next =
+          current === null
+            ? 0
+            : current + 1 < table.headers.length
+              ? current + 1
+              : null;
+        return { ...prev, [field]: next };
+      });
+    },
+    [table]
+  );
+
+  const onImport = useCallback(async () => {
+    setIsImporting(true);
+    try {
+      const summary = await commitImport(cards, userId);
+      dispatch(setQrData(await getQrCodesByUserId(userId)));
+      setTable(null);
+      setMapping(null);
+      showToast(
+        `${t("importScreen.importSuccess")} (${summary.imported})`,
+        "check"
+      );
+    } catch (error) {
+      showImportError(error);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [cards, userId, dispatch, showToast, showImportError]);
+
+  const renderPreviewRow = (label: string, value: number | string) => (
+    <View style={styles.previewRow} key={label}>
+      <ThemedText style={styles.previewLabel}>{label}</ThemedText>
+      <ThemedText style={styles.previewValue}>{value}</ThemedText>
+    </View>
+  );
+
+  const renderCard = (card: ImportedCard) => {
+    const isUnresolved = !card.brand && !card.isDuplicate;
+    return (
+      <View
+        key={card.row}
+        style={[
+          styles.cardRow,
+          { borderColor: isUnresolved ? errorColor : borderColor },
+          card.isDuplicate && styles.duplicateRow,
+        ]}
+      >
+        <View style={styles.cardText}>
+          <ThemedText style={styles.cardName} numberOfLines={1}>
+            {card.name || t("importScreen.noName")}
+          </ThemedText>
+          <ThemedText style={styles.cardDetail} numberOfLines={1}>
+            {`${card.number} · ${SYMBOLOGIES[card.symbology].label}`}
+          </ThemedText>
+        </View>
+        <ThemedText
+          style={[styles.cardBrand, isUnresolved && { color: errorColor }]}
+          numberOfLines={1}
+        >
+          {card.isDuplicate
+            ? t("importScreen.duplicate")
+            : card.brand?.name ?? t("importScreen.unresolved")}
+        </ThemedText>
+      </View>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.blurContainer} />
+      <View style={styles.headerContainer}>
+        <View style={styles.titleButtonContainer}>
+          <ThemedButton
+            iconName="chevron-left"
+            style={styles.titleButton}
+            onPress={onNavigateBack}
+          />
+        </View>
+        <ThemedText style={styles.title} type="title">
+          {t("importScreen.title")}
+        </ThemedText>
+      </View>
+      <KeyboardAwareScrollView
+        keyboardShouldPersistTaps="handled"
+        style={styles.scrollContainer}
+        contentContainerStyle={styles.scrollContentContainer}
+        showsVerticalScrollIndicator={false}
+        enableOnAndroid
+      >
+        <ThemedText style={styles.sectionDescription}>
+          {t("importScreen.description")}
+        </ThemedText>
+        <ThemedButton
+          label={t("importScreen.chooseFile")}
+          iconName="file-import-outline"
+          style={styles.actionButton}
+          onPress={onChooseFile}
+          loading={isLoading}
+          loadingLabel={t("importScreen.reading")}
+          disabled={isImporting}
+        />
+
+        {table && mapping && (
+          <>
+            <ThemedText style={styles.sectionTitle}>
+              {t("importScreen.mappingTitle")}
+            </ThemedText>
+            <ThemedText style={styles.sectionDescription}>
+              {table.format === "csv"
+                ? t("importScreen.mappingDescription")
+                : t(`importScreen.formats.${table.format}`)}
+            </ThemedText>
+            <View
+              style={[
+                styles.previewContainer,
+                { backgroundColor: sectionsColors, borderColor },
+              ]}
+            >
+              {IMPORT_FIELDS.map((field) => (
+                <Pressable
+                  key={field}
+                  style={styles.previewRow}
+                  onPress={() => onCycleColumn(field)}
+                  disabled={table.format !== "csv"}
+                >
+                  <ThemedText style={styles.previewLabel}>
+                    {t(`importScreen.fields.${field}`)}
+                  </ThemedText>
+                  <View style={styles.mappingValue}>
+                    <ThemedText style={styles.previewValue} numberOfLines={1}>
+                      {mapping[field] === null
+                        ? t("importScreen.notMapped")
+                        : table.headers[mapping[field]]}
+                    </ThemedText>
+                    {table.format === "csv" && (
+                      <MaterialCommunityIcons
+                        name="swap-vertical"
+                        size={getResponsiveFontSize(16)}
+                        color={iconColor}
+                      />
+                    )}
+                  </View>
+                </Pressable>
+              ))}
+            </View>
+
+            <ThemedText style={styles.sectionTitle}>
+              {t("importScreen.previewTitle")}
+            </ThemedText>
+            <View
+              style={[
+                styles.previewContainer,
+                { backgroundColor: sectionsColors, borderColor },
+              ]}
+            >
+              {renderPreviewRow(t("importScreen.previewTotal"), counts.total)}
+              {renderPreviewRow(
+                t("importScreen.previewUnresolved"),
+                counts.unresolved
+              )}
+              {renderPreviewRow(
+                t("importScreen.previewDuplicates"),
+                counts.duplicates
+              )}
+            </View>
+            {counts.unresolved > 0 && (
+              <ThemedText style={[styles.sectionDescription, { color: errorColor }]}>
+                {t("importScreen.unresolvedHint")}
+              </ThemedText>
+            )}
+            <View style={styles.cardList}>{cards.map(renderCard)}</View>
+
+            <ThemedButton
+              label={t("importScreen.import")}
+              iconName="wallet-plus"
+              style={styles.actionButton}
+              onPress={onImport}
+              loading={isImporting}
+              loadingLabel={t("importScreen.importing")}
+              disabled={importableCount === 0}
+            />
+          </>
+        )}
+      </KeyboardAwareScrollView>
+      <ThemedToast
+        message={toastMessage}
+        isVisible={isToastVisible}
+        style={styles.toastContainer}
+        onDismiss={onDismissToast}
+        onVisibilityToggle={setIsToastVisible}
+        iconName={toastIcon}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: getResponsiveWidth(3.6),
+    gap: getResponsiveWidth(3.6),
+    marginTop: getResponsiveHeight(10),
+    marginBottom: getResponsiveHeight(2),
+  },
+  titleButtonContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(3.6),
+  },
+  title: {
+    fontSize: getResponsiveFontSize(28),
+  },
+  titleButton: {
+    zIndex: 11,
+  },
+  blurContainer: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: STATUSBAR_HEIGHT,
+    zIndex: 10,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: getResponsiveWidth(3.6),
+  },
+  scrollContentContainer: {
+    paddingBottom: getResponsiveHeight(3.6),
+  },
+  sectionTitle: {
+    fontSize: getResponsiveFontSize(18),
+    fontWeight: "bold",
+    marginTop: getResponsiveHeight(2),
+  },
+  sectionDescription: {
+    fontSize: getResponsiveFontSize(14),
+    opacity: 0.7,
+    marginTop: getResponsiveHeight(0.6),
+  },
+  actionButton: {
+    marginTop: getResponsiveHeight(1.8),
+  },
+  previewContainer: {
+    marginTop: getResponsiveHeight(1.8),
+    paddingVertical: getResponsiveHeight(1.2),
+    paddingHorizontal: getResponsiveWidth(4.8),
+    borderRadius: getResponsiveWidth(4),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: getResponsiveHeight(0.6),
+  },
+  previewLabel: {
+    fontSize: getResponsiveFontSize(14),
+  },
+  previewValue: {
+    fontSize: getResponsiveFontSize(14),
+    fontWeight: "bold",
+  },
+  mappingValue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(1.2),
+    flexShrink: 1,
+  },
+  cardList: {
+    marginTop: getResponsiveHeight(1.2),
+    gap: getResponsiveHeight(0.8),
+  },
+  cardRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(2.4),
+    paddingVertical: getResponsiveHeight(1),
+    paddingHorizontal: getResponsiveWidth(3.6),
+    borderRadius: getResponsiveWidth(3),
+    borderWidth: 1,
+  },
+  duplicateRow: {
+    opacity: 0.5,
+  },
+  cardText: {
+    flex: 1,
+  },
+  cardName: {
+    fontSize: getResponsiveFontSize(14),
+    fontWeight: "bold",
+  },
+  cardDetail: {
+    fontSize: getResponsiveFontSize(12),
+    opacity: 0.7,
+  },
+  cardBrand: {
+    fontSize: getResponsiveFontSize(13),
+    maxWidth: "40%",
+  },
+  toastContainer: {
+    position: "absolute",
+    bottom: getResponsiveHeight(3.6),
+    left: 0,
+    right: 0,
+    marginHorizontal: getResponsiveWidth(3.6),
+  },
+});
+
+export default ImportScreen;
@@ -35,6 +35,7 @@ import { Colors } from "@/constants/Colors";
 import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
 import { clearAuthData } from "@/store/reducers/authSlice";
 import { removeAllQrData } from "@/store/reducers/qrSlice";
+import { removeAllCollectionData } from "@/store/reducers/collectionSlice";
 import { clearErrorMessage } from "@/store/reducers/errorSlice";
 import pb from "@/services/pocketBase";
 import { useTheme } from "@/context/ThemeContext";
@@ -170,6 +171,7 @@ function SettingsScreen() {
       pb.authStore.clear();
       dispatch(clearErrorMessage());
       dispatch(removeAllQrData());
+      dispatch(removeAllCollectionData());
       dispatch(clearAuthData());
       const quickLoginEnabled =
         storage.getBoolean(MMKV_KEYS.QUICK_LOGIN_ENABLED) ?? false;
@@ -216,6 +218,18 @@ function SettingsScreen() {
         onPress: () => router.push("/theme"),
         hideForGuest: false,
       },
+      {
+        leftIcon: "backup",
+        settingsTitle: t("settingsScreen.backup"),
+        onPress: () => router.push("/backup"),
+        hideForGuest: false,
+      },
+      {
+        leftIcon: "upload-file",
+        settingsTitle: t("settingsScreen.import"),
+        onPress: () => router.push("/import"),
+        hideForGuest: false,
+      },
     ],
   ];
 
@@ -16,6 +16,7 @@ export default function HomeLayout() {
         <Stack.Screen name="(edit)" />
         <Stack.Screen name="(scan)"/>
         <Stack.Screen name="(settings)"/>
+        <Stack.Screen name="(collections)"/>
         <Stack.Screen name="empty"/>
         <Stack.Screen name="quick-login-prompt"/>
       </Stack>
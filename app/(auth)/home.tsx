@@ -32,6 +32,10 @@ import ServerRecord from "@/types/serverDataTypes";
 import { height } from "@/constants/Constants";
 import { RootState } from "@/store/rootReducer";
 import { setQrData } from "@/store/reducers/qrSlice";
+import {
+  setCollections,
+  setCollectionItems,
+} from "@/store/reducers/collectionSlice";
 import { resetJustLoggedInFlag } from "@/store/reducers/authSlice";
 import {
   getQrCodesByUserId,
@@ -43,10 +47,25 @@ import {
   hasLocalData,
   getLatestSyncedTimestamp,
 } from "@/services/localDB/qrDB";
+import {
+  getCollectionsByUserId,
+  getCollectionItemsByUserId,
+  addQrToCollection,
+  removeQrFromCollection,
+  moveQrToCollection,
+  updateCollectionItemIndexes,
+  syncCollections,
+  fetchServerCollections,
+  insertOrUpdateCollections,
+  getLatestCollectionsSyncedTimestamp,
+} from "@/services/localDB/collectionDB";
+import { acknowledgeAndPurgeTombstones } from "@/services/deviceSync";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { triggerHapticFeedback } from "@/utils/haptic";
 import { useGalleryPicker } from "@/hooks/useGalleryPicker";
 import SheetType from "@/types/sheetType";
+import CodeChoice from "@/types/codeChoiceType";
+import { DecodedImage } from "@/utils/imageDecode";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedFAB } from "@/components/buttons";
@@ -62,11 +81,16 @@ import { ThemedStatusToast } from "@/components/toast/ThemedStatusToast";
 import ThemedBottomToast from "@/components/toast/ThemedBottomToast";
 import { ThemedTopToast } from "@/components/toast/ThemedTopToast";
 import { ThemedModal } from "@/components/modals/ThemedIconModal";
-import ThemedFilter from "@/components/ThemedFilter";
+import ThemedFilter, {
+  getCollectionIdFromFilter,
+} from "@/components/ThemedFilter";
 import EmptyListItem from "@/components/lists/EmptyListItem";
 import LinkingSheetContent from "@/components/bottomsheet/LinkingSheetContent";
+import CodeChooserSheetContent from "@/components/bottomsheet/CodeChooserSheetContent";
 import SettingSheetContent from "@/components/bottomsheet/SettingSheetContent";
 import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
+import { WifiNetwork, buildWifiPayload } from "@/utils/wifiQR";
+import CollectionSheetContent from "@/components/bottomsheet/CollectionSheetContent";
 import {
   getResponsiveHeight,
   getResponsiveWidth,
@@ -78,6 +102,12 @@ function HomeScreen() {
   const isFocused = useIsFocused();
   const dispatch = useDispatch();
   const qrData = useSelector((state: RootState) => state.qr.qrData);
+  const collections = useSelector(
+    (state: RootState) => state.collection.collections
+  );
+  const collectionItems = useSelector(
+    (state: RootState) => state.collection.items
+  );
   const isOffline = useSelector((state: RootState) => state.network.isOffline);
   const userId = useSelector((state: RootState) => state.auth.user?.id ?? "");
   const justLoggedIn = useSelector(
@@ -118,10 +148,12 @@ function HomeScreen() {
   const [fabOpen, setFabOpen] = useState(false);
   const [sheetType, setSheetType] = useState<SheetType>(null);
   const [linkingUrl, setLinkingUrl] = useState<string | null>(null);
-  const [wifiSsid, setWifiSsid] = useState<string | null>(null);
-  const [wifiPassword, setWifiPassword] = useState<string | null>(null);
-  const [wifiIsWep, setWifiIsWep] = useState(false);
-  const [wifiIsHidden, setWifiIsHidden] = useState(false);
+  const [wifiNetwork, setWifiNetwork] = useState<WifiNetwork | null>(null);
+  const [codeChooser, setCodeChooser] = useState<{
+    choices: CodeChoice[];
+    onSelect: (choice: CodeChoice) => void;
+    image?: DecodedImage;
+  } | null>(null);
   const [filter, setFilter] = useState("all");
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
 
@@ -220,6 +252,18 @@ function HomeScreen() {
   );
 
   // --- Core Logic Functions ---
+  const loadLocalCollections = useCallback(
+    async (userIdToLoad: string) => {
+      const [localCollections, localCollectionItems] = await Promise.all([
+        getCollectionsByUserId(userIdToLoad),
+        getCollectionItemsByUserId(userIdToLoad),
+      ]);
+      dispatch(setCollections(localCollections));
+      dispatch(setCollectionItems(localCollectionItems));
+    },
+    [dispatch]
+  );
+
   const syncWithServer = useCallback(
     async (userIdToSync: string) => {
       if (isOffline || isSyncingRef.current) {
@@ -245,8 +289,24 @@ function HomeScreen() {
         if (rawDataFromServer && rawDataFromServer.length > 0) {
           await insertOrUpdateQrCodes(rawDataFromServer);
         }
+
+        // Collections reference card ids, so they sync after the cards.
+        const lastCollectionSync =
+          await getLatestCollectionsSyncedTimestamp(userIdToSync);
+        await syncCollections(userIdToSync);
+        const serverCollections = await fetchServerCollections(
+          userIdToSync,
+          lastCollectionSync
+        );
+        await insertOrUpdateCollections(
+          serverCollections.collections,
+          serverCollections.items
+        );
+
+        await acknowledgeAndPurgeTombstones(userIdToSync);
         const finalLocalData = await getQrCodesByUserId(userIdToSync);
         dispatch(setQrData(finalLocalData));
+        await loadLocalCollections(userIdToSync);
 
         setSyncStatus("synced");
         setTopToastMessage(t("homeScreen.syncSuccess"));
@@ -265,7 +325,7 @@ function HomeScreen() {
         setIsSyncing(false);
       }
     },
-    [dispatch, isOffline]
+    [dispatch, isOffline, loadLocalCollections]
   );
 
   // --- EFFECT 1: Initial Data Load & Sync ---
@@ -306,6 +366,7 @@ function HomeScreen() {
           if (localDbExists) {
             const currentLocalData = await getQrCodesByUserId(userId);
             if (isMounted) dispatch(setQrData(currentLocalData));
+            if (isMounted) await loadLocalCollections(userId);
           } else if (!isOffline) {
             await syncWithServer(userId);
           } else {
@@ -344,6 +405,7 @@ function HomeScreen() {
     dispatch,
     isOffline,
     syncWithServer,
+    loadLocalCollections,
     isLoading,
     initialAnimationsDone,
   ]);
@@ -508,6 +570,11 @@ function HomeScreen() {
     []
   );
 
+  const onNavigateToCollectionsScreen = useCallback(
+    () => router.push("/(auth)/(collections)/collections"),
+    []
+  );
+
   const onNavigateToAddScreen = useCallback(
     throttle(
       (
@@ -555,18 +622,12 @@ function HomeScreen() {
       type: SheetType,
       id?: string,
       url?: string,
-      ssid?: string,
-      password?: string,
-      isWep?: boolean,
-      isHidden?: boolean
+      wifi?: WifiNetwork
     ) => {
       setSheetType(type);
       setSelectedItemId(id || null);
-      if (type === "wifi" && ssid && password) {
-        setWifiSsid(ssid);
-        setWifiPassword(password);
-        setWifiIsWep(isWep ?? false);
-        setWifiIsHidden(isHidden ?? false);
+      if (type === "wifi" && wifi) {
+        setWifiNetwork(wifi);
       } else if (type === "linking" && url) {
         setLinkingUrl(url);
       }
@@ -579,9 +640,38 @@ function HomeScreen() {
     isSheetOpen.value = index > -1;
   }, []);
 
+  const onChooseCode = useCallback(
+    (
+      choices: CodeChoice[],
+      onSelect: (choice: CodeChoice) => void,
+      image?: DecodedImage
+    ) => {
+      setCodeChooser({ choices, onSelect, image });
+      setSheetType("codeChooser");
+      bottomSheetRef.current?.snapToIndex(0);
+    },
+    []
+  );
+
+  // Let the chooser close before the picked code opens its own sheet.
+  const onSelectChoice = useCallback(
+    (choice: CodeChoice) => {
+      bottomSheetRef.current?.close();
+      setTimeout(() => codeChooser?.onSelect(choice), 300);
+    },
+    [codeChooser]
+  );
+
+  const onDecodeFailed = useCallback(
+    () => showToast(t("scanScreen.imageNoCode")),
+    [showToast]
+  );
+
   const onOpenGallery = useGalleryPicker({
     onOpenSheet,
     onNavigateToAddScreen,
+    onChooseCode,
+    onDecodeFailed,
   });
 
   const scrollHandler = useAnimatedScrollHandler((event) => {
@@ -597,11 +687,35 @@ function HomeScreen() {
     isActive.value = true;
   }, []);
 
+  const activeCollectionId = useMemo(
+    () => getCollectionIdFromFilter(filter),
+    [filter]
+  );
+
+  // Fall back to "all" when the selected collection is deleted.
+  useEffect(() => {
+    if (
+      activeCollectionId &&
+      !collections.some((collection) => collection.id === activeCollectionId)
+    ) {
+      setFilter("all");
+    }
+  }, [activeCollectionId, collections]);
+
   // --- FIX: Use localQrData for UI rendering ---
   const filteredData = useMemo(() => {
     if (filter === "all") return localQrData;
+    if (activeCollectionId) {
+      // Collections keep their own ordering, independent of qr_index.
+      const qrById = new Map(localQrData.map((item) => [item.id, item]));
+      return collectionItems
+        .filter((item) => item.collection_id === activeCollectionId)
+        .sort((a, b) => a.item_index - b.item_index)
+        .map((item) => qrById.get(item.qr_id))
+        .filter((item): item is QRRecord => !!item);
+    }
     return localQrData.filter((item) => item.type === filter);
-  }, [localQrData, filter]);
+  }, [localQrData, filter, activeCollectionId, collectionItems]);
 
   const handleSync = useCallback(() => {
     if (userId && !isOffline && !isSyncing) {
@@ -640,6 +754,8 @@ function HomeScreen() {
           onMoreButtonPress={() => onOpenSheet("setting", item.id)}
           accountName={item.account_name}
           accountNumber={item.account_number}
+          label={item.label}
+          validUntil={item.valid_until}
           onDrag={drag}
           enableGlassmorphism
         />
@@ -655,6 +771,31 @@ function HomeScreen() {
       triggerHapticFeedback();
       isActive.value = false;
 
+      if (activeCollectionId) {
+        const orderedQrIds = reorderedData.map((item) => item.id);
+        const orderById = new Map(
+          orderedQrIds.map((id, index) => [id, index] as const)
+        );
+        dispatch(
+          setCollectionItems(
+            collectionItems.map((item) =>
+              item.collection_id === activeCollectionId &&
+              orderById.has(item.qr_id)
+                ? { ...item, item_index: orderById.get(item.qr_id) }
+                : item
+            )
+          )
+        );
+        updateCollectionItemIndexes(
+          activeCollectionId,
+          orderedQrIds,
+          userId
+        ).catch((err) =>
+          console.error("Error updating collection order after drag:", err)
+        );
+        return;
+      }
+
       let finalData;
       if (filter === "all") {
         finalData = reorderedData;
@@ -675,7 +816,7 @@ function HomeScreen() {
       }
       setLocalQrData(finalData);
     },
-    [filter, localQrData]
+    [filter, localQrData, activeCollectionId, collectionItems, userId, dispatch]
   );
 
   const onDeleteSheetPress = useCallback(() => {
@@ -705,6 +846,7 @@ function HomeScreen() {
       }));
       dispatch(setQrData(reindexedData));
       await updateQrIndexes(reindexedData, userId);
+      await loadLocalCollections(userId);
 
       setIsToastVisible(false);
       setTopToastMessage(t("homeScreen.deleteSuccess"));
@@ -722,7 +864,86 @@ function HomeScreen() {
         timeoutRefs.current.delete = setTimeout(() => setIsSyncing(false), 400);
       }
     }
-  }, [selectedItemId, userId, isSyncing, dispatch, qrData]);
+  }, [
+    selectedItemId,
+    userId,
+    isSyncing,
+    dispatch,
+    qrData,
+    loadLocalCollections,
+  ]);
+
+  const onOpenCollectionSheet = useCallback(() => {
+    setSheetType("collection");
+    bottomSheetRef.current?.snapToIndex(0);
+  }, []);
+
+  const onManageCollectionsFromSheet = useCallback(() => {
+    bottomSheetRef.current?.close();
+    onNavigateToCollectionsScreen();
+  }, [onNavigateToCollectionsScreen]);
+
+  const selectedCollectionIds = useMemo(
+    () =>
+      collectionItems
+        .filter((item) => item.qr_id === selectedItemId)
+        .map((item) => item.collection_id),
+    [collectionItems, selectedItemId]
+  );
+
+  const onToggleCollection = useCallback(
+    async (collectionId: string) => {
+      if (!selectedItemId || !userId) return;
+      try {
+        if (selectedCollectionIds.includes(collectionId)) {
+          await removeQrFromCollection(collectionId, selectedItemId, userId);
+        } else {
+          await addQrToCollection(collectionId, selectedItemId, userId);
+        }
+        dispatch(setCollectionItems(await getCollectionItemsByUserId(userId)));
+      } catch (error) {
+        console.error("Error updating collection membership:", error);
+        showToast(t("collections.updateError"));
+      }
+    },
+    [selectedItemId, userId, selectedCollectionIds, dispatch, showToast]
+  );
+
+  // Moving only applies to a card opened from its collection's filter.
+  const sheetCollectionId =
+    activeCollectionId && selectedCollectionIds.includes(activeCollectionId)
+      ? activeCollectionId
+      : null;
+
+  const onMoveToCollection = useCallback(
+    async (collectionId: string) => {
+      if (!selectedItemId || !userId || !sheetCollectionId) return;
+      try {
+        await moveQrToCollection(
+          selectedItemId,
+          sheetCollectionId,
+          collectionId,
+          userId
+        );
+        bottomSheetRef.current?.close();
+        // Reload both so the filter chips and the open collection update.
+        await loadLocalCollections(userId);
+        const target = collections.find(({ id }) => id === collectionId);
+        showToast(`${t("collections.movedTo")} ${target?.name ?? ""}`.trim());
+      } catch (error) {
+        console.error("Error moving card between collections:", error);
+        showToast(t("collections.updateError"));
+      }
+    },
+    [
+      selectedItemId,
+      userId,
+      sheetCollectionId,
+      loadLocalCollections,
+      collections,
+      showToast,
+    ]
+  );
 
   // --- FIX: Use localQrData for UI calculations ---
   const listContainerPadding = useMemo(() => {
@@ -740,17 +961,30 @@ function HomeScreen() {
     }
   }, [localQrData.length]);
 
+  // Enterprise networks need credentials a Wi-Fi card cannot hold.
+  const onSaveWifiToWallet = useCallback(() => {
+    if (!wifiNetwork || wifiNetwork.security === "EAP") return;
+    bottomSheetRef.current?.close();
+    onNavigateToAddScreen(
+      undefined,
+      buildWifiPayload(wifiNetwork),
+      undefined,
+      "wifi",
+      undefined
+    );
+  }, [wifiNetwork, onNavigateToAddScreen]);
+
   const renderSheetContent = useCallback(() => {
     switch (sheetType) {
       case "wifi":
-        return (
+        return wifiNetwork ? (
           <WifiSheetContent
-            ssid={wifiSsid || ""}
-            password={wifiPassword || ""}
-            isWep={wifiIsWep}
-            isHidden={wifiIsHidden}
+            network={wifiNetwork}
+            onSaveToWallet={
+              wifiNetwork.security !== "EAP" ? onSaveWifiToWallet : undefined
+            }
           />
-        );
+        ) : null;
       case "linking":
         return (
           <LinkingSheetContent
@@ -763,21 +997,48 @@ function HomeScreen() {
           <SettingSheetContent
             onEdit={onNavigateToEditScreen}
             onDelete={onDeleteSheetPress}
+            onCollections={onOpenCollectionSheet}
           />
         );
+      case "collection":
+        return (
+          <CollectionSheetContent
+            collections={collections}
+            selectedCollectionIds={selectedCollectionIds}
+            onToggleCollection={onToggleCollection}
+            onManageCollections={onManageCollectionsFromSheet}
+            currentCollectionId={sheetCollectionId}
+            onMoveToCollection={onMoveToCollection}
+          />
+        );
+      case "codeChooser":
+        return codeChooser ? (
+          <CodeChooserSheetContent
+            choices={codeChooser.choices}
+            image={codeChooser.image}
+            onSelect={onSelectChoice}
+          />
+        ) : null;
       default:
         return null;
     }
   }, [
     sheetType,
-    wifiSsid,
-    wifiPassword,
-    wifiIsWep,
-    wifiIsHidden,
+    wifiNetwork,
+    onSaveWifiToWallet,
     linkingUrl,
     handleCopySuccess,
     onNavigateToEditScreen,
     onDeleteSheetPress,
+    onOpenCollectionSheet,
+    collections,
+    selectedCollectionIds,
+    onToggleCollection,
+    onManageCollectionsFromSheet,
+    sheetCollectionId,
+    onMoveToCollection,
+    codeChooser,
+    onSelectChoice,
   ]);
 
   // --- Memoized Components ---
@@ -841,10 +1102,14 @@ function HomeScreen() {
       listHeaderStyle: localListHeaderStyle,
       filter: currentFilter,
       onFilterChange,
+      collections: currentCollections,
+      onManageCollections,
     }: {
       listHeaderStyle: any;
       filter: string;
       onFilterChange: (filter: string) => void;
+      collections: { id: string; name: string; icon?: string }[];
+      onManageCollections: () => void;
     }) => (
       <Animated.View
         style={[
@@ -855,6 +1120,8 @@ function HomeScreen() {
         <ThemedFilter
           selectedFilter={currentFilter}
           onFilterChange={onFilterChange}
+          collections={currentCollections}
+          onManageCollections={onManageCollections}
         />
       </Animated.View>
     )
@@ -911,6 +1178,8 @@ function HomeScreen() {
                 listHeaderStyle={listHeaderStyle}
                 filter={filter}
                 onFilterChange={handleFilterChange}
+                collections={collections}
+                onManageCollections={onNavigateToCollectionsScreen}
               />
             }
             ListEmptyComponent={<EmptyItemComponent color={color} />}
@@ -989,21 +1258,31 @@ function HomeScreen() {
         title={
           sheetType === "setting"
             ? t("homeScreen.manage")
-            : sheetType === "wifi"
+            : sheetType === "collection"
+              ? t("collections.sheetTitle")
+              : sheetType === "wifi"
               ? t("homeScreen.wifi")
               : sheetType === "linking"
                 ? t("homeScreen.linking")
-                : t("homeScreen.settings")
+                : sheetType === "codeChooser"
+                  ? t("scanScreen.chooseCode")
+                  : t("homeScreen.settings")
         }
         onChange={handleSheetChange}
         snapPoints={
           sheetType === "setting"
-            ? ["25%"]
-            : sheetType === "wifi"
+            ? ["30%"]
+            : sheetType === "collection"
+              ? ["45%"]
+              : sheetType === "wifi"
               ? ["38%"]
               : sheetType === "linking"
-                ? ["35%"]
-                : ["35%"]
+                ? ["50%"]
+                : sheetType === "codeChooser"
+                  ? codeChooser?.image
+                    ? ["75%"]
+                    : ["50%"]
+                  : ["35%"]
         }
         styles={{
           customContent: {
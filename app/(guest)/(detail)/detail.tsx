@@ -41,7 +41,10 @@ import ThemedReuseableSheet from "@/components/bottomsheet/ThemedReusableSheet";
 
 // Utilities
 import { returnItemData } from "@/utils/returnItemData";
-import { getVietQRData } from "@/utils/vietQR";
+import { buildVietQRPayload } from "@/utils/vietQR";
+import { parseWifi } from "@/utils/wifiQR";
+import { parseBoardingPass } from "@/utils/boardingPass";
+import { MetadataType } from "@/utils/symbology";
 import { getIconPath } from "@/utils/returnIcon";
 import { returnItemsByType } from "@/utils/returnItemData";
 import { deleteQrCode, updateQrIndexes } from "@/services/localDB/qrDB";
@@ -54,6 +57,8 @@ import {
 } from "@/utils/responsive";
 import { ThemedTopToast } from "@/components/toast/ThemedTopToast";
 import SettingSheetContent from "@/components/bottomsheet/SettingSheetContent";
+import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
+import BoardingPassSheetContent from "@/components/bottomsheet/BoardingPassSheetContent";
 import { GUEST_USER_ID } from "@/constants/Constants";
 import { useGlassStyle } from "@/hooks/useGlassStyle";
 // Constants
@@ -80,11 +85,15 @@ const BANK_BATCH_SIZE = 6;
 interface ItemData {
   id: string;
   code: string;
-  type: "bank" | "store" | "ewallet";
+  type: "bank" | "store" | "ewallet" | "wifi" | "flight";
   metadata: string;
-  metadata_type: "qr" | "barcode";
+  metadata_type: MetadataType;
   account_name?: string;
   account_number?: string;
+  label?: string;
+  notes?: string;
+  valid_from?: string;
+  valid_until?: string;
   style?: object;
 }
 
@@ -103,7 +112,6 @@ const GuestDetailScreen = () => {
   const dispatch = useDispatch();
   const { item: encodedItem, id } = useLocalSearchParams();
   const qrData = useSelector((state: RootState) => state.qr.qrData);
-  const isOffline = useSelector((state: RootState) => state.network.isOffline);
   const router = useRouter();
 
   const bottomSheetRef = useRef<BottomSheet>(null);
@@ -111,7 +119,6 @@ const GuestDetailScreen = () => {
 
   const [toastKey, setToastKey] = useState(0);
   const [amount, setAmount] = useState("");
-  const [isSyncing, setIsSyncing] = useState(false);
   const [isDeleteSyncing, setIsDeleteSyncing] = useState(false);
   const [isToastVisible, setIsToastVisible] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
@@ -135,6 +142,16 @@ const GuestDetailScreen = () => {
     }
   }, [encodedItem]);
 
+  const wifiNetwork = useMemo(
+    () => (item?.type === "wifi" ? parseWifi(item.metadata) : null),
+    [item]
+  );
+
+  const boardingPass = useMemo(
+    () => (item?.type === "flight" ? parseBoardingPass(item.metadata) : null),
+    [item]
+  );
+
   const cardColor = useMemo(
     () =>
       currentTheme === "light"
@@ -407,28 +424,23 @@ const GuestDetailScreen = () => {
   }, [router, allBanks]);
 
   const handleTransferAmount = useCallback(
-    throttle(async () => {
+    throttle(() => {
       if (!item || !amount) return;
-      if (isOffline) {
-        showTopToast(t("detailsScreen.offlineMessage"));
-        return;
-      }
-      setIsSyncing(true);
+
       try {
         const itemName = returnItemData(item.code, item.type);
         const message = `${t("detailsScreen.transferMessage")} ${item.account_name
           }`;
         const numericAmount = parseInt(amount.replace(/,/g, ""), 10);
         if (isNaN(numericAmount)) throw new Error("Invalid amount format");
-        const response = await getVietQRData(
-          item.account_number ?? "",
-          item.account_name ?? "",
-          itemName?.bin || "",
-          numericAmount,
-          message
-        );
-        const qrCode = response?.data?.qrCode;
-        if (!qrCode) throw new Error("Failed to retrieve QR code");
+
+        const qrCode = buildVietQRPayload({
+          bin: itemName?.bin || "",
+          accountNumber: item.account_number ?? "",
+          amount: numericAmount,
+          message,
+        });
+
         router.replace({
           pathname: "/qr-screen",
           params: {
@@ -441,11 +453,9 @@ const GuestDetailScreen = () => {
         console.error("Error generating QR code:", error);
         setToastMessage(t("detailsScreen.generateError"));
         setIsToastVisible(true);
-      } finally {
-        setIsSyncing(false);
       }
     }, THROTTLE_WAIT),
-    [item, amount, router, showTopToast, isOffline]
+    [item, amount, router]
   );
 
   const onCopyAccountNumber = useCallback(() => {
@@ -578,10 +588,30 @@ const GuestDetailScreen = () => {
         metadata={item.metadata}
         accountName={item.account_name}
         accountNumber={item.account_number}
+        label={item.label}
+        notes={item.notes}
+        validFrom={item.valid_from}
+        validUntil={item.valid_until}
         onAccountNumberPress={onCopyAccountNumber}
         enableGlassmorphism={true}
       />
 
+      {wifiNetwork && (
+        <WifiSheetContent
+          network={wifiNetwork}
+          style={styles.inlineSheetWrapper}
+          onNotification={(notification) => showTopToast(notification.title)}
+        />
+      )}
+
+      {boardingPass && (
+        <BoardingPassSheetContent
+          boardingPass={boardingPass}
+          style={styles.inlineSheetWrapper}
+          onNotification={(notification) => showTopToast(notification.title)}
+        />
+      )}
+
       {(item.type === "bank" || item.type === "store") && (
         <View style={[styles.infoWrapper, { backgroundColor: cardColor, borderColor: borderColor }]}>
           <View style={[styles.defaultOverlay, { backgroundColor: overlayColor }]} />
@@ -664,22 +694,15 @@ const GuestDetailScreen = () => {
                     onPress={handleTransferAmount}
                     style={[
                       styles.transferButton,
-                      { opacity: amount && !isSyncing ? 1 : 0.5 },
+                      { opacity: amount ? 1 : 0.5 },
                     ]}
-                    disabled={!amount || isSyncing}
+                    disabled={!amount}
                   >
-                    {isSyncing ? (
-                      <ActivityIndicator
-                        size={getResponsiveFontSize(16)}
-                        color={iconColor}
-                      />
-                    ) : (
-                      <MaterialCommunityIcons
-                        name={"chevron-right"}
-                        size={getResponsiveFontSize(16)}
-                        color={iconColor}
-                      />
-                    )}
+                    <MaterialCommunityIcons
+                      name={"chevron-right"}
+                      size={getResponsiveFontSize(16)}
+                      color={iconColor}
+                    />
                   </Pressable>
                 </View>
                 <FlatList
@@ -801,6 +824,10 @@ const styles = StyleSheet.create({
     marginBottom: getResponsiveHeight(3.6),
   },
   pinnedCardWrapper: {},
+  inlineSheetWrapper: {
+    marginHorizontal: 0,
+    marginVertical: getResponsiveHeight(3.6),
+  },
   infoWrapper: {
     borderRadius: getResponsiveWidth(4),
     overflow: "hidden",
@@ -42,7 +42,7 @@ export default function CreateQRScreen() {
       <ThemedVietQRCard
         style={styles.pinnedCardWrapper}
         code={item.code}
-        type={item.type}
+        type={item.type as "bank" | "store" | "ewallet" | "vietqr"}
         metadata={metadata.toString()}
         accountName={item.account_name}
         accountNumber={item.account_number}
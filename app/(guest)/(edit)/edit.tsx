@@ -9,8 +9,9 @@ import QRRecord from '@/types/qrType';
 import { insertOrUpdateQrCodes } from '@/services/localDB/qrDB';
 import { t } from '@/i18n';
 import { useLocale } from '@/context/LocaleContext';
-import { BrandItem, CategoryItem, FormParams, MetadataTypeItem } from '@/components/forms/QRForm';
+import { BrandItem, CategoryItem, FormParams, getMetadataTypeItem, getWifiFormFields } from '@/components/forms/QRForm';
 import { returnItemData } from '@/utils/returnItemData';
+import { normalizeSymbology } from '@/utils/symbology';
 
 const EditScreen: React.FC = () => {
   const dispatch = useDispatch();
@@ -24,25 +25,21 @@ const EditScreen: React.FC = () => {
     bank: { display: t('editScreen.bankCategory'), value: 'bank' },
     ewallet: { display: t('editScreen.ewalletCategory'), value: 'ewallet' },
     store: { display: t('editScreen.storeCategory'), value: 'store' },
+    wifi: { display: t('editScreen.wifiCategory'), value: 'wifi' },
+    flight: { display: t('editScreen.flightCategory'), value: 'flight' },
   }), [t]);
 
-  // Memoized metadata type data
-  const metadataTypeData: MetadataTypeItem[] = useMemo(() => ([
-    { display: t('editScreen.qr'), value: 'qr' },
-    { display: t('editScreen.barcode'), value: 'barcode' },
-  ]), [t]);
-
   // Memoized getItemDataHelper function
   const getItemDataHelper = useCallback((itemCode: string, locale: string): BrandItem | null => {
     const itemData = returnItemData(itemCode);
-    if (!itemData || !['bank', 'store', 'ewallet'].includes(itemData.type)) {
+    if (!itemData || !['bank', 'store', 'ewallet', 'wifi', 'flight'].includes(itemData.type)) {
       return null;
     }
     return {
       code: itemCode,
       name: itemData.name,
       full_name: itemData.full_name[locale] || itemData.full_name['en'] || itemData.name,
-      type: itemData.type as 'bank' | 'store' | 'ewallet', // Type assertion is safe due to the check above
+      type: itemData.type as 'bank' | 'store' | 'ewallet' | 'wifi' | 'flight', // Type assertion is safe due to the check above
     };
   }, []);
 
@@ -52,17 +49,22 @@ const EditScreen: React.FC = () => {
       return {
         category: null,
         brand: null,
-        metadataType: metadataTypeData[0],
+        metadataType: getMetadataTypeItem('qr'),
         metadata: '',
         accountName: '',
         accountNumber: '',
+        label: '',
+        notes: '',
+        validFrom: '',
+        validUntil: '',
+        ...getWifiFormFields(),
       };
     }
 
     const categoryKey = qrRecord.type as keyof typeof categoryMap;
     const category = categoryMap[categoryKey] || null;
     const brand = qrRecord.code ? getItemDataHelper(qrRecord.code, locale) : null;
-    const metadataType = metadataTypeData.find(item => item.value === qrRecord.metadata_type) || metadataTypeData[0];
+    const metadataType = getMetadataTypeItem(normalizeSymbology(qrRecord.metadata_type));
 
     return {
       category: category as CategoryItem | null,
@@ -71,8 +73,13 @@ const EditScreen: React.FC = () => {
       metadata: qrRecord.metadata,
       accountName: qrRecord.account_name,
       accountNumber: qrRecord.account_number,
+      label: qrRecord.label ?? '',
+      notes: qrRecord.notes ?? '',
+      validFrom: qrRecord.valid_from ?? '',
+      validUntil: qrRecord.valid_until ?? '',
+      ...getWifiFormFields(qrRecord.type === 'wifi' ? qrRecord.metadata : undefined),
     };
-  }, [qrRecord, categoryMap, metadataTypeData, getItemDataHelper, locale]);
+  }, [qrRecord, categoryMap, getItemDataHelper, locale]);
 
   // Memoized form submission handler
   const handleFormSubmit = useCallback(async (values: FormParams, { setSubmitting, setFieldError }: FormikHelpers<FormParams>) => {
@@ -87,6 +94,10 @@ const EditScreen: React.FC = () => {
       metadata_type: values.metadataType?.value || 'qr',
       account_name: values.accountName,
       account_number: values.accountNumber,
+      label: values.label.trim(),
+      notes: values.notes.trim(),
+      valid_from: values.validFrom.trim(),
+      valid_until: values.validUntil.trim(),
       type: values.category?.value || 'store',
       updated: new Date().toISOString(),
       is_synced: false,
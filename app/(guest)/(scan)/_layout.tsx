@@ -11,10 +11,12 @@ import { getResponsiveHeight } from '@/utils/responsive';
 export default function ScanLayout() {
   const segments = useSegments().toString();
   const showHeader = segments.includes('permission');
+  // The history screen does not use the camera.
+  const needsCamera = !showHeader && !segments.includes('history');
   const onNavigateBack = useRouter().back;
   const { hasPermission } = useCameraPermission(); // Add permission check
 
-  if (!hasPermission && !showHeader) {
+  if (!hasPermission && needsCamera) {
       return (
         <ThemedView style={styles.container}>
            <Redirect href="/(guest)/(scan)/permission" />
@@ -32,6 +34,7 @@ export default function ScanLayout() {
       >
         <Stack.Screen name="scan-main" />
         <Stack.Screen name="permission" />
+        <Stack.Screen name="history" />
       </Stack>
       {showHeader &&
         <View style={styles.headerContainer}>
@@ -0,0 +1,499 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { StyleSheet, View, Pressable, FlatList } from "react-native";
+import { router, useFocusEffect } from "expo-router";
+import { useSelector } from "react-redux";
+import { throttle } from "lodash";
+import BottomSheet from "@gorhom/bottom-sheet";
+import { MaterialIcons, MaterialCommunityIcons } from "@expo/vector-icons";
+
+// Components
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedButton } from "@/components/buttons/ThemedButton";
+import { ThemedModal } from "@/components/modals/ThemedIconModal";
+import { ThemedTopToast } from "@/components/toast/ThemedTopToast";
+import ThemedReuseableSheet from "@/components/bottomsheet/ThemedReusableSheet";
+import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
+import { WifiNetwork, buildWifiPayload } from "@/utils/wifiQR";
+import LinkingSheetContent from "@/components/bottomsheet/LinkingSheetContent";
+
+// Utils and hooks
+import { t } from "@/i18n";
+import { Colors } from "@/constants/Colors";
+import { GUEST_USER_ID } from "@/constants/Constants";
+import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
+import { useTheme } from "@/context/ThemeContext";
+import { useLocale } from "@/context/LocaleContext";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { runScanResultAction } from "@/hooks/useGalleryPicker";
+import { analyzeCode, ScanResult } from "@/utils/qrUtils";
+import {
+  getScanHistory,
+  deleteScanHistoryEntries,
+  clearScanHistory,
+} from "@/services/localDB/scanHistoryDB";
+import { RootState } from "@/store/rootReducer";
+import ScanHistoryRecord from "@/types/scanHistoryType";
+import SheetType from "@/types/sheetType";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+  getResponsiveHeight,
+} from "@/utils/responsive";
+
+interface HistoryEntry {
+  record: ScanHistoryRecord;
+  result: ScanResult;
+}
+
+const ScanHistoryScreen = () => {
+  const { locale } = useLocale();
+  const { currentTheme: theme } = useTheme();
+  const { borderColor } = useGlassStyle();
+  const userId = useSelector(
+    (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID
+  );
+  const bottomSheetRef = useRef<BottomSheet>(null);
+
+  const [history, setHistory] = useState<ScanHistoryRecord[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isClearModalVisible, setIsClearModalVisible] = useState(false);
+  const [toastMessage, setToastMessage] = useState("");
+  const [isToastVisible, setIsToastVisible] = useState(false);
+
+  // States for sheet content
+  const [sheetType, setSheetType] = useState<SheetType>(null);
+  const [linkingUrl, setLinkingUrl] = useState<string | null>(null);
+  const [wifiNetwork, setWifiNetwork] = useState<WifiNetwork | null>(null);
+
+  const isSelecting = selectedIds.length > 0;
+  const iconColor = theme === "light" ? Colors.light.icon : Colors.dark.icon;
+  const sectionsColors =
+    theme === "light" ? Colors.light.cardBackground : Colors.dark.cardBackground;
+
+  const showToast = useCallback((message: string) => {
+    setToastMessage(message);
+    setIsToastVisible(true);
+  }, []);
+
+  const loadHistory = useCallback(async () => {
+    setHistory(await getScanHistory(userId));
+  }, [userId]);
+
+  // Reload on focus so entries saved from the add screen show as saved.
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [loadHistory])
+  );
+
+  const entries: HistoryEntry[] = useMemo(
+    () =>
+      history.map((record) => ({
+        record,
+        result: analyzeCode(record.raw_value, {
+          codeFormat: record.code_format ?? undefined,
+        }),
+      })),
+    [history]
+  );
+
+  const onNavigateBack = useCallback(() => router.back(), []);
+
+  const onNavigateToAddScreen = useMemo(
+    () =>
+      throttle(
+        (
+          codeFormat?: number,
+          codeValue?: string,
+          bin?: string,
+          codeType?: string,
+          codeProvider?: string
+        ) => {
+          router.push({
+            pathname: `/(guest)/add-guest`,
+            params: {
+              codeFormat: codeFormat?.toString(),
+              codeValue,
+              codeBin: bin,
+              codeType,
+              codeProvider,
+            },
+          });
+        },
+        1000,
+        { leading: true, trailing: false }
+      ),
+    []
+  );
+
+  const onOpenSheet = useCallback(
+    (
+      type: SheetType,
+      _id?: string,
+      url?: string,
+      wifi?: WifiNetwork
+    ) => {
+      if (type === null) return;
+      setSheetType(type);
+      setLinkingUrl(url ?? null);
+      setWifiNetwork(wifi ?? null);
+      bottomSheetRef.current?.snapToIndex(0);
+    },
+    []
+  );
+
+  const handleSheetChange = useCallback((index: number) => {
+    if (index === -1) {
+      setSheetType(null);
+    }
+  }, []);
+
+  const toggleSelection = useCallback((id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+    );
+  }, []);
+
+  const onEntryPress = useCallback(
+    ({ record, result }: HistoryEntry) => {
+      if (isSelecting) {
+        toggleSelection(record.id);
+        return;
+      }
+      runScanResultAction(result, { onOpenSheet, onNavigateToAddScreen });
+    },
+    [isSelecting, toggleSelection, onOpenSheet, onNavigateToAddScreen]
+  );
+
+  // Promotes any entry into the add screen with the same params the
+  // gallery picker uses, including Wi-Fi and URL codes.
+  const onSaveEntry = useCallback(
+    ({ result }: HistoryEntry) => {
+      if (result.codeType === "bank" || result.codeType === "ewallet") {
+        onNavigateToAddScreen(
+          result.codeFormat,
+          result.rawCodeValue,
+          result.bin,
+          result.codeType,
+          result.provider
+        );
+      } else if (
+        result.codeType === "contact" ||
+        result.codeType === "event"
+      ) {
+        onNavigateToAddScreen(
+          result.codeFormat,
+          result.rawCodeValue,
+          undefined,
+          result.codeType
+        );
+      } else if (result.codeType === "boardingPass") {
+        onNavigateToAddScreen(
+          result.codeFormat,
+          result.rawCodeValue,
+          undefined,
+          "flight"
+        );
+      } else if (result.codeType === "WIFI" && result.security !== "EAP") {
+        onNavigateToAddScreen(
+          result.codeFormat,
+          result.rawCodeValue,
+          undefined,
+          "wifi"
+        );
+      } else {
+        onNavigateToAddScreen(result.codeFormat, result.rawCodeValue);
+      }
+    },
+    [onNavigateToAddScreen]
+  );
+
+  const onDeleteSelected = useCallback(async () => {
+    try {
+      await deleteScanHistoryEntries(selectedIds, userId);
+      setSelectedIds([]);
+      await loadHistory();
+    } catch {
+      showToast(t("scanHistoryScreen.deleteError"));
+    }
+  }, [selectedIds, userId, loadHistory, showToast]);
+
+  const onClearAll = useCallback(async () => {
+    setIsClearModalVisible(false);
+    try {
+      await clearScanHistory(userId);
+      setSelectedIds([]);
+      await loadHistory();
+    } catch {
+      showToast(t("scanHistoryScreen.deleteError"));
+    }
+  }, [userId, loadHistory, showToast]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: HistoryEntry }) => {
+      const { record, result } = item;
+      const isSelected = selectedIds.includes(record.id);
+      return (
+        <Pressable
+          onPress={() => onEntryPress(item)}
+          onLongPress={() => toggleSelection(record.id)}
+          style={[
+            styles.entry,
+            { backgroundColor: sectionsColors, borderColor },
+          ]}
+        >
+          <View style={styles.entryIconContainer}>
+            {isSelecting ? (
+              <MaterialCommunityIcons
+                name={isSelected ? "checkbox-marked" : "checkbox-blank-outline"}
+                size={getResponsiveFontSize(20)}
+                color={iconColor}
+              />
+            ) : (
+              <MaterialIcons
+                name={result.iconName}
+                size={getResponsiveFontSize(20)}
+                color={iconColor}
+              />
+            )}
+          </View>
+          <View style={styles.entryTextContainer}>
+            <ThemedText style={styles.entryValue} numberOfLines={2}>
+              {result.codeType === "contact" && result.contact.name
+                ? result.contact.name
+                : result.codeType === "event" && result.event.summary
+                  ? result.event.summary
+                  : result.codeType === "boardingPass"
+                    ? result.boardingPass.passengerName
+                    : result.codeType === "gs1" && result.gs1.gtin
+                      ? `GTIN ${result.gs1.gtin}`
+                      : result.codeType === "payment" &&
+                          result.payment.beneficiary
+                        ? result.payment.beneficiary
+                        : record.raw_value}
+            </ThemedText>
+            <ThemedText style={styles.entryMeta} numberOfLines={1}>
+              {`${t(`scanHistoryScreen.types.${result.codeType}`)} · ${new Date(
+                record.scanned_at
+              ).toLocaleString(locale)}`}
+            </ThemedText>
+          </View>
+          {record.is_saved ? (
+            <MaterialCommunityIcons
+              name="check-circle-outline"
+              size={getResponsiveFontSize(18)}
+              color={iconColor}
+            />
+          ) : (
+            !isSelecting && (
+              <ThemedButton
+                iconName="plus"
+                variant="text"
+                onPress={() => onSaveEntry(item)}
+              />
+            )
+          )}
+        </Pressable>
+      );
+    },
+    [
+      selectedIds,
+      isSelecting,
+      sectionsColors,
+      borderColor,
+      iconColor,
+      locale,
+      onEntryPress,
+      onSaveEntry,
+      toggleSelection,
+    ]
+  );
+
+  // Enterprise networks need credentials a Wi-Fi card cannot hold.
+  const onSaveWifiToWallet = useCallback(() => {
+    if (!wifiNetwork || wifiNetwork.security === "EAP") return;
+    bottomSheetRef.current?.close();
+    onNavigateToAddScreen(
+      undefined,
+      buildWifiPayload(wifiNetwork),
+      undefined,
+      "wifi",
+      undefined
+    );
+  }, [wifiNetwork, onNavigateToAddScreen]);
+
+  const renderSheetContent = () => {
+    switch (sheetType) {
+      case "wifi":
+        return wifiNetwork ? (
+          <WifiSheetContent
+            network={wifiNetwork}
+            onSaveToWallet={
+              wifiNetwork.security !== "EAP" ? onSaveWifiToWallet : undefined
+            }
+          />
+        ) : null;
+      case "linking":
+        return (
+          <LinkingSheetContent
+            url={linkingUrl || ""}
+            onCopySuccess={() => showToast(t("scanScreen.copied"))}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.blurContainer} />
+      <View style={styles.headerContainer}>
+        <View style={styles.titleButtonContainer}>
+          <ThemedButton
+            iconName="chevron-left"
+            style={styles.titleButton}
+            onPress={onNavigateBack}
+          />
+          <ThemedText style={styles.title} type="title">
+            {t("scanHistoryScreen.title")}
+          </ThemedText>
+        </View>
+        {isSelecting ? (
+          <View style={styles.titleButtonContainer}>
+            <ThemedButton iconName="close" onPress={() => setSelectedIds([])} />
+            <ThemedButton iconName="delete-outline" onPress={onDeleteSelected} />
+          </View>
+        ) : (
+          history.length > 0 && (
+            <ThemedButton
+              iconName="delete-sweep-outline"
+              onPress={() => setIsClearModalVisible(true)}
+            />
+          )
+        )}
+      </View>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.record.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <ThemedText style={styles.emptyText}>
+            {t("scanHistoryScreen.empty")}
+          </ThemedText>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+      <ThemedModal
+        primaryActionText={t("scanHistoryScreen.clear")}
+        onPrimaryAction={onClearAll}
+        onDismiss={() => setIsClearModalVisible(false)}
+        dismissable={true}
+        onSecondaryAction={() => setIsClearModalVisible(false)}
+        secondaryActionText={t("scanHistoryScreen.cancel")}
+        title={t("scanHistoryScreen.confirmClearTitle")}
+        message={t("scanHistoryScreen.confirmClearMessage")}
+        isVisible={isClearModalVisible}
+        iconName="delete"
+      />
+      <ThemedTopToast
+        message={toastMessage}
+        isVisible={isToastVisible}
+        onVisibilityToggle={setIsToastVisible}
+        duration={2000}
+      />
+      <ThemedReuseableSheet
+        ref={bottomSheetRef}
+        title={
+          sheetType === "wifi" ? t("scanScreen.wifi") : t("scanScreen.linking")
+        }
+        onChange={handleSheetChange}
+        snapPoints={
+          sheetType === "wifi"
+            ? wifiNetwork?.password
+              ? ["45%"]
+              : ["38%"]
+            : ["50%"]
+        }
+        styles={{
+          customContent: {
+            marginHorizontal: getResponsiveWidth(3.6),
+          },
+        }}
+        customContent={<View>{renderSheetContent()}</View>}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: getResponsiveWidth(3.6),
+    marginTop: getResponsiveHeight(10),
+    marginBottom: getResponsiveHeight(2),
+  },
+  titleButtonContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(3.6),
+  },
+  title: {
+    fontSize: getResponsiveFontSize(28),
+  },
+  titleButton: {
+    zIndex: 11,
+  },
+  blurContainer: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: STATUSBAR_HEIGHT,
+    zIndex: 10,
+  },
+  listContent: {
+    paddingHorizontal: getResponsiveWidth(3.6),
+    paddingBottom: getResponsiveHeight(4),
+    gap: getResponsiveHeight(1.2),
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(3.6),
+    paddingVertical: getResponsiveHeight(1.2),
+    paddingHorizontal: getResponsiveWidth(4.8),
+    borderRadius: getResponsiveWidth(4),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  entryIconContainer: {
+    width: getResponsiveWidth(6),
+    alignItems: "center",
+  },
+  entryTextContainer: {
+    flex: 1,
+  },
+  entryValue: {
+    fontSize: getResponsiveFontSize(14),
+  },
+  entryMeta: {
+    fontSize: getResponsiveFontSize(12),
+    opacity: 0.6,
+    marginTop: getResponsiveHeight(0.3),
+  },
+  emptyText: {
+    textAlign: "center",
+    opacity: 0.7,
+    marginTop: getResponsiveHeight(4),
+  },
+});
+
+export default React.memo(ScanHistoryScreen);
@@ -24,6 +24,8 @@ export default function ScanLayout() {
         <Stack.Screen name="settings-guest" />
         <Stack.Screen name="theme" />
         <Stack.Screen name="language" />
+        <Stack.Screen name="backup" />
+        <Stack.Screen name="import" />
       </Stack>
       {showHeader &&
         <View style={styles.headerContainer}>
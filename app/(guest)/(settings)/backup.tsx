@@ -0,0 +1,429 @@
+import React, { useState, useCallback } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import { KeyboardAwareScrollView } from "react-native-keyboard-aware-scroll-view";
+import { router } from "expo-router";
+import { useSelector, useDispatch } from "react-redux";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+// Components
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { ThemedInput } from "@/components/Inputs/ThemedInput";
+import { ThemedButton } from "@/components/buttons/ThemedButton";
+import { ThemedToast } from "@/components/toast/ThemedToast";
+
+// Utils and hooks
+import { Colors } from "@/constants/Colors";
+import { GUEST_USER_ID } from "@/constants/Constants";
+import { t } from "@/i18n";
+import {
+  exportBackup,
+  shareBackupFile,
+  pickBackupFile,
+  readBackupFile,
+  previewRestore,
+  restoreBackup,
+  isBackupError,
+  BackupPayload,
+  RestorePreview,
+} from "@/services/backup";
+import { getQrCodesByUserId } from "@/services/localDB/qrDB";
+import { useTheme } from "@/context/ThemeContext";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+  getResponsiveHeight,
+} from "@/utils/responsive";
+import { STATUSBAR_HEIGHT } from "@/constants/Statusbar";
+import { RootState } from "@/store/rootReducer";
+import { setQrData } from "@/store/reducers/qrSlice";
+
+interface PendingRestore {
+  payload: BackupPayload;
+  preview: RestorePreview;
+}
+
+const BackupScreen = () => {
+  const { currentTheme: theme } = useTheme();
+  const { borderColor } = useGlassStyle();
+  const dispatch = useDispatch();
+  const userId = useSelector(
+    (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID
+  );
+
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [lockedFileUri, setLockedFileUri] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(
+    null
+  );
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const [isToastVisible, setIsToastVisible] = useState(false);
+  const [toastIcon, setToastIcon] = useState<"error" | "check">("error");
+  const [toastMessage, setToastMessage] = useState("");
+
+  const iconColor = theme === "light" ? Colors.light.icon : Colors.dark.icon;
+  const sectionsColors =
+    theme === "light" ? Colors.light.cardBackground : Colors.dark.cardBackground;
+
+  const onDismissToast = useCallback(() => setIsToastVisible(false), []);
+  const onNavigateBack = useCallback(() => router.back(), []);
+
+  const showToast = useCallback(
+    (message: string, icon: "error" | "check" = "error") => {
+      setToastMessage(message);
+      setToastIcon(icon);
+      setIsToastVisible(true);
+    },
+    []
+  );
+
+  const showBackupError = useCallback(
+    (error: unknown) => {
+      if (isBackupError(error)) {
+        showToast(t(`backupScreen.errors.${error.code}`));
+      } else {
+        console.error("Backup operation failed:", error);
+        showToast(t("backupScreen.errors.generic"));
+      }
+    },
+    [showToast]
+  );
+
+  const onExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const fileUri = await exportBackup(
+        userId,
+        exportPassphrase.trim() || undefined
+      );
+      await shareBackupFile(fileUri);
+      setExportPassphrase("");
+    } catch (error) {
+      showBackupError(error);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [userId, exportPassphrase, showBackupError]);
+
+  const loadBackup = useCallback(
+    async (fileUri: string, passphrase?: string) => {
+      try {
+        const payload = await readBackupFile(fileUri, passphrase);
+        const preview = await previewRestore(payload, userId);
+        setLockedFileUri(null);
+        setImportPassphrase("");
+        setRestoreSettings(false);
+        setPendingRestore({ payload, preview });
+      } catch (error) {
+        if (isBackupError(error) && error.code === "passphrase_required") {
+          setLockedFileUri(fileUri);
+          return;
+        }
+        showBackupError(error);
+      }
+    },
+    [userId, showBackupError]
+  );
+
+  const onChooseFile = useCallback(async () => {
+    setIsImporting(true);
+    try {
+      const fileUri = await pickBackupFile();
+      if (!fileUri) return;
+      setPendingRestore(null);
+      await loadBackup(fileUri);
+    } catch (error) {
+      showBackupError(error);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [loadBackup, showBackupError]);
+
+  const onUnlock = useCallback(async () => {
+    if (!lockedFileUri || !importPassphrase) return;
+    setIsImporting(true);
+    try {
+      await loadBackup(lockedFileUri, importPassphrase);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [lockedFileUri, importPassphrase, loadBackup]);
+
+  const onRestore = useCallback(async () => {
+    if (!pendingRestore) return;
+    setIsImporting(true);
+    try {
+      await restoreBackup(pendingRestore.payload, userId, { restoreSettings });
+      dispatch(setQrData(await getQrCodesByUserId(userId)));
+      setPendingRestore(null);
+      showToast(t("backupScreen.restoreSuccess"), "check");
+    } catch (error) {
+      showBackupError(error);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [
+    pendingRestore,
+    userId,
+    restoreSettings,
+    dispatch,
+    showToast,
+    showBackupError,
+  ]);
+
+  const renderPreviewRow = (label: string, value: number) => (
+    <View style={styles.previewRow} key={label}>
+      <ThemedText style={styles.previewLabel}>{label}</ThemedText>
+      <ThemedText style={styles.previewValue}>{value}</ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ThemedView style={styles.blurContainer} />
+      <View style={styles.headerContainer}>
+        <View style={styles.titleButtonContainer}>
+          <ThemedButton
+            iconName="chevron-left"
+            style={styles.titleButton}
+            onPress={onNavigateBack}
+          />
+        </View>
+        <ThemedText style={styles.title} type="title">
+          {t("backupScreen.title")}
+        </ThemedText>
+      </View>
+      <KeyboardAwareScrollView
+        keyboardShouldPersistTaps="handled"
+        style={styles.scrollContainer}
+        contentContainerStyle={styles.scrollContentContainer}
+        extraScrollHeight={getResponsiveHeight(12)}
+        showsVerticalScrollIndicator={false}
+        enableOnAndroid
+      >
+        <ThemedText style={styles.sectionTitle}>
+          {t("backupScreen.exportTitle")}
+        </ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          {t("backupScreen.exportDescription")}
+        </ThemedText>
+        <ThemedInput
+          style={styles.input}
+          label={t("backupScreen.passphrase")}
+          placeholder={t("backupScreen.passphrasePlaceholder")}
+          secureTextEntry
+          value={exportPassphrase}
+          onChangeText={setExportPassphrase}
+          disabled={isExporting}
+          disableOpacityChange={false}
+        />
+        <ThemedButton
+          label={t("backupScreen.export")}
+          iconName="export-variant"
+          style={styles.actionButton}
+          onPress={onExport}
+          loading={isExporting}
+          loadingLabel={t("backupScreen.exporting")}
+        />
+
+        <ThemedText style={styles.sectionTitle}>
+          {t("backupScreen.importTitle")}
+        </ThemedText>
+        <ThemedText style={styles.sectionDescription}>
+          {t("backupScreen.importDescription")}
+        </ThemedText>
+        <ThemedButton
+          label={t("backupScreen.chooseFile")}
+          iconName="file-import-outline"
+          style={styles.actionButton}
+          onPress={onChooseFile}
+          disabled={isImporting}
+        />
+
+        {lockedFileUri && (
+          <>
+            <ThemedInput
+              style={styles.input}
+              label={t("backupScreen.passphrase")}
+              placeholder={t("backupScreen.unlockPlaceholder")}
+              secureTextEntry
+              value={importPassphrase}
+              onChangeText={setImportPassphrase}
+              onSubmitEditing={onUnlock}
+              disabled={isImporting}
+              disableOpacityChange={false}
+            />
+            <ThemedButton
+              label={t("backupScreen.unlock")}
+              iconName="lock-open-variant-outline"
+              style={styles.actionButton}
+              onPress={onUnlock}
+              loading={isImporting}
+              loadingLabel={t("backupScreen.unlocking")}
+            />
+          </>
+        )}
+
+        {pendingRestore && (
+          <View
+            style={[
+              styles.previewContainer,
+              { backgroundColor: sectionsColors, borderColor },
+            ]}
+          >
+            <ThemedText style={styles.previewTitle}>
+              {t("backupScreen.previewTitle")}
+            </ThemedText>
+            {renderPreviewRow(
+              t("backupScreen.previewTotal"),
+              pendingRestore.preview.total
+            )}
+            {renderPreviewRow(
+              t("backupScreen.previewAdd"),
+              pendingRestore.preview.toAdd
+            )}
+            {renderPreviewRow(
+              t("backupScreen.previewUpdate"),
+              pendingRestore.preview.toUpdate
+            )}
+            {renderPreviewRow(
+              t("backupScreen.previewSkip"),
+              pendingRestore.preview.toSkip
+            )}
+            {pendingRestore.preview.hasSettings && (
+              <Pressable
+                style={styles.previewRow}
+                onPress={() => setRestoreSettings((prev) => !prev)}
+              >
+                <ThemedText style={styles.previewLabel}>
+                  {t("backupScreen.restoreSettings")}
+                </ThemedText>
+                <MaterialCommunityIcons
+                  name={
+                    restoreSettings ? "checkbox-marked" : "checkbox-blank-outline"
+                  }
+                  size={getResponsiveFontSize(18)}
+                  color={iconColor}
+                />
+              </Pressable>
+            )}
+          </View>
+        )}
+        {pendingRestore && (
+          <ThemedButton
+            label={t("backupScreen.restore")}
+            iconName="backup-restore"
+            style={styles.actionButton}
+            onPress={onRestore}
+            loading={isImporting}
+            loadingLabel={t("backupScreen.restoring")}
+          />
+        )}
+      </KeyboardAwareScrollView>
+      <ThemedToast
+        message={toastMessage}
+        isVisible={isToastVisible}
+        style={styles.toastContainer}
+        onDismiss={onDismissToast}
+        onVisibilityToggle={setIsToastVisible}
+        iconName={toastIcon}
+      />
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: getResponsiveWidth(3.6),
+    gap: getResponsiveWidth(3.6),
+    marginTop: getResponsiveHeight(10),
+    marginBottom: getResponsiveHeight(2),
+  },
+  titleButtonContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(3.6),
+  },
+  title: {
+    fontSize: getResponsiveFontSize(28),
+  },
+  titleButton: {
+    zIndex: 11,
+  },
+  blurContainer: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: STATUSBAR_HEIGHT,
+    zIndex: 10,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: getResponsiveWidth(3.6),
+  },
+  scrollContentContainer: {
+    paddingBottom: getResponsiveHeight(3.6),
+  },
+  sectionTitle: {
+    fontSize: getResponsiveFontSize(18),
+    fontWeight: "bold",
+    marginTop: getResponsiveHeight(2),
+  },
+  sectionDescription: {
+    fontSize: getResponsiveFontSize(14),
+    opacity: 0.7,
+    marginTop: getResponsiveHeight(0.6),
+  },
+  input: {
+    marginTop: getResponsiveHeight(1.8),
+  },
+  actionButton: {
+    marginTop: getResponsiveHeight(1.8),
+  },
+  previewContainer: {
+    marginTop: getResponsiveHeight(1.8),
+    paddingVertical: getResponsiveHeight(1.2),
+    paddingHorizontal: getResponsiveWidth(4.8),
+    borderRadius: getResponsiveWidth(4),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  previewTitle: {
+    fontSize: getResponsiveFontSize(16),
+    fontWeight: "bold",
+    marginBottom: getResponsiveHeight(0.6),
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: getResponsiveHeight(0.6),
+  },
+  previewLabel: {
+    fontSize: getResponsiveFontSize(14),
+  },
+  previewValue: {
+    fontSize: getResponsiveFontSize(14),
+    fontWeight: "bold",
+  },
+  toastContainer: {
+    position: "absolute",
+    bottom: getResponsiveHeight(3.6),
+    left: 0,
+    right: 0,
+    marginHorizontal: getResponsiveWidth(3.6),
+  },
+});
+
+export default BackupScreen;
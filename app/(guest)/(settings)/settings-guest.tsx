@@ -207,6 +207,18 @@ function SettingsGuestScreen() {
         onPress: () => router.push("/theme"),
         hideForGuest: false,
       },
+      {
+        leftIcon: "backup",
+        settingsTitle: t("settingsScreen.backup"),
+        onPress: () => router.push("/backup"),
+        hideForGuest: false,
+      },
+      {
+        leftIcon: "upload-file",
+        settingsTitle: t("settingsScreen.import"),
+        onPress: () => router.push("/import"),
+        hideForGuest: false,
+      },
     ],
   ];
 
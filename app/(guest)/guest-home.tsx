@@ -39,6 +39,8 @@ import { useThemeColor } from "@/hooks/useThemeColor";
 import { triggerHapticFeedback } from "@/utils/haptic";
 import { useGalleryPicker } from "@/hooks/useGalleryPicker";
 import SheetType from "@/types/sheetType";
+import CodeChoice from "@/types/codeChoiceType";
+import { DecodedImage } from "@/utils/imageDecode";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { ThemedFAB } from "@/components/buttons";
@@ -56,8 +58,10 @@ import { ThemedModal } from "@/components/modals/ThemedIconModal";
 import ThemedFilter from "@/components/ThemedFilter";
 import EmptyListItem from "@/components/lists/EmptyListItem";
 import LinkingSheetContent from "@/components/bottomsheet/LinkingSheetContent";
+import CodeChooserSheetContent from "@/components/bottomsheet/CodeChooserSheetContent";
 import SettingSheetContent from "@/components/bottomsheet/SettingSheetContent";
 import WifiSheetContent from "@/components/bottomsheet/WifiSheetContent";
+import { WifiNetwork, buildWifiPayload } from "@/utils/wifiQR";
 import {
   getResponsiveHeight,
   getResponsiveWidth,
@@ -100,10 +104,12 @@ function GuestHomeScreen() {
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [sheetType, setSheetType] = useState<SheetType>(null);
   const [linkingUrl, setLinkingUrl] = useState<string | null>(null);
-  const [wifiSsid, setWifiSsid] = useState<string | null>(null);
-  const [wifiPassword, setWifiPassword] = useState<string | null>(null);
-  const [wifiIsWep, setWifiIsWep] = useState(false);
-  const [wifiIsHidden, setWifiIsHidden] = useState(false);
+  const [wifiNetwork, setWifiNetwork] = useState<WifiNetwork | null>(null);
+  const [codeChooser, setCodeChooser] = useState<{
+    choices: CodeChoice[];
+    onSelect: (choice: CodeChoice) => void;
+    image?: DecodedImage;
+  } | null>(null);
   const [filter, setFilter] = useState("all");
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
 
@@ -363,18 +369,12 @@ function GuestHomeScreen() {
       type: SheetType,
       id?: string,
       url?: string,
-      ssid?: string,
-      password?: string,
-      isWep?: boolean,
-      isHidden?: boolean
+      wifi?: WifiNetwork
     ) => {
       setSheetType(type);
       setSelectedItemId(id || null);
-      if (type === "wifi" && ssid && password) {
-        setWifiSsid(ssid);
-        setWifiPassword(password);
-        setWifiIsWep(isWep ?? false);
-        setWifiIsHidden(isHidden ?? false);
+      if (type === "wifi" && wifi) {
+        setWifiNetwork(wifi);
       } else if (type === "linking" && url) {
         setLinkingUrl(url);
       }
@@ -390,9 +390,43 @@ function GuestHomeScreen() {
     [isSheetOpen]
   );
 
+  const onChooseCode = useCallback(
+    (
+      choices: CodeChoice[],
+      onSelect: (choice: CodeChoice) => void,
+      image?: DecodedImage
+    ) => {
+      setCodeChooser({ choices, onSelect, image });
+      setSheetType("codeChooser");
+      bottomSheetRef.current?.snapToIndex(0);
+    },
+    []
+  );
+
+  // Let the chooser close before the picked code opens its own sheet.
+  const onSelectChoice = useCallback(
+    (choice: CodeChoice) => {
+      bottomSheetRef.current?.close();
+      setTimeout(() => codeChooser?.onSelect(choice), 300);
+    },
+    [codeChooser]
+  );
+
+  const showToast = useCallback((message: string) => {
+    setTopToastMessage(message);
+    setIsTopToastVisible(true);
+  }, []);
+
+  const onDecodeFailed = useCallback(
+    () => showToast(t("scanScreen.imageNoCode")),
+    [showToast]
+  );
+
   const onOpenGallery = useGalleryPicker({
     onOpenSheet,
     onNavigateToAddScreen,
+    onChooseCode,
+    onDecodeFailed,
   });
 
   const scrollHandler = useAnimatedScrollHandler((event) => {
@@ -487,16 +521,14 @@ function GuestHomeScreen() {
           onMoreButtonPress={() => onOpenSheet("setting", item.id)}
           accountName={item.account_name}
           accountNumber={item.account_number}
+          label={item.label}
+          validUntil={item.valid_until}
           onDrag={drag}
         />
       </ScaleDecorator>
     ),
     [onNavigateToDetailScreen, onOpenSheet]
   );
-  const showToast = useCallback((message: string) => {
-    setTopToastMessage(message);
-    setIsTopToastVisible(true);
-  }, []);
   const handleCopySuccess = useCallback(
     () => showToast(t("homeScreen.copied")),
     [showToast]
@@ -547,17 +579,30 @@ function GuestHomeScreen() {
     }
   }, [localQrData.length]);
 
+  // Enterprise networks need credentials a Wi-Fi card cannot hold.
+  const onSaveWifiToWallet = useCallback(() => {
+    if (!wifiNetwork || wifiNetwork.security === "EAP") return;
+    bottomSheetRef.current?.close();
+    onNavigateToAddScreen(
+      undefined,
+      buildWifiPayload(wifiNetwork),
+      undefined,
+      "wifi",
+      undefined
+    );
+  }, [wifiNetwork, onNavigateToAddScreen]);
+
   const renderSheetContent = () => {
     switch (sheetType) {
       case "wifi":
-        return (
+        return wifiNetwork ? (
           <WifiSheetContent
-            ssid={wifiSsid || ""}
-            password={wifiPassword || ""}
-            isWep={wifiIsWep}
-            isHidden={wifiIsHidden}
+            network={wifiNetwork}
+            onSaveToWallet={
+              wifiNetwork.security !== "EAP" ? onSaveWifiToWallet : undefined
+            }
           />
-        );
+        ) : null;
       case "linking":
         return (
           <LinkingSheetContent
@@ -572,6 +617,14 @@ function GuestHomeScreen() {
             onDelete={onDeleteSheetPress}
           />
         );
+      case "codeChooser":
+        return codeChooser ? (
+          <CodeChooserSheetContent
+            choices={codeChooser.choices}
+            image={codeChooser.image}
+            onSelect={onSelectChoice}
+          />
+        ) : null;
       default:
         return null;
     }
@@ -770,7 +823,9 @@ function GuestHomeScreen() {
               ? t("homeScreen.wifi")
               : sheetType === "linking"
                 ? t("homeScreen.linking")
-                : t("homeScreen.settings")
+                : sheetType === "codeChooser"
+                  ? t("scanScreen.chooseCode")
+                  : t("homeScreen.settings")
         }
         onChange={handleSheetChange}
         snapPoints={
@@ -779,8 +834,12 @@ function GuestHomeScreen() {
             : sheetType === "wifi"
               ? ["38%"]
               : sheetType === "linking"
-                ? ["35%"]
-                : ["35%"]
+                ? ["50%"]
+                : sheetType === "codeChooser"
+                  ? codeChooser?.image
+                    ? ["75%"]
+                    : ["50%"]
+                  : ["35%"]
         }
         styles={{
           customContent: {
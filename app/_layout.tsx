@@ -29,8 +29,7 @@ import { store } from "@/store";
 import { setSyncStatus, clearAuthData } from "@/store/reducers/authSlice";
 
 // --- Services ---
-import { createTable as createUserTable } from "@/services/localDB/userDB";
-import { createQrTable } from "@/services/localDB/qrDB";
+import { runMigrations } from "@/services/localDB/migrations";
 import {
   checkInitialAuth,
   refreshAuthToken,
@@ -129,13 +128,8 @@ class DatabaseManager {
 
   private static async performInitialization(): Promise<void> {
     try {
-      await createUserTable();
-      
-      // Add a small delay to ensure the first operation completes
-      await new Promise(resolve => setTimeout(resolve, 50));
-      
-      await createQrTable();
-      
+      // Creates or upgrades the schema (users, qrcodes, ...) in version order
+      await runMigrations();
     } catch (error) {
       console.error('[DatabaseManager] Database initialization failed:', error);
       throw error;
@@ -19,9 +19,23 @@ import { ThemedButton } from "./buttons";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 // No longer need reanimated imports here!
 
+const MANAGE_COLLECTIONS_KEY = "manage-collections";
+
+const COLLECTION_FILTER_PREFIX = "collection:";
+
+export const getCollectionFilterKey = (collectionId: string) =>
+  `${COLLECTION_FILTER_PREFIX}${collectionId}`;
+
+export const getCollectionIdFromFilter = (filter: string): string | null =>
+  filter.startsWith(COLLECTION_FILTER_PREFIX)
+    ? filter.slice(COLLECTION_FILTER_PREFIX.length)
+    : null;
+
 type ThemedFilterProps = {
   selectedFilter: string;
   onFilterChange: (filter: string) => void;
+  collections?: { id: string; name: string; icon?: string }[];
+  onManageCollections?: () => void;
   style?: StyleProp<ViewStyle>;
   variant?: "default" | "glass";
   glassIntensity?: GlassIntensity;
@@ -31,6 +45,8 @@ interface FilterItemType {
   key: string;
   label: string;
   iconName: keyof typeof MaterialCommunityIcons.glyphMap;
+  // Collection chips show their name, type filters are icon-only.
+  showLabel?: boolean;
 }
 
 // --- Filter Button (Now Simplified) ---
@@ -67,9 +83,18 @@ const FilterButton = React.memo(
       <ThemedButton
         onPress={() => onPress(item.key)} // Directly call the handler
         iconName={item.iconName}
+        label={item.showLabel ? item.label : undefined}
         variant={isSelected ? "solid" : variant}
         iconColor={isSelected ? selectedIconColor : unselectedIconColor}
-        style={[styles.filterButton, isSelected && selectedStyle]}
+        textStyle={
+          item.showLabel && {
+            color: isSelected ? selectedIconColor : unselectedIconColor,
+          }
+        }
+        style={[
+          item.showLabel ? styles.collectionButton : styles.filterButton,
+          isSelected && selectedStyle,
+        ]}
         glassIntensity={glassIntensity}
         // Set debounce to 0 for instant feedback on filter taps
         debounceTime={0}
@@ -81,6 +106,8 @@ const FilterButton = React.memo(
 const ThemedFilter = ({
   selectedFilter,
   onFilterChange,
+  collections = [],
+  onManageCollections,
   style,
   variant = "default",
   glassIntensity = "medium",
@@ -96,7 +123,7 @@ const ThemedFilter = ({
     setFilterKey((prev) => prev + 1);
   }, [locale]);
 
-  const filters: FilterItemType[] = useMemo(
+  const typeFilters: FilterItemType[] = useMemo(
     () => [
       { key: "all", label: t("homeScreen.filters.all"), iconName: "grid" },
       { key: "bank", label: t("homeScreen.filters.bank"), iconName: "bank" },
@@ -110,26 +137,55 @@ const ThemedFilter = ({
         label: t("homeScreen.filters.store"),
         iconName: "ticket-percent",
       },
+      { key: "wifi", label: t("homeScreen.filters.wifi"), iconName: "wifi" },
+      { key: "flight", label: t("homeScreen.filters.flight"), iconName: "airplane" },
     ],
     [locale]
   );
 
+  const filters: FilterItemType[] = useMemo(() => {
+    const collectionFilters: FilterItemType[] = collections.map(
+      (collection) => ({
+        key: getCollectionFilterKey(collection.id),
+        label: collection.name,
+        iconName: (collection.icon ||
+          "folder") as keyof typeof MaterialCommunityIcons.glyphMap,
+        showLabel: true,
+      })
+    );
+    const manageFilter: FilterItemType[] = onManageCollections
+      ? [
+          {
+            key: MANAGE_COLLECTIONS_KEY,
+            label: t("homeScreen.filters.manageCollections"),
+            iconName: "folder-plus",
+          },
+        ]
+      : [];
+    return [...typeFilters, ...collectionFilters, ...manageFilter];
+  }, [typeFilters, collections, onManageCollections]);
+
   const handleFilterChange = useCallback(
     (filterKey: string) => {
+      if (filterKey === MANAGE_COLLECTIONS_KEY) {
+        onManageCollections?.();
+        return;
+      }
       onFilterChange(filterKey);
     },
-    [onFilterChange]
+    [onFilterChange, onManageCollections]
   );
 
+  // Spacing is based on the fixed type filters; collections scroll past them.
   const gap = useMemo(() => {
-    const numItems = filters.length;
+    const numItems = typeFilters.length;
     const buttonWidth = getResponsiveWidth(20);
     const totalButtonWidth = buttonWidth * numItems;
     const padding = getResponsiveWidth(3.6) * 2;
     const availableSpace = screenWidth - totalButtonWidth - padding;
     const calculatedGap = availableSpace / (numItems > 1 ? numItems - 1 : 1);
     return Math.min(Math.max(calculatedGap, 8), getResponsiveWidth(8));
-  }, [screenWidth, filters.length]);
+  }, [screenWidth, typeFilters.length]);
 
   const renderFilterItem = useCallback(
     ({ item }: { item: FilterItemType }) => {
@@ -177,6 +233,11 @@ const styles = StyleSheet.create({
     paddingVertical: getResponsiveHeight(1.5),
     borderRadius: getResponsiveWidth(100),
   },
+  collectionButton: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.5),
+    borderRadius: getResponsiveWidth(100),
+  },
 });
 
 export default ThemedFilter;
\ No newline at end of file
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+  Linking,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { ActionScanResult, buildActionUrl } from "@/utils/qrUtils";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface ActionSheetContentProps {
+  result: ActionScanResult;
+  style?: StyleProp<ViewStyle>;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+interface ActionField {
+  key: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  value: string;
+}
+
+interface ActionConfig {
+  fields: ActionField[];
+  // Value copied by the copy button.
+  copyValue: string;
+  actionIcon: keyof typeof MaterialCommunityIcons.glyphMap;
+  actionLabel: string;
+}
+
+const getActionConfig = (result: ActionScanResult): ActionConfig => {
+  switch (result.codeType) {
+    case "phone":
+      return {
+        fields: [{ key: "number", icon: "phone", value: result.phone.number }],
+        copyValue: result.phone.number,
+        actionIcon: "phone-outgoing",
+        actionLabel: t("actionSheet.call"),
+      };
+    case "sms":
+      return {
+        fields: [
+          { key: "number", icon: "phone", value: result.sms.number },
+          ...(result.sms.body
+            ? [{ key: "body", icon: "message-text" as const, value: result.sms.body }]
+            : []),
+        ],
+        copyValue: result.sms.number,
+        actionIcon: "message-text",
+        actionLabel: t("actionSheet.message"),
+      };
+    case "email":
+      return {
+        fields: [
+          ...result.email.to.map((address, index) => ({
+            key: `to-${index}`,
+            icon: "email" as const,
+            value: address,
+          })),
+          ...(result.email.cc.length > 0
+            ? [
+                {
+                  key: "cc",
+                  icon: "email-multiple" as const,
+                  value: result.email.cc.join(", "),
+                },
+              ]
+            : []),
+          ...(result.email.subject
+            ? [
+                {
+                  key: "subject",
+                  icon: "format-title" as const,
+                  value: result.email.subject,
+                },
+              ]
+            : []),
+          ...(result.email.body
+            ? [{ key: "body", icon: "text" as const, value: result.email.body }]
+            : []),
+        ],
+        copyValue: result.email.to.join(", ") || result.rawCodeValue,
+        actionIcon: "email-edit",
+        actionLabel: t("actionSheet.compose"),
+      };
+    case "geo": {
+      const coordinates = `${result.geo.latitude}, ${result.geo.longitude}`;
+      return {
+        fields: [
+          ...(result.geo.query
+            ? [
+                {
+                  key: "query",
+                  icon: "map-search" as const,
+                  value: result.geo.query,
+                },
+              ]
+            : []),
+          { key: "coordinates", icon: "crosshairs-gps", value: coordinates },
+        ],
+        copyValue: coordinates,
+        actionIcon: "map",
+        actionLabel: t("actionSheet.openInMaps"),
+      };
+    }
+  }
+};
+
+const ActionSheetContent: React.FC<ActionSheetContentProps> = ({
+  result,
+  style,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  const config = useMemo(() => getActionConfig(result), [result]);
+
+  // Helper function to show notifications
+  const showNotification = (notification: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(notification);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(notification.type === "success" ? "check-circle" : "error");
+      setModalTitle(notification.title);
+      setModalDescription(notification.message);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("actionSheet.copyModal.successTitle"),
+        message: t("actionSheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying action field:", error);
+      showNotification({
+        type: "error",
+        title: t("actionSheet.copyModal.errorTitle"),
+        message: t("actionSheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  const handleOpen = async () => {
+    try {
+      await Linking.openURL(buildActionUrl(result));
+    } catch (error) {
+      console.error("Error opening action URL:", error);
+      showNotification({
+        type: "error",
+        title: t("actionSheet.openErrorModal.title"),
+        message: t("actionSheet.openErrorModal.description"),
+      });
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        {config.fields.map((field) => (
+          <Pressable
+            key={field.key}
+            onPress={() => handleCopy(field.value)}
+            style={[
+              styles.fieldCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.fieldRow}>
+              <MaterialCommunityIcons
+                name={field.icon}
+                size={16}
+                color={colors.icon}
+              />
+              <ThemedText style={styles.fieldText} numberOfLines={3}>
+                {field.value}
+              </ThemedText>
+            </View>
+          </Pressable>
+        ))}
+
+        <View style={styles.actionButtons}>
+          <ThemedButton
+            iconName={config.actionIcon}
+            onPress={handleOpen}
+            label={config.actionLabel}
+            style={styles.actionButton}
+          />
+          <ThemedButton
+            iconName="content-copy"
+            onPress={() => handleCopy(config.copyValue)}
+            label={t("actionSheet.copy")}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  fieldCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fieldText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default ActionSheetContent;
@@ -0,0 +1,203 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+} from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import {
+  BatchCategory,
+  BatchScanItem,
+  getBatchBrandName,
+  getBatchCategories,
+} from "@/utils/batchScan";
+
+interface BatchReviewSheetContentProps {
+  items: BatchScanItem[];
+  isSaving?: boolean;
+  style?: StyleProp<ViewStyle>;
+  onChangeCategory: (codeValue: string, category: BatchCategory) => void;
+  onRemove: (codeValue: string) => void;
+  onSaveAll: () => void;
+}
+
+const BatchReviewSheetContent: React.FC<BatchReviewSheetContentProps> = ({
+  items,
+  isSaving,
+  style,
+  onChangeCategory,
+  onRemove,
+  onSaveAll,
+}) => {
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+    active: currentTheme === "light" ? Colors.light.tint : Colors.dark.tint,
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <View style={styles.contentWrapper}>
+        {items.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            {t("batchReviewSheet.empty")}
+          </ThemedText>
+        )}
+
+        {items.map((item) => (
+          <View
+            key={item.codeValue}
+            style={[
+              styles.itemCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.itemHeader}>
+              <MaterialIcons
+                name={item.result.iconName}
+                size={18}
+                color={colors.icon}
+              />
+              <View style={styles.itemText}>
+                <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                  {getBatchBrandName(item) ??
+                    t(`scanHistoryScreen.types.${item.result.codeType}`)}
+                </ThemedText>
+                <ThemedText style={styles.itemValue} numberOfLines={1}>
+                  {item.codeValue}
+                </ThemedText>
+              </View>
+              <Pressable hitSlop={8} onPress={() => onRemove(item.codeValue)}>
+                <MaterialIcons name="delete-outline" size={20} color={colors.icon} />
+              </Pressable>
+            </View>
+
+            <View style={styles.categoryRow}>
+              {getBatchCategories(item).map((category) => {
+                const isSelected = category === item.category;
+                return (
+                  <Pressable
+                    key={category}
+                    onPress={() => onChangeCategory(item.codeValue, category)}
+                    style={[
+                      styles.categoryChip,
+                      { borderColor: isSelected ? colors.active : borderColor },
+                    ]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.categoryText,
+                        isSelected && { color: colors.active },
+                      ]}
+                    >
+                      {t(`addScreen.${category}Category`)}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.actionButtons}>
+          <ThemedButton
+            iconName="wallet-plus"
+            onPress={onSaveAll}
+            label={`${t("batchReviewSheet.saveAll")} (${items.length})`}
+            loading={isSaving}
+            disabled={items.length === 0 || isSaving}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  emptyText: {
+    fontSize: 15,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  itemCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 10,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemValue: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  categoryChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  categoryText: {
+    fontSize: 13,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default BatchReviewSheetContent;
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { useLocale } from "@/context/LocaleContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import {
+  BoardingPass,
+  BoardingPassLeg,
+  formatFlightDesignator,
+} from "@/utils/boardingPass";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface BoardingPassSheetContentProps {
+  boardingPass: BoardingPass;
+  style?: StyleProp<ViewStyle>;
+  onSaveToWallet?: () => void;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+interface BoardingPassField {
+  key: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  value: string;
+}
+
+const getLegFields = (
+  leg: BoardingPassLeg,
+  index: number,
+  locale?: string
+): BoardingPassField[] => [
+  {
+    key: `flight-${index}`,
+    icon: "airplane",
+    value: `${formatFlightDesignator(leg)} · ${leg.from} → ${leg.to}`,
+  },
+  ...(leg.date
+    ? [
+        {
+          key: `date-${index}`,
+          icon: "calendar" as const,
+          value: leg.date.toLocaleDateString(locale, {
+            weekday: "short",
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+          }),
+        },
+      ]
+    : []),
+  {
+    key: `seat-${index}`,
+    icon: "seat-passenger",
+    value: [
+      leg.seat && `${t("boardingPassSheet.seat")} ${leg.seat}`,
+      leg.sequenceNumber &&
+        `${t("boardingPassSheet.sequence")} ${leg.sequenceNumber}`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+  },
+  {
+    key: `pnr-${index}`,
+    icon: "ticket-confirmation",
+    value: `${t("boardingPassSheet.bookingReference")} ${leg.pnr}`,
+  },
+];
+
+const BoardingPassSheetContent: React.FC<BoardingPassSheetContentProps> = ({
+  boardingPass,
+  style,
+  onSaveToWallet,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const { locale } = useLocale();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  // Each leg of a connecting itinerary gets its own group of fields.
+  const fields = useMemo<BoardingPassField[]>(
+    () => [
+      {
+        key: "passenger",
+        icon: "account",
+        value: boardingPass.passengerName,
+      },
+      ...boardingPass.legs.flatMap((leg, index) =>
+        getLegFields(leg, index, locale)
+      ),
+    ],
+    [boardingPass, locale]
+  );
+
+  // Helper function to show notifications
+  const showNotification = (config: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(config);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(config.type === "success" ? "check-circle" : "error");
+      setModalTitle(config.title);
+      setModalDescription(config.message);
+    }
+  };
+
+  const handleCopyField = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("boardingPassSheet.copyModal.successTitle"),
+        message: t("boardingPassSheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying boarding pass field:", error);
+      showNotification({
+        type: "error",
+        title: t("boardingPassSheet.copyModal.errorTitle"),
+        message: t("boardingPassSheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        {fields.map((field) => (
+          <Pressable
+            key={field.key}
+            onPress={() => handleCopyField(field.value)}
+            style={[
+              styles.fieldCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.fieldRow}>
+              <MaterialCommunityIcons
+                name={field.icon}
+                size={16}
+                color={colors.icon}
+              />
+              <ThemedText style={styles.fieldText} numberOfLines={2}>
+                {field.value}
+              </ThemedText>
+            </View>
+          </Pressable>
+        ))}
+
+        {onSaveToWallet && (
+          <View style={styles.actionButtons}>
+            <ThemedButton
+              iconName="wallet-plus"
+              onPress={onSaveToWallet}
+              label={t("boardingPassSheet.saveToWallet")}
+              style={styles.actionButton}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  fieldCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fieldText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default BoardingPassSheetContent;
@@ -0,0 +1,226 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+  Image,
+  LayoutChangeEvent,
+} from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { SYMBOLOGIES, getSymbologyFromCodeFormat } from "@/utils/symbology";
+import CodeChoice from "@/types/codeChoiceType";
+import { DecodedImage } from "@/utils/imageDecode";
+
+interface CodeChooserSheetContentProps {
+  choices: CodeChoice[];
+  // Gallery image the choices were read from; their frames are drawn on it.
+  image?: DecodedImage;
+  style?: StyleProp<ViewStyle>;
+  onSelect: (choice: CodeChoice) => void;
+}
+
+// Numbers match the boxes drawn over the camera preview or gallery image.
+const CodeChooserSheetContent: React.FC<CodeChooserSheetContentProps> = ({
+  choices,
+  image,
+  style,
+  onSelect,
+}) => {
+  const [previewSize, setPreviewSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+    badge: currentTheme === "light" ? Colors.light.tint : Colors.dark.tint,
+  };
+
+  const onPreviewLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setPreviewSize({ width, height });
+  };
+
+  // The image is drawn with resizeMode "contain"; frames follow the same fit.
+  const renderPreviewFrames = () => {
+    if (!image || !previewSize || image.width === 0 || image.height === 0) {
+      return null;
+    }
+    const scale = Math.min(
+      previewSize.width / image.width,
+      previewSize.height / image.height
+    );
+    const offsetX = (previewSize.width - image.width * scale) / 2;
+    const offsetY = (previewSize.height - image.height * scale) / 2;
+
+    return choices.map((choice, index) => {
+      const { frame } = choice;
+      if (!frame) return null;
+      return (
+        <Pressable
+          key={choice.codeValue}
+          onPress={() => onSelect(choice)}
+          style={[
+            styles.previewFrame,
+            {
+              borderColor: colors.badge,
+              left: offsetX + frame.x * scale,
+              top: offsetY + frame.y * scale,
+              width: frame.width * scale,
+              height: frame.height * scale,
+            },
+          ]}
+        >
+          <View style={[styles.badge, { backgroundColor: colors.badge }]}>
+            <ThemedText style={styles.badgeText}>{index + 1}</ThemedText>
+          </View>
+        </Pressable>
+      );
+    });
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <View style={styles.contentWrapper}>
+        {image && image.width > 0 && (
+          <View
+            style={[styles.preview, { backgroundColor: colors.inputBg }]}
+            onLayout={onPreviewLayout}
+          >
+            <Image
+              source={{ uri: image.uri }}
+              style={StyleSheet.absoluteFill}
+              resizeMode="contain"
+            />
+            {renderPreviewFrames()}
+          </View>
+        )}
+
+        {choices.map((choice, index) => {
+          const symbology = getSymbologyFromCodeFormat(choice.codeFormat);
+          const typeLabel = t(`scanHistoryScreen.types.${choice.result.codeType}`);
+          return (
+            <Pressable
+              key={choice.codeValue}
+              onPress={() => onSelect(choice)}
+              style={[
+                styles.choiceCard,
+                { borderColor, backgroundColor: colors.inputBg },
+              ]}
+            >
+              <View style={[styles.badge, { backgroundColor: colors.badge }]}>
+                <ThemedText style={styles.badgeText}>{index + 1}</ThemedText>
+              </View>
+              <MaterialIcons
+                name={choice.result.iconName}
+                size={18}
+                color={colors.icon}
+              />
+              <View style={styles.choiceText}>
+                <ThemedText type="defaultSemiBold" numberOfLines={1}>
+                  {symbology
+                    ? `${typeLabel} · ${SYMBOLOGIES[symbology].label}`
+                    : typeLabel}
+                </ThemedText>
+                <ThemedText style={styles.choiceValue} numberOfLines={2}>
+                  {choice.result.rawCodeValue || choice.codeValue}
+                </ThemedText>
+                {image && !choice.frame && (
+                  <ThemedText style={styles.choiceHint}>
+                    {t("scanScreen.codeNotLocated")}
+                  </ThemedText>
+                )}
+              </View>
+              <MaterialIcons name="chevron-right" size={20} color={colors.icon} />
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  preview: {
+    height: getResponsiveHeight(26),
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  previewFrame: {
+    position: "absolute",
+    borderWidth: 2,
+    borderRadius: 6,
+    padding: 2,
+  },
+  choiceCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: getResponsiveWidth(4),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  badge: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  badgeText: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: "700",
+    color: "#000",
+  },
+  choiceText: {
+    flex: 1,
+  },
+  choiceValue: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  choiceHint: {
+    fontSize: 12,
+    opacity: 0.5,
+    fontStyle: "italic",
+  },
+});
+
+export default CodeChooserSheetContent;
@@ -0,0 +1,186 @@
+import React from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  StyleProp,
+  ViewStyle,
+} from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import {
+  getResponsiveFontSize,
+  getResponsiveHeight,
+  getResponsiveWidth,
+} from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import CollectionRecord from "@/types/collectionType";
+
+interface CollectionSheetContentProps {
+  style?: StyleProp<ViewStyle>;
+  collections: CollectionRecord[];
+  selectedCollectionIds: string[];
+  onToggleCollection: (collectionId: string) => void;
+  onManageCollections: () => void;
+  // Collection the card is being viewed from; the other rows offer to move it
+  // there instead of adding a copy.
+  currentCollectionId?: string | null;
+  onMoveToCollection?: (collectionId: string) => void;
+}
+
+const CollectionSheetContent: React.FC<CollectionSheetContentProps> = ({
+  style,
+  collections,
+  selectedCollectionIds,
+  onToggleCollection,
+  onManageCollections,
+  currentCollectionId,
+  onMoveToCollection,
+}) => {
+  const { currentTheme } = useTheme();
+  const { borderColor } = useGlassStyle();
+
+  const iconColor =
+    currentTheme === "light" ? Colors.light.icon : Colors.dark.icon;
+  const cardBackgroundColor =
+    currentTheme === "dark"
+      ? Colors.dark.cardBackground
+      : Colors.light.cardBackground;
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <View style={styles.buttonsContainer}>
+        {collections.length === 0 ? (
+          <ThemedText style={styles.emptyText}>
+            {t("collections.empty")}
+          </ThemedText>
+        ) : (
+          collections.map((collection) => {
+            const isSelected = selectedCollectionIds.includes(collection.id);
+            const canMove =
+              !!currentCollectionId &&
+              !!onMoveToCollection &&
+              collection.id !== currentCollectionId &&
+              !isSelected;
+            return (
+              <Pressable
+                key={collection.id}
+                onPress={() => onToggleCollection(collection.id)}
+                style={styles.button}
+                hitSlop={{ top: 6, bottom: 6, left: 12, right: 12 }}
+              >
+                <View style={styles.leftContainer}>
+                  <MaterialCommunityIcons
+                    name={
+                      (collection.icon ||
+                        "folder") as keyof typeof MaterialCommunityIcons.glyphMap
+                    }
+                    size={getResponsiveFontSize(18)}
+                    color={iconColor}
+                  />
+                  <ThemedText style={styles.buttonText} numberOfLines={1}>
+                    {collection.name}
+                  </ThemedText>
+                </View>
+                <View style={styles.actionsContainer}>
+                  {canMove && (
+                    <Pressable
+                      onPress={() => onMoveToCollection?.(collection.id)}
+                      hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                      accessibilityLabel={t("collections.moveHere")}
+                    >
+                      <MaterialCommunityIcons
+                        name="folder-move"
+                        size={getResponsiveFontSize(18)}
+                        color={iconColor}
+                      />
+                    </Pressable>
+                  )}
+                  <MaterialCommunityIcons
+                    name={
+                      isSelected ? "checkbox-marked" : "checkbox-blank-outline"
+                    }
+                    size={getResponsiveFontSize(18)}
+                    color={iconColor}
+                  />
+                </View>
+              </Pressable>
+            );
+          })
+        )}
+        <Pressable
+          onPress={onManageCollections}
+          style={styles.button}
+          hitSlop={{ top: 6, bottom: 6, left: 12, right: 12 }}
+        >
+          <View style={styles.leftContainer}>
+            <MaterialCommunityIcons
+              name="folder-cog"
+              size={getResponsiveFontSize(18)}
+              color={iconColor}
+            />
+            <ThemedText style={styles.buttonText}>
+              {t("collections.manage")}
+            </ThemedText>
+          </View>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  buttonsContainer: {
+    flexDirection: "column",
+    gap: getResponsiveHeight(0.6),
+    marginVertical: getResponsiveHeight(1),
+    zIndex: 1,
+  },
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: getResponsiveHeight(1.2),
+    borderRadius: getResponsiveWidth(4),
+    overflow: "hidden",
+  },
+  leftContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(2.4),
+    flexShrink: 1,
+  },
+  actionsContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(4),
+  },
+  buttonText: {
+    fontSize: getResponsiveFontSize(16),
+  },
+  emptyText: {
+    fontSize: getResponsiveFontSize(14),
+    opacity: 0.7,
+    paddingVertical: getResponsiveHeight(1.2),
+  },
+});
+
+export default CollectionSheetContent;
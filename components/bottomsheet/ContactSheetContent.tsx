@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { ContactInfo } from "@/utils/contactQR";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface ContactSheetContentProps {
+  contact: ContactInfo;
+  style?: StyleProp<ViewStyle>;
+  onSaveToWallet?: () => void;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+interface ContactField {
+  key: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  value: string;
+}
+
+const ContactSheetContent: React.FC<ContactSheetContentProps> = ({
+  contact,
+  style,
+  onSaveToWallet,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  const fields = useMemo<ContactField[]>(
+    () => [
+      ...(contact.name
+        ? [{ key: "name", icon: "account" as const, value: contact.name }]
+        : []),
+      ...contact.phones.map((phone, index) => ({
+        key: `phone-${index}`,
+        icon: "phone" as const,
+        value: phone,
+      })),
+      ...contact.emails.map((email, index) => ({
+        key: `email-${index}`,
+        icon: "email" as const,
+        value: email,
+      })),
+      ...(contact.organization
+        ? [
+            {
+              key: "organization",
+              icon: "domain" as const,
+              value: contact.title
+                ? `${contact.organization} · ${contact.title}`
+                : contact.organization,
+            },
+          ]
+        : []),
+      ...contact.urls.map((url, index) => ({
+        key: `url-${index}`,
+        icon: "web" as const,
+        value: url,
+      })),
+      ...(contact.address
+        ? [{ key: "address", icon: "map-marker" as const, value: contact.address }]
+        : []),
+      ...(contact.note
+        ? [{ key: "note", icon: "note-text" as const, value: contact.note }]
+        : []),
+    ],
+    [contact]
+  );
+
+  // Helper function to show notifications
+  const showNotification = (config: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(config);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(config.type === "success" ? "check-circle" : "error");
+      setModalTitle(config.title);
+      setModalDescription(config.message);
+    }
+  };
+
+  const handleCopyField = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("contactSheet.copyModal.successTitle"),
+        message: t("contactSheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying contact field:", error);
+      showNotification({
+        type: "error",
+        title: t("contactSheet.copyModal.errorTitle"),
+        message: t("contactSheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        {fields.map((field) => (
+          <Pressable
+            key={field.key}
+            onPress={() => handleCopyField(field.value)}
+            style={[
+              styles.fieldCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.fieldRow}>
+              <MaterialCommunityIcons
+                name={field.icon}
+                size={16}
+                color={colors.icon}
+              />
+              <ThemedText style={styles.fieldText} numberOfLines={2}>
+                {field.value}
+              </ThemedText>
+              <MaterialCommunityIcons
+                name="content-copy"
+                size={16}
+                color={colors.icon}
+              />
+            </View>
+          </Pressable>
+        ))}
+
+        {onSaveToWallet && (
+          <View style={styles.actionButtons}>
+            <ThemedButton
+              iconName="wallet-plus"
+              onPress={onSaveToWallet}
+              label={t("contactSheet.saveToWallet")}
+              style={styles.actionButton}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  fieldCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fieldText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default ContactSheetContent;
@@ -0,0 +1,326 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { useLocale } from "@/context/LocaleContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import {
+  CalendarEvent,
+  buildICalendar,
+  getEventLastDay,
+  isEventOver,
+} from "@/utils/calendarQR";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface EventSheetContentProps {
+  event: CalendarEvent;
+  rawCodeValue: string;
+  style?: StyleProp<ViewStyle>;
+  onSaveToWallet?: () => void;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+interface EventField {
+  key: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  value: string;
+}
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Formats the event time in the app locale and the device time zone.
+ */
+const formatEventTime = (event: CalendarEvent, locale?: string): string => {
+  const start = event.start.date;
+
+  if (event.start.allDay) {
+    const dateOptions: Intl.DateTimeFormatOptions = {
+      weekday: "short",
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    };
+    const lastDay = getEventLastDay(event);
+    const startText = start.toLocaleDateString(locale, dateOptions);
+    return isSameDay(start, lastDay)
+      ? startText
+      : `${startText} – ${lastDay.toLocaleDateString(locale, dateOptions)}`;
+  }
+
+  const end = event.end.date;
+  const startText = start.toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+  if (end.getTime() <= start.getTime()) return startText;
+
+  const endText = isSameDay(start, end)
+    ? end.toLocaleTimeString(locale, { timeStyle: "short" })
+    : end.toLocaleString(locale, { dateStyle: "medium", timeStyle: "short" });
+  return `${startText} – ${endText}`;
+};
+
+const EventSheetContent: React.FC<EventSheetContentProps> = ({
+  event,
+  rawCodeValue,
+  style,
+  onSaveToWallet,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const { locale } = useLocale();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    error: currentTheme === "light" ? Colors.light.error : Colors.dark.error,
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  const isOver = useMemo(() => isEventOver(event), [event]);
+
+  const fields = useMemo<EventField[]>(
+    () => [
+      ...(event.summary
+        ? [{ key: "summary", icon: "calendar-star" as const, value: event.summary }]
+        : []),
+      {
+        key: "time",
+        icon: "clock-outline" as const,
+        value: formatEventTime(event, locale),
+      },
+      ...(event.location
+        ? [{ key: "location", icon: "map-marker" as const, value: event.location }]
+        : []),
+      ...(event.rrule
+        ? [{ key: "rrule", icon: "repeat" as const, value: event.rrule }]
+        : []),
+      ...(event.url
+        ? [{ key: "url", icon: "web" as const, value: event.url }]
+        : []),
+      ...(event.description
+        ? [
+            {
+              key: "description",
+              icon: "text" as const,
+              value: event.description,
+            },
+          ]
+        : []),
+    ],
+    [event, locale]
+  );
+
+  // Helper function to show notifications
+  const showNotification = (config: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(config);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(config.type === "success" ? "check-circle" : "error");
+      setModalTitle(config.title);
+      setModalDescription(config.message);
+    }
+  };
+
+  const handleCopyField = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("eventSheet.copyModal.successTitle"),
+        message: t("eventSheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying event field:", error);
+      showNotification({
+        type: "error",
+        title: t("eventSheet.copyModal.errorTitle"),
+        message: t("eventSheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  // Shares an .ics file; calendar apps offer to import it.
+  const handleAddToCalendar = async () => {
+    setIsExporting(true);
+    try {
+      if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+        throw new Error("Sharing is not available");
+      }
+      const fileUri = `${FileSystem.cacheDirectory}event-${Date.now()}.ics`;
+      await FileSystem.writeAsStringAsync(fileUri, buildICalendar(rawCodeValue));
+      await Sharing.shareAsync(fileUri, {
+        mimeType: "text/calendar",
+        UTI: "com.apple.ical.ics",
+        dialogTitle: event.summary || t("eventSheet.addToCalendar"),
+      });
+    } catch (error) {
+      console.error("Error exporting event:", error);
+      showNotification({
+        type: "error",
+        title: t("eventSheet.exportErrorModal.title"),
+        message: t("eventSheet.exportErrorModal.description"),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        {isOver && (
+          <View style={styles.endedRow}>
+            <MaterialCommunityIcons
+              name="calendar-remove"
+              size={16}
+              color={colors.error}
+            />
+            <ThemedText style={[styles.endedText, { color: colors.error }]}>
+              {t("eventSheet.ended")}
+            </ThemedText>
+          </View>
+        )}
+
+        {fields.map((field) => (
+          <Pressable
+            key={field.key}
+            onPress={() => handleCopyField(field.value)}
+            style={[
+              styles.fieldCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.fieldRow}>
+              <MaterialCommunityIcons
+                name={field.icon}
+                size={16}
+                color={colors.icon}
+              />
+              <ThemedText style={styles.fieldText} numberOfLines={3}>
+                {field.value}
+              </ThemedText>
+            </View>
+          </Pressable>
+        ))}
+
+        <View style={styles.actionButtons}>
+          <ThemedButton
+            iconName="calendar-plus"
+            onPress={handleAddToCalendar}
+            label={t("eventSheet.addToCalendar")}
+            style={styles.actionButton}
+            loading={isExporting}
+          />
+          {onSaveToWallet && (
+            <ThemedButton
+              iconName="wallet-plus"
+              onPress={onSaveToWallet}
+              label={t("eventSheet.saveToWallet")}
+              style={styles.actionButton}
+            />
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  endedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  endedText: {
+    fontSize: 14,
+  },
+  fieldCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fieldText: {
+    fontSize: 15,
+    flex: 1,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default EventSheetContent;
@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+  Linking,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { GS1Data, GS1Element } from "@/utils/gs1";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface GS1SheetContentProps {
+  gs1: GS1Data;
+  rawCodeValue: string;
+  style?: StyleProp<ViewStyle>;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+const getElementLabel = (element: GS1Element): string =>
+  element.title ? t(`gs1Sheet.ai.${element.title}`) : t("gs1Sheet.ai.unknown");
+
+// Human-readable "(01)…(17)…" form, which is what labels print.
+const formatElementString = (elements: GS1Element[]): string =>
+  elements.map((element) => `(${element.ai})${element.value}`).join("");
+
+const GS1SheetContent: React.FC<GS1SheetContentProps> = ({
+  gs1,
+  rawCodeValue,
+  style,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    error: currentTheme === "light" ? Colors.light.error : Colors.dark.error,
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  const elementString = useMemo(
+    () => formatElementString(gs1.elements),
+    [gs1.elements]
+  );
+
+  // Helper function to show notifications
+  const showNotification = (notification: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(notification);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(notification.type === "success" ? "check-circle" : "error");
+      setModalTitle(notification.title);
+      setModalDescription(notification.message);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("gs1Sheet.copyModal.successTitle"),
+        message: t("gs1Sheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying GS1 field:", error);
+      showNotification({
+        type: "error",
+        title: t("gs1Sheet.copyModal.errorTitle"),
+        message: t("gs1Sheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  const handleOpenLink = async () => {
+    try {
+      await Linking.openURL(rawCodeValue.trim());
+    } catch (error) {
+      console.error("Error opening GS1 Digital Link:", error);
+      showNotification({
+        type: "error",
+        title: t("gs1Sheet.openErrorModal.title"),
+        message: t("gs1Sheet.openErrorModal.description"),
+      });
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        {gs1.isGtinValid === false && (
+          <View style={styles.warningRow}>
+            <MaterialCommunityIcons
+              name="alert-circle-outline"
+              size={16}
+              color={colors.error}
+            />
+            <ThemedText style={[styles.warningText, { color: colors.error }]}>
+              {t("gs1Sheet.invalidGtin")}
+            </ThemedText>
+          </View>
+        )}
+
+        <View
+          style={[
+            styles.table,
+            { borderColor, backgroundColor: colors.inputBg },
+          ]}
+        >
+          {gs1.elements.map((element, index) => (
+            <Pressable
+              key={`${element.ai}-${index}`}
+              onPress={() => handleCopy(element.value)}
+              style={[
+                styles.tableRow,
+                index > 0 && {
+                  borderTopWidth: StyleSheet.hairlineWidth,
+                  borderTopColor: borderColor,
+                },
+              ]}
+            >
+              <View style={styles.labelCell}>
+                <ThemedText style={styles.labelText} numberOfLines={2}>
+                  {getElementLabel(element)}
+                </ThemedText>
+                <ThemedText style={styles.aiText}>{`(${element.ai})`}</ThemedText>
+              </View>
+              <ThemedText style={styles.valueText} numberOfLines={3}>
+                {element.displayValue}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.actionButtons}>
+          {gs1.source === "digitalLink" && (
+            <ThemedButton
+              iconName="web"
+              onPress={handleOpenLink}
+              label={t("gs1Sheet.openLink")}
+              style={styles.actionButton}
+            />
+          )}
+          <ThemedButton
+            iconName="content-copy"
+            onPress={() => handleCopy(elementString)}
+            label={t("gs1Sheet.copy")}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  warningText: {
+    fontSize: 14,
+  },
+  table: {
+    borderRadius: 16,
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  tableRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.2),
+  },
+  labelCell: {
+    flex: 1,
+  },
+  labelText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  aiText: {
+    fontSize: 12,
+    opacity: 0.5,
+  },
+  valueText: {
+    fontSize: 15,
+    flex: 1.4,
+    textAlign: "right",
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default GS1SheetContent;
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   View,
   StyleSheet,
@@ -20,6 +20,15 @@ import { Colors } from "@/constants/Colors";
 import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
 import { t } from "@/i18n";
 import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { UrlFinding, inspectUrl } from "@/utils/urlSafety";
+
+// Amber for links worth a second look; red stays for dangerous ones.
+const CAUTION_COLOR = "#E6A23C";
+
+const getFindingText = ({ issue, detail }: UrlFinding): string => {
+  const text = t(`homeScreen.linkingSheet.safety.${issue}`);
+  return detail ? `${text}: ${detail}` : text;
+};
 
 interface LinkingSheetContentProps {
   url: string | null;
@@ -42,6 +51,8 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
   const [modalTitle, setModalTitle] = useState<string | null>(null);
   const [modalDescription, setModalDescription] = useState<string | null>(null);
 
+  const inspection = useMemo(() => (url ? inspectUrl(url) : null), [url]);
+
   const colors = {
     error: currentTheme === "light" ? Colors.light.error : Colors.dark.error,
     icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
@@ -73,14 +84,17 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
     }
   };
 
+  // Anything the inspector flagged needs a confirmation first.
   const handleOpenLink = async () => {
-    if (!url) return;
+    if (!url || !inspection) return;
 
-    if (url.startsWith("http://")) {
+    if (inspection.level !== "safe") {
       setIsModalVisible(true);
-      setModalIcon("warning");
-      setModalTitle(t("homeScreen.linkingSheet.securityWarningTitle"));
-      setModalDescription(t("homeScreen.linkingSheet.securityWarningMessage"));
+      setModalIcon(inspection.level === "danger" ? "gpp-bad" : "warning");
+      setModalTitle(
+        t(`homeScreen.linkingSheet.safety.${inspection.level}Title`)
+      );
+      setModalDescription(inspection.findings.map(getFindingText).join("\n"));
     } else {
       try {
         await Linking.openURL(url);
@@ -90,9 +104,16 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
     }
   };
 
-  if (!url) return null;
+  if (!url || !inspection) return null;
 
-  const isInsecure = url.startsWith("http://");
+  const { level, findings, host, effectiveDomain } = inspection;
+  const riskColor =
+    level === "danger" ? colors.error : level === "caution" ? CAUTION_COLOR : colors.icon;
+  // Scripts run inside whatever opens them, so these are never opened.
+  const isBlocked = findings.some(({ issue }) => issue === "dangerousScheme");
+  const hostPrefix = host.endsWith(effectiveDomain)
+    ? host.slice(0, host.length - effectiveDomain.length)
+    : "";
   const displayUrl = url.length > 45 ? url.substring(0, 45) + "..." : url;
   const onOpenUrl = () => {
     Linking.openURL(url);
@@ -130,9 +151,9 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
         >
           <View style={styles.urlRow}>
             <MaterialCommunityIcons
-              name={isInsecure ? "lock-open" : "lock"}
+              name={level === "safe" ? "lock" : "lock-open"}
               size={16}
-              color={isInsecure ? colors.error : colors.icon}
+              color={riskColor}
             />
             <ThemedText style={styles.urlText} numberOfLines={1}>
               {displayUrl}
@@ -145,18 +166,58 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
           />
         </Pressable>
 
-        {isInsecure && (
-          <View style={styles.warningContainer}>
+        {effectiveDomain ? (
+          <View style={styles.domainRow}>
+            <ThemedText style={styles.domainLabel}>
+              {t("homeScreen.linkingSheet.safety.domain")}
+            </ThemedText>
+            <ThemedText style={styles.domainText} numberOfLines={2}>
+              <ThemedText style={styles.domainPrefix}>{hostPrefix}</ThemedText>
+              <ThemedText
+                type="defaultSemiBold"
+                style={[styles.domainText, { color: riskColor }]}
+              >
+                {effectiveDomain}
+              </ThemedText>
+            </ThemedText>
+          </View>
+        ) : null}
+
+        <View
+          style={[
+            styles.warningContainer,
+            level === "safe" && styles.safeContainer,
+            level === "caution" && styles.cautionContainer,
+          ]}
+        >
+          <View style={styles.warningRow}>
             <MaterialCommunityIcons
-              name="alert-circle"
+              name={
+                level === "safe"
+                  ? "shield-check"
+                  : level === "caution"
+                    ? "shield-alert"
+                    : "shield-off"
+              }
               size={14}
-              color={colors.error}
+              color={riskColor}
             />
-            <ThemedText style={[styles.warningText, { color: colors.error }]}>
-              {t("homeScreen.linkingSheet.warning")}
+            <ThemedText
+              type="defaultSemiBold"
+              style={[styles.warningText, { color: riskColor }]}
+            >
+              {t(`homeScreen.linkingSheet.safety.${level}Title`)}
             </ThemedText>
           </View>
-        )}
+          {findings.map((finding) => (
+            <ThemedText
+              key={finding.issue}
+              style={[styles.warningText, { color: riskColor }]}
+            >
+              {`• ${getFindingText(finding)}`}
+            </ThemedText>
+          ))}
+        </View>
 
         <View style={styles.actionButtons}>
           <ThemedButton
@@ -169,6 +230,7 @@ const LinkingSheetContent: React.FC<LinkingSheetContentProps> = ({
             iconName="open-in-new"
             onPress={handleOpenLink}
             label={t("homeScreen.linkingSheet.open")}
+            disabled={isBlocked}
             style={styles.actionButton}
           />
         </View>
@@ -214,15 +276,38 @@ const styles = StyleSheet.create({
     fontSize: 15,
     flex: 1,
   },
+  domainRow: {
+    gap: 2,
+  },
+  domainLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  domainText: {
+    fontSize: 16,
+  },
+  domainPrefix: {
+    fontSize: 16,
+    opacity: 0.6,
+  },
   warningContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 6,
+    gap: 4,
     backgroundColor: "rgba(255, 0, 0, 0.1)",
     borderRadius: 8,
     paddingVertical: getResponsiveHeight(1),
     paddingHorizontal: getResponsiveWidth(2.4),
   },
+  cautionContainer: {
+    backgroundColor: "rgba(230, 162, 60, 0.12)",
+  },
+  safeContainer: {
+    backgroundColor: "rgba(128, 128, 128, 0.1)",
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   warningText: {
     fontSize: 13,
   },
@@ -0,0 +1,288 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+  Pressable,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import { MaterialCommunityIcons, MaterialIcons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedButton } from "@/components/buttons";
+import { ThemedModal } from "../modals/ThemedIconModal";
+import { useTheme } from "@/context/ThemeContext";
+import { Colors } from "@/constants/Colors";
+import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
+import { t } from "@/i18n";
+import { useGlassStyle } from "@/hooks/useGlassStyle";
+import { PaymentRequest, formatPaymentAccount } from "@/utils/paymentQR";
+import { formatEMVAmount } from "@/utils/emvQR";
+import { NotificationConfig } from "./WifiSheetContent";
+
+interface PaymentSheetContentProps {
+  payment: PaymentRequest;
+  style?: StyleProp<ViewStyle>;
+  onSaveToWallet?: () => void;
+  onNotification?: (notification: NotificationConfig) => void;
+}
+
+interface PaymentField {
+  key: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  label: string;
+  value: string;
+  copyValue?: string; // Raw value when the display is reformatted
+}
+
+const getPaymentFields = (payment: PaymentRequest): PaymentField[] => {
+  const fields: PaymentField[] = [];
+  const push = (field: Omit<PaymentField, "value"> & { value?: string }) => {
+    if (field.value) fields.push(field as PaymentField);
+  };
+
+  push({
+    key: "beneficiary",
+    icon: "account",
+    label: t("paymentSheet.beneficiary"),
+    value: payment.beneficiary,
+  });
+  push({
+    key: "account",
+    icon: payment.accountType === "address" ? "wallet" : "bank",
+    label: t(`paymentSheet.accountTypes.${payment.accountType}`),
+    value: formatPaymentAccount(payment),
+    copyValue: payment.account,
+  });
+  push({
+    key: "bic",
+    icon: "bank-transfer",
+    label: t("paymentSheet.bic"),
+    value: payment.bic,
+  });
+  push({
+    key: "address",
+    icon: "map-marker",
+    label: t("paymentSheet.address"),
+    value: payment.beneficiaryAddress,
+  });
+  push({
+    key: "network",
+    icon: "lan",
+    label: t("paymentSheet.network"),
+    value: payment.network,
+  });
+  push({
+    key: "amount",
+    icon: "cash",
+    label: t("paymentSheet.amount"),
+    value: payment.amount
+      ? formatEMVAmount(payment.amount, payment.currency)
+      : undefined,
+    copyValue: payment.amount,
+  });
+  push({
+    key: "token",
+    icon: "file-document-outline",
+    label: t("paymentSheet.tokenContract"),
+    value: payment.tokenContract,
+  });
+  push({
+    key: "tokenAmount",
+    icon: "cash",
+    label: t("paymentSheet.tokenAmount"),
+    value: payment.tokenAmount,
+  });
+  push({
+    key: "reference",
+    icon: "pound",
+    label: t("paymentSheet.reference"),
+    value: payment.reference,
+  });
+  push({
+    key: "message",
+    icon: "message-text-outline",
+    label: t("paymentSheet.message"),
+    value: payment.message,
+  });
+
+  return fields;
+};
+
+const PaymentSheetContent: React.FC<PaymentSheetContentProps> = ({
+  payment,
+  style,
+  onSaveToWallet,
+  onNotification,
+}) => {
+  const { currentTheme } = useTheme();
+  const cardBackgroundColor = currentTheme === "dark" ? Colors.dark.cardBackground : Colors.light.cardBackground;
+  const { borderColor } = useGlassStyle();
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [modalIcon, setModalIcon] =
+    useState<keyof typeof MaterialIcons.glyphMap>();
+  const [modalTitle, setModalTitle] = useState<string | null>(null);
+  const [modalDescription, setModalDescription] = useState<string | null>(null);
+
+  const colors = {
+    icon: currentTheme === "light" ? Colors.light.icon : Colors.dark.icon,
+    inputBg:
+      currentTheme === "light"
+        ? Colors.light.inputBackground
+        : Colors.dark.inputBackground,
+  };
+
+  const fields = useMemo(() => getPaymentFields(payment), [payment]);
+
+  // Helper function to show notifications
+  const showNotification = (config: NotificationConfig) => {
+    if (onNotification) {
+      onNotification(config);
+    } else {
+      // Fallback to modal if no notification handler is provided
+      setIsModalVisible(true);
+      setModalIcon(config.type === "success" ? "check-circle" : "error");
+      setModalTitle(config.title);
+      setModalDescription(config.message);
+    }
+  };
+
+  const handleCopyField = async (value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      showNotification({
+        type: "success",
+        title: t("paymentSheet.copyModal.successTitle"),
+        message: t("paymentSheet.copyModal.successDescription"),
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error("Error copying payment field:", error);
+      showNotification({
+        type: "error",
+        title: t("paymentSheet.copyModal.errorTitle"),
+        message: t("paymentSheet.copyModal.errorDescription"),
+      });
+    }
+  };
+
+  return (
+    <View style={[styles.container, { borderColor }, style]}>
+      <View
+        style={[styles.defaultOverlay, { backgroundColor: cardBackgroundColor }]}
+      />
+      <ThemedModal
+        onPrimaryAction={() => setIsModalVisible(false)}
+        iconName={modalIcon}
+        title={modalTitle || ""}
+        message={modalDescription || ""}
+        isVisible={isModalVisible}
+        onDismiss={() => setIsModalVisible(false)}
+        onSecondaryAction={() => setIsModalVisible(false)}
+      />
+      <View style={styles.contentWrapper}>
+        <ThemedText type="defaultSemiBold" style={styles.schemeText}>
+          {t(`paymentSheet.schemes.${payment.scheme}`)}
+        </ThemedText>
+
+        {fields.map((field) => (
+          <Pressable
+            key={field.key}
+            onPress={() => handleCopyField(field.copyValue ?? field.value)}
+            style={[
+              styles.fieldCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.fieldRow}>
+              <MaterialCommunityIcons
+                name={field.icon}
+                size={16}
+                color={colors.icon}
+              />
+              <View style={styles.fieldTextContainer}>
+                <ThemedText style={styles.fieldLabel}>{field.label}</ThemedText>
+                <ThemedText style={styles.fieldText} numberOfLines={2}>
+                  {field.value}
+                </ThemedText>
+              </View>
+              <MaterialCommunityIcons
+                name="content-copy"
+                size={14}
+                color={colors.icon}
+              />
+            </View>
+          </Pressable>
+        ))}
+
+        {onSaveToWallet && (
+          <View style={styles.actionButtons}>
+            <ThemedButton
+              iconName="wallet-plus"
+              onPress={onSaveToWallet}
+              label={t("paymentSheet.saveToWallet")}
+              style={styles.actionButton}
+            />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 16,
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.8),
+    marginHorizontal: getResponsiveWidth(3.6),
+    borderWidth: 1,
+    overflow: "hidden",
+  },
+  defaultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 0,
+  },
+  contentWrapper: {
+    zIndex: 1,
+    gap: 10,
+  },
+  schemeText: {
+    fontSize: 15,
+    opacity: 0.7,
+  },
+  fieldCard: {
+    paddingHorizontal: getResponsiveWidth(4.8),
+    paddingVertical: getResponsiveHeight(1.4),
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fieldTextContainer: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  fieldText: {
+    fontSize: 15,
+  },
+  actionButtons: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+  },
+});
+
+export default PaymentSheetContent;
@@ -10,12 +10,16 @@ import { getResponsiveWidth } from '@/utils/responsive';
 interface ScanSettingsSheetContentProps {
   showIndicator: boolean; // This is the primary setting now
   onToggleShowIndicator: () => void;
+  batchMode: boolean;
+  onToggleBatchMode: () => void;
   onNavigateToSettings: () => void;
 }
 
 export default function ScanSettingsSheetContent({
   showIndicator,
   onToggleShowIndicator,
+  batchMode,
+  onToggleBatchMode,
   onNavigateToSettings,
 }: ScanSettingsSheetContentProps) {
   return (
@@ -27,6 +31,18 @@ export default function ScanSettingsSheetContent({
         <Switch value={showIndicator} onValueChange={onToggleShowIndicator} />
       </View>
 
+      <View style={styles.settingRow}>
+        <View style={styles.settingLabel}>
+          <ThemedText style={styles.settingText}>
+            {t('scanScreen.batchMode')}
+          </ThemedText>
+          <ThemedText style={styles.settingDescription}>
+            {t('scanScreen.batchModeDescription')}
+          </ThemedText>
+        </View>
+        <Switch value={batchMode} onValueChange={onToggleBatchMode} />
+      </View>
+
       {/* Removed Auto Brightness and Quick Scan settings */}
 
       <ThemedButton
@@ -53,10 +69,18 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: 'rgba(128, 128, 128, 0.2)',
   },
+  settingLabel: {
+    flex: 1,
+    gap: 2,
+  },
   settingText: {
     fontSize: 16,
     flex: 1,
   },
+  settingDescription: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
   settingsButton: {
     marginTop: getResponsiveWidth(5),
   },
@@ -23,12 +23,14 @@ interface SettingSheetContentProps {
   style?: StyleProp<ViewStyle>;
   onDelete: () => void;
   onEdit: () => void;
+  onCollections?: () => void;
 }
 
 const SettingSheetContent: React.FC<SettingSheetContentProps> = ({
   style,
   onDelete,
   onEdit,
+  onCollections,
 }) => {
   const { currentTheme } = useTheme();
   const { overlayColor, borderColor } = useGlassStyle();
@@ -65,6 +67,18 @@ const SettingSheetContent: React.FC<SettingSheetContentProps> = ({
             {t("homeScreen.edit")}
           </ThemedText>
         </Pressable>
+        {onCollections && (
+          <Pressable
+            onPress={onCollections}
+            style={styles.button}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+          >
+            {renderIcon("folder-multiple")}
+            <ThemedText style={styles.buttonText}>
+              {t("homeScreen.collections")}
+            </ThemedText>
+          </Pressable>
+        )}
         <Pressable
           onPress={onDelete}
           style={styles.button}
@@ -7,27 +7,34 @@ import { ThemedText } from '@/components/ThemedText';
 
 // Utilities
 import { getIconPath } from '@/utils/returnIcon';
+import { WifiSecurity } from '@/utils/wifiQR';
+import { Symbology, isTwoDimensional } from '@/utils/symbology';
 import { getResponsiveFontSize, getResponsiveWidth, getResponsiveHeight } from '@/utils/responsive';
 
 interface CategoryItem {
   display: string;
-  value: 'store' | 'bank' | 'ewallet';
+  value: 'store' | 'bank' | 'ewallet' | 'wifi' | 'flight';
 }
 
 interface BrandItem {
   code: string;
   name: string;
   full_name: string;
-  type: 'store' | 'bank' | 'ewallet';
+  type: 'store' | 'bank' | 'ewallet' | 'wifi' | 'flight';
 }
 
 interface MetadataTypeItem {
   display: string;
-  value: 'qr' | 'barcode';
+  value: Symbology;
+}
+
+interface WifiSecurityItem {
+  display: string;
+  value: WifiSecurity;
 }
 
 interface SheetItemProps {
-  item: CategoryItem | BrandItem | MetadataTypeItem;
+  item: CategoryItem | BrandItem | MetadataTypeItem | WifiSecurityItem;
   isSelected: boolean;
   onPress: () => void;
   iconColors: string;
@@ -57,7 +64,11 @@ export const CategorySheetItem: React.FC<SheetItemProps> = ({
               ? 'store'
               : categoryItem.value === 'bank'
                 ? 'bank'
-                : 'wallet'
+                : categoryItem.value === 'wifi'
+                  ? 'wifi'
+                  : categoryItem.value === 'flight'
+                    ? 'airplane'
+                    : 'wallet'
           }
         />
         <ThemedText style={styles.sheetItemText}>{categoryItem.display}</ThemedText>
@@ -138,7 +149,7 @@ export const BrandSheetItem: React.FC<SheetItemProps> = ({
   );
 };
 
-export const MetadataTypeSheetItem: React.FC<SheetItemProps> = ({ 
+export const SymbologySheetItem: React.FC<SheetItemProps> = ({ 
   item, 
   isSelected, 
   onPress, 
@@ -156,7 +167,7 @@ export const MetadataTypeSheetItem: React.FC<SheetItemProps> = ({
         <MaterialCommunityIcons
           color={iconColors}
           size={getResponsiveFontSize(18)}
-          name={metadataTypeItem.value === 'qr' ? 'qrcode-scan' : 'barcode-scan'}
+          name={isTwoDimensional(metadataTypeItem.value) ? 'qrcode-scan' : 'barcode-scan'}
         />
         <ThemedText style={styles.sheetItemText}>{metadataTypeItem.display}</ThemedText>
       </View>
@@ -185,6 +196,53 @@ export const MetadataTypeSheetItem: React.FC<SheetItemProps> = ({
   );
 };
 
+export const WifiSecuritySheetItem: React.FC<SheetItemProps> = ({ 
+  item, 
+  isSelected, 
+  onPress, 
+  iconColors,
+  textColors 
+}) => {
+  const securityItem = item as WifiSecurityItem;
+  return (
+    <Pressable
+      key={securityItem.value}
+      onPress={onPress}
+      style={[styles.sheetItem, isSelected && styles.selectedItem]}
+    >
+      <View style={styles.contentContainer}>
+        <MaterialCommunityIcons
+          color={iconColors}
+          size={getResponsiveFontSize(18)}
+          name={securityItem.value === 'nopass' ? 'wifi-lock-open' : 'wifi-lock'}
+        />
+        <ThemedText style={styles.sheetItemText}>{securityItem.display}</ThemedText>
+      </View>
+      {isSelected ? (
+        <View style={styles.iconStack}>
+          <MaterialCommunityIcons
+            name="circle-outline"
+            size={getResponsiveFontSize(18)}
+            color={textColors}
+          />
+          <MaterialIcons
+            name="circle"
+            size={getResponsiveFontSize(10)}
+            color={textColors}
+            style={styles.checkIcon}
+          />
+        </View>
+      ) : (
+        <MaterialCommunityIcons
+          name="circle-outline"
+          size={getResponsiveFontSize(18)}
+          color={textColors}
+        />
+      )}
+    </Pressable>
+  );
+};
+
 const styles = StyleSheet.create({
   sheetItem: {
     flexDirection: 'row',
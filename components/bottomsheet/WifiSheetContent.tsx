@@ -20,6 +20,11 @@ import { Colors } from "@/constants/Colors";
 import { getResponsiveHeight, getResponsiveWidth } from "@/utils/responsive";
 import { t } from "@/i18n";
 import { useGlassStyle } from "@/hooks/useGlassStyle";
+import {
+  WifiNetwork,
+  connectToWifiNetwork,
+  isWifiPasswordValid,
+} from "@/utils/wifiQR";
 
 // Define notification types for better type safety
 export type NotificationType = "success" | "error" | "warning" | "info";
@@ -33,22 +38,18 @@ export interface NotificationConfig {
 }
 
 interface WifiSheetContentProps {
-  ssid: string;
-  password?: string;
-  isWep?: boolean;
-  isHidden: boolean;
+  network: WifiNetwork;
   style?: StyleProp<ViewStyle>;
   onConnectSuccess?: () => void;
+  onSaveToWallet?: () => void;
   onNotification?: (notification: NotificationConfig) => void;
 }
 
 const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
-  ssid,
-  password: initialPassword,
-  isWep,
-  isHidden,
+  network,
   style,
   onConnectSuccess,
+  onSaveToWallet,
   onNotification,
 }) => {
   const { currentTheme } = useTheme();
@@ -62,15 +63,16 @@ const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
     useState<keyof typeof MaterialIcons.glyphMap>();
   const [modalTitle, setModalTitle] = useState<string | null>(null);
   const [modalDescription, setModalDescription] = useState<string | null>(null);
-  const [password, setPassword] = useState<string>(initialPassword || "");
+  const { ssid, security, enterprise } = network;
+  const [password, setPassword] = useState<string>(network.password);
   const [hasLocationPermission, setHasLocationPermission] =
     useState<boolean>(false);
   const [isWifiEnabled, setIsWifiEnabled] = useState<boolean>(false);
   const [showPermissionScreen, setShowPermissionScreen] = useState(false);
 
   useEffect(() => {
-    setPassword(initialPassword || "");
-  }, [initialPassword]);
+    setPassword(network.password);
+  }, [network.password]);
 
   useEffect(() => {
     checkWifiState();
@@ -230,7 +232,16 @@ const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
       return;
     }
 
-    if (!password || password.length < 8) {
+    if (security === "EAP") {
+      showNotification({
+        type: "info",
+        title: t("wifiSheet.enterpriseModal.title"),
+        message: t("wifiSheet.enterpriseModal.description"),
+      });
+      return;
+    }
+
+    if (!isWifiPasswordValid({ ...network, password })) {
       showNotification({
         type: "warning",
         title: t("wifiSheet.invalidPasswordModal.title"),
@@ -260,7 +271,7 @@ const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
         }
       }
 
-      await WifiManager.connectToProtectedSSID(ssid, password, !!isWep, isHidden);
+      await connectToWifiNetwork({ ...network, password });
 
       showNotification({
         type: "success",
@@ -370,33 +381,75 @@ const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
             <ThemedText style={styles.urlText} numberOfLines={1}>
               {ssid}
             </ThemedText>
+            <ThemedText style={styles.securityText}>
+              {t(`wifiSheet.security.${security}`)}
+            </ThemedText>
           </View>
         </Pressable>
 
-        <Pressable
-          onPress={handleCopyPassword}
-          style={[
-            styles.passwordContainer,
-            { borderColor, backgroundColor: colors.inputBg },
-          ]}
-        >
-          <View style={styles.passwordRow}>
-            <MaterialCommunityIcons name="lock" size={16} color={colors.icon} />
-            <ThemedText style={styles.passwordText} numberOfLines={1}>
-              {displayPassword()}
-            </ThemedText>
-            <Pressable
-              onPress={() => setShowPassword(!showPassword)}
-              hitSlop={40}
-            >
-              <MaterialCommunityIcons
-                name={showPassword ? "eye-off" : "eye"}
-                size={20}
-                color={colors.icon}
-              />
-            </Pressable>
+        {enterprise && (
+          <View
+            style={[
+              styles.urlCard,
+              styles.enterpriseCard,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            {[
+              { icon: "account" as const, value: enterprise.identity },
+              {
+                icon: "shield-key" as const,
+                value: [enterprise.method, enterprise.phase2]
+                  .filter(Boolean)
+                  .join(" / "),
+              },
+              {
+                icon: "incognito" as const,
+                value: enterprise.anonymousIdentity,
+              },
+            ]
+              .filter((row) => row.value)
+              .map((row) => (
+                <View key={row.icon} style={styles.urlRow}>
+                  <MaterialCommunityIcons
+                    name={row.icon}
+                    size={16}
+                    color={colors.icon}
+                  />
+                  <ThemedText style={styles.urlText} numberOfLines={1}>
+                    {row.value}
+                  </ThemedText>
+                </View>
+              ))}
           </View>
-        </Pressable>
+        )}
+
+        {security !== "nopass" && (
+          <Pressable
+            onPress={handleCopyPassword}
+            style={[
+              styles.passwordContainer,
+              { borderColor, backgroundColor: colors.inputBg },
+            ]}
+          >
+            <View style={styles.passwordRow}>
+              <MaterialCommunityIcons name="lock" size={16} color={colors.icon} />
+              <ThemedText style={styles.passwordText} numberOfLines={1}>
+                {displayPassword()}
+              </ThemedText>
+              <Pressable
+                onPress={() => setShowPassword(!showPassword)}
+                hitSlop={40}
+              >
+                <MaterialCommunityIcons
+                  name={showPassword ? "eye-off" : "eye"}
+                  size={20}
+                  color={colors.icon}
+                />
+              </Pressable>
+            </View>
+          </Pressable>
+        )}
 
         <View style={styles.actionButtons}>
           <ThemedButton
@@ -407,6 +460,14 @@ const WifiSheetContent: React.FC<WifiSheetContentProps> = ({
             loading={isConnecting}
             loadingLabel={t("homeScreen.connectingButton")}
           />
+          {onSaveToWallet && (
+            <ThemedButton
+              iconName="wallet-plus"
+              onPress={onSaveToWallet}
+              label={t("wifiSheet.saveToWallet")}
+              style={styles.actionButton}
+            />
+          )}
         </View>
       </>
     );
@@ -470,6 +531,15 @@ const styles = StyleSheet.create({
     fontSize: 15,
     flex: 1,
   },
+  securityText: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  enterpriseCard: {
+    flexDirection: "column",
+    alignItems: "stretch",
+    gap: 8,
+  },
   passwordContainer: {
     flexDirection: "row",
     alignItems: "center",
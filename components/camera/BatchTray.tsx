@@ -0,0 +1,183 @@
+// BatchTray.tsx
+import React from "react";
+import { Platform, Pressable, ScrollView, StyleSheet, View } from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { t } from "@/i18n";
+import { BatchScanItem, getBatchBrandName } from "@/utils/batchScan";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+} from "@/utils/responsive";
+
+// Same glass look as QRResult and ZoomControl.
+const CONFIG = {
+  colors: {
+    background: Platform.select({
+      ios: "rgba(255, 255, 255, 0.08)",
+      android: "rgba(255, 255, 255, 0.15)",
+    }),
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    activeText: "#FFCC00",
+    text: "#fff",
+  },
+};
+
+type BatchTrayProps = {
+  items: BatchScanItem[];
+  onRemove: (codeValue: string) => void;
+  onReview: () => void;
+  onClear: () => void;
+};
+
+/**
+ * Running list of the codes captured in batch mode, newest first, with
+ * their detected type and brand.
+ */
+export const BatchTray: React.FC<BatchTrayProps> = ({
+  items,
+  onRemove,
+  onReview,
+  onClear,
+}) => {
+  const hasItems = items.length > 0;
+
+  return (
+    <View style={styles.container}>
+      {hasItems && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipList}
+        >
+          {[...items].reverse().map((item) => (
+            <View key={item.codeValue} style={styles.chip}>
+              <MaterialIcons
+                name={item.result.iconName}
+                size={getResponsiveFontSize(16)}
+                color={CONFIG.colors.activeText}
+              />
+              <View style={styles.chipTextContainer}>
+                <ThemedText
+                  type="defaultSemiBold"
+                  numberOfLines={1}
+                  style={styles.chipTitle}
+                >
+                  {getBatchBrandName(item) ??
+                    t(`scanHistoryScreen.types.${item.result.codeType}`)}
+                </ThemedText>
+                <ThemedText numberOfLines={1} style={styles.chipValue}>
+                  {item.codeValue}
+                </ThemedText>
+              </View>
+              <Pressable
+                hitSlop={8}
+                onPress={() => onRemove(item.codeValue)}
+              >
+                <MaterialIcons
+                  name="close"
+                  size={getResponsiveFontSize(14)}
+                  color={CONFIG.colors.text}
+                />
+              </Pressable>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.actions}>
+        <ThemedText type="defaultSemiBold" style={styles.counter}>
+          {hasItems
+            ? `${items.length} ${t("scanScreen.batchCaptured")}`
+            : t("scanScreen.batchEmpty")}
+        </ThemedText>
+        {hasItems && (
+          <>
+            <Pressable style={styles.actionButton} onPress={onClear}>
+              <ThemedText style={styles.actionText}>
+                {t("scanScreen.batchClear")}
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.actionButton, styles.primaryButton]}
+              onPress={onReview}
+            >
+              <ThemedText
+                type="defaultSemiBold"
+                style={[styles.actionText, styles.primaryText]}
+              >
+                {t("scanScreen.batchReview")}
+              </ThemedText>
+            </Pressable>
+          </>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: getResponsiveWidth(2),
+    alignItems: "center",
+  },
+  chipList: {
+    paddingHorizontal: getResponsiveWidth(3.6),
+    gap: getResponsiveWidth(2),
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(2),
+    backgroundColor: CONFIG.colors.background,
+    borderColor: CONFIG.colors.borderColor,
+    borderWidth: 0.5,
+    borderRadius: getResponsiveWidth(4),
+    paddingHorizontal: getResponsiveWidth(3),
+    paddingVertical: getResponsiveWidth(1.5),
+  },
+  chipTextContainer: {
+    maxWidth: getResponsiveWidth(32),
+  },
+  chipTitle: {
+    color: CONFIG.colors.activeText,
+    fontSize: getResponsiveFontSize(12),
+  },
+  chipValue: {
+    color: CONFIG.colors.text,
+    fontSize: getResponsiveFontSize(10),
+    opacity: 0.7,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: getResponsiveWidth(2),
+    backgroundColor: CONFIG.colors.background,
+    borderColor: CONFIG.colors.borderColor,
+    borderWidth: 0.5,
+    borderRadius: getResponsiveWidth(7),
+    height: getResponsiveWidth(10),
+    paddingLeft: getResponsiveWidth(4),
+    paddingRight: getResponsiveWidth(1),
+  },
+  counter: {
+    color: CONFIG.colors.text,
+    fontSize: getResponsiveFontSize(12),
+    marginRight: getResponsiveWidth(1),
+  },
+  actionButton: {
+    borderRadius: getResponsiveWidth(5),
+    paddingHorizontal: getResponsiveWidth(3),
+    paddingVertical: getResponsiveWidth(1.5),
+  },
+  primaryButton: {
+    backgroundColor: CONFIG.colors.activeText,
+  },
+  actionText: {
+    color: CONFIG.colors.text,
+    fontSize: getResponsiveFontSize(12),
+  },
+  primaryText: {
+    color: "#000",
+  },
+});
@@ -0,0 +1,81 @@
+// CodeChoicePrompt.tsx
+import React from "react";
+import { Platform, Pressable, StyleSheet } from "react-native";
+import { MaterialIcons } from "@expo/vector-icons";
+import Animated, { StyleProps } from "react-native-reanimated";
+import { ThemedText } from "@/components/ThemedText";
+import { t } from "@/i18n";
+import {
+  getResponsiveFontSize,
+  getResponsiveWidth,
+} from "@/utils/responsive";
+import { triggerHapticFeedback } from "@/utils/haptic";
+
+// Same glass look as QRResult.
+const CONFIG = {
+  colors: {
+    background: Platform.select({
+      ios: "rgba(255, 255, 255, 0.08)",
+      android: "rgba(255, 255, 255, 0.15)",
+    }),
+    borderColor: "rgba(255, 255, 255, 0.2)",
+    activeText: "#FFCC00",
+    activeIcon: "#FFCC00",
+  },
+};
+
+type CodeChoicePromptProps = {
+  count: number;
+  animatedStyle?: StyleProps;
+  onPress: () => void;
+};
+
+/** Shown instead of QRResult while several codes are in frame. */
+export const CodeChoicePrompt: React.FC<CodeChoicePromptProps> = ({
+  count,
+  animatedStyle,
+  onPress,
+}) => (
+  <Pressable
+    style={{ alignSelf: "center" }}
+    onPress={() => {
+      triggerHapticFeedback();
+      onPress();
+    }}
+  >
+    <Animated.View style={[styles.container, animatedStyle]}>
+      <MaterialIcons
+        name="filter-none"
+        size={getResponsiveFontSize(18)}
+        color={CONFIG.colors.activeIcon}
+      />
+      <ThemedText type="defaultSemiBold" style={styles.text}>
+        {`${count} ${t("scanScreen.codesFound")}`}
+      </ThemedText>
+    </Animated.View>
+  </Pressable>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: CONFIG.colors.background,
+    borderRadius: getResponsiveWidth(7),
+    borderWidth: 0.5,
+    borderColor: CONFIG.colors.borderColor,
+    height: getResponsiveWidth(10),
+    paddingHorizontal: getResponsiveWidth(4),
+    gap: getResponsiveWidth(2),
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  text: {
+    color: CONFIG.colors.activeText,
+    fontSize: getResponsiveFontSize(12),
+  },
+});
@@ -11,8 +11,15 @@ import {
 import { MaterialIcons } from "@expo/vector-icons";
 import Animated, { StyleProps } from "react-native-reanimated";
 import { ThemedText } from "@/components/ThemedText";
-import { analyzeCode } from "@/utils/qrUtils";
-import WifiManager from "react-native-wifi-reborn";
+import { analyzeCode, DetailScanResult } from "@/utils/qrUtils";
+import { formatEMVAmount } from "@/utils/emvQR";
+import { formatFlightDesignator, formatRoute } from "@/utils/boardingPass";
+import { formatPaymentAccount } from "@/utils/paymentQR";
+import {
+  WifiNetwork,
+  WIFI_ENTERPRISE_UNSUPPORTED,
+  connectToWifiNetwork,
+} from "@/utils/wifiQR";
 import {
   getResponsiveFontSize,
   getResponsiveWidth,
@@ -68,6 +75,7 @@ type QRResultProps = {
     codeType?: string,
     codeProvider?: string
   ) => void;
+  onOpenDetails?: (result: DetailScanResult) => void;
 };
 
 export const QRResult: React.FC<QRResultProps> = ({
@@ -75,6 +83,7 @@ export const QRResult: React.FC<QRResultProps> = ({
   codeFormat,
   animatedStyle,
   onNavigateToAdd,
+  onOpenDetails,
 }) => {
   const dimensions = useDimensions();
   const scanResult = analyzeCode(codeValue, { codeFormat });
@@ -104,28 +113,79 @@ export const QRResult: React.FC<QRResultProps> = ({
         return `Connect to Wi-Fi ${scanResult.ssid}?`;
       case "bank":
       case "ewallet":
+        if (scanResult.amount) {
+          const amountText = formatEMVAmount(
+            scanResult.amount,
+            scanResult.currency
+          );
+          return scanResult.message
+            ? `${amountText} · ${scanResult.message}`
+            : amountText;
+        }
         return `Add QR Code.`;
+      case "contact":
+        return (
+          scanResult.contact.name ||
+          scanResult.contact.organization ||
+          scanResult.contact.phones[0] ||
+          scanResult.contact.emails[0]
+        );
+      case "event":
+        return (
+          scanResult.event.summary ||
+          scanResult.event.start.date.toLocaleDateString()
+        );
+      case "boardingPass": {
+        const [leg] = scanResult.boardingPass.legs;
+        return `${formatFlightDesignator(leg)} · ${formatRoute(
+          scanResult.boardingPass
+        )}`;
+      }
+      case "payment": {
+        const { payment } = scanResult;
+        const payee = payment.beneficiary ?? formatPaymentAccount(payment);
+        return payment.amount
+          ? `${formatEMVAmount(payment.amount, payment.currency)} · ${payee}`
+          : payee;
+      }
+      case "gs1":
+        return scanResult.gs1.gtin
+          ? `GTIN ${scanResult.gs1.gtin}`
+          : scanResult.gs1.elements[0].displayValue;
+      case "phone":
+        return scanResult.phone.number;
+      case "sms":
+        return scanResult.sms.number;
+      case "email":
+        return scanResult.email.to[0] ?? scanResult.email.subject;
+      case "geo":
+        return (
+          scanResult.geo.query ??
+          `${scanResult.geo.latitude}, ${scanResult.geo.longitude}`
+        );
       default:
         return scanResult.rawCodeValue;
     }
   }, [scanResult]);
 
-  const onConnectToWifi = async (
-    ssid: string,
-    password: string,
-    isWep: boolean,
-    isHidden: boolean
-  ) => {
+  const onConnectToWifi = async (network: WifiNetwork) => {
     try {
-      await WifiManager.connectToProtectedSSID(ssid, password, isWep, isHidden);
+      await connectToWifiNetwork(network);
       Alert.alert("Success", "Connected to Wi-Fi network!");
     } catch (error: any) {
       console.error("Connection failed:", error);
-      if (error === "didNotFindNetwork") {
+      // The native module rejects with a code string or an Error.
+      const code = typeof error === "string" ? error : error?.message;
+      if (code === WIFI_ENTERPRISE_UNSUPPORTED) {
+        Alert.alert(
+          "Enterprise network",
+          "This network needs a username or certificate. Join it from the system Wi-Fi settings."
+        );
+      } else if (code === "didNotFindNetwork") {
         Alert.alert("Error", "Wi-Fi network not found.");
-      } else if (error === "authenticationErrorOccurred") {
+      } else if (code === "authenticationErrorOccurred") {
         Alert.alert("Error", "Incorrect Wi-Fi password.");
-      } else if (error === "locationPermissionMissing") {
+      } else if (code === "locationPermissionMissing") {
         Alert.alert(
           "Error",
           "Location permission is required to scan for Wi-Fi networks. Please enable it in settings."
@@ -143,12 +203,7 @@ export const QRResult: React.FC<QRResultProps> = ({
         Linking.openURL(scanResult.rawCodeValue);
         break;
       case "WIFI":
-        onConnectToWifi(
-          scanResult.ssid,
-          scanResult.password,
-          scanResult.isWEP,
-          scanResult.isHidden
-        );
+        onConnectToWifi(scanResult);
         break;
       case "bank":
       case "ewallet":
@@ -160,8 +215,58 @@ export const QRResult: React.FC<QRResultProps> = ({
           scanResult.provider
         );
         break;
+      case "contact":
+      case "event":
+        if (onOpenDetails) {
+          onOpenDetails(scanResult);
+        } else {
+          onNavigateToAdd(
+            scanResult.codeFormat,
+            scanResult.rawCodeValue,
+            undefined,
+            scanResult.codeType
+          );
+        }
+        break;
+      case "boardingPass":
+        if (onOpenDetails) {
+          onOpenDetails(scanResult);
+        } else {
+          onNavigateToAdd(
+            scanResult.codeFormat,
+            scanResult.rawCodeValue,
+            undefined,
+            "flight"
+          );
+        }
+        break;
+      case "payment":
+        if (onOpenDetails) {
+          onOpenDetails(scanResult);
+        } else {
+          onNavigateToAdd(
+            scanResult.codeFormat,
+            scanResult.rawCodeValue,
+            undefined,
+            "payment"
+          );
+        }
+        break;
+      case "gs1":
+        if (onOpenDetails) {
+          onOpenDetails(scanResult);
+        } else {
+          onNavigateToAdd(scanResult.codeFormat, scanResult.rawCodeValue);
+        }
+        break;
+      case "phone":
+      case "sms":
+      case "email":
+      case "geo":
+        onOpenDetails?.(scanResult);
+        break;
     }
-  }, [scanResult, onNavigateToAdd]);
+  }, [scanResult, onNavigateToAdd, onOpenDetails]);
 
   const formattedText = getFormattedText();
   const resolvedIconName = scanResult.iconName;
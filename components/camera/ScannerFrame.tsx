@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { Platform, StyleSheet } from "react-native";
+import { Platform, Pressable, StyleSheet, Text } from "react-native";
 import Animated, {
   useAnimatedStyle,
   withSpring,
@@ -55,6 +55,9 @@ interface ScannerFrameProps {
   highlight: CameraHighlight | null;
   layout: Layout;
   scanFrame: Layout;
+  // Every code in frame. With more than one, each gets its own numbered box.
+  highlights?: CameraHighlight[];
+  onSelectHighlight?: (index: number) => void;
 }
 
 // Helper function to calculate scaled values.
@@ -77,11 +80,16 @@ const calculateScaledValues = (
 };
 
 export const ScannerFrame: React.FC<ScannerFrameProps> = ({
-  highlight,
+  highlight: singleHighlight,
   layout,
   scanFrame,
+  highlights,
+  onSelectHighlight,
 }) => {
   const dimensions = useDimensions();
+  const isMultiple = (highlights?.length ?? 0) > 1;
+  // The animated frame rests while the numbered boxes are shown.
+  const highlight = isMultiple ? null : singleHighlight;
   const [layoutReady, setLayoutReady] = useState(false);
   
   // Add a state to track if we have an active highlight
@@ -304,7 +312,60 @@ export const ScannerFrame: React.FC<ScannerFrameProps> = ({
     return null;
   }
 
+  if (isMultiple && highlights) {
+    return (
+      <>
+        {highlights.map((item, index) => {
+          const scaled = calculateScaledValues(item, scanFrame, layout);
+          return (
+            <Pressable
+              key={index}
+              disabled={!onSelectHighlight}
+              onPress={() => onSelectHighlight?.(index)}
+              hitSlop={8}
+              style={[
+                styles.choiceBox,
+                {
+                  left: scaled.x,
+                  top: scaled.y,
+                  width: scaled.width,
+                  height: scaled.height,
+                  borderRadius: dimensions.cornerRadius,
+                },
+              ]}
+            >
+              <Text style={styles.choiceBadge}>{index + 1}</Text>
+            </Pressable>
+          );
+        })}
+      </>
+    );
+  }
+
   return <Animated.View style={animatedFrameStyle}>{corners}</Animated.View>;
 };
 
+const styles = StyleSheet.create({
+  choiceBox: {
+    position: "absolute",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 2,
+    borderColor: CONFIG.colors.activeBorder,
+    backgroundColor: CONFIG.colors.activeBackground,
+  },
+  choiceBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    overflow: "hidden",
+    textAlign: "center",
+    lineHeight: 22,
+    fontSize: 13,
+    fontWeight: "700",
+    color: "#000",
+    backgroundColor: CONFIG.colors.activeBorder,
+  },
+});
+
 export default ScannerFrame;
\ No newline at end of file
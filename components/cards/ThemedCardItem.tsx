@@ -8,12 +8,24 @@ import {
   Platform
 } from "react-native";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import QRCode from "react-native-qrcode-svg";
-import Barcode from "react-native-barcode-svg";
+import { ThemedCode } from "./ThemedCode";
 import { LinearGradient } from "expo-linear-gradient";
 import { getIconPath } from "@/utils/returnIcon";
 import { returnItemData } from "@/utils/returnItemData";
 import { returnMidpointColors } from "@/utils/returnMidpointColor";
+import { isCardExpired } from "@/utils/cardValidity";
+import { parseWifi } from "@/utils/wifiQR";
+import {
+  formatFlightDesignator,
+  formatRoute,
+  parseBoardingPass,
+} from "@/utils/boardingPass";
+import {
+  MetadataType,
+  isWideSymbology,
+  normalizeSymbology,
+} from "@/utils/symbology";
+import { t } from "@/i18n";
 import {
   getResponsiveFontSize,
   getResponsiveWidth,
@@ -49,11 +61,13 @@ const defaultIconPath = null;
 export type ThemedCardItemProps = {
   isActive?: boolean;
   code: string | null;
-  type: "bank" | "store" | "ewallet";
+  type: "bank" | "store" | "ewallet" | "wifi" | "flight";
   metadata: string;
-  metadata_type?: "qr" | "barcode";
+  metadata_type?: MetadataType;
   accountName?: string;
   accountNumber?: string;
+  label?: string;
+  validUntil?: string;
   style?: object;
   animatedStyle?: object;
   onItemPress?: () => void;
@@ -71,6 +85,8 @@ const ThemedCardItem = memo(function ThemedCardItem({
   metadata_type = "qr",
   accountName,
   accountNumber,
+  label,
+  validUntil,
   style,
   animatedStyle,
   onItemPress,
@@ -126,12 +142,39 @@ const ThemedCardItem = memo(function ThemedCardItem({
     return safeMetadata;
   }, [metadata, isCodeEmptyOrPlaceholder]);
 
+  // Wi-Fi cards show the security type rather than the raw payload.
+  const wifiSecurityText = useMemo(() => {
+    if (cardType !== "wifi") return "";
+    const network = parseWifi(metadata || "");
+    return network ? t(`wifiSheet.security.${network.security}`) : "";
+  }, [cardType, metadata]);
+
+  // Flight cards show the flight number and route of the boarding pass.
+  const flightText = useMemo(() => {
+    if (cardType !== "flight") return "";
+    const boardingPass = parseBoardingPass(metadata || "");
+    return boardingPass
+      ? `${formatFlightDesignator(boardingPass.legs[0])} · ${formatRoute(boardingPass)}`
+      : "";
+  }, [cardType, metadata]);
+
   const footerText = useMemo(() => {
+    if (cardType === "wifi") return wifiSecurityText;
+    if (cardType === "flight") return flightText;
     if (iconPath && iconPath !== 124 && cardType) {
       return cardType === "store" ? displayMetadata : accountDisplayName;
     }
     return "";
-  }, [iconPath, cardType, displayMetadata, accountDisplayName]);
+  }, [
+    iconPath,
+    cardType,
+    displayMetadata,
+    accountDisplayName,
+    wifiSecurityText,
+    flightText,
+  ]);
+
+  const isExpired = useMemo(() => isCardExpired(validUntil), [validUntil]);
 
   // Reanimated shared values for QR/Barcode placeholder dimensions.
   const placeholderWidth = useSharedValue(QR_SIZE);
@@ -143,7 +186,7 @@ const ThemedCardItem = memo(function ThemedCardItem({
   }));
 
   useEffect(() => {
-    if (metadata_type === "barcode") {
+    if (isWideSymbology(normalizeSymbology(metadata_type))) {
       placeholderWidth.value = BARCODE_WIDTH;
       placeholderHeight.value = BARCODE_HEIGHT;
     } else {
@@ -156,15 +199,13 @@ const ThemedCardItem = memo(function ThemedCardItem({
     if (!displayMetadata) {
       return null;
     }
-    if (metadata_type === "qr") {
-      return <QRCode value={displayMetadata} size={QR_SIZE} />;
-    }
     return (
-      <Barcode
-        height={BARCODE_HEIGHT}
-        maxWidth={BARCODE_WIDTH}
+      <ThemedCode
         value={displayMetadata}
-        format="CODE128"
+        metadataType={metadata_type}
+        size={QR_SIZE}
+        barcodeWidth={BARCODE_WIDTH}
+        barcodeHeight={BARCODE_HEIGHT}
       />
     );
   }, [displayMetadata, metadata_type]);
@@ -203,7 +244,7 @@ const ThemedCardItem = memo(function ThemedCardItem({
   // The wrapping Animated.View is removed. The animatedStyle is applied
   // directly to the ReanimatedLinearGradient.
   const cardContent = (
-    <View style={styles.cardWrapper}>
+    <View style={[styles.cardWrapper, isExpired && styles.expiredCard]}>
       {/* Background gradient for glassmorphism */}
       {enableGlassmorphism && backgroundGradient && (
         <LinearGradient
@@ -242,7 +283,13 @@ const ThemedCardItem = memo(function ThemedCardItem({
                 enableGlassmorphism && styles.glassLogoContainer
               ]}
             >
-              {iconPath ? (
+              {cardType === "wifi" || cardType === "flight" ? (
+                <MaterialCommunityIcons
+                  name={cardType === "wifi" ? "wifi" : "airplane"}
+                  size={getResponsiveFontSize(18)}
+                  color={color?.light}
+                />
+              ) : iconPath ? (
                 <Image
                   source={iconPath}
                   style={styles.logo}
@@ -252,18 +299,40 @@ const ThemedCardItem = memo(function ThemedCardItem({
                 <View style={styles.logo} />
               )}
             </View>
-            <Text
-              numberOfLines={1}
-              ellipsizeMode="tail"
-              style={[
-                styles.cardName,
-                enableGlassmorphism && styles.glassText
-              ]}
-            >
-              {name}
-            </Text>
+            <View style={styles.nameContainer}>
+              <Text
+                numberOfLines={1}
+                ellipsizeMode="tail"
+                style={[
+                  styles.cardName,
+                  enableGlassmorphism && styles.glassText
+                ]}
+              >
+                {name}
+              </Text>
+              {!!label && (
+                <Text
+                  numberOfLines={1}
+                  ellipsizeMode="tail"
+                  style={[
+                    styles.cardLabel,
+                    enableGlassmorphism && styles.glassSubText
+                  ]}
+                >
+                  {label}
+                </Text>
+              )}
+            </View>
           </View>
 
+          {isExpired && (
+            <View style={styles.expiredBadge}>
+              <Text style={styles.expiredBadgeText}>
+                {t("cardValidity.expired")}
+              </Text>
+            </View>
+          )}
+
           {onMoreButtonPress && (
             <Pressable
               onPress={onMoreButtonPress}
@@ -447,12 +516,36 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: getResponsiveWidth(2.4)
   },
+  nameContainer: {
+    flexDirection: "column"
+  },
   cardName: {
     color: "white",
     fontSize: getResponsiveFontSize(16),
     fontWeight: "bold",
     maxWidth: getResponsiveWidth(36)
   },
+  cardLabel: {
+    color: "rgba(255,255,255,0.7)",
+    fontSize: getResponsiveFontSize(12),
+    maxWidth: getResponsiveWidth(36)
+  },
+  expiredCard: {
+    opacity: 0.6
+  },
+  expiredBadge: {
+    marginLeft: "auto",
+    marginRight: getResponsiveWidth(2.4),
+    paddingHorizontal: getResponsiveWidth(2.4),
+    paddingVertical: getResponsiveHeight(0.3),
+    borderRadius: getResponsiveWidth(2),
+    backgroundColor: "rgba(0, 0, 0, 0.35)"
+  },
+  expiredBadgeText: {
+    color: "white",
+    fontSize: getResponsiveFontSize(11),
+    fontWeight: "600"
+  },
   glassText: {
     color: "rgba(255, 255, 255, 0.95)",
     textShadowColor: "rgba(0, 0, 0, 0.3)",
@@ -0,0 +1,88 @@
+import React, { memo, useMemo } from "react";
+import { View, StyleSheet } from "react-native";
+import { SvgXml } from "react-native-svg";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import QRCode from "react-native-qrcode-svg";
+import Barcode from "react-native-barcode-svg";
+import {
+  MetadataType,
+  SYMBOLOGIES,
+  isWideSymbology,
+  normalizeSymbology,
+  toSymbologySvg,
+} from "@/utils/symbology";
+
+export type ThemedCodeProps = {
+  value: string;
+  metadataType?: MetadataType;
+  // Side of square symbols (QR, Aztec, Data Matrix).
+  size: number;
+  // Box for linear codes and PDF417.
+  barcodeWidth: number;
+  barcodeHeight: number;
+  quietZone?: number;
+};
+
+/**
+ * Draws `value` in the symbology it was scanned in: QR through
+ * react-native-qrcode-svg, linear codes through react-native-barcode-svg and
+ * the remaining 2D codes through bwip-js SVG output.
+ */
+export const ThemedCode = memo(function ThemedCode({
+  value,
+  metadataType,
+  size,
+  barcodeWidth,
+  barcodeHeight,
+  quietZone,
+}: ThemedCodeProps) {
+  const symbology = normalizeSymbology(metadataType);
+  const { jsBarcodeFormat } = SYMBOLOGIES[symbology];
+
+  const svgXml = useMemo(
+    () => toSymbologySvg(symbology, value),
+    [symbology, value]
+  );
+
+  if (symbology === "qr") {
+    return <QRCode value={value} size={size} quietZone={quietZone} />;
+  }
+
+  if (jsBarcodeFormat) {
+    return (
+      <Barcode
+        height={barcodeHeight}
+        maxWidth={barcodeWidth}
+        value={value}
+        format={jsBarcodeFormat}
+      />
+    );
+  }
+
+  const isWide = isWideSymbology(symbology);
+  const width = isWide ? barcodeWidth : size;
+  const height = isWide ? barcodeHeight : size;
+
+  if (!svgXml) {
+    return (
+      <View style={[styles.placeholder, { width, height }]}>
+        <MaterialCommunityIcons
+          name="barcode-off"
+          size={Math.min(width, height) / 2}
+          color="#999"
+        />
+      </View>
+    );
+  }
+
+  return <SvgXml xml={svgXml} width={width} height={height} />;
+});
+
+const styles = StyleSheet.create({
+  placeholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
+
+export default ThemedCode;
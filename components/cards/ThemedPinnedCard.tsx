@@ -1,8 +1,8 @@
 import React, { useMemo } from 'react';
 import { Image, StyleSheet, View, Platform } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { ThemedText } from '../ThemedText';
-import QRCode from 'react-native-qrcode-svg';
-import Barcode from 'react-native-barcode-svg';
+import { ThemedCode } from './ThemedCode';
 import { getIconPath } from '@/utils/returnIcon';
 import { returnItemData } from '@/utils/returnItemData';
 import { returnMidpointColors } from '@/utils/returnMidpointColor';
@@ -10,6 +10,11 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { getResponsiveFontSize, getResponsiveWidth, getResponsiveHeight } from '@/utils/responsive';
 import { TouchableWithoutFeedback } from 'react-native-gesture-handler';
 import { useGlassStyle } from '@/hooks/useGlassStyle';
+import { isCardExpired, isCardNotYetValid } from '@/utils/cardValidity';
+import { parseWifi } from '@/utils/wifiQR';
+import { formatFlightDesignator, formatRoute, parseBoardingPass } from '@/utils/boardingPass';
+import { MetadataType, isWideSymbology, normalizeSymbology } from '@/utils/symbology';
+import { t } from '@/i18n';
 
 // --- Constants for default colors ---
 const DEFAULT_GRADIENT_START = '#FAF3E7';
@@ -18,11 +23,15 @@ const DEFAULT_GRADIENT_END = '#D6C4AF';
 // --- Prop Types ---
 export type ThemedPinnedCardProps = {
   code: string;
-  type: 'bank' | 'store' | 'ewallet';
+  type: 'bank' | 'store' | 'ewallet' | 'wifi' | 'flight';
   metadata: string;
-  metadata_type: 'qr' | 'barcode';
+  metadata_type: MetadataType;
   accountName?: string;
   accountNumber?: string;
+  label?: string;
+  notes?: string;
+  validFrom?: string;
+  validUntil?: string;
   style?: object;
   onAccountPress?: () => void;
   onAccountNumberPress?: () => void;
@@ -36,6 +45,10 @@ export const ThemedPinnedCard = ({
   metadata_type,
   accountName,
   accountNumber,
+  label,
+  notes,
+  validFrom,
+  validUntil,
   style,
   onAccountPress,
   onAccountNumberPress,
@@ -47,10 +60,45 @@ export const ThemedPinnedCard = ({
   const qrSize = useMemo(() => getResponsiveWidth(42), []);
   const barcodeHeight = useMemo(() => getResponsiveHeight(12), []);
   const barcodeWidth = useMemo(() => getResponsiveWidth(70), []);
+  const isWideCode = useMemo(
+    () => isWideSymbology(normalizeSymbology(metadata_type)),
+    [metadata_type]
+  );
 
   const itemData = useMemo(() => returnItemData(code), [code]);
   const { name, color, accent_color } = itemData;
   const iconPath = useMemo(() => getIconPath(code), [code]);
+  const wifiNetwork = useMemo(
+    () => (type === 'wifi' ? parseWifi(metadata) : null),
+    [type, metadata]
+  );
+  const boardingPass = useMemo(
+    () => (type === 'flight' ? parseBoardingPass(metadata) : null),
+    [type, metadata]
+  );
+  // Flight, route, then the date, seat and sequence number of the first leg.
+  const flightLines = useMemo(() => {
+    if (!boardingPass) return null;
+    const [leg] = boardingPass.legs;
+    return {
+      flight: `${formatFlightDesignator(leg)} · ${formatRoute(boardingPass)}`,
+      details: [
+        leg.date?.toLocaleDateString(),
+        leg.seat && `${t('boardingPassSheet.seat')} ${leg.seat}`,
+        leg.sequenceNumber && `${t('boardingPassSheet.sequence')} ${leg.sequenceNumber}`,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+    };
+  }, [boardingPass]);
+
+  const isExpired = useMemo(() => isCardExpired(validUntil), [validUntil]);
+  const validityText = useMemo(() => {
+    if (isExpired) return t('cardValidity.expired');
+    if (isCardNotYetValid(validFrom)) return t('cardValidity.notYetValid');
+    if (validUntil) return `${t('cardValidity.validUntil')} ${validUntil}`;
+    return '';
+  }, [isExpired, validFrom, validUntil]);
 
   // --- Color & Gradient Logic ---
 
@@ -85,7 +133,7 @@ export const ThemedPinnedCard = ({
   // --- Main Render ---
   return (
     <View style={[styles.outerContainer, enableGlassmorphism && styles.glassOuterContainer]}>
-      <View style={styles.cardWrapper}>
+      <View style={[styles.cardWrapper, isExpired && styles.expiredCard]}>
         {/* Background gradient for glassmorphism */}
         {enableGlassmorphism && backgroundGradient && (
           <LinearGradient
@@ -115,9 +163,29 @@ export const ThemedPinnedCard = ({
           {/* --- Card Header --- */}
           <View style={styles.headerContainer}>
             <View style={[styles.logoContainer, enableGlassmorphism && styles.glassLogoContainer]}>
-              <Image source={iconPath} style={styles.logo} resizeMode="contain" />
+              {type === 'wifi' || type === 'flight' ? (
+                <MaterialCommunityIcons
+                  name={type === 'wifi' ? 'wifi' : 'airplane'}
+                  size={getResponsiveFontSize(20)}
+                  color={color?.light}
+                />
+              ) : (
+                <Image source={iconPath} style={styles.logo} resizeMode="contain" />
+              )}
             </View>
-            <ThemedText style={[styles.companyName, enableGlassmorphism && styles.glassText]}>{name}</ThemedText>
+            <View style={styles.nameContainer}>
+              <ThemedText style={[styles.companyName, enableGlassmorphism && styles.glassText]}>{name}</ThemedText>
+              {!!label && (
+                <ThemedText style={[styles.label, enableGlassmorphism && styles.glassSubText]} numberOfLines={1}>
+                  {label}
+                </ThemedText>
+              )}
+            </View>
+            {!!validityText && (
+              <View style={[styles.validityBadge, isExpired && styles.expiredBadge]}>
+                <ThemedText style={styles.validityText}>{validityText}</ThemedText>
+              </View>
+            )}
           </View>
 
           {/* --- Card Body (QR/Barcode) --- */}
@@ -125,15 +193,18 @@ export const ThemedPinnedCard = ({
             <View
               style={[
                 styles.codeWrapper,
-                metadata_type === 'barcode' && styles.barcodePadding,
+                isWideCode && styles.barcodePadding,
                 enableGlassmorphism && styles.glassCodeWrapper,
               ]}
             >
-              {metadata_type === 'qr' ? (
-                <QRCode value={metadata} size={qrSize} quietZone={getResponsiveWidth(0.8)} />
-              ) : (
-                <Barcode height={barcodeHeight} maxWidth={barcodeWidth} value={metadata} format="CODE128" />
-              )}
+              <ThemedCode
+                value={metadata}
+                metadataType={metadata_type}
+                size={qrSize}
+                barcodeWidth={barcodeWidth}
+                barcodeHeight={barcodeHeight}
+                quietZone={getResponsiveWidth(0.8)}
+              />
             </View>
 
             {type === 'bank' && (
@@ -154,7 +225,7 @@ export const ThemedPinnedCard = ({
 
             {/* --- Card Footer (Account Info) --- */}
             <View style={styles.infoContainer}>
-              {(type === 'bank' || type === "ewallet") && (
+              {(type === 'bank' || type === "ewallet" || type === 'wifi' || type === 'flight') && (
                 <TouchableWithoutFeedback onPress={onAccountPress}>
                   <ThemedText type="defaultSemiBold" style={[styles.accountName, enableGlassmorphism && styles.glassText]} numberOfLines={1}>
                     {accountName}
@@ -163,9 +234,23 @@ export const ThemedPinnedCard = ({
               )}
               <TouchableWithoutFeedback onPress={onAccountNumberPress}>
                 <ThemedText style={[styles.accountNumber, enableGlassmorphism && styles.glassSubText]} numberOfLines={1}>
-                  {accountNumber ? accountNumber : metadata}
+                  {wifiNetwork
+                    ? t(`wifiSheet.security.${wifiNetwork.security}`)
+                    : flightLines
+                      ? flightLines.flight
+                      : accountNumber ? accountNumber : metadata}
                 </ThemedText>
               </TouchableWithoutFeedback>
+              {!!flightLines?.details && (
+                <ThemedText style={[styles.accountNumber, enableGlassmorphism && styles.glassSubText]} numberOfLines={1}>
+                  {flightLines.details}
+                </ThemedText>
+              )}
+              {!!notes && (
+                <ThemedText style={[styles.notes, enableGlassmorphism && styles.glassSubText]} numberOfLines={3}>
+                  {notes}
+                </ThemedText>
+              )}
             </View>
           </View>
         </LinearGradient>
@@ -245,11 +330,34 @@ const styles = StyleSheet.create({
     width: '60%',
     height: '60%',
   },
+  nameContainer: {
+    flex: 1,
+  },
   companyName: {
     color: 'white',
     fontSize: getResponsiveFontSize(16),
     fontWeight: 'bold',
-    flex: 1,
+  },
+  label: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: getResponsiveFontSize(13),
+  },
+  validityBadge: {
+    paddingHorizontal: getResponsiveWidth(2.4),
+    paddingVertical: getResponsiveHeight(0.3),
+    borderRadius: getResponsiveWidth(2),
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  expiredBadge: {
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  validityText: {
+    color: 'white',
+    fontSize: getResponsiveFontSize(12),
+    fontWeight: '600',
+  },
+  expiredCard: {
+    opacity: 0.6,
   },
   
   // --- Body ---
@@ -325,6 +433,13 @@ const styles = StyleSheet.create({
     fontSize: getResponsiveFontSize(15),
     maxWidth: getResponsiveWidth(65),
   },
+  notes: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: getResponsiveFontSize(13),
+    textAlign: 'center',
+    marginTop: getResponsiveHeight(0.6),
+    maxWidth: getResponsiveWidth(70),
+  },
 
   // --- Glassmorphism Text Styles ---
   glassText: {
@@ -1,3 +1,4 @@
 export * from '@/components/cards/ThemedCardItem'
+export * from '@/components/cards/ThemedCode'
 export * from '@/components/cards/ThemedEmptyCard'
 export * from '@/components/cards/ThemedPinnedCard'
\ No newline at end of file
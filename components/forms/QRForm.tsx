@@ -12,6 +12,7 @@ import {
   Keyboard,
   Platform,
   ActivityIndicator,
+  Pressable,
 } from "react-native";
 import { Formik, FormikHelpers, FormikProps } from "formik";
 import Animated, {
@@ -41,10 +42,25 @@ import ThemedReuseableSheet from "@/components/bottomsheet/ThemedReusableSheet";
 import {
   CategorySheetItem,
   BrandSheetItem,
-  MetadataTypeSheetItem,
+  SymbologySheetItem,
+  WifiSecuritySheetItem,
 } from "@/components/bottomsheet/SheetItem";
 import { qrCodeSchema } from "@/utils/validationSchemas";
 import { returnItemsByType } from "@/utils/returnItemData";
+import { WifiSecurity, buildWifiPayload, parseWifi } from "@/utils/wifiQR";
+import {
+  formatFlightDesignator,
+  formatRoute,
+  parseBoardingPass,
+} from "@/utils/boardingPass";
+import {
+  SYMBOLOGIES,
+  SYMBOLOGY_VALUES,
+  Symbology,
+  isSymbology,
+  isTwoDimensional,
+  validateSymbologyValue,
+} from "@/utils/symbology";
 import { useLocale } from "@/context/LocaleContext";
 import {
   getResponsiveFontSize,
@@ -62,21 +78,29 @@ const AnimatedKeyboardAwareScrollView =
 // --- Type definitions (unchanged) ---
 export interface CategoryItem {
   display: string;
-  value: "bank" | "ewallet" | "store";
+  value: "bank" | "ewallet" | "store" | "wifi" | "flight";
 }
 export interface BrandItem {
   code: string;
   name: string;
   full_name: string;
-  type: "bank" | "ewallet" | "store";
+  type: "bank" | "ewallet" | "store" | "wifi" | "flight";
   bin?: string;
 }
 export interface MetadataTypeItem {
   display: string;
-  value: "qr" | "barcode";
+  value: Symbology;
 }
-export type SheetItem = CategoryItem | BrandItem | MetadataTypeItem;
-export type SheetType = "category" | "brand" | "metadataType";
+export interface WifiSecurityItem {
+  display: string;
+  value: WifiSecurity;
+}
+export type SheetItem =
+  | CategoryItem
+  | BrandItem
+  | MetadataTypeItem
+  | WifiSecurityItem;
+export type SheetType = "category" | "brand" | "metadataType" | "wifiSecurity";
 export interface FormParams {
   category: CategoryItem | null;
   brand: BrandItem | null;
@@ -84,6 +108,13 @@ export interface FormParams {
   metadata: string;
   accountName: string;
   accountNumber: string;
+  label: string;
+  notes: string;
+  validFrom: string;
+  validUntil: string;
+  wifiSecurity: WifiSecurity;
+  wifiPassword: string;
+  wifiHidden: boolean;
 }
 interface QRFormProps {
   initialValues: FormParams;
@@ -101,10 +132,45 @@ interface QRFormProps {
     accountName: string,
     brandBin: string
   ) => Promise<{ qrCode?: string | null; error?: string | null } | null>;
+  paymentNotice?: string;
 }
 
 const DEBOUNCE_DELAY = 750;
 const BRAND_PAGE_SIZE = 10;
+const WIFI_BRAND_CODE = "WIFI";
+const FLIGHT_BRAND_CODE = "FLIGHT";
+// The form only offers personal networks; enterprise ones need credentials.
+const WIFI_SECURITY_OPTIONS: WifiSecurity[] = ["WPA", "WPA3", "WEP", "nopass"];
+
+/** Every symbology a card can be drawn in, QR first. */
+export const getMetadataTypeItems = (): MetadataTypeItem[] =>
+  SYMBOLOGY_VALUES.map((value) => ({
+    display: value === "qr" ? t("addScreen.qr") : SYMBOLOGIES[value].label,
+    value,
+  }));
+
+export const getMetadataTypeItem = (symbology: Symbology): MetadataTypeItem => {
+  const items = getMetadataTypeItems();
+  return items.find((item) => item.value === symbology) ?? items[0];
+};
+
+/**
+ * Reads the Wi-Fi form fields back out of a stored `WIFI:` payload, falling
+ * back to an empty WPA network for other cards.
+ */
+export const getWifiFormFields = (
+  metadata?: string
+): Pick<FormParams, "wifiSecurity" | "wifiPassword" | "wifiHidden"> => {
+  const network = metadata ? parseWifi(metadata) : null;
+  if (!network || !WIFI_SECURITY_OPTIONS.includes(network.security)) {
+    return { wifiSecurity: "WPA", wifiPassword: "", wifiHidden: false };
+  }
+  return {
+    wifiSecurity: network.security,
+    wifiPassword: network.password,
+    wifiHidden: network.isHidden,
+  };
+};
 
 // --- BankMetadataFetcher (unchanged) ---
 const BankMetadataFetcher: React.FC<{
@@ -227,6 +293,94 @@ const BankMetadataFetcher: React.FC<{
   }
 );
 
+// --- WifiPayloadSync ---
+// Keeps the Wi-Fi card's QR payload in step with the network fields.
+const WifiPayloadSync: React.FC<{
+  values: FormParams;
+  setFieldValue: FormikProps<FormParams>["setFieldValue"];
+  setCardMetadata: (metadata: string) => void;
+}> = React.memo(function WifiPayloadSync({
+  values,
+  setFieldValue,
+  setCardMetadata,
+}) {
+  const { category, accountName, wifiSecurity, wifiPassword, wifiHidden } =
+    values;
+  const categoryValue = category?.value;
+
+  useEffect(() => {
+    if (categoryValue !== "wifi") return;
+    const payload = accountName
+      ? buildWifiPayload({
+          ssid: accountName,
+          password: wifiPassword,
+          security: wifiSecurity,
+          isWEP: wifiSecurity === "WEP",
+          isHidden: wifiHidden,
+        })
+      : "";
+    if (payload !== values.metadata) {
+      setFieldValue("metadata", payload);
+      setCardMetadata(payload);
+    }
+  }, [
+    categoryValue,
+    accountName,
+    wifiSecurity,
+    wifiPassword,
+    wifiHidden,
+    values.metadata,
+    setFieldValue,
+    setCardMetadata,
+  ]);
+
+  return null;
+});
+
+// --- BoardingPassSync ---
+// Fills the passenger and flight number of a flight card from its boarding
+// pass data, so cards list and search like any other.
+const BoardingPassSync: React.FC<{
+  values: FormParams;
+  setFieldValue: FormikProps<FormParams>["setFieldValue"];
+  setCardAccountName: (accountName: string) => void;
+  setCardAccountNumber: (accountNumber: string) => void;
+}> = React.memo(function BoardingPassSync({
+  values,
+  setFieldValue,
+  setCardAccountName,
+  setCardAccountNumber,
+}) {
+  const { category, metadata, accountName, accountNumber } = values;
+  const categoryValue = category?.value;
+
+  useEffect(() => {
+    if (categoryValue !== "flight") return;
+    const boardingPass = parseBoardingPass(metadata.trim());
+    if (!boardingPass) return;
+    const passenger = boardingPass.passengerName;
+    const flight = formatFlightDesignator(boardingPass.legs[0]);
+    if (passenger !== accountName) {
+      setFieldValue("accountName", passenger);
+      setCardAccountName(passenger);
+    }
+    if (flight !== accountNumber) {
+      setFieldValue("accountNumber", flight);
+      setCardAccountNumber(flight);
+    }
+  }, [
+    categoryValue,
+    metadata,
+    accountName,
+    accountNumber,
+    setFieldValue,
+    setCardAccountName,
+    setCardAccountNumber,
+  ]);
+
+  return null;
+});
+
 const QRForm: React.FC<QRFormProps> = ({
   initialValues,
   onSubmit,
@@ -236,6 +390,7 @@ const QRForm: React.FC<QRFormProps> = ({
   isMetadataLoading = false,
   formikRef,
   onAttemptBankMetadataFetch,
+  paymentNotice,
 }) => {
   // --- Hooks and State ---
   const { currentTheme } = useTheme();
@@ -261,6 +416,10 @@ const QRForm: React.FC<QRFormProps> = ({
   const [cardAccountNumber, setCardAccountNumber] = useState(
     initialValues.accountNumber
   );
+  const [cardLabel, setCardLabel] = useState(initialValues.label);
+  const [cardValidUntil, setCardValidUntil] = useState(
+    initialValues.validUntil
+  );
 
   useEffect(() => {
     setCardCategory(initialValues.category);
@@ -269,6 +428,8 @@ const QRForm: React.FC<QRFormProps> = ({
     setCardMetadata(initialValues.metadata);
     setCardAccountName(initialValues.accountName);
     setCardAccountNumber(initialValues.accountNumber);
+    setCardLabel(initialValues.label);
+    setCardValidUntil(initialValues.validUntil);
   }, [initialValues]);
 
   const [isSheetOpen, setIsSheetOpen] = useState(false);
@@ -313,19 +474,26 @@ const QRForm: React.FC<QRFormProps> = ({
       { display: t("addScreen.bankCategory"), value: "bank" },
       { display: t("addScreen.ewalletCategory"), value: "ewallet" },
       { display: t("addScreen.storeCategory"), value: "store" },
+      { display: t("addScreen.wifiCategory"), value: "wifi" },
+      { display: t("addScreen.flightCategory"), value: "flight" },
     ],
     []
   );
+  const wifiSecurityData: WifiSecurityItem[] = useMemo(
+    () =>
+      WIFI_SECURITY_OPTIONS.map((value) => ({
+        display: t(`wifiSheet.security.${value}`),
+        value,
+      })),
+    []
+  );
   const metadataTypeData: MetadataTypeItem[] = useMemo(
-    () => [
-      { display: t("addScreen.qr"), value: "qr" },
-      { display: t("addScreen.barcode"), value: "barcode" },
-    ],
+    () => getMetadataTypeItems(),
     []
   );
 
   const mapDataTypeToBrandItemType = useCallback(
-    (dataType: DataType): "bank" | "ewallet" | "store" => {
+    (dataType: DataType): "bank" | "ewallet" | "store" | "wifi" | "flight" => {
       switch (dataType) {
         case "bank":
         case "vietqr":
@@ -334,6 +502,10 @@ const QRForm: React.FC<QRFormProps> = ({
           return "ewallet";
         case "store":
           return "store";
+        case "wifi":
+          return "wifi";
+        case "flight":
+          return "flight";
         default:
           console.warn(`Unexpected DataType encountered: ${dataType}`);
           return "store";
@@ -564,13 +736,47 @@ const QRForm: React.FC<QRFormProps> = ({
           setFieldValue("brand", null);
           setCardBrand(null);
 
-          if (newCategory.value === "store") {
+          if (
+            newCategory.value === "store" ||
+            newCategory.value === "wifi" ||
+            newCategory.value === "flight" ||
+            oldCategoryValue === "wifi" ||
+            oldCategoryValue === "flight"
+          ) {
             setFieldValue("accountName", "");
             setCardAccountName("");
             setFieldValue("accountNumber", "");
             setCardAccountNumber("");
           }
 
+          // Wi-Fi and flight cards have a single built-in brand. Wi-Fi always
+          // renders a QR; boarding passes keep a 2D symbology such as PDF417
+          // or Aztec.
+          if (newCategory.value === "wifi" || newCategory.value === "flight") {
+            const builtInCode =
+              newCategory.value === "wifi" ? WIFI_BRAND_CODE : FLIGHT_BRAND_CODE;
+            const builtInBrand = getItemsByTypeHelper(
+              newCategory.value,
+              locale
+            ).find((brandItem) => brandItem.code === builtInCode);
+            if (builtInBrand) {
+              setFieldValue("brand", builtInBrand);
+              setCardBrand(builtInBrand);
+            }
+            const keepsSymbology =
+              newCategory.value === "flight" &&
+              !!cardMetadataType &&
+              isTwoDimensional(cardMetadataType.value);
+            if (!keepsSymbology) {
+              setFieldValue("metadataType", metadataTypeData[0]);
+              setCardMetadataType(metadataTypeData[0]);
+            }
+          }
+          if (oldCategoryValue === "wifi") {
+            setFieldValue("metadata", "");
+            setCardMetadata("");
+          }
+
           if (newCategory.value !== oldCategoryValue) {
             setDisplayedBrandItems([]);
             setBrandItemsOffset(0);
@@ -589,9 +795,12 @@ const QRForm: React.FC<QRFormProps> = ({
           setFieldValue("metadataType", newMetaType);
           setCardMetadataType(newMetaType);
           break;
+        case "wifiSecurity":
+          setFieldValue("wifiSecurity", (item as WifiSecurityItem).value);
+          break;
       }
     },
-    []
+    [getItemsByTypeHelper, locale, metadataTypeData, cardMetadataType]
   );
 
   const handleSheetChange = useCallback((index: number) => {
@@ -611,10 +820,18 @@ const QRForm: React.FC<QRFormProps> = ({
         return displayedBrandItems;
       case "metadataType":
         return metadataTypeData;
+      case "wifiSecurity":
+        return wifiSecurityData;
       default:
         return [];
     }
-  }, [sheetType, categoryData, metadataTypeData, displayedBrandItems]);
+  }, [
+    sheetType,
+    categoryData,
+    metadataTypeData,
+    wifiSecurityData,
+    displayedBrandItems,
+  ]);
 
   const keyExtractor = useCallback(
     (item: unknown, index?: number): string => {
@@ -647,13 +864,17 @@ const QRForm: React.FC<QRFormProps> = ({
       currentCategoryFromForm: CategoryItem | null,
       currentBrandFromForm: BrandItem | null,
       currentMetaTypeFromForm: MetadataTypeItem | null,
+      currentWifiSecurityFromForm: WifiSecurity,
       setFieldValue: FormikProps<FormParams>["setFieldValue"]
     ) => {
       if (!item) return null;
       const isCategory =
-        "value" in item && ["store", "bank", "ewallet"].includes(item.value);
-      const isMetadataType =
-        "value" in item && ["qr", "barcode"].includes(item.value);
+        "value" in item &&
+        ["store", "bank", "ewallet", "wifi", "flight"].includes(item.value);
+      const isMetadataType = "value" in item && isSymbology(item.value);
+      const isWifiSecurity =
+        "value" in item &&
+        WIFI_SECURITY_OPTIONS.includes(item.value as WifiSecurity);
       const isBrand = "code" in item;
 
       const commonProps = {
@@ -682,7 +903,12 @@ const QRForm: React.FC<QRFormProps> = ({
       if (isMetadataType) {
         commonProps.isSelected =
           currentMetaTypeFromForm?.value === (item as MetadataTypeItem).value;
-        return <MetadataTypeSheetItem {...commonProps} />;
+        return <SymbologySheetItem {...commonProps} />;
+      }
+      if (isWifiSecurity) {
+        commonProps.isSelected =
+          currentWifiSecurityFromForm === (item as WifiSecurityItem).value;
+        return <WifiSecuritySheetItem {...commonProps} />;
       }
       return null;
     },
@@ -698,6 +924,8 @@ const QRForm: React.FC<QRFormProps> = ({
         type={cardCategory?.value || "store"}
         metadata={cardMetadata}
         metadata_type={cardMetadataType?.value}
+        label={cardLabel}
+        validUntil={cardValidUntil}
         cardHolderStyle={{
           maxWidth: getResponsiveWidth(40),
           fontSize: getResponsiveFontSize(12),
@@ -712,6 +940,8 @@ const QRForm: React.FC<QRFormProps> = ({
       cardCategory,
       cardMetadata,
       cardMetadataType,
+      cardLabel,
+      cardValidUntil,
     ]
   );
 
@@ -738,6 +968,12 @@ const QRForm: React.FC<QRFormProps> = ({
         case "accountNumber":
           setCardAccountNumber(fieldValue);
           break;
+        case "label":
+          setCardLabel(fieldValue);
+          break;
+        case "validUntil":
+          setCardValidUntil(fieldValue);
+          break;
         default:
           break;
       }
@@ -866,7 +1102,9 @@ const QRForm: React.FC<QRFormProps> = ({
             if (
               fieldName === "metadata" ||
               fieldName === "accountName" ||
-              fieldName === "accountNumber"
+              fieldName === "accountNumber" ||
+              fieldName === "label" ||
+              fieldName === "validUntil"
             ) {
               updateCardStateOnBlur(fieldName, String(fieldValue ?? ""));
             }
@@ -926,6 +1164,72 @@ const QRForm: React.FC<QRFormProps> = ({
           });
         }
 
+        const wifiInfoErrors: InputGroupError[] = [];
+        if (touched.accountName && errors.accountName) {
+          wifiInfoErrors.push({
+            inputId: "ssid",
+            message: String(errors.accountName),
+            label: t("addScreen.wifiSsidLabel"),
+          });
+        }
+        if (touched.wifiPassword && errors.wifiPassword) {
+          wifiInfoErrors.push({
+            inputId: "wifi password",
+            message: String(errors.wifiPassword),
+            label: t("addScreen.wifiPasswordLabel"),
+          });
+        }
+
+        // Typed store and e-wallet codes get the same symbology check as the
+        // schema, plus the corrections and re-encoding it cannot show.
+        const barcodeCheck =
+          values.category?.value === "store" ||
+          values.category?.value === "ewallet"
+            ? validateSymbologyValue(
+                values.metadataType.value,
+                values.metadata.trim()
+              )
+            : null;
+        const barcodeSuggestions =
+          barcodeCheck?.issue && touched.metadata
+            ? barcodeCheck.suggestions
+            : [];
+
+        const formBoardingPass =
+          values.category?.value === "flight"
+            ? parseBoardingPass(values.metadata.trim())
+            : null;
+
+        const extraInfoErrors: InputGroupError[] = [];
+        if (touched.label && errors.label) {
+          extraInfoErrors.push({
+            inputId: "label",
+            message: String(errors.label),
+            label: t("addScreen.labelLabel"),
+          });
+        }
+        if (touched.notes && errors.notes) {
+          extraInfoErrors.push({
+            inputId: "notes",
+            message: String(errors.notes),
+            label: t("addScreen.notesLabel"),
+          });
+        }
+        if (touched.validFrom && errors.validFrom) {
+          extraInfoErrors.push({
+            inputId: "valid from",
+            message: String(errors.validFrom),
+            label: t("addScreen.validFromLabel"),
+          });
+        }
+        if (touched.validUntil && errors.validUntil) {
+          extraInfoErrors.push({
+            inputId: "valid until",
+            message: String(errors.validUntil),
+            label: t("addScreen.validUntilLabel"),
+          });
+        }
+
         return (
           <ThemedView style={styles.container}>
             <BankMetadataFetcher
@@ -937,6 +1241,17 @@ const QRForm: React.FC<QRFormProps> = ({
               showToast={showToast}
               setCardMetadata={setCardMetadata}
             />
+            <BoardingPassSync
+              values={values}
+              setFieldValue={setFieldValue}
+              setCardAccountName={setCardAccountName}
+              setCardAccountNumber={setCardAccountNumber}
+            />
+            <WifiPayloadSync
+              values={values}
+              setFieldValue={setFieldValue}
+              setCardMetadata={setCardMetadata}
+            />
             <ThemedTopToast
               key={toastKey}
               message={toastMessage}
@@ -980,6 +1295,11 @@ const QRForm: React.FC<QRFormProps> = ({
               </Animated.View>
 
               <Animated.View style={formContainerStyle}>
+                {paymentNotice ? (
+                  <ThemedText style={styles.paymentNotice}>
+                    {paymentNotice}
+                  </ThemedText>
+                ) : null}
                 <InputGroup
                   style={styles.formContainer}
                   errors={mainInfoErrors}
@@ -1029,7 +1349,8 @@ const QRForm: React.FC<QRFormProps> = ({
                     <View></View>
                   )}
                   {values.category?.value === "store" ||
-                    values.category?.value === "ewallet" ? (
+                    values.category?.value === "ewallet" ||
+                    values.category?.value === "flight" ? (
                     <Animated.View
                       entering={FadeIn.duration(300)}
                       exiting={FadeOut.duration(300)}
@@ -1069,6 +1390,36 @@ const QRForm: React.FC<QRFormProps> = ({
                   />
                 </InputGroup>
 
+                {barcodeSuggestions.length > 0 ? (
+                  <View style={styles.barcodeHints}>
+                    <ThemedText style={styles.barcodeHintText}>
+                      {t("addScreen.barcodeSuggestion")}
+                    </ThemedText>
+                    {barcodeSuggestions.map((suggestion) => (
+                      <Pressable
+                        key={suggestion}
+                        onPress={() => {
+                          setFieldValue("metadata", suggestion);
+                          setCardMetadata(suggestion);
+                        }}
+                        style={[
+                          styles.barcodeSuggestion,
+                          { backgroundColor: inputBackgroundColor },
+                        ]}
+                      >
+                        <ThemedText style={styles.barcodeSuggestionText}>
+                          {suggestion}
+                        </ThemedText>
+                      </Pressable>
+                    ))}
+                  </View>
+                ) : null}
+                {barcodeCheck?.renderedValue ? (
+                  <ThemedText style={styles.paymentNotice}>
+                    {`${t("addScreen.barcodeRoundTripWarning")} ${barcodeCheck.renderedValue}`}
+                  </ThemedText>
+                ) : null}
+
                 {shouldShowAccountSection(values.category) ? (
                   <InputGroup
                     style={styles.formContainer}
@@ -1101,6 +1452,140 @@ const QRForm: React.FC<QRFormProps> = ({
                     />
                   </InputGroup>
                 ) : null}
+                {values.category?.value === "wifi" ? (
+                  <InputGroup
+                    style={styles.formContainer}
+                    errors={wifiInfoErrors}
+                  >
+                    <ThemedInput
+                      label={t("addScreen.wifiSsidLabel")}
+                      placeholder={t("addScreen.wifiSsidPlaceholder")}
+                      value={values.accountName}
+                      onChangeText={handleChange("accountName")}
+                      onBlur={createFormFieldBlurHandler("accountName")}
+                      disabled={isSubmitting || isMetadataLoading}
+                      groupPosition="top"
+                    />
+                    <ThemedDisplayInput
+                      label={t("addScreen.wifiSecurityLabel")}
+                      placeholder={t("addScreen.wifiSecurityLabel")}
+                      value={t(`wifiSheet.security.${values.wifiSecurity}`)}
+                      onPress={() =>
+                        onOpenSheet("wifiSecurity", values.category)
+                      }
+                      showClearButton={false}
+                      disabled={isSubmitting || isMetadataLoading}
+                      groupPosition="middle"
+                    />
+                    {values.wifiSecurity !== "nopass" ? (
+                      <ThemedInput
+                        label={t("addScreen.wifiPasswordLabel")}
+                        placeholder={t("addScreen.wifiPasswordPlaceholder")}
+                        value={values.wifiPassword}
+                        onChangeText={handleChange("wifiPassword")}
+                        onBlur={createFormFieldBlurHandler("wifiPassword")}
+                        secureTextEntry
+                        disabled={isSubmitting || isMetadataLoading}
+                        groupPosition="middle"
+                      />
+                    ) : (
+                      <View></View>
+                    )}
+                    <ThemedDisplayInput
+                      label={t("addScreen.wifiHiddenLabel")}
+                      value={
+                        values.wifiHidden
+                          ? t("addScreen.wifiHiddenYes")
+                          : t("addScreen.wifiHiddenNo")
+                      }
+                      onPress={() =>
+                        setFieldValue("wifiHidden", !values.wifiHidden)
+                      }
+                      showClearButton={false}
+                      disabled={isSubmitting || isMetadataLoading}
+                      groupPosition="bottom"
+                    />
+                  </InputGroup>
+                ) : null}
+                {formBoardingPass ? (
+                  <InputGroup style={styles.formContainer}>
+                    <ThemedDisplayInput
+                      label={t("addScreen.flightPassengerLabel")}
+                      value={formBoardingPass.passengerName}
+                      showClearButton={false}
+                      groupPosition="top"
+                    />
+                    <ThemedDisplayInput
+                      label={t("addScreen.flightNumberLabel")}
+                      value={formatFlightDesignator(formBoardingPass.legs[0])}
+                      showClearButton={false}
+                      groupPosition="middle"
+                    />
+                    <ThemedDisplayInput
+                      label={t("addScreen.flightRouteLabel")}
+                      value={formatRoute(formBoardingPass)}
+                      showClearButton={false}
+                      groupPosition="middle"
+                    />
+                    <ThemedDisplayInput
+                      label={t("addScreen.flightDateLabel")}
+                      value={
+                        formBoardingPass.legs[0].date?.toLocaleDateString(
+                          locale
+                        ) ?? ""
+                      }
+                      showClearButton={false}
+                      groupPosition="middle"
+                    />
+                    <ThemedDisplayInput
+                      label={t("addScreen.flightSeatLabel")}
+                      value={formBoardingPass.legs[0].seat}
+                      showClearButton={false}
+                      groupPosition="bottom"
+                    />
+                  </InputGroup>
+                ) : null}
+                <InputGroup
+                  style={styles.formContainer}
+                  errors={extraInfoErrors}
+                >
+                  <ThemedInput
+                    label={t("addScreen.labelLabel")}
+                    placeholder={t("addScreen.labelPlaceholder")}
+                    value={values.label}
+                    onChangeText={handleChange("label")}
+                    onBlur={createFormFieldBlurHandler("label")}
+                    disabled={isSubmitting || isMetadataLoading}
+                    groupPosition="top"
+                  />
+                  <ThemedInput
+                    label={t("addScreen.notesLabel")}
+                    placeholder={t("addScreen.notesPlaceholder")}
+                    value={values.notes}
+                    onChangeText={handleChange("notes")}
+                    onBlur={createFormFieldBlurHandler("notes")}
+                    disabled={isSubmitting || isMetadataLoading}
+                    groupPosition="middle"
+                  />
+                  <ThemedInput
+                    label={t("addScreen.validFromLabel")}
+                    placeholder={t("addScreen.datePlaceholder")}
+                    value={values.validFrom}
+                    onChangeText={handleChange("validFrom")}
+                    onBlur={createFormFieldBlurHandler("validFrom")}
+                    disabled={isSubmitting || isMetadataLoading}
+                    groupPosition="middle"
+                  />
+                  <ThemedInput
+                    label={t("addScreen.validUntilLabel")}
+                    placeholder={t("addScreen.datePlaceholder")}
+                    value={values.validUntil}
+                    onChangeText={handleChange("validUntil")}
+                    onBlur={createFormFieldBlurHandler("validUntil")}
+                    disabled={isSubmitting || isMetadataLoading}
+                    groupPosition="bottom"
+                  />
+                </InputGroup>
                 <ThemedButton
                   label={
                     isEditing
@@ -1128,14 +1613,18 @@ const QRForm: React.FC<QRFormProps> = ({
                       ? t("addScreen.brandTitle")
                       : sheetType === "metadataType"
                         ? t("addScreen.metadataTypeTitle")
-                        : ""
+                        : sheetType === "wifiSecurity"
+                          ? t("addScreen.wifiSecurityTitle")
+                          : ""
                 }
                 snapPoints={
                   sheetType === "category"
-                    ? ["32%"]
+                    ? ["44%"]
                     : sheetType === "metadataType"
-                      ? ["25%"]
-                      : ["85%"]
+                      ? ["60%"]
+                      : sheetType === "wifiSecurity"
+                        ? ["38%"]
+                        : ["85%"]
                 }
                 onChange={handleSheetChange}
                 contentType="flat"
@@ -1149,6 +1638,7 @@ const QRForm: React.FC<QRFormProps> = ({
                         values.category,
                         values.brand,
                         values.metadataType,
+                        values.wifiSecurity,
                         setFieldValue
                       ),
                     keyExtractor: keyExtractor,
@@ -1225,6 +1715,33 @@ const styles = StyleSheet.create({
     marginTop: getResponsiveHeight(1.2),
     // marginBottom: getResponsiveHeight(2.4),
   },
+  paymentNotice: {
+    fontSize: getResponsiveFontSize(14),
+    opacity: 0.7,
+    marginTop: getResponsiveHeight(1.2),
+    marginHorizontal: getResponsiveWidth(1.2),
+  },
+  barcodeHints: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: getResponsiveWidth(2),
+    marginTop: getResponsiveHeight(1.2),
+    marginHorizontal: getResponsiveWidth(1.2),
+  },
+  barcodeHintText: {
+    fontSize: getResponsiveFontSize(14),
+    opacity: 0.7,
+  },
+  barcodeSuggestion: {
+    paddingHorizontal: getResponsiveWidth(3),
+    paddingVertical: getResponsiveHeight(0.6),
+    borderRadius: getResponsiveWidth(4),
+  },
+  barcodeSuggestionText: {
+    fontSize: getResponsiveFontSize(14),
+    fontWeight: "600",
+  },
   saveButton: {
     // marginBottom: getResponsiveHeight(3),
   },
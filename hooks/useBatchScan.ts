@@ -0,0 +1,113 @@
+import { useCallback, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState } from '@/store/rootReducer';
+import { GUEST_USER_ID } from '@/constants/Constants';
+import { addQrData } from '@/store/reducers/qrSlice';
+import { getNextQrIndex, insertOrUpdateQrCodes } from '@/services/localDB/qrDB';
+import { markScanHistorySaved } from '@/services/localDB/scanHistoryDB';
+import { generateUniqueId } from '@/utils/uniqueId';
+import { triggerSuccessHapticFeedback } from '@/utils/haptic';
+import { ScanResult } from '@/utils/qrUtils';
+import {
+    BatchCategory,
+    BatchScanItem,
+    buildBatchRecord,
+    createBatchItem,
+} from '@/utils/batchScan';
+
+/**
+ * Collects codes captured in batch mode. Each raw value is kept once, so a
+ * card held in front of the camera for several frames is captured once.
+ */
+const useBatchScan = () => {
+    const dispatch = useDispatch();
+    const userId = useSelector(
+        (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID
+    );
+    const [items, setItems] = useState<BatchScanItem[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const seenValuesRef = useRef<Set<string>>(new Set());
+
+    const hasCode = useCallback(
+        (codeValue: string) => seenValuesRef.current.has(codeValue),
+        []
+    );
+
+    const addCode = useCallback(
+        (codeValue: string, result: ScanResult, codeFormat?: number) => {
+            if (seenValuesRef.current.has(codeValue)) return;
+            seenValuesRef.current.add(codeValue);
+            setItems((prev) => [...prev, createBatchItem(codeValue, result, codeFormat)]);
+            triggerSuccessHapticFeedback();
+        },
+        []
+    );
+
+    // A removed code can be captured again.
+    const removeItem = useCallback((codeValue: string) => {
+        seenValuesRef.current.delete(codeValue);
+        setItems((prev) => prev.filter((item) => item.codeValue !== codeValue));
+    }, []);
+
+    const setItemCategory = useCallback((codeValue: string, category: BatchCategory) => {
+        setItems((prev) =>
+            prev.map((item) => (item.codeValue === codeValue ? { ...item, category } : item))
+        );
+    }, []);
+
+    const clear = useCallback(() => {
+        seenValuesRef.current.clear();
+        setItems([]);
+    }, []);
+
+    /**
+     * Saves every captured code in one insert. Returns the number of saved
+     * cards; the batch is kept when the insert fails so nothing is lost.
+     */
+    const saveAll = useCallback(async (): Promise<number> => {
+        if (items.length === 0 || isSaving) return 0;
+        setIsSaving(true);
+        try {
+            const firstIndex = await getNextQrIndex(userId);
+            const now = new Date().toISOString();
+            // Guest cards are never uploaded, so they count as synced.
+            const isSynced = userId === GUEST_USER_ID;
+            const records = items.map((item, index) =>
+                buildBatchRecord(item, {
+                    id: generateUniqueId(),
+                    qr_index: firstIndex + index,
+                    user_id: userId,
+                    created: now,
+                    is_synced: isSynced,
+                })
+            );
+
+            await insertOrUpdateQrCodes(records);
+            records.forEach((record) => dispatch(addQrData(record)));
+            await Promise.all(items.map((item) => markScanHistorySaved(userId, item.codeValue)));
+
+            clear();
+            return records.length;
+        } catch (error) {
+            console.error('Error saving batch scan:', error);
+            throw error;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [items, isSaving, userId, dispatch, clear]);
+
+    return {
+        items,
+        isSaving,
+        hasCode,
+        addCode,
+        removeItem,
+        setItemCategory,
+        clear,
+        saveAll,
+    };
+};
+
+export type BatchScan = ReturnType<typeof useBatchScan>;
+
+export default useBatchScan;
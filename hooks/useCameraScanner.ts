@@ -1,11 +1,19 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Code, CodeScannerFrame } from "react-native-vision-camera";
 import { useMMKVBoolean } from "react-native-mmkv";
+import { useSelector } from "react-redux";
 import { storage } from "@/utils/storage";
 import useHandleCodeScanned from "@/hooks/useHandleCodeScanned";
+import useBatchScan from "@/hooks/useBatchScan";
+import { addScanHistoryEntry } from "@/services/localDB/scanHistoryDB";
+import { RootState } from "@/store/rootReducer";
+import { GUEST_USER_ID } from "@/constants/Constants";
 import { triggerLightHapticFeedback } from "@/utils/haptic";
+import { getCodeFormatFromCameraType } from "@/utils/symbology";
+import { analyzeCode } from "@/utils/qrUtils";
 import { MaterialIcons } from "@expo/vector-icons";
 import { t } from "@/i18n";
+import CodeChoice from "@/types/codeChoiceType";
 
 interface CameraHighlight {
   x: number;
@@ -14,10 +22,30 @@ interface CameraHighlight {
   height: number;
 }
 
+const toHighlight = ({ frame }: Code): CameraHighlight => ({
+  height: frame?.height ?? 0,
+  width: frame?.width ?? 0,
+  x: frame?.x ?? 0,
+  y: frame?.y ?? 0,
+});
+
+// Codes with a value, each value once, in the order the camera reports them.
+const getDistinctCodes = (codes: Code[]): Code[] => {
+  const seen = new Set<string>();
+  return codes.filter(({ value }) => {
+    if (!value || seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+};
+
 export const useCameraScanner = () => {
   const frameCounterRef = useRef(0);
   const highlightTimeoutRef = useRef<number | null>(null);
   const lockedCodeRef = useRef<string | null>(null);
+  // True when the user picked the locked code among several in frame.
+  const isChosenLockRef = useRef(false);
+  const codeChoicesKeyRef = useRef("");
 
   // Scanner-related states
   const [scanFrame, setScanFrame] = useState<CodeScannerFrame>({
@@ -30,10 +58,14 @@ export const useCameraScanner = () => {
   const [codeMetadata, setCodeMetadata] = useState("");
   const [codeValue, setCodeValue] = useState("");
   const [codeType, setCodeType] = useState("");
+  // ML Kit format number, the same one the gallery decoder reports.
+  const [codeFormat, setCodeFormat] = useState<number>();
   const [iconName, setIconName] =
     useState<keyof typeof MaterialIcons.glyphMap>("explore");
   const [isConnecting, setIsConnecting] = useState(false);
   const [isCodeLocked, setIsCodeLocked] = useState(false);
+  // Filled while several codes are in frame and none is picked yet.
+  const [codeChoices, setCodeChoices] = useState<CodeChoice[]>([]);
 
   // Settings states
   const [showIndicator, setShowIndicator] = useState(true);
@@ -41,18 +73,33 @@ export const useCameraScanner = () => {
     "showIndicator",
     storage,
   );
+  const [batchModeMMKV, setBatchModeMMKV] = useMMKVBoolean(
+    "batchScanMode",
+    storage,
+  );
+  const isBatchMode = batchModeMMKV ?? false;
+
+  const batch = useBatchScan();
+  const { hasCode: isBatchCaptured, addCode: addBatchCode } = batch;
 
   const handleCodeScanned = useHandleCodeScanned();
+  const userId = useSelector(
+    (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID,
+  );
 
   // Full reset function
   const resetScanner = useCallback(() => {
     setIsConnecting(false);
     setCodeType("");
+    setCodeFormat(undefined);
     setCodeValue("");
     setCodeScannerHighlights([]);
     setCodeMetadata("");
     setIsCodeLocked(false);
+    setCodeChoices([]);
     lockedCodeRef.current = null;
+    isChosenLockRef.current = false;
+    codeChoicesKeyRef.current = "";
   }, []);
 
   useEffect(() => {
@@ -70,6 +117,77 @@ export const useCameraScanner = () => {
     triggerLightHapticFeedback();
   }, [setShowIndicator, setShowIndicatorMMKV]);
 
+  const toggleBatchMode = useCallback(() => {
+    // Leaving single mode mid-scan must not keep the camera locked.
+    resetScanner();
+    setBatchModeMMKV(!isBatchMode);
+    triggerLightHapticFeedback();
+  }, [isBatchMode, setBatchModeMMKV, resetScanner]);
+
+  // Batch mode never locks: every new code in frame is captured and the
+  // camera keeps running. The tray shows what was captured.
+  const captureBatchCodes = useCallback(
+    (codes: Code[]) => {
+      if (showIndicator) {
+        setCodeScannerHighlights(codes.map(toHighlight));
+      }
+
+      codes.forEach(({ value, type }) => {
+        if (!value || isBatchCaptured(value)) return;
+        const scannedFormat = getCodeFormatFromCameraType(type);
+        // Called directly: the throttled handler would drop codes that
+        // share a frame.
+        const result = analyzeCode(value, { t, codeFormat: scannedFormat });
+        addBatchCode(value, result, scannedFormat);
+        addScanHistoryEntry(userId, value, result.codeType, scannedFormat);
+      });
+    },
+    [showIndicator, isBatchCaptured, addBatchCode, userId],
+  );
+
+  // Several codes in frame: highlight them all and let the user pick one
+  // instead of locking onto whichever the camera reported first.
+  const presentCodeChoices = useCallback(
+    (distinctCodes: Code[]) => {
+      if (showIndicator) {
+        setCodeScannerHighlights(distinctCodes.map(toHighlight));
+      }
+
+      // Only re-analyze when the set of codes changes, not on every frame.
+      const key = distinctCodes.map(({ value }) => value).join("\n");
+      if (key === codeChoicesKeyRef.current) return;
+      codeChoicesKeyRef.current = key;
+      setCodeChoices(
+        distinctCodes.map(({ value = "", type }) => {
+          const scannedFormat = getCodeFormatFromCameraType(type);
+          return {
+            codeValue: value,
+            codeFormat: scannedFormat,
+            result: analyzeCode(value, { t, codeFormat: scannedFormat }),
+          };
+        }),
+      );
+    },
+    [showIndicator],
+  );
+
+  const selectCode = useCallback(
+    ({ codeValue: value, codeFormat: format, result }: CodeChoice) => {
+      lockedCodeRef.current = value;
+      isChosenLockRef.current = true;
+      codeChoicesKeyRef.current = "";
+      setCodeChoices([]);
+      setIsCodeLocked(true);
+      setCodeMetadata(value);
+      setCodeType(result.codeType);
+      setCodeFormat(format);
+      setIconName(result.iconName);
+      setCodeValue(result.rawCodeValue);
+      addScanHistoryEntry(userId, value, result.codeType, format);
+    },
+    [userId],
+  );
+
   const createCodeScannerCallback = useCallback(
     (codes: Code[], frame: CodeScannerFrame) => {
       // Faster scanning - process every 2nd frame instead of every 4th
@@ -80,7 +198,23 @@ export const useCameraScanner = () => {
         clearTimeout(highlightTimeoutRef.current);
       }
 
-      if (isCodeLocked) {
+      const distinctCodes = getDistinctCodes(codes);
+
+      if (isBatchMode) {
+        captureBatchCodes(codes);
+      } else if (
+        isCodeLocked &&
+        !isChosenLockRef.current &&
+        distinctCodes.length > 1
+      ) {
+        // Another code came into view after an automatic lock.
+        lockedCodeRef.current = null;
+        setIsCodeLocked(false);
+        setCodeType("");
+        setCodeValue("");
+        setCodeMetadata("");
+        presentCodeChoices(distinctCodes);
+      } else if (isCodeLocked) {
         // We are locked. We must find our specific code, regardless of its position in the array.
         const lockedCode = codes.find(
           (c) => c.value === lockedCodeRef.current,
@@ -89,15 +223,7 @@ export const useCameraScanner = () => {
         if (lockedCode) {
           // We found it! Track it by updating the highlight.
           if (showIndicator) {
-            const { frame: codeFrame } = lockedCode;
-            setCodeScannerHighlights([
-              {
-                height: codeFrame?.height ?? 0,
-                width: codeFrame?.width ?? 0,
-                x: codeFrame?.x ?? 0,
-                y: codeFrame?.y ?? 0,
-              },
-            ]);
+            setCodeScannerHighlights([toHighlight(lockedCode)]);
           }
         } else {
           // The code we were locked onto is no longer visible. Reset everything.
@@ -105,12 +231,14 @@ export const useCameraScanner = () => {
         }
       } else {
         // We are not locked. Look for a new code to scan.
-        if (codes.length > 0) {
-          const firstCode = codes[0];
-          const { value, frame: codeFrame } = firstCode;
+        if (distinctCodes.length > 1) {
+          presentCodeChoices(distinctCodes);
+        } else if (distinctCodes.length === 1) {
+          const firstCode = distinctCodes[0];
+          const { value, type } = firstCode;
           const currentCodeValue = value ?? "";
-
-          if (!currentCodeValue) return; // Ignore empty codes
+          setCodeChoices([]);
+          codeChoicesKeyRef.current = "";
 
           // --- LOCK ONTO THE NEW CODE ---
           lockedCodeRef.current = currentCodeValue;
@@ -118,24 +246,26 @@ export const useCameraScanner = () => {
           setCodeMetadata(currentCodeValue);
 
           // Process the newly found code
+          const scannedFormat = getCodeFormatFromCameraType(type);
           const result = handleCodeScanned(currentCodeValue, {
             t,
             setIsConnecting,
+            codeFormat: scannedFormat,
           });
           setCodeType(result.codeType);
+          setCodeFormat(scannedFormat);
           setIconName(result.iconName);
           setCodeValue(result.rawCodeValue);
+          addScanHistoryEntry(
+            userId,
+            currentCodeValue,
+            result.codeType,
+            scannedFormat,
+          );
 
           // Show initial highlight
           if (showIndicator) {
-            setCodeScannerHighlights([
-              {
-                height: codeFrame?.height ?? 0,
-                width: codeFrame?.width ?? 0,
-                x: codeFrame?.x ?? 0,
-                y: codeFrame?.y ?? 0,
-              },
-            ]);
+            setCodeScannerHighlights([toHighlight(firstCode)]);
             // Optional: hide highlight after a delay if you want it to be temporary
             highlightTimeoutRef.current = setTimeout(() => {
               setCodeScannerHighlights([]);
@@ -148,6 +278,10 @@ export const useCameraScanner = () => {
             if (codeScannerHighlights.length > 0) {
               setCodeScannerHighlights([]);
             }
+            if (codeChoicesKeyRef.current) {
+              codeChoicesKeyRef.current = "";
+              setCodeChoices([]);
+            }
             // Clear display states if they exist but we're not locked
             if (codeType || codeValue || codeMetadata) {
               setCodeType("");
@@ -160,9 +294,13 @@ export const useCameraScanner = () => {
     },
     [
       isConnecting,
+      isBatchMode,
+      captureBatchCodes,
+      presentCodeChoices,
       isCodeLocked,
       showIndicator,
       handleCodeScanned,
+      userId,
       resetScanner,
       codeScannerHighlights.length,
       codeType,
@@ -186,6 +324,7 @@ export const useCameraScanner = () => {
     codeMetadata,
     codeValue,
     codeType,
+    codeFormat,
     iconName,
     showIndicator,
     toggleShowIndicator,
@@ -193,5 +332,10 @@ export const useCameraScanner = () => {
     resetCodeState: resetScanner,
     isCodeLocked,
     unlockScanning: resetScanner,
+    codeChoices,
+    selectCode,
+    isBatchMode,
+    toggleBatchMode,
+    batch,
   };
 };
\ No newline at end of file
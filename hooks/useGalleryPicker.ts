@@ -1,12 +1,19 @@
 import { useCallback } from 'react';
+import { useSelector } from 'react-redux';
 import ImagePicker from 'react-native-image-crop-picker';
-import { decodeQR } from '@/utils/decodeQR';
+import { DecodedImage, decodeImage } from '@/utils/imageDecode';
 import useHandleCodeScanned from '@/hooks/useHandleCodeScanned';
+import { addScanHistoryEntry } from '@/services/localDB/scanHistoryDB';
+import { RootState } from '@/store/rootReducer';
+import { GUEST_USER_ID } from '@/constants/Constants';
+import { analyzeCode, buildActionUrl, DetailScanResult, ScanResult } from '@/utils/qrUtils';
+import { WifiNetwork } from '@/utils/wifiQR';
 
 import SheetType from '@/types/sheetType';
+import CodeChoice from '@/types/codeChoiceType';
 
 type GalleryPickerOptions = {
-    onOpenSheet: (type: SheetType, id?: string, url?: string, ssid?: string, pass?: string, isWep?: boolean, isHidden?: boolean) => void;
+    onOpenSheet: (type: SheetType, id?: string, url?: string, wifi?: WifiNetwork) => void;
     onNavigateToAddScreen: (
         codeFormat?: number,
         codeValue?: string,
@@ -14,26 +21,103 @@ type GalleryPickerOptions = {
         codeType?: string,
         codeProvider?: string
     ) => void;
+    // Screens without detail sheets fall back to the add screen, or to the
+    // linking sheet for action codes.
+    onOpenDetails?: (result: DetailScanResult) => void;
+    // Called when an image holds several codes. Without it the first one is
+    // used. `image` is the decoded copy the choices' frames refer to.
+    onChooseCode?: (
+        choices: CodeChoice[],
+        onSelect: (choice: CodeChoice) => void,
+        image?: DecodedImage
+    ) => void;
+    // Called when the image holds no readable code or could not be decoded.
+    onDecodeFailed?: () => void;
 };
 
-// Define a custom type for your scan result that includes the extra properties
-type ExtendedScanResult = {
-    codeFormat?: number;
-    rawCodeValue: string;
-    codeType: string;
-    bin?: string;
-    provider?: string;
-    ssid?: string;
-    password?: string;
-    isWep?: boolean
-    isHidden?: boolean
+// react-native-image-crop-picker rejects with this when the user backs out.
+const PICKER_CANCELLED = 'E_PICKER_CANCELLED';
+
+/**
+ * Opens the sheet or add screen that fits a scan result. Shared by the
+ * gallery picker and the scan history screen so both pass the same params.
+ */
+export const runScanResultAction = (
+    result: ScanResult,
+    { onOpenSheet, onNavigateToAddScreen, onOpenDetails }: GalleryPickerOptions
+) => {
+    switch (result.codeType) {
+        case 'WIFI':
+            onOpenSheet('wifi', undefined, undefined, result);
+            break;
+        case 'URL':
+            onOpenSheet('linking', undefined, result.rawCodeValue);
+            break;
+        // Handle bank and ewallet, passing bin and provider if they exist
+        case 'bank':
+        case 'ewallet':
+            onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, result.bin, result.codeType, result.provider);
+            break;
+        case 'contact':
+        case 'event':
+            if (onOpenDetails) {
+                onOpenDetails(result);
+            } else {
+                onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, undefined, result.codeType);
+            }
+            break;
+        case 'payment':
+            if (onOpenDetails) {
+                onOpenDetails(result);
+            } else {
+                onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, undefined, 'payment');
+            }
+            break;
+        case 'boardingPass':
+            if (onOpenDetails) {
+                onOpenDetails(result);
+            } else {
+                onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, undefined, 'flight');
+            }
+            break;
+        case 'gs1':
+            // Without the GS1 sheet, the code is saved like any other barcode.
+            if (onOpenDetails) {
+                onOpenDetails(result);
+            } else {
+                onNavigateToAddScreen(result.codeFormat, result.rawCodeValue);
+            }
+            break;
+        case 'phone':
+        case 'sms':
+        case 'email':
+        case 'geo':
+            if (onOpenDetails) {
+                onOpenDetails(result);
+            } else {
+                onOpenSheet('linking', undefined, buildActionUrl(result));
+            }
+            break;
+        case 'alphanumeric':
+            onNavigateToAddScreen(result.codeFormat, result.rawCodeValue);
+            break;
+        default:
+            // Unknown codes have nothing to open.
+            break;
+    }
 };
 
 export const useGalleryPicker = ({
     onOpenSheet,
     onNavigateToAddScreen,
+    onOpenDetails,
+    onChooseCode,
+    onDecodeFailed,
 }: GalleryPickerOptions) => {
     const handleCodeScanned = useHandleCodeScanned();
+    const userId = useSelector(
+        (state: RootState) => state.auth.user?.id ?? GUEST_USER_ID
+    );
 
     const onOpenGallery = useCallback(
         async () => {
@@ -48,39 +132,47 @@ export const useGalleryPicker = ({
                     return;
                 }
 
-                const decode = await decodeQR(image.path);
-                const codeValue = decode?.value ?? '';
-                const codeFormat = decode?.format;
+                const { image: decodedImage, codes: decoded } = await decodeImage(image.path);
 
-                const result: ExtendedScanResult | null = handleCodeScanned(codeValue, {
+                if (decoded.length === 0) {
+                    onDecodeFailed?.();
+                    return;
+                }
+
+                if (decoded.length > 1 && onChooseCode) {
+                    const choices: CodeChoice[] = decoded.map(({ value, format, frame }) => ({
+                        codeValue: value,
+                        codeFormat: format,
+                        result: analyzeCode(value, { t: (key) => key, codeFormat: format }),
+                        frame: frame ?? undefined,
+                    }));
+                    onChooseCode(choices, ({ codeValue, codeFormat, result }) => {
+                        addScanHistoryEntry(userId, codeValue, result.codeType, codeFormat);
+                        runScanResultAction(result, { onOpenSheet, onNavigateToAddScreen, onOpenDetails });
+                    }, decodedImage);
+                    return;
+                }
+
+                const { value: codeValue, format: codeFormat } = decoded[0];
+
+                const result: ScanResult | undefined = handleCodeScanned(codeValue, {
                     t: (key) => key, // Replace with your actual translation function
                     codeFormat: codeFormat,
                 });
 
-                 ('Decoded QR code:', result);
-
                 if (result) {
-                    const actionMap: Record<string, () => void> = {
-                        'WIFI': () => onOpenSheet('wifi', undefined, undefined, result.ssid, result.password, result.isWep, result.isHidden),
-                        'URL': () => onOpenSheet('linking', undefined, result.rawCodeValue),
-                        // Handle bank and ewallet, passing bin and provider if they exist
-                        'bank': () => onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, result.bin, result.codeType, result.provider),
-                        'ewallet': () => onNavigateToAddScreen(result.codeFormat, result.rawCodeValue, result.bin, result.codeType, result.provider),
-                        'alphanumeric': () => {
-                            onNavigateToAddScreen(result.codeFormat, result.rawCodeValue);},
-                        'unknown': () =>  ('Unknown code format:', result.rawCodeValue),
-                    };
-
-                    const action = actionMap[result.codeType] || actionMap['unknown'];
-                    action();
+                    addScanHistoryEntry(userId, codeValue, result.codeType, codeFormat);
+                    runScanResultAction(result, { onOpenSheet, onNavigateToAddScreen, onOpenDetails });
                 } else {
-                     ('Failed to decode QR code');
+                    onDecodeFailed?.();
                 }
             } catch (error) {
-                 ('Error opening image picker or handling code:', error);
+                if ((error as { code?: string })?.code === PICKER_CANCELLED) return;
+                console.error('Error opening image picker or handling code:', error);
+                onDecodeFailed?.();
             }
         },
-        [handleCodeScanned, onNavigateToAddScreen, onOpenSheet]
+        [handleCodeScanned, userId, onNavigateToAddScreen, onOpenSheet, onOpenDetails, onChooseCode, onDecodeFailed]
     );
 
     return onOpenGallery;
@@ -0,0 +1,198 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  exportBackup,
+  readBackupFile,
+  restoreBackup,
+  BackupPayload,
+} from '@/services/backup';
+import {
+  getQrCodesByUserId,
+  getQrCodeSyncStates,
+  insertOrUpdateQrCodes,
+} from '@/services/localDB/qrDB';
+import QRRecord from '@/types/qrType';
+
+jest.mock('expo-file-system', () => {
+  const files = new Map<string, string>();
+  return {
+    cacheDirectory: 'file:///cache/',
+    writeAsStringAsync: jest.fn(async (uri: string, contents: string) => {
+      files.set(uri, contents);
+    }),
+    readAsStringAsync: jest.fn(async (uri: string) => {
+      if (!files.has(uri)) throw new Error(`No such file: ${uri}`);
+      return files.get(uri);
+    }),
+  };
+});
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-document-picker', () => ({}));
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) =>
+    Uint8Array.from({ length }, (_, i) => (i * 37 + 11) % 256),
+}));
+jest.mock('@/utils/storage', () => ({
+  storage: {
+    getString: jest.fn(),
+    getBoolean: jest.fn(),
+    set: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+jest.mock('@/utils/uniqueId', () => {
+  let next = 0;
+  return { generateUniqueId: () => `generated-${++next}` };
+});
+jest.mock('@/services/localDB/qrDB', () => ({
+  getQrCodesByUserId: jest.fn(),
+  getNextQrIndex: jest.fn(),
+  getQrCodeSyncStates: jest.fn(),
+  insertOrUpdateQrCodes: jest.fn(),
+}));
+
+const USER_ID = 'user-1';
+
+const card: QRRecord = {
+  id: 'card-1',
+  qr_index: 1,
+  user_id: USER_ID,
+  code: 'AEO',
+  metadata: '1234567890128',
+  metadata_type: 'ean13',
+  account_name: '',
+  account_number: '',
+  type: 'store',
+  created: '2025-01-01T00:00:00.000Z',
+  updated: '2025-01-02T00:00:00.000Z',
+  is_synced: true,
+  is_deleted: false,
+};
+
+const readDocument = async (uri: string) =>
+  JSON.parse(await FileSystem.readAsStringAsync(uri));
+
+const writeDocument = (uri: string, document: unknown) =>
+  FileSystem.writeAsStringAsync(uri, JSON.stringify(document));
+
+beforeEach(() => {
+  jest.mocked(getQrCodesByUserId).mockResolvedValue([card]);
+  jest.mocked(getQrCodeSyncStates).mockResolvedValue(new Map());
+  jest.mocked(insertOrUpdateQrCodes).mockReset();
+});
+
+describe('encrypted backups', () => {
+  it('round-trips the cards with the right passphrase', async () => {
+    const uri = await exportBackup(USER_ID, 'correct horse');
+    const document = await readDocument(uri);
+    expect(document.encrypted).toBe(true);
+    expect(typeof document.payload).toBe('string');
+
+    const payload = await readBackupFile(uri, 'correct horse');
+    expect(payload.cards).toEqual([
+      expect.objectContaining({ id: 'card-1', metadata: '1234567890128' }),
+    ]);
+    expect(payload.cards[0]).not.toHaveProperty('user_id');
+  });
+
+  it('asks for a passphrase, then rejects a wrong one', async () => {
+    const uri = await exportBackup(USER_ID, 'correct horse');
+    await expect(readBackupFile(uri)).rejects.toMatchObject({
+      code: 'passphrase_required',
+    });
+    await expect(readBackupFile(uri, 'wrong')).rejects.toMatchObject({
+      code: 'wrong_passphrase',
+    });
+  });
+
+  it('rejects a tampered ciphertext', async () => {
+    const uri = await exportBackup(USER_ID, 'correct horse');
+    const document = await readDocument(uri);
+    const flipped = document.payload[0] === '0' ? '1' : '0';
+    await writeDocument(uri, {
+      ...document,
+      payload: flipped + document.payload.slice(1),
+    });
+    await expect(readBackupFile(uri, 'correct horse')).rejects.toMatchObject({
+      code: 'wrong_passphrase',
+    });
+  });
+
+  it.each([1, 99_999, 1_000_001, 1e12])(
+    'rejects %d KDF iterations before deriving a key',
+    async (iterations) => {
+      const uri = 'file:///cache/iterations.json';
+      await writeDocument(uri, {
+        format: 'qrcode-wallet-backup',
+        version: 1,
+        encrypted: true,
+        encryption: {
+          kdf: { name: 'PBKDF2-SHA256', iterations, salt: '00' },
+          cipher: { name: 'AES-256-GCM', iv: '00' },
+        },
+        payload: '00',
+      });
+      await expect(readBackupFile(uri, 'anything')).rejects.toMatchObject({
+        code: 'invalid_file',
+      });
+    }
+  );
+});
+
+describe('file validation', () => {
+  it('rejects files that are not backups', async () => {
+    const uri = 'file:///cache/other.json';
+    await FileSystem.writeAsStringAsync(uri, 'not json');
+    await expect(readBackupFile(uri)).rejects.toMatchObject({ code: 'invalid_file' });
+
+    await writeDocument(uri, { format: 'something-else' });
+    await expect(readBackupFile(uri)).rejects.toMatchObject({ code: 'invalid_file' });
+  });
+
+  it('rejects newer backup versions', async () => {
+    const uri = 'file:///cache/future.json';
+    await writeDocument(uri, { format: 'qrcode-wallet-backup', version: 99 });
+    await expect(readBackupFile(uri)).rejects.toMatchObject({
+      code: 'unsupported_version',
+    });
+  });
+});
+
+describe('restoreBackup', () => {
+  const { user_id: _userId, is_synced: _isSynced, is_deleted: _isDeleted, ...backupCard } =
+    card;
+  const payload: BackupPayload = {
+    exportedAt: '2025-01-03T00:00:00.000Z',
+    cards: [{ ...backupCard, updated: '2025-01-03T00:00:00.000Z' }],
+    settings: { locale: null, darkMode: null, showIndicator: null },
+  };
+
+  it('updates the local copy when the backup is newer', async () => {
+    jest
+      .mocked(getQrCodeSyncStates)
+      .mockResolvedValue(new Map([[card.id, { ...card }]]));
+
+    await expect(restoreBackup(payload, USER_ID)).resolves.toMatchObject({
+      toAdd: 0,
+      toUpdate: 1,
+    });
+    expect(jest.mocked(insertOrUpdateQrCodes).mock.calls[0][0]).toEqual([
+      expect.objectContaining({ id: card.id, user_id: USER_ID, qr_index: 1 }),
+    ]);
+  });
+
+  it.each([
+    ['a deleted row', { ...card, is_deleted: true }],
+    ["another user's row", { ...card, user_id: 'user-2' }],
+  ])('adds a card under a new id when its id belongs to %s', async (_, row) => {
+    jest.mocked(getQrCodesByUserId).mockResolvedValue([]);
+    jest.mocked(getQrCodeSyncStates).mockResolvedValue(new Map([[card.id, row]]));
+
+    await expect(restoreBackup(payload, USER_ID)).resolves.toMatchObject({
+      toAdd: 1,
+      toUpdate: 0,
+    });
+    const [restored] = jest.mocked(insertOrUpdateQrCodes).mock.calls[0][0];
+    expect(restored.id).not.toBe(card.id);
+    expect(restored).toMatchObject({ user_id: USER_ID, metadata: card.metadata });
+  });
+});
@@ -0,0 +1,139 @@
+import pb from '@/services/pocketBase';
+import {
+  acknowledgeAndPurgeTombstones,
+  getAcknowledgedCursor,
+  getDeviceId,
+  registerDevice,
+} from '@/services/deviceSync';
+import {
+  getLatestSyncedTimestamp,
+  purgeAcknowledgedTombstones,
+} from '@/services/localDB/qrDB';
+
+jest.mock('@/services/pocketBase', () => {
+  const devices = {
+    getFullList: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+  return { __esModule: true, default: { collection: () => devices } };
+});
+jest.mock('@/utils/storage', () => {
+  const values = new Map<string, string | number>();
+  return {
+    storage: {
+      getString: (key: string) => values.get(key),
+      getNumber: (key: string) => values.get(key),
+      set: (key: string, value: string | number) => values.set(key, value),
+      delete: (key: string) => values.delete(key),
+    },
+  };
+});
+jest.mock('@/services/localDB/qrDB', () => ({
+  getLatestSyncedTimestamp: jest.fn(),
+  purgeAcknowledgedTombstones: jest.fn(),
+}));
+
+const devices = pb.collection('devices');
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+const device = (deviceId: string, lastPulled: string, created = daysAgo(200)) => ({
+  id: `record-${deviceId}`,
+  user_id: 'user-1',
+  device_id: deviceId,
+  last_pulled: lastPulled,
+  created,
+});
+
+beforeEach(() => {
+  jest.mocked(devices.getFullList).mockReset();
+  jest.mocked(devices.create).mockReset();
+  jest.mocked(devices.update).mockReset();
+  jest.mocked(purgeAcknowledgedTombstones).mockReset().mockResolvedValue(0);
+});
+
+describe('getDeviceId', () => {
+  it('creates the id once and keeps it', () => {
+    const deviceId = getDeviceId();
+    expect(deviceId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(getDeviceId()).toBe(deviceId);
+  });
+});
+
+describe('registerDevice', () => {
+  it('registers the device without a cursor on first sign-in', async () => {
+    jest.mocked(devices.getFullList).mockResolvedValue([]);
+    await registerDevice('user-1');
+    expect(devices.create).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      device_id: getDeviceId(),
+      last_pulled: '',
+    });
+  });
+
+  it('keeps the cursor of a device that signed in before', async () => {
+    jest.mocked(devices.getFullList).mockResolvedValue([device(getDeviceId(), daysAgo(1))]);
+    await registerDevice('user-1');
+    expect(devices.create).not.toHaveBeenCalled();
+    expect(devices.update).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the sign-in when the server is unreachable', async () => {
+    jest.mocked(devices.getFullList).mockRejectedValue(new Error('offline'));
+    await expect(registerDevice('user-1')).resolves.toBeUndefined();
+  });
+});
+
+describe('getAcknowledgedCursor', () => {
+  it('returns the oldest cursor among active devices', async () => {
+    const oldest = daysAgo(3);
+    jest
+      .mocked(devices.getFullList)
+      .mockResolvedValue([device('a', daysAgo(1)), device('b', oldest)]);
+    await expect(getAcknowledgedCursor('user-1')).resolves.toBe(oldest);
+  });
+
+  it('ignores devices that stopped syncing long ago', async () => {
+    const recent = daysAgo(1);
+    jest
+      .mocked(devices.getFullList)
+      .mockResolvedValue([device('a', recent), device('b', daysAgo(120))]);
+    await expect(getAcknowledgedCursor('user-1')).resolves.toBe(recent);
+  });
+
+  it('holds back purging while a signed-in device has not pulled yet', async () => {
+    jest
+      .mocked(devices.getFullList)
+      .mockResolvedValue([device('a', daysAgo(1)), device('b', '', daysAgo(5))]);
+    await expect(getAcknowledgedCursor('user-1')).resolves.toBeNull();
+  });
+
+  it('stops waiting for devices registered long ago that never pulled', async () => {
+    const recent = daysAgo(1);
+    jest
+      .mocked(devices.getFullList)
+      .mockResolvedValue([device('a', recent), device('b', '', daysAgo(120))]);
+    await expect(getAcknowledgedCursor('user-1')).resolves.toBe(recent);
+  });
+});
+
+describe('acknowledgeAndPurgeTombstones', () => {
+  it('acknowledges the latest pull and purges up to the shared cursor', async () => {
+    const pulledUntil = daysAgo(0);
+    const cursor = daysAgo(2);
+    jest.mocked(getLatestSyncedTimestamp).mockResolvedValue(pulledUntil);
+    jest
+      .mocked(devices.getFullList)
+      .mockResolvedValueOnce([device(getDeviceId(), cursor)])
+      .mockResolvedValueOnce([device(getDeviceId(), pulledUntil), device('b', cursor)]);
+
+    await acknowledgeAndPurgeTombstones('user-1');
+
+    expect(devices.update).toHaveBeenCalledWith(`record-${getDeviceId()}`, {
+      last_pulled: pulledUntil,
+    });
+    expect(purgeAcknowledgedTombstones).toHaveBeenCalledWith('user-1', cursor);
+  });
+});
@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, runMigrations } from '@/services/localDB/migrations';
+import { getDatabase } from '@/services/localDB/database';
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: jest.fn(async () => ({ exists: true })),
+  copyAsync: jest.fn(),
+  deleteAsync: jest.fn(),
+}));
+jest.mock('@/services/localDB/database', () => {
+  const db = { getFirstAsync: jest.fn(), execAsync: jest.fn() };
+  return {
+    DATABASE_NAME: 'wallet.db',
+    getDatabase: async () => db,
+    withTransaction: async (work: (txDb: typeof db) => Promise<void>) => work(db),
+  };
+});
+jest.mock('@/store', () => ({ store: { dispatch: jest.fn() } }));
+jest.mock('@/store/reducers/errorSlice', () => ({ setErrorMessage: jest.fn() }));
+jest.mock('@/i18n', () => ({ t: (key: string) => key }));
+
+const BACKUP_PATH = 'file:///documents/SQLite/wallet.db.v1.bak';
+
+const mockSchemaVersion = async (version: number) => {
+  const db = await getDatabase();
+  jest.mocked(db.getFirstAsync).mockResolvedValue({ user_version: version });
+  jest.mocked(db.execAsync).mockClear();
+  return db;
+};
+
+beforeEach(() => {
+  jest.mocked(FileSystem.copyAsync).mockClear();
+  jest.mocked(FileSystem.deleteAsync).mockClear();
+});
+
+describe('runMigrations', () => {
+  it('does not back up the database of a fresh install', async () => {
+    await mockSchemaVersion(0);
+    await expect(runMigrations()).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(FileSystem.copyAsync).not.toHaveBeenCalled();
+  });
+
+  it('deletes the backup once every migration has committed', async () => {
+    await mockSchemaVersion(1);
+    await expect(runMigrations()).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(FileSystem.copyAsync).toHaveBeenCalledWith({
+      from: 'file:///documents/SQLite/wallet.db',
+      to: BACKUP_PATH,
+    });
+    expect(FileSystem.deleteAsync).toHaveBeenLastCalledWith(BACKUP_PATH, {
+      idempotent: true,
+    });
+  });
+
+  it('keeps the backup when a migration fails', async () => {
+    const db = await mockSchemaVersion(1);
+    const failing = MIGRATIONS.find((migration) => migration.version === 2);
+    jest.spyOn(failing!, 'up').mockRejectedValueOnce(new Error('disk full'));
+    jest.spyOn(console, 'error').mockImplementationOnce(() => {});
+
+    await expect(runMigrations()).rejects.toThrow('disk full');
+    expect(FileSystem.copyAsync).toHaveBeenCalledTimes(1);
+    // Only the stale copy from an earlier run is cleared before copying.
+    expect(FileSystem.deleteAsync).toHaveBeenCalledTimes(1);
+    expect(db.execAsync).not.toHaveBeenCalledWith('PRAGMA user_version = 2;');
+  });
+
+  it('leaves an up-to-date database alone', async () => {
+    await mockSchemaVersion(LATEST_SCHEMA_VERSION);
+    await expect(runMigrations()).resolves.toBe(LATEST_SCHEMA_VERSION);
+    expect(FileSystem.copyAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { shouldReplaceLocalRecord } from '@/services/localDB/qrDB';
+import QRRecord from '@/types/qrType';
+
+jest.mock('@/services/pocketBase', () => ({
+  __esModule: true,
+  default: { collection: jest.fn() },
+}));
+
+type SyncState = Pick<QRRecord, 'updated' | 'user_id' | 'is_deleted'>;
+
+const EARLIER = '2025-03-01T10:00:00.000Z';
+const LATER = '2025-03-01T11:00:00.000Z';
+
+const state = (overrides: Partial<SyncState>): SyncState => ({
+  updated: EARLIER,
+  user_id: 'user-1',
+  is_deleted: false,
+  ...overrides,
+});
+
+describe('shouldReplaceLocalRecord', () => {
+  it('applies newer edits and keeps newer local ones', () => {
+    expect(shouldReplaceLocalRecord(state({ updated: LATER }), state({}))).toBe(true);
+    expect(shouldReplaceLocalRecord(state({}), state({ updated: LATER }))).toBe(false);
+    expect(shouldReplaceLocalRecord(state({}), state({}))).toBe(false);
+  });
+
+  it('applies a deletion at least as recent as the local row', () => {
+    expect(shouldReplaceLocalRecord(state({ is_deleted: true }), state({}))).toBe(true);
+    expect(
+      shouldReplaceLocalRecord(state({ updated: LATER, is_deleted: true }), state({}))
+    ).toBe(true);
+  });
+
+  it('never lets an older server row undo a newer local delete', () => {
+    expect(
+      shouldReplaceLocalRecord(state({}), state({ updated: LATER, is_deleted: true }))
+    ).toBe(false);
+  });
+
+  it('never lets an older tombstone undo a newer local restore', () => {
+    expect(
+      shouldReplaceLocalRecord(state({ is_deleted: true }), state({ updated: LATER }))
+    ).toBe(false);
+  });
+
+  it('reads SQLite 0/1 flags as booleans', () => {
+    const local = state({ is_deleted: 1 as unknown as boolean });
+    expect(shouldReplaceLocalRecord(state({ is_deleted: true }), local)).toBe(false);
+  });
+
+  it('hands rows over to another user', () => {
+    expect(shouldReplaceLocalRecord(state({ user_id: 'user-2' }), state({ updated: LATER }))).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  commitImport,
+  guessBrand,
+  guessColumnMapping,
+  ImportedCard,
+  mapImportRows,
+  parseCsv,
+  parseFormatName,
+  parseImportText,
+  readImportFile,
+} from '@/services/walletImport';
+import {
+  getNextQrIndex,
+  getQrCodesByUserId,
+  insertOrUpdateQrCodes,
+} from '@/services/localDB/qrDB';
+import { GUEST_USER_ID } from '@/constants/Constants';
+import QRRecord from '@/types/qrType';
+
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: jest.fn(),
+}));
+jest.mock('expo-document-picker', () => ({}));
+jest.mock('@/utils/uniqueId', () => {
+  let next = 0;
+  return { generateUniqueId: () => `generated-${++next}` };
+});
+jest.mock('@/services/localDB/qrDB', () => ({
+  getQrCodesByUserId: jest.fn(),
+  getNextQrIndex: jest.fn(),
+  insertOrUpdateQrCodes: jest.fn(),
+}));
+
+const USER_ID = 'user-1';
+
+const expiry = new Date(2026, 11, 31).getTime();
+
+// Catima export: version line, then group, card and link tables separated by
+// blank lines.
+const CATIMA_EXPORT = [
+  '2',
+  '',
+  '_id,name',
+  'Groceries,',
+  '',
+  '_id,store,note,validfrom,expiry,balance,balancetype,cardid,barcodeid,headercolor,barcodetype,starstatus',
+  `1,Circle K,"Points, not cash",,${expiry},0,,96385074,,,EAN_8,0`,
+  '2,Corner Shop,,,,0,,MEMBER-42,4006381333931,,,0',
+  '',
+  'cardId,groupId',
+  '1,Groceries',
+].join('\n');
+
+const mappedCard = (overrides: Partial<ImportedCard>): ImportedCard => ({
+  row: 1,
+  name: 'Circle K',
+  number: '96385074',
+  symbology: 'ean8',
+  notes: '',
+  validFrom: '',
+  validUntil: '',
+  brand: { code: 'CIR', name: 'Circle K' },
+  isDuplicate: false,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.mocked(getQrCodesByUserId).mockResolvedValue([]);
+  jest.mocked(getNextQrIndex).mockResolvedValue(5);
+  jest.mocked(insertOrUpdateQrCodes).mockReset();
+});
+
+describe('parseCsv', () => {
+  it('handles quoted delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('name,note\n"A, B","say ""hi""\nthere"')).toEqual([
+      ['name', 'note'],
+      ['A, B', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('strips the byte order mark and reads CRLF line endings', () => {
+    expect(parseCsv('\uFEFFname,number\r\nAEON,123\r\n')).toEqual([
+      ['name', 'number'],
+      ['AEON', '123'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('name;number\nAEON;1,5')).toEqual([
+      ['name', 'number'],
+      ['AEON', '1,5'],
+    ]);
+    expect(parseCsv('name\tnumber\nAEON\t123')[1]).toEqual(['AEON', '123']);
+  });
+
+  it('keeps blank lines as empty records', () => {
+    expect(parseCsv('a\n\nb')).toEqual([['a'], [], ['b']]);
+  });
+});
+
+describe('parseImportText', () => {
+  it('maps Catima exports from their card table', () => {
+    const table = parseImportText(CATIMA_EXPORT);
+    expect(table).toMatchObject({
+      format: 'catima',
+      mapping: { name: 1, number: 7, format: 10, notes: 2 },
+    });
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it('guesses the columns of other CSV files', () => {
+    expect(parseImportText('Card Number;Store Name;Comment\n123;AEON;')).toMatchObject({
+      format: 'csv',
+      headers: ['Card Number', 'Store Name', 'Comment'],
+      mapping: { name: 1, number: 0, format: null, notes: 2 },
+    });
+  });
+
+  it('rejects files without rows', () => {
+    expect(() => parseImportText('\n \n')).toThrow(
+      expect.objectContaining({ code: 'invalid_file' })
+    );
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('prefers exact header names over partial matches', () => {
+    expect(guessColumnMapping(['Barcode Type', 'Barcode', 'Name', 'Notes'])).toEqual({
+      name: 2,
+      number: 1,
+      format: 0,
+      notes: 3,
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    expect(guessColumnMapping(['foo', 'bar'])).toEqual({
+      name: null,
+      number: null,
+      format: null,
+      notes: null,
+    });
+  });
+});
+
+describe('parseFormatName', () => {
+  it.each([
+    ['EAN_13', 'ean13'],
+    ['ean-8', 'ean8'],
+    ['PDF_417', 'pdf417'],
+    ['QR Code', 'qr'],
+    ['UPC_A', 'upca'],
+    ['32', 'ean13'],
+  ])('reads %s as %s', (name, symbology) => {
+    expect(parseFormatName(name)).toBe(symbology);
+  });
+
+  it('returns undefined for unknown names', () => {
+    expect(parseFormatName('MAXICODE')).toBeUndefined();
+    expect(parseFormatName(' ')).toBeUndefined();
+  });
+});
+
+describe('guessBrand', () => {
+  it('matches store brands by name', () => {
+    expect(guessBrand('Circle K')).toEqual({ code: 'CIR', name: 'Circle K' });
+    expect(guessBrand('Circle K Vietnam')).toEqual({ code: 'CIR', name: 'Circle K' });
+    expect(guessBrand('Corner Shop')).toBeNull();
+  });
+});
+
+describe('mapImportRows', () => {
+  it('reads Catima cards, preferring the barcode value', async () => {
+    const table = parseImportText(CATIMA_EXPORT);
+    const cards = await mapImportRows(table, table.mapping, USER_ID);
+
+    expect(cards).toEqual([
+      mappedCard({ notes: 'Points, not cash', validUntil: '2026-12-31' }),
+      mappedCard({
+        row: 2,
+        name: 'Corner Shop',
+        number: '4006381333931',
+        symbology: 'ean13',
+        brand: null,
+      }),
+    ]);
+  });
+
+  it('marks numbers already in the wallet or earlier in the file', async () => {
+    jest
+      .mocked(getQrCodesByUserId)
+      .mockResolvedValue([{ metadata: '111' } as QRRecord]);
+    const table = parseImportText('name,number\nA,111\nB,222\nC,222\nD,');
+    const cards = await mapImportRows(table, table.mapping, USER_ID);
+
+    expect(cards.map(({ number, isDuplicate }) => [number, isDuplicate])).toEqual([
+      ['111', true],
+      ['222', false],
+      ['222', true],
+    ]);
+  });
+
+  it('guesses the symbology when there is no format column', async () => {
+    const table = parseImportText('name,number\nA,4006381333931\nB,4006381333932\nC,Thẻ 1');
+    const cards = await mapImportRows(table, table.mapping, USER_ID);
+    expect(cards.map(({ symbology }) => symbology)).toEqual(['ean13', 'code128', 'qr']);
+  });
+});
+
+describe('readImportFile', () => {
+  it('rejects unreadable and empty files', async () => {
+    jest.mocked(FileSystem.readAsStringAsync).mockRejectedValueOnce(new Error('ENOENT'));
+    await expect(readImportFile('file:///missing.csv')).rejects.toMatchObject({
+      code: 'invalid_file',
+    });
+
+    jest.mocked(FileSystem.readAsStringAsync).mockResolvedValueOnce('');
+    await expect(readImportFile('file:///empty.csv')).rejects.toMatchObject({
+      code: 'invalid_file',
+    });
+  });
+
+  it('rejects a header without rows', async () => {
+    jest.mocked(FileSystem.readAsStringAsync).mockResolvedValueOnce('name,number\n');
+    await expect(readImportFile('file:///header.csv')).rejects.toMatchObject({
+      code: 'no_cards',
+    });
+  });
+});
+
+describe('commitImport', () => {
+  it('inserts the new cards in a single call after the existing ones', async () => {
+    const summary = await commitImport(
+      [
+        mappedCard({}),
+        mappedCard({ row: 2, name: 'Corner Shop', number: '123', brand: null }),
+        mappedCard({ row: 3, number: '999', isDuplicate: true }),
+      ],
+      USER_ID
+    );
+
+    expect(summary).toEqual({ imported: 2, unresolved: 1, skipped: 1 });
+    expect(insertOrUpdateQrCodes).toHaveBeenCalledTimes(1);
+    expect(jest.mocked(insertOrUpdateQrCodes).mock.calls[0][0]).toEqual([
+      expect.objectContaining({
+        qr_index: 5,
+        code: 'CIR',
+        label: '',
+        metadata: '96385074',
+        type: 'store',
+        is_synced: false,
+      }),
+      expect.objectContaining({ qr_index: 6, code: '', label: 'Corner Shop' }),
+    ]);
+  });
+
+  it('marks guest cards as synced', async () => {
+    await commitImport([mappedCard({})], GUEST_USER_ID);
+    expect(jest.mocked(insertOrUpdateQrCodes).mock.calls[0][0][0].is_synced).toBe(true);
+  });
+
+  it('refuses to import only duplicates', async () => {
+    await expect(
+      commitImport([mappedCard({ isDuplicate: true })], USER_ID)
+    ).rejects.toMatchObject({ code: 'no_cards' });
+    expect(insertOrUpdateQrCodes).not.toHaveBeenCalled();
+  });
+});
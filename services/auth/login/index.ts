@@ -5,12 +5,9 @@ import { mapRecordToUserData } from "../refreshAuth";
 import { store } from "@/store";
 import { setAuthData } from "@/store/reducers/authSlice";
 import { t } from "@/i18n";
-import {
-  createTable,
-  insertUser,
-  getEmailByUserID,
-} from "@/services/localDB/userDB";
+import { insertUser, getEmailByUserID } from "@/services/localDB/userDB";
 import { transferGuestDataToUser } from "@/services/localDB/qrDB"; // <-- ADDED
+import { registerDevice } from "@/services/deviceSync";
 import { storage } from "@/utils/storage";
 import { GUEST_USER_ID } from "@/constants/Constants"; // <-- ADDED
 
@@ -150,6 +147,9 @@ export const login = async (
     }
     // ---
 
+    // Before the first sync, so purges wait for this device to pull.
+    await registerDevice(userId);
+
     const secureWritePromises: Promise<void>[] = [
       SecureStore.setItemAsync(SECURE_KEYS.AUTH_TOKEN, authData.token),
       SecureStore.setItemAsync(SECURE_KEYS.USER_ID, userId),
@@ -191,7 +191,6 @@ export const login = async (
     // This dispatch will now set the `justLoggedIn` flag to true
     store.dispatch(setAuthData({ token: authData.token, user: userData }));
 
-    await createTable();
     await insertUser(userData);
 
     return authData;
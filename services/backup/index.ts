@@ -0,0 +1,441 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import * as DocumentPicker from "expo-document-picker";
+import { getRandomBytes } from "expo-crypto";
+import { gcm } from "@noble/ciphers/aes";
+import {
+  bytesToHex,
+  hexToBytes,
+  bytesToUtf8,
+  utf8ToBytes,
+} from "@noble/ciphers/utils";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import {
+  getQrCodesByUserId,
+  getNextQrIndex,
+  getQrCodeSyncStates,
+  insertOrUpdateQrCodes,
+} from "@/services/localDB/qrDB";
+import { storage } from "@/utils/storage";
+import { generateUniqueId } from "@/utils/uniqueId";
+import { GUEST_USER_ID } from "@/constants/Constants";
+import QRRecord from "@/types/qrType";
+import { METADATA_TYPE_VALUES, MetadataType } from "@/utils/symbology";
+
+const LOG_PREFIX = "[Backup]";
+
+export const BACKUP_FORMAT = "qrcode-wallet-backup";
+export const BACKUP_VERSION = 1;
+const BACKUP_MIME_TYPE = "application/json";
+
+const KDF_NAME = "PBKDF2-SHA256";
+const CIPHER_NAME = "AES-256-GCM";
+const KDF_ITERATIONS = 150_000;
+// Iteration counts come from the file; anything outside this range is
+// either too weak to be ours or would stall the JS thread for minutes.
+const MIN_KDF_ITERATIONS = 100_000;
+const MAX_KDF_ITERATIONS = 1_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+const SETTINGS_KEYS = {
+  LOCALE: "locale",
+  DARK_MODE: "dark-mode",
+  SHOW_INDICATOR: "showIndicator",
+};
+
+const CARD_TYPES = ["bank", "store", "ewallet", "wifi", "flight"];
+
+export type BackupErrorCode =
+  | "invalid_file"
+  | "unsupported_version"
+  | "passphrase_required"
+  | "wrong_passphrase"
+  | "sharing_unavailable";
+
+export interface BackupError extends Error {
+  code: BackupErrorCode;
+}
+
+const createBackupError = (
+  code: BackupErrorCode,
+  message: string
+): BackupError => Object.assign(new Error(message), { code });
+
+export const isBackupError = (error: unknown): error is BackupError =>
+  error instanceof Error && "code" in error;
+
+/** Cards are stored without owner and sync state; both are reassigned on restore. */
+export type BackupCard = Omit<QRRecord, "user_id" | "is_synced" | "is_deleted">;
+
+/** `null` means "follow the system", matching an unset MMKV key. */
+export interface BackupSettings {
+  locale: string | null;
+  darkMode: boolean | null;
+  showIndicator: boolean | null;
+}
+
+export interface BackupPayload {
+  exportedAt: string;
+  cards: BackupCard[];
+  settings: BackupSettings;
+}
+
+interface EncryptionParams {
+  kdf: { name: string; iterations: number; salt: string };
+  cipher: { name: string; iv: string };
+}
+
+interface BackupDocument {
+  format: string;
+  version: number;
+  encrypted: boolean;
+  encryption?: EncryptionParams;
+  // Plain object when unencrypted, hex ciphertext of the JSON otherwise.
+  payload: BackupPayload | string;
+}
+
+export interface RestorePreview {
+  total: number;
+  toAdd: number;
+  toUpdate: number;
+  toSkip: number;
+  hasSettings: boolean;
+}
+
+// --- Encryption ---
+
+const deriveKey = (passphrase: string, salt: Uint8Array, iterations: number) =>
+  pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, {
+    c: iterations,
+    dkLen: KEY_BYTES,
+  });
+
+async function encryptPayload(
+  payload: BackupPayload,
+  passphrase: string
+): Promise<Pick<BackupDocument, "encryption" | "payload">> {
+  const salt = getRandomBytes(SALT_BYTES);
+  const iv = getRandomBytes(IV_BYTES);
+  const key = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+  const ciphertext = gcm(key, iv).encrypt(utf8ToBytes(JSON.stringify(payload)));
+
+  return {
+    encryption: {
+      kdf: { name: KDF_NAME, iterations: KDF_ITERATIONS, salt: bytesToHex(salt) },
+      cipher: { name: CIPHER_NAME, iv: bytesToHex(iv) },
+    },
+    payload: bytesToHex(ciphertext),
+  };
+}
+
+async function decryptPayload(
+  document: BackupDocument,
+  passphrase: string
+): Promise<unknown> {
+  const { encryption, payload } = document;
+  if (
+    !encryption ||
+    typeof payload !== "string" ||
+    encryption.kdf?.name !== KDF_NAME ||
+    encryption.cipher?.name !== CIPHER_NAME ||
+    !Number.isInteger(encryption.kdf.iterations) ||
+    encryption.kdf.iterations < MIN_KDF_ITERATIONS ||
+    encryption.kdf.iterations > MAX_KDF_ITERATIONS
+  ) {
+    throw createBackupError("invalid_file", "Unsupported encryption parameters");
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    const key = await deriveKey(
+      passphrase,
+      hexToBytes(encryption.kdf.salt),
+      encryption.kdf.iterations
+    );
+    plaintext = gcm(key, hexToBytes(encryption.cipher.iv)).decrypt(
+      hexToBytes(payload)
+    );
+  } catch {
+    // GCM authentication fails for a wrong passphrase and for tampered data alike.
+    throw createBackupError("wrong_passphrase", "Could not decrypt backup");
+  }
+
+  try {
+    return JSON.parse(bytesToUtf8(plaintext));
+  } catch {
+    throw createBackupError("invalid_file", "Decrypted backup is not JSON");
+  }
+}
+
+// --- Validation ---
+
+const isNullableType = (value: unknown, type: "string" | "boolean") =>
+  value === null || value === undefined || typeof value === type;
+
+function isBackupCard(value: unknown): value is BackupCard {
+  if (!value || typeof value !== "object") return false;
+  const card = value as Record<string, unknown>;
+  return (
+    typeof card.id === "string" &&
+    card.id.length > 0 &&
+    typeof card.code === "string" &&
+    typeof card.metadata === "string" &&
+    typeof card.created === "string" &&
+    typeof card.updated === "string" &&
+    typeof card.qr_index === "number" &&
+    CARD_TYPES.includes(card.type as string) &&
+    METADATA_TYPE_VALUES.includes(card.metadata_type as MetadataType)
+  );
+}
+
+function validatePayload(value: unknown): BackupPayload {
+  const payload = value as Partial<BackupPayload> | null;
+  const settings = payload?.settings as Partial<BackupSettings> | undefined;
+
+  if (
+    !payload ||
+    !Array.isArray(payload.cards) ||
+    !payload.cards.every(isBackupCard) ||
+    (settings !== undefined &&
+      (typeof settings !== "object" ||
+        settings === null ||
+        !isNullableType(settings.locale, "string") ||
+        !isNullableType(settings.darkMode, "boolean") ||
+        !isNullableType(settings.showIndicator, "boolean")))
+  ) {
+    throw createBackupError("invalid_file", "Backup payload is malformed");
+  }
+
+  return {
+    exportedAt: payload.exportedAt ?? "",
+    cards: payload.cards,
+    settings: {
+      locale: settings?.locale ?? null,
+      darkMode: settings?.darkMode ?? null,
+      showIndicator: settings?.showIndicator ?? null,
+    },
+  };
+}
+
+// --- Export ---
+
+const readSettings = (): BackupSettings => ({
+  locale: storage.getString(SETTINGS_KEYS.LOCALE) ?? null,
+  darkMode: storage.getBoolean(SETTINGS_KEYS.DARK_MODE) ?? null,
+  showIndicator: storage.getBoolean(SETTINGS_KEYS.SHOW_INDICATOR) ?? null,
+});
+
+const toBackupCard = ({
+  user_id: _userId,
+  is_synced: _isSynced,
+  is_deleted: _isDeleted,
+  ...card
+}: QRRecord): BackupCard => card;
+
+/**
+ * Serializes the user's cards and app settings into a backup file in the
+ * cache directory and returns its URI. With a passphrase the payload is
+ * encrypted; the envelope (format, version, KDF parameters) stays readable.
+ */
+export async function exportBackup(
+  userId: string,
+  passphrase?: string
+): Promise<string> {
+  if (!FileSystem.cacheDirectory) {
+    throw new Error("Cache directory is not available");
+  }
+
+  const cards = await getQrCodesByUserId(userId);
+  const payload: BackupPayload = {
+    exportedAt: new Date().toISOString(),
+    cards: cards.map(toBackupCard),
+    settings: readSettings(),
+  };
+
+  const document: BackupDocument = passphrase
+    ? {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        encrypted: true,
+        ...(await encryptPayload(payload, passphrase)),
+      }
+    : {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        encrypted: false,
+        payload,
+      };
+
+  const date = payload.exportedAt.slice(0, 10);
+  const fileUri = `${FileSystem.cacheDirectory}wallet-backup-${date}.json`;
+  await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(document));
+  console.log(`${LOG_PREFIX} Exported ${cards.length} cards to ${fileUri}`);
+  return fileUri;
+}
+
+export async function shareBackupFile(fileUri: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw createBackupError("sharing_unavailable", "Sharing is not available");
+  }
+  await Sharing.shareAsync(fileUri, {
+    mimeType: BACKUP_MIME_TYPE,
+    UTI: "public.json",
+  });
+}
+
+// --- Import ---
+
+/**
+ * Lets the user choose a backup file. Resolves to `null` when cancelled.
+ */
+export async function pickBackupFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [BACKUP_MIME_TYPE, "*/*"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+  return result.assets[0].uri;
+}
+
+/**
+ * Reads and validates a backup file. Rejects with a `passphrase_required`
+ * BackupError when the file is encrypted and no passphrase was given, so
+ * the caller can prompt and try again.
+ */
+export async function readBackupFile(
+  fileUri: string,
+  passphrase?: string
+): Promise<BackupPayload> {
+  let document: BackupDocument;
+  try {
+    document = JSON.parse(await FileSystem.readAsStringAsync(fileUri));
+  } catch {
+    throw createBackupError("invalid_file", "Backup file is not JSON");
+  }
+
+  if (!document || document.format !== BACKUP_FORMAT) {
+    throw createBackupError("invalid_file", "Not a wallet backup");
+  }
+  if (
+    !Number.isInteger(document.version) ||
+    document.version < 1 ||
+    document.version > BACKUP_VERSION
+  ) {
+    throw createBackupError(
+      "unsupported_version",
+      `Unsupported backup version ${document.version}`
+    );
+  }
+
+  if (!document.encrypted) return validatePayload(document.payload);
+
+  if (!passphrase) {
+    throw createBackupError("passphrase_required", "Backup is encrypted");
+  }
+  return validatePayload(await decryptPayload(document, passphrase));
+}
+
+interface RestorePlan {
+  records: QRRecord[];
+  preview: RestorePreview;
+}
+
+/**
+ * Conflict rules: cards missing locally are appended after the existing
+ * ones, cards that are newer in the backup replace the local copy but keep
+ * its position, and cards whose local copy is the same age or newer are
+ * left alone. A card whose id belongs to a deleted row or to another user
+ * on this device is added under a new id instead of overwriting that row.
+ */
+async function planRestore(
+  payload: BackupPayload,
+  userId: string
+): Promise<RestorePlan> {
+  const localCards = await getQrCodesByUserId(userId);
+  const localById = new Map(localCards.map((card) => [card.id, card]));
+  const existingRows = await getQrCodeSyncStates(
+    payload.cards.map((card) => card.id)
+  );
+  let nextIndex = await getNextQrIndex(userId);
+  const isSynced = userId === GUEST_USER_ID;
+
+  const records: QRRecord[] = [];
+  let toAdd = 0;
+  let toUpdate = 0;
+  let toSkip = 0;
+
+  const cards = [...payload.cards].sort((a, b) => a.qr_index - b.qr_index);
+  for (const card of cards) {
+    const localCard = localById.get(card.id);
+    if (localCard && new Date(localCard.updated) >= new Date(card.updated)) {
+      toSkip++;
+      continue;
+    }
+
+    const isTaken = !localCard && existingRows.has(card.id);
+    records.push({
+      ...card,
+      id: isTaken ? generateUniqueId() : card.id,
+      qr_index: localCard ? localCard.qr_index : nextIndex++,
+      user_id: userId,
+      is_synced: isSynced,
+      is_deleted: false,
+    });
+    if (localCard) toUpdate++;
+    else toAdd++;
+  }
+
+  const { settings } = payload;
+  return {
+    records,
+    preview: {
+      total: cards.length,
+      toAdd,
+      toUpdate,
+      toSkip,
+      hasSettings:
+        settings.locale !== null ||
+        settings.darkMode !== null ||
+        settings.showIndicator !== null,
+    },
+  };
+}
+
+export async function previewRestore(
+  payload: BackupPayload,
+  userId: string
+): Promise<RestorePreview> {
+  return (await planRestore(payload, userId)).preview;
+}
+
+const writeSetting = (key: string, value: string | boolean | null) => {
+  if (value === null) storage.delete(key);
+  else storage.set(key, value);
+};
+
+/**
+ * Merges a validated backup into the local database. Restored cards are
+ * marked unsynced so the next sync uploads them.
+ */
+export async function restoreBackup(
+  payload: BackupPayload,
+  userId: string,
+  options: { restoreSettings?: boolean } = {}
+): Promise<RestorePreview> {
+  const { records, preview } = await planRestore(payload, userId);
+  await insertOrUpdateQrCodes(records);
+
+  if (options.restoreSettings) {
+    writeSetting(SETTINGS_KEYS.LOCALE, payload.settings.locale);
+    writeSetting(SETTINGS_KEYS.DARK_MODE, payload.settings.darkMode);
+    writeSetting(SETTINGS_KEYS.SHOW_INDICATOR, payload.settings.showIndicator);
+  }
+
+  console.log(
+    `${LOG_PREFIX} Restored backup: ${preview.toAdd} added, ${preview.toUpdate} updated, ${preview.toSkip} skipped`
+  );
+  return preview;
+}
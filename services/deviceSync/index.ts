@@ -0,0 +1,155 @@
+import { v4 as uuidv4 } from "uuid";
+import pb from "@/services/pocketBase";
+import {
+  getLatestSyncedTimestamp,
+  purgeAcknowledgedTombstones,
+} from "@/services/localDB/qrDB";
+import { storage } from "@/utils/storage";
+import { GUEST_USER_ID } from "@/constants/Constants";
+
+const LOG_PREFIX = "[DeviceSync]";
+const DEVICES_COLLECTION = "devices";
+const DEVICE_ID_KEY = "deviceId";
+const LAST_PURGE_KEY = "lastTombstonePurge";
+const PURGE_INTERVAL = 24 * 60 * 60 * 1000; // 1 day
+// Devices that have not synced for this long no longer block purging.
+const DEVICE_RETIREMENT_AGE = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+interface DeviceRecord {
+  id: string;
+  user_id: string;
+  device_id: string;
+  // Empty until the device acknowledges its first pull.
+  last_pulled: string;
+  created: string;
+}
+
+/**
+ * Returns a stable identifier for this installation, creating it on first use.
+ */
+export function getDeviceId(): string {
+  let deviceId = storage.getString(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = uuidv4();
+    storage.set(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+async function findDeviceRecord(
+  userId: string,
+  deviceId: string
+): Promise<DeviceRecord | undefined> {
+  const existing = await pb
+    .collection(DEVICES_COLLECTION)
+    .getFullList<DeviceRecord>({
+      filter: `user_id = '${userId}' && device_id = '${deviceId}'`,
+    });
+  return existing[0];
+}
+
+/**
+ * Registers this device for the user on sign-in, before its first pull. Until
+ * the device acknowledges a cursor it holds back every purge, so it cannot
+ * miss deletions made in the meantime. Failures are logged and never fail
+ * the sign-in.
+ */
+export async function registerDevice(userId: string): Promise<void> {
+  if (!userId || userId === GUEST_USER_ID) return;
+
+  try {
+    const deviceId = getDeviceId();
+    if (await findDeviceRecord(userId, deviceId)) return;
+    await pb.collection(DEVICES_COLLECTION).create({
+      user_id: userId,
+      device_id: deviceId,
+      last_pulled: "",
+    });
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Device registration failed:`, error);
+  }
+}
+
+/**
+ * Records on the server that this device has pulled every change up to
+ * `pulledUntil`, so other devices know which tombstones it has seen.
+ */
+export async function acknowledgeSync(
+  userId: string,
+  pulledUntil: string
+): Promise<void> {
+  const deviceId = getDeviceId();
+  const existing = await findDeviceRecord(userId, deviceId);
+
+  if (existing) {
+    await pb
+      .collection(DEVICES_COLLECTION)
+      .update(existing.id, { last_pulled: pulledUntil });
+  } else {
+    await pb.collection(DEVICES_COLLECTION).create({
+      user_id: userId,
+      device_id: deviceId,
+      last_pulled: pulledUntil,
+    });
+  }
+}
+
+/**
+ * Returns the oldest pull cursor among the user's active devices, i.e. the
+ * point up to which every device has seen all deletions. Returns null while
+ * a recently registered device has not acknowledged a pull yet.
+ */
+export async function getAcknowledgedCursor(
+  userId: string
+): Promise<string | null> {
+  const devices = await pb
+    .collection(DEVICES_COLLECTION)
+    .getFullList<DeviceRecord>({ filter: `user_id = '${userId}'` });
+
+  const now = Date.now();
+  const activeCursors: number[] = [];
+  for (const device of devices) {
+    const pulled = new Date(device.last_pulled).getTime();
+    if (isNaN(pulled)) {
+      const registered = new Date(device.created).getTime();
+      if (isNaN(registered) || now - registered < DEVICE_RETIREMENT_AGE) {
+        return null;
+      }
+    } else if (now - pulled < DEVICE_RETIREMENT_AGE) {
+      activeCursors.push(pulled);
+    }
+  }
+
+  if (activeCursors.length === 0) return null;
+  return new Date(Math.min(...activeCursors)).toISOString();
+}
+
+/**
+ * Acknowledges the latest pull and, at most once per PURGE_INTERVAL,
+ * hard-deletes local tombstones that all devices have acknowledged.
+ * Failures are logged and never fail the surrounding sync.
+ */
+export async function acknowledgeAndPurgeTombstones(
+  userId: string
+): Promise<void> {
+  if (!userId || userId === GUEST_USER_ID) return;
+
+  try {
+    const pulledUntil = await getLatestSyncedTimestamp(userId);
+    if (pulledUntil) {
+      await acknowledgeSync(userId, new Date(pulledUntil).toISOString());
+    }
+
+    const lastPurge = storage.getNumber(LAST_PURGE_KEY) ?? 0;
+    if (Date.now() - lastPurge < PURGE_INTERVAL) return;
+
+    const cursor = await getAcknowledgedCursor(userId);
+    if (cursor) {
+      const purged = await purgeAcknowledgedTombstones(userId, cursor);
+      console.log(`${LOG_PREFIX} Purged ${purged} acknowledged tombstones.`);
+    }
+    storage.set(LAST_PURGE_KEY, Date.now());
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Tombstone acknowledgement failed:`, error);
+  }
+}
@@ -0,0 +1,720 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import pb from "@/services/pocketBase";
+import { getDatabase, withTransaction } from "../database";
+import CollectionRecord from "@/types/collectionType";
+import CollectionItemRecord from "@/types/collectionItemType";
+import { generateUniqueId } from "@/utils/uniqueId";
+
+import { GUEST_USER_ID } from "@/constants/Constants";
+
+const COLLECTIONS = "collections";
+const COLLECTION_ITEMS = "collection_items";
+const DEFAULT_COLLECTION_ICON = "folder";
+
+type SyncedTable = typeof COLLECTIONS | typeof COLLECTION_ITEMS;
+type SyncedRecord = CollectionRecord | CollectionItemRecord;
+
+const syncedValueFor = (userId: string) => (userId === GUEST_USER_ID ? 1 : 0);
+
+// --- Collections ---
+
+export async function getCollectionsByUserId(
+  userId: string
+): Promise<CollectionRecord[]> {
+  const db = await getDatabase();
+  try {
+    return await db.getAllAsync<CollectionRecord>(
+      "SELECT * FROM collections WHERE user_id = ? AND is_deleted = 0 ORDER BY collection_index ASC",
+      userId
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Error retrieving collections for user ${userId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+export async function createCollection(
+  userId: string,
+  name: string,
+  icon: string = DEFAULT_COLLECTION_ICON
+): Promise<CollectionRecord> {
+  try {
+    return await withTransaction(async (db) => {
+      const result = await db.getFirstAsync<{ maxIndex: number | null }>(
+        "SELECT MAX(collection_index) as maxIndex FROM collections WHERE user_id = ? AND is_deleted = 0",
+        userId
+      );
+      const now = new Date().toISOString();
+      const collection: CollectionRecord = {
+        id: generateUniqueId(),
+        collection_index: (result?.maxIndex ?? -1) + 1,
+        user_id: userId,
+        name: name.trim(),
+        icon,
+        created: now,
+        updated: now,
+        is_deleted: false,
+        is_synced: userId === GUEST_USER_ID,
+      };
+      await db.runAsync(
+        `INSERT INTO collections
+        (id, collection_index, user_id, name, icon, created, updated, is_deleted, is_synced)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)`,
+        [
+          collection.id,
+          collection.collection_index,
+          collection.user_id,
+          collection.name,
+          collection.icon,
+          collection.created,
+          collection.updated,
+          collection.is_synced ? 1 : 0,
+        ]
+      );
+      return collection;
+    });
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to create collection for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function updateCollection(
+  id: string,
+  userId: string,
+  changes: Partial<Pick<CollectionRecord, "name" | "icon">>
+): Promise<void> {
+  const db = await getDatabase();
+  try {
+    const current = await db.getFirstAsync<CollectionRecord>(
+      "SELECT * FROM collections WHERE id = ? AND user_id = ?",
+      [id, userId]
+    );
+    if (!current) return;
+
+    await withTransaction((txDb) =>
+      txDb.runAsync(
+        `UPDATE collections
+         SET name = ?, icon = ?, updated = ?, is_synced = ?
+         WHERE id = ? AND user_id = ?`,
+        [
+          changes.name?.trim() || current.name,
+          changes.icon || current.icon,
+          new Date().toISOString(),
+          syncedValueFor(userId),
+          id,
+          userId,
+        ]
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to update collection ${id} for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Soft-deletes a collection together with its memberships. The cards
+ * themselves are left untouched.
+ */
+export async function deleteCollection(
+  id: string,
+  userId: string
+): Promise<void> {
+  try {
+    const updatedAt = new Date().toISOString();
+    const isSyncedValue = syncedValueFor(userId);
+    await withTransaction(async (db) => {
+      await db.runAsync(
+        `UPDATE collections SET is_deleted = 1, updated = ?, is_synced = ?
+         WHERE id = ? AND user_id = ?`,
+        [updatedAt, isSyncedValue, id, userId]
+      );
+      await db.runAsync(
+        `UPDATE collection_items SET is_deleted = 1, updated = ?, is_synced = ?
+         WHERE collection_id = ? AND user_id = ? AND is_deleted = 0`,
+        [updatedAt, isSyncedValue, id, userId]
+      );
+    });
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to delete collection ${id} for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function updateCollectionIndexes(
+  collections: CollectionRecord[],
+  userId: string
+): Promise<void> {
+  const validCollections = collections.filter((c) => c.user_id === userId);
+  if (validCollections.length === 0) return;
+
+  const updatedAt = new Date().toISOString();
+  const isSyncedValue = syncedValueFor(userId);
+
+  try {
+    await withTransaction(async (db) => {
+      const statement = await db.prepareAsync(
+        `UPDATE collections
+         SET collection_index = ?, updated = ?, is_synced = ?
+         WHERE id = ? AND user_id = ?`
+      );
+      try {
+        for (const collection of validCollections) {
+          await statement.executeAsync([
+            collection.collection_index,
+            updatedAt,
+            isSyncedValue,
+            collection.id,
+            userId,
+          ]);
+        }
+      } finally {
+        await statement.finalizeAsync();
+      }
+    });
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to update collection indexes for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+// --- Collection items ---
+
+export async function getCollectionItemsByUserId(
+  userId: string
+): Promise<CollectionItemRecord[]> {
+  const db = await getDatabase();
+  try {
+    return await db.getAllAsync<CollectionItemRecord>(
+      "SELECT * FROM collection_items WHERE user_id = ? AND is_deleted = 0 ORDER BY collection_id, item_index ASC",
+      userId
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Error retrieving collection items for user ${userId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+async function addItemInTransaction(
+  db: SQLiteDatabase,
+  collectionId: string,
+  qrId: string,
+  userId: string,
+  now: string
+): Promise<void> {
+  const result = await db.getFirstAsync<{ maxIndex: number | null }>(
+    "SELECT MAX(item_index) as maxIndex FROM collection_items WHERE collection_id = ? AND is_deleted = 0",
+    collectionId
+  );
+  const nextIndex = (result?.maxIndex ?? -1) + 1;
+  const isSyncedValue = syncedValueFor(userId);
+
+  // Revive an earlier membership instead of violating the unique pair index.
+  const existing = await db.getFirstAsync<CollectionItemRecord>(
+    "SELECT id, is_deleted FROM collection_items WHERE collection_id = ? AND qr_id = ?",
+    [collectionId, qrId]
+  );
+  if (existing) {
+    if (existing.is_deleted) {
+      await db.runAsync(
+        `UPDATE collection_items
+         SET is_deleted = 0, item_index = ?, updated = ?, is_synced = ?
+         WHERE id = ?`,
+        [nextIndex, now, isSyncedValue, existing.id]
+      );
+    }
+    return;
+  }
+
+  await db.runAsync(
+    `INSERT INTO collection_items
+    (id, collection_id, qr_id, user_id, item_index, created, updated, is_deleted, is_synced)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)`,
+    [
+      generateUniqueId(),
+      collectionId,
+      qrId,
+      userId,
+      nextIndex,
+      now,
+      now,
+      isSyncedValue,
+    ]
+  );
+}
+
+async function removeItemInTransaction(
+  db: SQLiteDatabase,
+  collectionId: string,
+  qrId: string,
+  userId: string,
+  now: string
+): Promise<void> {
+  await db.runAsync(
+    `UPDATE collection_items SET is_deleted = 1, updated = ?, is_synced = ?
+     WHERE collection_id = ? AND qr_id = ? AND user_id = ? AND is_deleted = 0`,
+    [now, syncedValueFor(userId), collectionId, qrId, userId]
+  );
+}
+
+export async function addQrToCollection(
+  collectionId: string,
+  qrId: string,
+  userId: string
+): Promise<void> {
+  try {
+    await withTransaction((db) =>
+      addItemInTransaction(
+        db,
+        collectionId,
+        qrId,
+        userId,
+        new Date().toISOString()
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to add QR ${qrId} to collection ${collectionId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function removeQrFromCollection(
+  collectionId: string,
+  qrId: string,
+  userId: string
+): Promise<void> {
+  try {
+    await withTransaction((db) =>
+      removeItemInTransaction(
+        db,
+        collectionId,
+        qrId,
+        userId,
+        new Date().toISOString()
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to remove QR ${qrId} from collection ${collectionId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Moves a card from one collection to another in a single write. Passing a
+ * null `fromCollectionId` simply adds the card to the target collection.
+ */
+export async function moveQrToCollection(
+  qrId: string,
+  fromCollectionId: string | null,
+  toCollectionId: string,
+  userId: string
+): Promise<void> {
+  if (fromCollectionId === toCollectionId) return;
+  try {
+    const now = new Date().toISOString();
+    await withTransaction(async (db) => {
+      if (fromCollectionId) {
+        await removeItemInTransaction(db, fromCollectionId, qrId, userId, now);
+      }
+      await addItemInTransaction(db, toCollectionId, qrId, userId, now);
+    });
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to move QR ${qrId} to collection ${toCollectionId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+/**
+ * Persists the order of cards inside one collection. `orderedQrIds` is the
+ * full, already reordered list of card ids in that collection.
+ */
+export async function updateCollectionItemIndexes(
+  collectionId: string,
+  orderedQrIds: string[],
+  userId: string
+): Promise<void> {
+  if (orderedQrIds.length === 0) return;
+
+  const updatedAt = new Date().toISOString();
+  const isSyncedValue = syncedValueFor(userId);
+
+  try {
+    await withTransaction(async (db) => {
+      const statement = await db.prepareAsync(
+        `UPDATE collection_items
+         SET item_index = ?, updated = ?, is_synced = ?
+         WHERE collection_id = ? AND qr_id = ? AND user_id = ? AND is_deleted = 0`
+      );
+      try {
+        for (let index = 0; index < orderedQrIds.length; index++) {
+          await statement.executeAsync([
+            index,
+            updatedAt,
+            isSyncedValue,
+            collectionId,
+            orderedQrIds[index],
+            userId,
+          ]);
+        }
+      } finally {
+        await statement.finalizeAsync();
+      }
+    });
+  } catch (error) {
+    console.error(
+      `[collectionDB] Failed to reorder collection ${collectionId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+// --- Sync ---
+
+export async function getLatestCollectionsSyncedTimestamp(
+  userId: string
+): Promise<string | null> {
+  if (userId === GUEST_USER_ID || !userId) {
+    return null;
+  }
+  const db = await getDatabase();
+  try {
+    // Use the older of both cursors so neither table misses a change.
+    const result = await db.getFirstAsync<{ updated: string | null }>(
+      `SELECT MIN(latest) as updated FROM (
+         SELECT MAX(updated) as latest FROM collections WHERE user_id = ? AND is_synced = 1
+         UNION ALL
+         SELECT MAX(updated) as latest FROM collection_items WHERE user_id = ? AND is_synced = 1
+       ) WHERE latest IS NOT NULL`,
+      [userId, userId]
+    );
+    return result?.updated || null;
+  } catch (error) {
+    console.error(
+      `[collectionDB] Error getting latest synced timestamp for user ${userId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Pushes unsynced rows of one table to its PocketBase collection. Rows created
+ * offline get their server id back and `onIdReplaced` rewrites references.
+ */
+async function pushUnsyncedRecords<T extends SyncedRecord>(
+  table: SyncedTable,
+  userId: string,
+  toPayload: (record: T) => Record<string, unknown>,
+  onIdReplaced?: (
+    db: SQLiteDatabase,
+    localId: string,
+    serverId: string
+  ) => Promise<void>
+): Promise<void> {
+  const db = await getDatabase();
+  const unsynced = await db.getAllAsync<T>(
+    `SELECT * FROM ${table} WHERE user_id = ? AND is_synced = 0`,
+    userId
+  );
+  if (unsynced.length === 0) return;
+
+  let serverRecords: { id: string; updated: string }[] = [];
+  try {
+    serverRecords = await pb.collection(table).getFullList({
+      filter: unsynced.map((record) => `id = "${record.id}"`).join(" || "),
+      fields: "id,updated",
+    });
+  } catch (e: any) {
+    console.warn(
+      `[collectionDB] Could not fetch server ${table} for upsert check:`,
+      e.message
+    );
+    return;
+  }
+  const serverUpdated = new Map(serverRecords.map((r) => [r.id, r.updated]));
+
+  for (const record of unsynced) {
+    try {
+      const payload = { ...toPayload(record), user_id: userId };
+      if (serverUpdated.has(record.id)) {
+        const updatedRecord = await pb
+          .collection(table)
+          .update<{ updated: string }>(record.id, {
+            ...payload,
+            is_deleted: !!record.is_deleted,
+          });
+        await withTransaction((txDb) =>
+          txDb.runAsync(
+            `UPDATE ${table} SET is_synced = 1, updated = ? WHERE id = ?`,
+            [updatedRecord.updated, record.id]
+          )
+        );
+      } else if (record.is_deleted) {
+        // Never reached the server, so there is nothing to delete there.
+        await withTransaction((txDb) =>
+          txDb.runAsync(`UPDATE ${table} SET is_synced = 1 WHERE id = ?`, [
+            record.id,
+          ])
+        );
+      } else {
+        const created = await pb
+          .collection(table)
+          .create<{ id: string; updated: string }>({
+            ...payload,
+            is_deleted: false,
+          });
+        await withTransaction(async (txDb) => {
+          await txDb.runAsync(
+            `UPDATE ${table} SET id = ?, is_synced = 1, updated = ? WHERE id = ?`,
+            [created.id, created.updated, record.id]
+          );
+          if (onIdReplaced) {
+            await onIdReplaced(txDb, record.id, created.id);
+          }
+        });
+      }
+    } catch (e: any) {
+      console.error(
+        `[collectionDB] Failed to push ${table} record ${record.id}:`,
+        e.response?.data || e.message || e
+      );
+    }
+  }
+}
+
+/**
+ * Pushes local collection changes, then memberships, so memberships always
+ * reference collection ids the server knows about.
+ */
+export async function syncCollections(userId: string): Promise<void> {
+  if (userId === GUEST_USER_ID || !userId) {
+    return;
+  }
+
+  try {
+    await pushUnsyncedRecords<CollectionRecord>(
+      COLLECTIONS,
+      userId,
+      (collection) => ({
+        name: collection.name,
+        icon: collection.icon,
+        collection_index: collection.collection_index,
+      }),
+      (db, localId, serverId) =>
+        db
+          .runAsync(
+            "UPDATE collection_items SET collection_id = ? WHERE collection_id = ?",
+            [serverId, localId]
+          )
+          .then(() => undefined)
+    );
+    await pushUnsyncedRecords<CollectionItemRecord>(
+      COLLECTION_ITEMS,
+      userId,
+      (item) => ({
+        collection_id: item.collection_id,
+        qr_id: item.qr_id,
+        item_index: item.item_index,
+      })
+    );
+  } catch (error) {
+    console.error(
+      `[collectionDB] Error during collection sync for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function fetchServerCollections(
+  userId: string,
+  sinceTimestamp: string | null = null
+): Promise<{
+  collections: CollectionRecord[];
+  items: CollectionItemRecord[];
+}> {
+  if (userId === GUEST_USER_ID || !userId) {
+    return { collections: [], items: [] };
+  }
+
+  let filter = `user_id = '${userId}'`;
+  if (sinceTimestamp) {
+    const formattedTimestamp = new Date(sinceTimestamp)
+      .toISOString()
+      .replace("T", " ")
+      .substring(0, 19);
+    filter += ` && updated > '${formattedTimestamp}'`;
+  } else {
+    filter += ` && is_deleted = false`;
+  }
+
+  try {
+    const [collections, items] = await Promise.all([
+      pb
+        .collection(COLLECTIONS)
+        .getFullList<CollectionRecord>({ filter, sort: "updated" }),
+      pb
+        .collection(COLLECTION_ITEMS)
+        .getFullList<CollectionItemRecord>({ filter, sort: "updated" }),
+    ]);
+
+    return {
+      collections: collections.map((item) => ({
+        id: item.id,
+        collection_index: item.collection_index ?? 0,
+        user_id: item.user_id,
+        name: item.name,
+        icon: item.icon || DEFAULT_COLLECTION_ICON,
+        created: item.created,
+        updated: item.updated,
+        is_deleted: !!item.is_deleted,
+        is_synced: true,
+      })),
+      items: items.map((item) => ({
+        id: item.id,
+        collection_id: item.collection_id,
+        qr_id: item.qr_id,
+        user_id: item.user_id,
+        item_index: item.item_index ?? 0,
+        created: item.created,
+        updated: item.updated,
+        is_deleted: !!item.is_deleted,
+        is_synced: true,
+      })),
+    };
+  } catch (error: any) {
+    console.error(
+      `[collectionDB] Error fetching server collections for user ${userId}:`,
+      error.response?.data || error.message || error
+    );
+    throw error;
+  }
+}
+
+async function getExistingUpdated(
+  db: SQLiteDatabase,
+  table: SyncedTable,
+  ids: string[]
+): Promise<Map<string, { updated: string; is_deleted: boolean }>> {
+  const existing = new Map<string, { updated: string; is_deleted: boolean }>();
+  if (ids.length === 0) return existing;
+  const placeholders = ids.map(() => "?").join(",");
+  const rows = await db.getAllAsync<{
+    id: string;
+    updated: string;
+    is_deleted: boolean;
+  }>(
+    `SELECT id, updated, is_deleted FROM ${table} WHERE id IN (${placeholders})`,
+    ids
+  );
+  rows.forEach((row) => existing.set(row.id, row));
+  return existing;
+}
+
+const shouldApply = (
+  incoming: SyncedRecord,
+  existing?: { updated: string; is_deleted: boolean }
+) =>
+  existing
+    ? new Date(incoming.updated) > new Date(existing.updated) ||
+      Boolean(incoming.is_deleted) !== Boolean(existing.is_deleted)
+    : !incoming.is_deleted;
+
+export async function insertOrUpdateCollections(
+  collections: CollectionRecord[],
+  items: CollectionItemRecord[]
+): Promise<void> {
+  if (collections.length === 0 && items.length === 0) return;
+
+  try {
+    await withTransaction(async (db) => {
+      const existingCollections = await getExistingUpdated(
+        db,
+        COLLECTIONS,
+        collections.map((c) => c.id)
+      );
+      for (const collection of collections) {
+        if (!shouldApply(collection, existingCollections.get(collection.id))) {
+          continue;
+        }
+        await db.runAsync(
+          `INSERT OR REPLACE INTO collections
+          (id, collection_index, user_id, name, icon, created, updated, is_deleted, is_synced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            collection.id,
+            collection.collection_index,
+            collection.user_id,
+            collection.name,
+            collection.icon,
+            collection.created,
+            collection.updated,
+            collection.is_deleted ? 1 : 0,
+            collection.is_synced ? 1 : 0,
+          ]
+        );
+      }
+
+      const existingItems = await getExistingUpdated(
+        db,
+        COLLECTION_ITEMS,
+        items.map((i) => i.id)
+      );
+      for (const item of items) {
+        if (!shouldApply(item, existingItems.get(item.id))) {
+          continue;
+        }
+        // REPLACE also resolves a clash with an unsynced local row for the
+        // same collection/card pair; the server copy wins.
+        await db.runAsync(
+          `INSERT OR REPLACE INTO collection_items
+          (id, collection_id, qr_id, user_id, item_index, created, updated, is_deleted, is_synced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            item.id,
+            item.collection_id,
+            item.qr_id,
+            item.user_id,
+            item.item_index,
+            item.created,
+            item.updated,
+            item.is_deleted ? 1 : 0,
+            item.is_synced ? 1 : 0,
+          ]
+        );
+      }
+    });
+  } catch (error) {
+    console.error("[collectionDB] Failed to insert/update collections:", error);
+    throw error;
+  }
+}
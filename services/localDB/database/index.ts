@@ -0,0 +1,76 @@
+import * as SQLite from "expo-sqlite";
+
+export const DATABASE_NAME = "myDatabase.db";
+
+const LOG_PREFIX = "[Database]";
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+// Tail of the write queue; every transaction chains onto it.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function openSharedDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  // WAL lets reads proceed while a write transaction is open.
+  await db.execAsync("PRAGMA journal_mode = WAL;");
+  await db.execAsync("PRAGMA synchronous = NORMAL;");
+  return db;
+}
+
+/**
+ * Returns the single connection shared by every local DB service.
+ * Use it directly for reads; route all writes through `withTransaction`.
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openSharedDatabase().catch((error) => {
+      console.error(`${LOG_PREFIX} Error opening database:`, error);
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs `work` inside a transaction on the shared connection. Transactions are
+ * queued and executed one at a time, so concurrent writers (sync, reorder,
+ * edits) never interleave statements or hit `database is locked`.
+ */
+export function withTransaction<T>(
+  work: (db: SQLite.SQLiteDatabase) => Promise<T>
+): Promise<T> {
+  const run = async (): Promise<T> => {
+    const db = await getDatabase();
+    await db.execAsync("BEGIN IMMEDIATE TRANSACTION;");
+    try {
+      const result = await work(db);
+      await db.execAsync("COMMIT;");
+      return result;
+    } catch (error) {
+      try {
+        await db.execAsync("ROLLBACK;");
+      } catch (rollbackError) {
+        console.error(`${LOG_PREFIX} Rollback failed:`, rollbackError);
+      }
+      throw error;
+    }
+  };
+
+  const result = writeQueue.then(run, run);
+  // Keep the queue alive regardless of this transaction's outcome.
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function closeDatabase(): Promise<void> {
+  if (!databasePromise) return;
+  const pending = databasePromise;
+  await writeQueue;
+  databasePromise = null;
+  try {
+    const db = await pending;
+    await db.closeAsync();
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Error closing the database:`, error);
+  }
+}
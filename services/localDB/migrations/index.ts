@@ -0,0 +1,224 @@
+import * as FileSystem from "expo-file-system";
+import type { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase, withTransaction, DATABASE_NAME } from "../database";
+import { store } from "@/store";
+import { setErrorMessage } from "@/store/reducers/errorSlice";
+import { t } from "@/i18n";
+
+const LOG_PREFIX = "[Migrations]";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Every schema change goes here, in order. Migrations are forward-only:
+ * never edit one that has shipped, append a new version instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "create_users_and_qrcodes",
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY NOT NULL,
+          username TEXT NOT NULL,
+          email TEXT NOT NULL,
+          verified INTEGER NOT NULL,
+          name TEXT,
+          avatar TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS qrcodes (
+          id TEXT PRIMARY KEY NOT NULL,
+          qr_index INTEGER NOT NULL,
+          user_id TEXT NOT NULL,
+          code TEXT NOT NULL,
+          metadata TEXT NOT NULL,
+          metadata_type TEXT NOT NULL,
+          account_name TEXT,
+          account_number TEXT,
+          type TEXT NOT NULL,
+          created TEXT NOT NULL,
+          updated TEXT NOT NULL,
+          is_deleted BOOLEAN NOT NULL DEFAULT 0,
+          is_synced BOOLEAN NOT NULL DEFAULT 0,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_qr_user_id ON qrcodes(user_id);
+        CREATE INDEX IF NOT EXISTS idx_qr_is_deleted ON qrcodes(is_deleted);
+        CREATE INDEX IF NOT EXISTS idx_qr_is_synced ON qrcodes(is_synced);
+        CREATE INDEX IF NOT EXISTS idx_qr_index ON qrcodes(qr_index);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: "add_card_label_notes_validity",
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE qrcodes ADD COLUMN label TEXT;
+        ALTER TABLE qrcodes ADD COLUMN notes TEXT;
+        ALTER TABLE qrcodes ADD COLUMN valid_from TEXT;
+        ALTER TABLE qrcodes ADD COLUMN valid_until TEXT;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "create_collections",
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS collections (
+          id TEXT PRIMARY KEY NOT NULL,
+          collection_index INTEGER NOT NULL,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          icon TEXT NOT NULL DEFAULT 'folder',
+          created TEXT NOT NULL,
+          updated TEXT NOT NULL,
+          is_deleted BOOLEAN NOT NULL DEFAULT 0,
+          is_synced BOOLEAN NOT NULL DEFAULT 0,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        );
+      `);
+      // Many-to-many: a card can sit in several collections, each with its
+      // own ordering.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS collection_items (
+          id TEXT PRIMARY KEY NOT NULL,
+          collection_id TEXT NOT NULL,
+          qr_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          item_index INTEGER NOT NULL,
+          created TEXT NOT NULL,
+          updated TEXT NOT NULL,
+          is_deleted BOOLEAN NOT NULL DEFAULT 0,
+          is_synced BOOLEAN NOT NULL DEFAULT 0
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_collection_user_id ON collections(user_id);
+        CREATE INDEX IF NOT EXISTS idx_collection_item_collection ON collection_items(collection_id);
+        CREATE INDEX IF NOT EXISTS idx_collection_item_qr ON collection_items(qr_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_collection_item_pair ON collection_items(collection_id, qr_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "create_scan_history",
+    up: async (db) => {
+      // Device-local log of scanned codes; never synced.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS scan_history (
+          id TEXT PRIMARY KEY NOT NULL,
+          user_id TEXT NOT NULL,
+          raw_value TEXT NOT NULL,
+          code_format INTEGER,
+          result_type TEXT NOT NULL,
+          scanned_at TEXT NOT NULL,
+          is_saved BOOLEAN NOT NULL DEFAULT 0
+        );
+      `);
+      await db.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_scan_history_user_scanned ON scan_history(user_id, scanned_at);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.length
+  ? MIGRATIONS[MIGRATIONS.length - 1].version
+  : 0;
+
+async function getSchemaVersion(db: SQLiteDatabase): Promise<number> {
+  const result = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version"
+  );
+  return result?.user_version ?? 0;
+}
+
+/**
+ * Copies the database file aside before migrating so a failed upgrade never
+ * loses the user's data. Returns the backup path, or null if nothing to copy.
+ */
+async function backupDatabaseFile(fromVersion: number): Promise<string | null> {
+  if (!FileSystem.documentDirectory) return null;
+  const databasePath = `${FileSystem.documentDirectory}SQLite/${DATABASE_NAME}`;
+  const backupPath = `${databasePath}.v${fromVersion}.bak`;
+
+  const info = await FileSystem.getInfoAsync(databasePath);
+  if (!info.exists) return null;
+
+  await FileSystem.deleteAsync(backupPath, { idempotent: true });
+  await FileSystem.copyAsync({ from: databasePath, to: backupPath });
+  return backupPath;
+}
+
+// A leftover copy only costs storage, so failing to delete it is not fatal.
+async function discardBackup(backupPath: string): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(backupPath, { idempotent: true });
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Could not delete backup ${backupPath}:`, error);
+  }
+}
+
+/**
+ * Brings the local database up to LATEST_SCHEMA_VERSION. Each pending
+ * migration runs in its own transaction together with its `user_version`
+ * bump, so a failure leaves the database at the last completed version.
+ * The file backup is only kept when a migration fails.
+ */
+export async function runMigrations(): Promise<number> {
+  const db = await getDatabase();
+  const currentVersion = await getSchemaVersion(db);
+  const pending = MIGRATIONS.filter((m) => m.version > currentVersion).sort(
+    (a, b) => a.version - b.version
+  );
+
+  if (pending.length === 0) {
+    return currentVersion;
+  }
+
+  // A fresh install has no data to protect.
+  let backupPath: string | null = null;
+  if (currentVersion > 0) {
+    // Fold the WAL into the main file so the backup copy is complete.
+    await db.execAsync("PRAGMA wal_checkpoint(TRUNCATE);");
+    backupPath = await backupDatabaseFile(currentVersion);
+  }
+
+  let appliedVersion = currentVersion;
+  for (const migration of pending) {
+    try {
+      await withTransaction(async (txDb) => {
+        await migration.up(txDb);
+        await txDb.execAsync(`PRAGMA user_version = ${migration.version};`);
+      });
+      appliedVersion = migration.version;
+      console.log(
+        `${LOG_PREFIX} Applied ${migration.version} (${migration.name}).`
+      );
+    } catch (error) {
+      console.error(
+        `${LOG_PREFIX} Migration ${migration.version} (${migration.name}) failed. ` +
+          `Database left at version ${appliedVersion}` +
+          (backupPath ? `, backup kept at ${backupPath}.` : "."),
+        error
+      );
+      store.dispatch(setErrorMessage(t("common.databaseMigrationFailed")));
+      throw error;
+    }
+  }
+
+  if (backupPath) await discardBackup(backupPath);
+  return appliedVersion;
+}
@@ -1,63 +1,24 @@
 import pb from "@/services/pocketBase";
-import { openDatabase } from "../userDB"; // Assuming userDB handles DB connection
+import { getDatabase, withTransaction } from "../database";
+import type { SQLiteDatabase } from "expo-sqlite";
 import QRRecord from "@/types/qrType";
+import { MetadataType } from "@/utils/symbology";
 import ServerRecord from "@/types/serverDataTypes"; // Assuming you have this type defined
 
 import { returnItems } from "@/utils/returnItemData";
 
 import { GUEST_USER_ID } from "@/constants/Constants";
 const ITEMS_PER_PAGE = 50;
+// Stays well below SQLite's bound-parameter limit.
+const ID_LOOKUP_CHUNK_SIZE = 500;
 
-export async function createQrTable(): Promise<void> {
-  const db = await openDatabase();
-  try {
-    await db.runAsync("BEGIN TRANSACTION;");
-
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS qrcodes (
-        id TEXT PRIMARY KEY NOT NULL,
-        qr_index INTEGER NOT NULL,
-        user_id TEXT NOT NULL,
-        code TEXT NOT NULL,
-        metadata TEXT NOT NULL,
-        metadata_type TEXT NOT NULL,
-        account_name TEXT,
-        account_number TEXT,
-        type TEXT NOT NULL,
-        created TEXT NOT NULL,
-        updated TEXT NOT NULL,
-        is_deleted BOOLEAN NOT NULL DEFAULT 0,
-        is_synced BOOLEAN NOT NULL DEFAULT 0,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-      );
-    `);
-
-    await db.execAsync(
-      "CREATE INDEX IF NOT EXISTS idx_qr_user_id ON qrcodes(user_id);"
-    );
-    await db.execAsync(
-      "CREATE INDEX IF NOT EXISTS idx_qr_is_deleted ON qrcodes(is_deleted);"
-    );
-    await db.execAsync(
-      "CREATE INDEX IF NOT EXISTS idx_qr_is_synced ON qrcodes(is_synced);"
-    );
-    await db.execAsync(
-      "CREATE INDEX IF NOT EXISTS idx_qr_index ON qrcodes(qr_index);"
-    );
-
-    await db.runAsync("COMMIT;");
-  } catch (error) {
-    await db.runAsync("ROLLBACK;");
-    console.error("[qrDB] Error creating qr table or indexes:", error);
-    throw error;
-  }
-}
+export { closeDatabase } from "../database";
 
 export async function getQrCodeById(
   id: string,
   userId: string
 ): Promise<QRRecord | null> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     return await db.getFirstAsync<QRRecord>(
       "SELECT * FROM qrcodes WHERE id = ? AND user_id = ? AND is_deleted = 0",
@@ -73,7 +34,7 @@ export async function getQrCodeById(
 }
 
 export async function getQrCodesByUserId(userId: string): Promise<QRRecord[]> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     return await db.getAllAsync<QRRecord>(
       "SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 0 ORDER BY qr_index ASC",
@@ -89,7 +50,7 @@ export async function getQrCodesByUserId(userId: string): Promise<QRRecord[]> {
 }
 
 export async function hasLocalData(userId: string): Promise<boolean> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     const result = await db.getFirstAsync<{ count: number }>(
       "SELECT COUNT(*) as count FROM qrcodes WHERE user_id = ? AND is_deleted = 0",
@@ -106,18 +67,25 @@ export async function hasLocalData(userId: string): Promise<boolean> {
 }
 
 export async function deleteQrCode(id: string, userId: string): Promise<void> {
-  const db = await openDatabase();
   try {
     const updatedAt = new Date().toISOString();
     const isSyncedValue = userId === GUEST_USER_ID ? 1 : 0;
-    await db.runAsync(
-      `
+    await withTransaction(async (db) => {
+      await db.runAsync(
+        `
       UPDATE qrcodes
       SET is_deleted = 1, updated = ?, is_synced = ?
       WHERE id = ? AND user_id = ?
     `,
-      [updatedAt, isSyncedValue, id, userId]
-    );
+        [updatedAt, isSyncedValue, id, userId]
+      );
+      // A deleted card leaves every collection it belonged to.
+      await db.runAsync(
+        `UPDATE collection_items SET is_deleted = 1, updated = ?, is_synced = ?
+         WHERE qr_id = ? AND user_id = ? AND is_deleted = 0`,
+        [updatedAt, isSyncedValue, id, userId]
+      );
+    });
   } catch (error) {
     console.error(
       `[qrDB] Failed to soft-delete QR code ${id} for user ${userId}:`,
@@ -131,10 +99,9 @@ export async function insertQrCodesBulk(
   qrDataArray: QRRecord[]
 ): Promise<void> {
   if (!qrDataArray || qrDataArray.length === 0) return;
-  const db = await openDatabase();
 
   const placeholders = qrDataArray
-    .map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+    .map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
     .join(", ");
 
   const values: any[] = qrDataArray.flatMap((qrData) => [
@@ -146,6 +113,10 @@ export async function insertQrCodesBulk(
     qrData.metadata_type,
     qrData.account_name || null,
     qrData.account_number || null,
+    qrData.label || null,
+    qrData.notes || null,
+    qrData.valid_from || null,
+    qrData.valid_until || null,
     qrData.type,
     qrData.created,
     qrData.updated,
@@ -154,16 +125,15 @@ export async function insertQrCodesBulk(
   ]);
 
   try {
-    await db.runAsync("BEGIN TRANSACTION;");
-    await db.runAsync(
-      `INSERT OR IGNORE INTO qrcodes
-      (id, qr_index, user_id, code, metadata, metadata_type, account_name, account_number, type, created, updated, is_deleted, is_synced)
+    await withTransaction((db) =>
+      db.runAsync(
+        `INSERT OR IGNORE INTO qrcodes
+      (id, qr_index, user_id, code, metadata, metadata_type, account_name, account_number, label, notes, valid_from, valid_until, type, created, updated, is_deleted, is_synced)
       VALUES ${placeholders}`,
-      values
+        values
+      )
     );
-    await db.runAsync("COMMIT;");
   } catch (error) {
-    await db.runAsync("ROLLBACK;");
     console.error("[qrDB] Failed to insert bulk QR codes:", error);
     throw error;
   }
@@ -173,7 +143,7 @@ export async function getUnsyncedQrCodes(userId: string): Promise<QRRecord[]> {
   if (userId === GUEST_USER_ID) {
     return [];
   }
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     return await db.getAllAsync<QRRecord>(
       "SELECT * FROM qrcodes WHERE is_synced = 0 AND user_id = ? AND is_deleted = 0",
@@ -194,7 +164,7 @@ export async function getLocallyDeletedQrCodes(
   if (userId === GUEST_USER_ID) {
     return [];
   }
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     return await db.getAllAsync<QRRecord>(
       "SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 1 AND is_synced = 0",
@@ -213,8 +183,9 @@ export async function syncQrCodes(userId: string): Promise<void> {
   if (userId === GUEST_USER_ID || !userId) {
     return;
   }
-  const db = await openDatabase();
 
+  // Network calls stay outside transactions; only the local bookkeeping
+  // after each server response is queued as a short write.
   try {
     const unsyncedChanges = await getUnsyncedQrCodes(userId);
     const locallyDeleted = await getLocallyDeletedQrCodes(userId);
@@ -244,9 +215,11 @@ export async function syncQrCodes(userId: string): Promise<void> {
         const placeholders = successfullyDeletedServerIds
           .map(() => "?")
           .join(",");
-        await db.runAsync(
-          `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id IN (${placeholders}) AND user_id = ?`,
-          [new Date().toISOString(), ...successfullyDeletedServerIds, userId]
+        await withTransaction((db) =>
+          db.runAsync(
+            `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id IN (${placeholders}) AND user_id = ?`,
+            [new Date().toISOString(), ...successfullyDeletedServerIds, userId]
+          )
         );
       }
     }
@@ -314,9 +287,11 @@ export async function syncQrCodes(userId: string): Promise<void> {
               });
             }
           } else {
-            await db.runAsync(
-              `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id = ? AND user_id = ?`,
-              [serverInfo.updated, localId, userId]
+            await withTransaction((db) =>
+              db.runAsync(
+                `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id = ? AND user_id = ?`,
+                [serverInfo.updated, localId, userId]
+              )
             );
           }
         } else {
@@ -335,26 +310,37 @@ export async function syncQrCodes(userId: string): Promise<void> {
               .collection("qr")
               .create<ServerRecord>(itemToCreate.payload);
 
-            await db.runAsync(
-              `UPDATE qrcodes
-               SET id = ?, is_synced = 1, updated = ?, qr_index = ?, created = ?, metadata = ?, metadata_type = ?, account_name = ?, account_number = ?, type = ?, code = ?, is_deleted = ?
+            await withTransaction(async (db) => {
+              await db.runAsync(
+                `UPDATE qrcodes
+               SET id = ?, is_synced = 1, updated = ?, qr_index = ?, created = ?, metadata = ?, metadata_type = ?, account_name = ?, account_number = ?, label = ?, notes = ?, valid_from = ?, valid_until = ?, type = ?, code = ?, is_deleted = ?
                WHERE id = ? AND user_id = ?`,
-              [
-                serverRecord.id,
-                serverRecord.updated,
-                serverRecord.qr_index,
-                serverRecord.created,
-                serverRecord.metadata,
-                serverRecord.metadata_type,
-                serverRecord.account_name,
-                serverRecord.account_number,
-                serverRecord.type,
-                serverRecord.code,
-                serverRecord.is_deleted,
-                itemToCreate.localId,
-                userId,
-              ]
-            );
+                [
+                  serverRecord.id,
+                  serverRecord.updated,
+                  serverRecord.qr_index,
+                  serverRecord.created,
+                  serverRecord.metadata,
+                  serverRecord.metadata_type,
+                  serverRecord.account_name,
+                  serverRecord.account_number,
+                  serverRecord.label || null,
+                  serverRecord.notes || null,
+                  serverRecord.valid_from || null,
+                  serverRecord.valid_until || null,
+                  serverRecord.type,
+                  serverRecord.code,
+                  serverRecord.is_deleted,
+                  itemToCreate.localId,
+                  userId,
+                ]
+              );
+              // Keep collection memberships pointing at the server id.
+              await db.runAsync(
+                "UPDATE collection_items SET qr_id = ? WHERE qr_id = ? AND user_id = ?",
+                [serverRecord.id, itemToCreate.localId, userId]
+              );
+            });
           } catch (e: any) {
             console.error(
               `[qrDB] syncQrCodes: Failed to create server record for local ID ${itemToCreate.localId}:`,
@@ -371,9 +357,11 @@ export async function syncQrCodes(userId: string): Promise<void> {
             const updatedRecord = await pb
               .collection("qr")
               .update<ServerRecord>(itemToUpdate.id, itemToUpdate.data);
-            await db.runAsync(
-              `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id = ? AND user_id = ?`,
-              [updatedRecord.updated, itemToUpdate.id, userId]
+            await withTransaction((db) =>
+              db.runAsync(
+                `UPDATE qrcodes SET is_synced = 1, updated = ? WHERE id = ? AND user_id = ?`,
+                [updatedRecord.updated, itemToUpdate.id, userId]
+              )
             );
           } catch (e: any) {
             console.error(
@@ -400,7 +388,7 @@ export async function getLatestSyncedTimestamp(
   if (userId === GUEST_USER_ID || !userId) {
     return null;
   }
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     const result = await db.getFirstAsync<{ updated: string }>(
       "SELECT MAX(updated) as updated FROM qrcodes WHERE user_id = ? AND is_synced = 1",
@@ -438,9 +426,12 @@ export async function fetchServerData(
         .toISOString()
         .replace("T", " ")
         .substring(0, 19);
+      // Incremental pulls include tombstones so deletions made on other
+      // devices are applied locally.
       filter += ` && updated > '${formattedTimestamp}'`;
+    } else {
+      filter += ` && is_deleted = false`;
     }
-    filter += ` && is_deleted = false`;
 
     console.log(`[qrDB] fetchServerData: Fetching with filter: ${filter}`);
 
@@ -490,10 +481,14 @@ export async function fetchServerData(
         user_id: item.user_id,
         code: item.code,
         metadata: item.metadata,
-        metadata_type: item.metadata_type as "qr" | "barcode",
+        metadata_type: item.metadata_type as MetadataType,
         account_name: item.account_name || "",
         account_number: item.account_number || "",
-        type: item.type as "bank" | "store" | "ewallet",
+        label: item.label || "",
+        notes: item.notes || "",
+        valid_from: item.valid_from || "",
+        valid_until: item.valid_until || "",
+        type: item.type as "bank" | "store" | "ewallet" | "wifi" | "flight",
         created: item.created,
         updated: item.updated,
         is_deleted: item.is_deleted,
@@ -509,34 +504,122 @@ export async function fetchServerData(
   }
 }
 
+/**
+ * Decides whether an incoming record overwrites the local row with the same
+ * id. Newer edits win. A delete or restore is only applied when the incoming
+ * record is at least as recent, so an older server copy cannot undo a newer
+ * local change of the deleted flag.
+ */
+export function shouldReplaceLocalRecord(
+  incoming: Pick<QRRecord, "updated" | "user_id" | "is_deleted">,
+  existing: Pick<QRRecord, "updated" | "user_id" | "is_deleted">
+): boolean {
+  const incomingTime = new Date(incoming.updated).getTime();
+  const existingTime = new Date(existing.updated).getTime();
+  if (incomingTime > existingTime || incoming.user_id !== existing.user_id) {
+    return true;
+  }
+  // SQLite returns the flag as 0/1.
+  return (
+    Boolean(incoming.is_deleted) !== Boolean(existing.is_deleted) &&
+    incomingTime >= existingTime
+  );
+}
+
+/**
+ * Loads the sync-relevant columns of every existing row in `ids`, querying in
+ * chunks instead of once per record.
+ */
+async function getExistingSyncState(
+  db: SQLiteDatabase,
+  ids: string[]
+): Promise<Map<string, Pick<QRRecord, "id" | "updated" | "user_id" | "is_deleted">>> {
+  const existing = new Map<
+    string,
+    Pick<QRRecord, "id" | "updated" | "user_id" | "is_deleted">
+  >();
+  for (let i = 0; i < ids.length; i += ID_LOOKUP_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + ID_LOOKUP_CHUNK_SIZE);
+    const placeholders = chunk.map(() => "?").join(",");
+    const rows = await db.getAllAsync<
+      Pick<QRRecord, "id" | "updated" | "user_id" | "is_deleted">
+    >(
+      `SELECT id, updated, user_id, is_deleted FROM qrcodes WHERE id IN (${placeholders})`,
+      chunk
+    );
+    rows.forEach((row) => existing.set(row.id, row));
+  }
+  return existing;
+}
+
+/**
+ * Sync state of every row in `ids`, whoever owns it and including tombstones.
+ * `insertOrUpdateQrCodes` matches on id alone, so callers writing records that
+ * came from outside use this to avoid taking over rows they do not own.
+ */
+export async function getQrCodeSyncStates(
+  ids: string[]
+): Promise<Map<string, Pick<QRRecord, "id" | "updated" | "user_id" | "is_deleted">>> {
+  const db = await getDatabase();
+  return getExistingSyncState(db, ids);
+}
+
 export async function insertOrUpdateQrCodes(
   qrDataArray: QRRecord[]
 ): Promise<void> {
   if (!qrDataArray || qrDataArray.length === 0) return;
-  const db = await openDatabase();
 
   try {
-    await db.runAsync("BEGIN TRANSACTION;");
+    await withTransaction(async (db) => {
+      const existingRecords = await getExistingSyncState(
+        db,
+        qrDataArray.map((qrData) => qrData.id)
+      );
 
-    for (const qrData of qrDataArray) {
-      const existingRecord = await db.getFirstAsync<QRRecord>(
-        "SELECT id, updated, user_id, is_deleted FROM qrcodes WHERE id = ?",
-        qrData.id
+      const updateStatement = await db.prepareAsync(
+        `UPDATE qrcodes
+         SET qr_index = ?, user_id = ?, code = ?, metadata = ?, metadata_type = ?,
+         account_name = ?, account_number = ?, label = ?, notes = ?,
+         valid_from = ?, valid_until = ?, type = ?, updated = ?,
+         is_deleted = ?, is_synced = ?
+         WHERE id = ?`
+      );
+      const insertStatement = await db.prepareAsync(
+        `INSERT INTO qrcodes
+        (id, qr_index, user_id, code, metadata, metadata_type, account_name,
+         account_number, label, notes, valid_from, valid_until, type, created,
+         updated, is_deleted, is_synced)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       );
 
-      if (existingRecord) {
-        if (
-          new Date(qrData.updated) > new Date(existingRecord.updated) ||
-          qrData.user_id !== existingRecord.user_id ||
-          qrData.is_deleted !== existingRecord.is_deleted
-        ) {
-          await db.runAsync(
-            `UPDATE qrcodes
-             SET qr_index = ?, user_id = ?, code = ?, metadata = ?, metadata_type = ?,
-             account_name = ?, account_number = ?, type = ?, updated = ?,
-             is_deleted = ?, is_synced = ?
-             WHERE id = ?`,
-            [
+      try {
+        for (const qrData of qrDataArray) {
+          const existingRecord = existingRecords.get(qrData.id);
+
+          if (existingRecord) {
+            if (shouldReplaceLocalRecord(qrData, existingRecord)) {
+              await updateStatement.executeAsync([
+                qrData.qr_index,
+                qrData.user_id,
+                qrData.code,
+                qrData.metadata,
+                qrData.metadata_type,
+                qrData.account_name || null,
+                qrData.account_number || null,
+                qrData.label || null,
+                qrData.notes || null,
+                qrData.valid_from || null,
+                qrData.valid_until || null,
+                qrData.type,
+                qrData.updated,
+                qrData.is_deleted ? 1 : 0,
+                qrData.is_synced ? 1 : 0,
+                qrData.id,
+              ]);
+            }
+          } else if (!qrData.is_deleted) {
+            await insertStatement.executeAsync([
+              qrData.id,
               qrData.qr_index,
               qrData.user_id,
               qrData.code,
@@ -544,51 +627,90 @@ export async function insertOrUpdateQrCodes(
               qrData.metadata_type,
               qrData.account_name || null,
               qrData.account_number || null,
+              qrData.label || null,
+              qrData.notes || null,
+              qrData.valid_from || null,
+              qrData.valid_until || null,
               qrData.type,
+              qrData.created,
               qrData.updated,
               qrData.is_deleted ? 1 : 0,
               qrData.is_synced ? 1 : 0,
-              qrData.id,
-            ]
-          );
+            ]);
+          }
         }
-      } else {
-        await db.runAsync(
-          `INSERT INTO qrcodes
-          (id, qr_index, user_id, code, metadata, metadata_type, account_name,
-           account_number, type, created, updated, is_deleted, is_synced)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            qrData.id,
-            qrData.qr_index,
-            qrData.user_id,
-            qrData.code,
-            qrData.metadata,
-            qrData.metadata_type,
-            qrData.account_name || null,
-            qrData.account_number || null,
-            qrData.type,
-            qrData.created,
-            qrData.updated,
-            qrData.is_deleted ? 1 : 0,
-            qrData.is_synced ? 1 : 0,
-          ]
-        );
+      } finally {
+        await updateStatement.finalizeAsync();
+        await insertStatement.finalizeAsync();
       }
-    }
-    await db.runAsync("COMMIT;");
+    });
   } catch (error) {
-    await db.runAsync("ROLLBACK;");
     console.error("[qrDB] Failed to insert/update QR codes:", error);
     throw error;
   }
 }
 
+/**
+ * Returns synced tombstones (soft-deleted rows already pushed to the server).
+ */
+export async function getSyncedTombstones(userId: string): Promise<QRRecord[]> {
+  if (userId === GUEST_USER_ID || !userId) {
+    return [];
+  }
+  const db = await getDatabase();
+  try {
+    return await db.getAllAsync<QRRecord>(
+      "SELECT id, updated FROM qrcodes WHERE user_id = ? AND is_deleted = 1 AND is_synced = 1",
+      userId
+    );
+  } catch (error) {
+    console.error(
+      `[qrDB] Error retrieving synced tombstones for user ${userId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Hard-deletes synced tombstones whose deletion every known device has
+ * already pulled. Returns the number of purged rows.
+ */
+export async function purgeAcknowledgedTombstones(
+  userId: string,
+  acknowledgedUntil: string
+): Promise<number> {
+  const tombstones = await getSyncedTombstones(userId);
+  const cutoff = new Date(acknowledgedUntil).getTime();
+  const purgeIds = tombstones
+    .filter((qr) => new Date(qr.updated).getTime() <= cutoff)
+    .map((qr) => qr.id);
+
+  if (purgeIds.length === 0) return 0;
+
+  try {
+    const placeholders = purgeIds.map(() => "?").join(",");
+    await withTransaction((db) =>
+      db.runAsync(
+        `DELETE FROM qrcodes WHERE id IN (${placeholders}) AND user_id = ? AND is_deleted = 1 AND is_synced = 1`,
+        [...purgeIds, userId]
+      )
+    );
+    return purgeIds.length;
+  } catch (error) {
+    console.error(
+      `[qrDB] Failed to purge tombstones for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
 export async function searchQrCodes(
   userId: string,
   searchQuery: string = ""
 ): Promise<QRRecord[]> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     const queryParams: any[] = [userId];
     let sqlQuery = `SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 0`;
@@ -610,6 +732,10 @@ export async function searchQrCodes(
         queryParams.push(termParam);
         searchConditions.push(`account_number LIKE ?`);
         queryParams.push(termParam);
+        searchConditions.push(`label LIKE ?`);
+        queryParams.push(termParam);
+        searchConditions.push(`notes LIKE ?`);
+        queryParams.push(termParam);
         searchConditions.push(`type LIKE ?`);
         queryParams.push(termParam);
       });
@@ -633,7 +759,7 @@ export async function filterQrCodesByType(
   userId: string,
   filter: string = "all"
 ): Promise<QRRecord[]> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     let sqlQuery = `SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 0`;
     const queryParams: any[] = [userId];
@@ -665,30 +791,38 @@ export async function updateQrIndexes(
     return;
   }
 
-  const db = await openDatabase();
   const updatedAt = new Date().toISOString();
   const isSyncedValue = userId === GUEST_USER_ID ? 1 : 0;
 
   try {
-    await db.runAsync("BEGIN TRANSACTION;");
-    for (const qr of validQrData) {
-      const newIndex = typeof qr.qr_index === "number" ? qr.qr_index : -1;
-      if (newIndex === -1) {
-        console.warn(
-          `[qrDB] updateQrIndexes: Invalid qr_index for item ${qr.id}. Skipping update for this item.`
-        );
-        continue;
-      }
-      await db.runAsync(
+    await withTransaction(async (db) => {
+      const statement = await db.prepareAsync(
         `UPDATE qrcodes
          SET qr_index = ?, updated = ?, is_synced = ?
-         WHERE id = ? AND user_id = ?`,
-        [newIndex, updatedAt, isSyncedValue, qr.id, userId]
+         WHERE id = ? AND user_id = ?`
       );
-    }
-    await db.runAsync("COMMIT;");
+      try {
+        for (const qr of validQrData) {
+          const newIndex = typeof qr.qr_index === "number" ? qr.qr_index : -1;
+          if (newIndex === -1) {
+            console.warn(
+              `[qrDB] updateQrIndexes: Invalid qr_index for item ${qr.id}. Skipping update for this item.`
+            );
+            continue;
+          }
+          await statement.executeAsync([
+            newIndex,
+            updatedAt,
+            isSyncedValue,
+            qr.id,
+            userId,
+          ]);
+        }
+      } finally {
+        await statement.finalizeAsync();
+      }
+    });
   } catch (error) {
-    await db.runAsync("ROLLBACK;");
     console.error(
       `[qrDB] Failed to update QR indexes for user ${userId}:`,
       error
@@ -698,7 +832,7 @@ export async function updateQrIndexes(
 }
 
 export async function getNextQrIndex(userId: string): Promise<number> {
-  const db = await openDatabase();
+  const db = await getDatabase();
   try {
     const result = await db.getFirstAsync<{ maxIndex: number | null }>(
       "SELECT MAX(qr_index) as maxIndex FROM qrcodes WHERE user_id = ? AND is_deleted = 0",
@@ -732,42 +866,41 @@ export async function transferGuestDataToUser(newUserId: string): Promise<void>
     return;
   }
 
-  const db = await openDatabase();
   try {
-    await db.runAsync("BEGIN TRANSACTION;");
-    console.log("[qrDB] transferGuestDataToUser: Transaction started.");
-
-    const guestQrRecords = await db.getAllAsync<QRRecord>(
-      "SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 0",
-      GUEST_USER_ID
-    );
-    console.log(
-      `[qrDB] transferGuestDataToUser: Found ${guestQrRecords.length} guest records to migrate.`
-    );
+    const migratedCount = await withTransaction(async (db) => {
+      const guestQrRecords = await db.getAllAsync<QRRecord>(
+        "SELECT * FROM qrcodes WHERE user_id = ? AND is_deleted = 0",
+        GUEST_USER_ID
+      );
+      console.log(
+        `[qrDB] transferGuestDataToUser: Found ${guestQrRecords.length} guest records to migrate.`
+      );
 
-    if (!guestQrRecords.length) {
-      console.log("[qrDB] transferGuestDataToUser: No guest data to migrate.");
-      await db.runAsync("COMMIT;");
-      return;
-    }
+      if (!guestQrRecords.length) {
+        return 0;
+      }
 
-    const now = new Date().toISOString();
+      const now = new Date().toISOString();
 
-    // Re-assign all guest records to the new user and mark them for sync.
-    // We DO NOT change the qr_index here. The server will assign the correct index.
-    await db.runAsync(
-      `UPDATE qrcodes
+      // Re-assign all guest records to the new user and mark them for sync.
+      // We DO NOT change the qr_index here. The server will assign the correct index.
+      await db.runAsync(
+        `UPDATE qrcodes
        SET user_id = ?, is_synced = 0, updated = ?
        WHERE user_id = ?`,
-      [newUserId, now, GUEST_USER_ID]
-    );
+        [newUserId, now, GUEST_USER_ID]
+      );
+      return guestQrRecords.length;
+    });
 
-    await db.runAsync("COMMIT;");
+    if (migratedCount === 0) {
+      console.log("[qrDB] transferGuestDataToUser: No guest data to migrate.");
+      return;
+    }
     console.log(
-      `[qrDB] transferGuestDataToUser: Successfully re-assigned ${guestQrRecords.length} guest records to user ${newUserId}. They are now marked for sync.`
+      `[qrDB] transferGuestDataToUser: Successfully re-assigned ${migratedCount} guest records to user ${newUserId}. They are now marked for sync.`
     );
   } catch (error) {
-    await db.runAsync("ROLLBACK;");
     console.error(
       `[qrDB] transferGuestDataToUser: Error migrating guest data to user ${newUserId}:`,
       error
@@ -775,12 +908,3 @@ export async function transferGuestDataToUser(newUserId: string): Promise<void>
     throw error;
   }
 }
-
-export async function closeDatabase(): Promise<void> {
-  const db = await openDatabase();
-  try {
-    await db.closeAsync();
-  } catch (error) {
-    console.error("[qrDB] Error closing the database:", error);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { getDatabase, withTransaction } from "../database";
+import ScanHistoryRecord from "@/types/scanHistoryType";
+import { generateUniqueId } from "@/utils/uniqueId";
+
+// Oldest entries beyond this are dropped on insert.
+const MAX_HISTORY_ENTRIES = 500;
+// The scanner re-locks onto a code that briefly leaves the frame; treat
+// repeats within this window as the same scan.
+const DUPLICATE_WINDOW_MS = 10_000;
+
+type ScanHistoryRow = Omit<ScanHistoryRecord, "is_saved"> & {
+  is_saved: number;
+};
+
+const toRecord = (row: ScanHistoryRow): ScanHistoryRecord => ({
+  ...row,
+  is_saved: Boolean(row.is_saved),
+});
+
+export async function getScanHistory(
+  userId: string
+): Promise<ScanHistoryRecord[]> {
+  const db = await getDatabase();
+  try {
+    const rows = await db.getAllAsync<ScanHistoryRow>(
+      "SELECT * FROM scan_history WHERE user_id = ? ORDER BY scanned_at DESC",
+      userId
+    );
+    return rows.map(toRecord);
+  } catch (error) {
+    console.error(
+      `[scanHistoryDB] Error retrieving scan history for user ${userId}:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Records a scan. A repeat of the most recent entry inside the duplicate
+ * window only refreshes its timestamp.
+ */
+export async function addScanHistoryEntry(
+  userId: string,
+  rawValue: string,
+  resultType: string,
+  codeFormat?: number
+): Promise<void> {
+  if (!rawValue) return;
+  const now = new Date();
+
+  try {
+    await withTransaction(async (db) => {
+      const latest = await db.getFirstAsync<ScanHistoryRow>(
+        "SELECT * FROM scan_history WHERE user_id = ? ORDER BY scanned_at DESC LIMIT 1",
+        userId
+      );
+
+      if (
+        latest &&
+        latest.raw_value === rawValue &&
+        now.getTime() - new Date(latest.scanned_at).getTime() <
+          DUPLICATE_WINDOW_MS
+      ) {
+        await db.runAsync(
+          "UPDATE scan_history SET scanned_at = ? WHERE id = ?",
+          [now.toISOString(), latest.id]
+        );
+        return;
+      }
+
+      await db.runAsync(
+        `INSERT INTO scan_history
+        (id, user_id, raw_value, code_format, result_type, scanned_at, is_saved)
+        VALUES (?, ?, ?, ?, ?, ?, 0)`,
+        [
+          generateUniqueId(),
+          userId,
+          rawValue,
+          codeFormat ?? null,
+          resultType,
+          now.toISOString(),
+        ]
+      );
+      await db.runAsync(
+        `DELETE FROM scan_history WHERE user_id = ? AND id NOT IN (
+          SELECT id FROM scan_history WHERE user_id = ?
+          ORDER BY scanned_at DESC LIMIT ?
+        )`,
+        [userId, userId, MAX_HISTORY_ENTRIES]
+      );
+    });
+  } catch (error) {
+    console.error(
+      `[scanHistoryDB] Failed to record scan for user ${userId}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Flags every history entry with this raw value as saved to the wallet.
+ */
+export async function markScanHistorySaved(
+  userId: string,
+  rawValue: string
+): Promise<void> {
+  try {
+    await withTransaction((db) =>
+      db.runAsync(
+        "UPDATE scan_history SET is_saved = 1 WHERE user_id = ? AND raw_value = ?",
+        [userId, rawValue]
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[scanHistoryDB] Failed to mark scan as saved for user ${userId}:`,
+      error
+    );
+  }
+}
+
+export async function deleteScanHistoryEntries(
+  ids: string[],
+  userId: string
+): Promise<void> {
+  if (ids.length === 0) return;
+  try {
+    const placeholders = ids.map(() => "?").join(",");
+    await withTransaction((db) =>
+      db.runAsync(
+        `DELETE FROM scan_history WHERE user_id = ? AND id IN (${placeholders})`,
+        [userId, ...ids]
+      )
+    );
+  } catch (error) {
+    console.error(
+      `[scanHistoryDB] Failed to delete scan history entries for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
+
+export async function clearScanHistory(userId: string): Promise<void> {
+  try {
+    await withTransaction((db) =>
+      db.runAsync("DELETE FROM scan_history WHERE user_id = ?", userId)
+    );
+  } catch (error) {
+    console.error(
+      `[scanHistoryDB] Failed to clear scan history for user ${userId}:`,
+      error
+    );
+    throw error;
+  }
+}
@@ -1,47 +1,8 @@
-import * as SQLite from 'expo-sqlite';
 import UserRecord from '@/types/userType';
 import pb from '@/services/pocketBase';
+import { getDatabase, withTransaction } from '../database';
 
-// Function to open the database
-export async function openDatabase() {
-    try {
-        const db = await SQLite.openDatabaseAsync('myDatabase.db', {
-            useNewConnection: true
-        });
-        if (!db) {
-            throw new Error("Database not initialized");
-        }
-        return db;
-    } catch (error) {
-        console.error('Error opening database:', error);
-        throw error;
-    }
-}
-
-// Function to create the "users" table
-export async function createTable() {
-    const db = await openDatabase();
-    if (!db) {
-        throw new Error('Database not initialized');
-    }
-
-    try {
-        // Use db.runAsync for single statements
-        await db.runAsync(`
-            CREATE TABLE IF NOT EXISTS users (
-                id TEXT PRIMARY KEY NOT NULL,
-                username TEXT NOT NULL,
-                email TEXT NOT NULL,
-                verified INTEGER NOT NULL,
-                name TEXT,
-                avatar TEXT
-            );
-        `);        
-    } catch (error) {
-        console.error('Error creating table:', error);
-        throw error;
-    }
-}
+export { closeDatabase } from '../database';
 
 // Function to insert a new user into the "users" table
 export async function insertUser(userData: {
@@ -52,48 +13,45 @@ export async function insertUser(userData: {
     name?: string;
     avatar?: object; // Changed from string to object
 }) {
-    const db = await openDatabase();
-    if (!db) {
-        throw new Error('Database failed to open.');
-    }
-
     try {
-        // Check if the user already exists
-        const existingUser = await db.getFirstAsync('SELECT * FROM users WHERE id = ?', [userData.id]);
-
         // Convert boolean to integer
         const verifiedValue = userData.verified ? 1 : 0;
 
         // Convert avatar object to JSON string
         const avatarString = userData.avatar ? JSON.stringify(userData.avatar) : null;
 
-        if (existingUser) {
-            // Update the existing user's data
-            await db.runAsync(
-                'UPDATE users SET username = ?, email = ?, verified = ?, name = ?, avatar = ? WHERE id = ?',
-                [
-                    userData.username,
-                    userData.email,
-                    verifiedValue,
-                    userData.name ?? null,
-                    avatarString,
-                    userData.id,
-                ]
-            );
-        } else {
-            // Insert the new user
-            await db.runAsync(
-                'INSERT INTO users (id, username, email, verified, name, avatar) VALUES (?, ?, ?, ?, ?, ?)',
-                [
-                    userData.id,
-                    userData.username,
-                    userData.email,
-                    verifiedValue,
-                    userData.name ?? null,
-                    avatarString,
-                ]
-            );
-        }
+        await withTransaction(async (db) => {
+            // Check if the user already exists
+            const existingUser = await db.getFirstAsync('SELECT id FROM users WHERE id = ?', [userData.id]);
+
+            if (existingUser) {
+                // Update the existing user's data
+                await db.runAsync(
+                    'UPDATE users SET username = ?, email = ?, verified = ?, name = ?, avatar = ? WHERE id = ?',
+                    [
+                        userData.username,
+                        userData.email,
+                        verifiedValue,
+                        userData.name ?? null,
+                        avatarString,
+                        userData.id,
+                    ]
+                );
+            } else {
+                // Insert the new user
+                await db.runAsync(
+                    'INSERT INTO users (id, username, email, verified, name, avatar) VALUES (?, ?, ?, ?, ?, ?)',
+                    [
+                        userData.id,
+                        userData.username,
+                        userData.email,
+                        verifiedValue,
+                        userData.name ?? null,
+                        avatarString,
+                    ]
+                );
+            }
+        });
     } catch (error) {
         console.error('Error inserting/updating user:', error);
         throw error;
@@ -102,20 +60,11 @@ export async function insertUser(userData: {
 
 // Function to retrieve all users from the "users" table
 export async function getAllUsers() {
-    const db = await openDatabase();
-    if (!db) {
-        throw new Error('Database failed to open.');
-    }
+    const db = await getDatabase();
 
     try {
         // Specify the expected type for the result
-        const users = await db.getAllAsync<UserRecord>('SELECT * FROM users');
-        // Correctly type the `user` parameter in the forEach loop
-        users.forEach((user: UserRecord) => {
-             (`User: ${user.username}, Email: ${user.email}`);
-        });
-
-        return users; // Return users if needed elsewhere
+        return await db.getAllAsync<UserRecord>('SELECT * FROM users');
     } catch (error) {
         console.error('Error retrieving users:', error);
         throw error;
@@ -123,15 +72,9 @@ export async function getAllUsers() {
 }
 
 export async function updateUserInTransaction(userId: string, newUsername: string) {
-    const db = await openDatabase();
-    if (!db) {
-        throw new Error('Database failed to open.');
-    }
-
     try {
-        await db.withTransactionAsync(async () => {
+        await withTransaction(async (db) => {
             await db.runAsync('UPDATE users SET username = ? WHERE id = ?', [newUsername, userId]);
-            const updatedUser = await db.getFirstAsync('SELECT * FROM users WHERE id = ?', [userId]);
         });
     } catch (error) {
         console.error('Error updating user in transaction:', error);
@@ -141,10 +84,7 @@ export async function updateUserInTransaction(userId: string, newUsername: strin
 
 
 export async function getUserById(userId: string) {
-    const db = await openDatabase();
-    if (!db) {
-        throw new Error('Database failed to open.');
-    }
+    const db = await getDatabase();
 
     try {
         const user = await db.getFirstAsync<UserRecord>('SELECT * FROM users WHERE id = ?', [userId]);
@@ -160,7 +100,7 @@ export async function getUserById(userId: string) {
 }
 
 export async function getEmailByUserID(userID: string): Promise<string | null> {
-    const db = await openDatabase();
+    const db = await getDatabase();
     try {
       const user = await db.getFirstAsync<{ email: string }>(
         'SELECT email FROM users WHERE id = ?',
@@ -172,36 +112,24 @@ export async function getEmailByUserID(userID: string): Promise<string | null> {
       return null;
     }
   }
-// Function to close the database
-export async function closeDatabase() {
-    const db = await openDatabase();
-    try {
-        await db.closeAsync();
-    } catch (error) {
-        console.error('Failed to close the database:', error);
-        throw error;
-    }
-}
+
 export async function updateUserAvatarCombined(
     userId: string,
     newAvatarConfig: object
   ) {
     // Update in local SQLite DB.
-    const db = await openDatabase();
-    if (!db) {
-      throw new Error("Database not initialized");
-    }
-  
     try {
-      await db.runAsync(
-        "UPDATE users SET avatar = ? WHERE id = ?",
-        [JSON.stringify(newAvatarConfig), userId]
+      await withTransaction((db) =>
+        db.runAsync(
+          "UPDATE users SET avatar = ? WHERE id = ?",
+          [JSON.stringify(newAvatarConfig), userId]
+        )
       );
     } catch (error) {
       console.error("Error updating user avatar in local DB:", error);
       throw error;
     }
-  
+
     // Update on Pocketbase.
     try {
       const response = await pb.collection("users").update(userId, {
@@ -212,4 +140,4 @@ export async function updateUserAvatarCombined(
       console.error("Error updating user avatar on Pocketbase:", error);
       throw error;
     }
-  }
\ No newline at end of file
+  }
@@ -0,0 +1,514 @@
+import * as FileSystem from "expo-file-system";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  getQrCodesByUserId,
+  getNextQrIndex,
+  insertOrUpdateQrCodes,
+} from "@/services/localDB/qrDB";
+import { returnItems } from "@/utils/returnItemData";
+import { generateUniqueId } from "@/utils/uniqueId";
+import { formatValidityDate } from "@/utils/cardValidity";
+import { GUEST_USER_ID } from "@/constants/Constants";
+import QRRecord from "@/types/qrType";
+import {
+  SYMBOLOGIES,
+  SYMBOLOGY_VALUES,
+  Symbology,
+  getSymbologyFromCodeFormat,
+  validateSymbologyValue,
+} from "@/utils/symbology";
+
+const LOG_PREFIX = "[WalletImport]";
+
+const IMPORT_MIME_TYPES = [
+  "text/csv",
+  "text/comma-separated-values",
+  "text/plain",
+  "*/*",
+];
+
+const DELIMITERS = [",", ";", "\t"];
+
+export type WalletImportErrorCode = "invalid_file" | "no_cards";
+
+export interface WalletImportError extends Error {
+  code: WalletImportErrorCode;
+}
+
+const createWalletImportError = (
+  code: WalletImportErrorCode,
+  message: string
+): WalletImportError => Object.assign(new Error(message), { code });
+
+export const isWalletImportError = (
+  error: unknown
+): error is WalletImportError => error instanceof Error && "code" in error;
+
+/**
+ * "catima" covers Catima and its predecessor Loyalty Card Keychain, which
+ * share the card table layout. Anything else is read as a plain CSV whose
+ * columns the user maps.
+ */
+export type ImportFormat = "csv" | "catima";
+
+export type ImportField = "name" | "number" | "format" | "notes";
+
+export const IMPORT_FIELDS: ImportField[] = ["name", "number", "format", "notes"];
+
+/** Column index for each field, `null` when the file has no such column. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportTable {
+  format: ImportFormat;
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+}
+
+export interface ImportBrand {
+  code: string;
+  name: string;
+}
+
+export interface ImportedCard {
+  // 1-based data row in the source file, for pointing at problems.
+  row: number;
+  name: string;
+  number: string;
+  symbology: Symbology;
+  notes: string;
+  validFrom: string;
+  validUntil: string;
+  // `null` when the name matched no brand, or several equally well.
+  brand: ImportBrand | null;
+  // The wallet already holds a card with this number; it is not imported again.
+  isDuplicate: boolean;
+}
+
+export interface ImportSummary {
+  imported: number;
+  unresolved: number;
+  skipped: number;
+}
+
+// --- CSV parsing ---
+
+/**
+ * Picks the delimiter that splits the header line into the most columns.
+ * Spreadsheet exports in many locales use ";" because "," is the decimal mark.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim()) ?? "";
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and
+ * line breaks. Blank lines come back as empty records, since Catima uses
+ * them to separate its tables.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let hasContent = false;
+
+  const endRecord = () => {
+    if (hasContent || record.length > 0) record.push(field);
+    records.push(record);
+    record = [];
+    field = "";
+    hasContent = false;
+  };
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+      hasContent = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+      hasContent = true;
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+      hasContent = true;
+    }
+  }
+  if (hasContent || record.length > 0) endRecord();
+
+  return records;
+}
+
+// --- Format detection ---
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  name: ["name", "store", "storename", "brand", "merchant", "shop", "title", "card", "cardname", "company", "program"],
+  number: ["number", "cardnumber", "cardid", "barcode", "barcodevalue", "barcodeid", "code", "value", "membershipnumber", "memberid"],
+  format: ["format", "barcodetype", "barcodeformat", "type", "codetype", "symbology"],
+  notes: ["notes", "note", "comment", "comments", "description", "memo"],
+};
+
+/**
+ * Guesses which column holds each field from the header names. Exact
+ * synonyms win over partial ones, and each column is used at most once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {
+    name: null,
+    number: null,
+    format: null,
+    notes: null,
+  };
+
+  const claim = (field: ImportField, index: number) => {
+    if (index < 0 || used.has(index) || mapping[field] !== null) return;
+    mapping[field] = index;
+    used.add(index);
+  };
+
+  for (const field of IMPORT_FIELDS) {
+    for (const synonym of HEADER_SYNONYMS[field]) {
+      claim(field, normalized.indexOf(synonym));
+    }
+  }
+  for (const field of IMPORT_FIELDS) {
+    for (const synonym of HEADER_SYNONYMS[field]) {
+      claim(
+        field,
+        normalized.findIndex(
+          (header, index) => !used.has(index) && header.includes(synonym)
+        )
+      );
+    }
+  }
+
+  return mapping;
+}
+
+const isBlankRecord = (record: string[]) =>
+  record.every((field) => !field.trim());
+
+/** Splits records into tables at blank lines. */
+function splitTables(records: string[][]): string[][][] {
+  const tables: string[][][] = [];
+  let current: string[][] = [];
+  for (const record of records) {
+    if (isBlankRecord(record)) {
+      if (current.length > 0) tables.push(current);
+      current = [];
+    } else {
+      current.push(record);
+    }
+  }
+  if (current.length > 0) tables.push(current);
+  return tables;
+}
+
+function findCatimaCardTable(tables: string[][][]): string[][] | undefined {
+  return tables.find(([header]) => {
+    const columns = header.map(normalizeHeader);
+    return columns.includes("store") && columns.includes("cardid");
+  });
+}
+
+/**
+ * Reads an export into a table. Catima and Loyalty Card Keychain exports are
+ * recognised by their card table and mapped without asking; for any other
+ * CSV the first non-blank line is taken as the header.
+ */
+export function parseImportText(text: string): ImportTable {
+  const tables = splitTables(parseCsv(text));
+  if (tables.length === 0) {
+    throw createWalletImportError("invalid_file", "File has no rows");
+  }
+
+  const catimaTable = findCatimaCardTable(tables);
+  if (catimaTable) {
+    const [headers, ...rows] = catimaTable;
+    const columns = headers.map(normalizeHeader);
+    return {
+      format: "catima",
+      headers,
+      rows,
+      mapping: {
+        name: columns.indexOf("store"),
+        number: columns.indexOf("cardid"),
+        format: columns.includes("barcodetype")
+          ? columns.indexOf("barcodetype")
+          : null,
+        notes: columns.includes("note") ? columns.indexOf("note") : null,
+      },
+    };
+  }
+
+  const [headers, ...rows] = tables.flat();
+  return { format: "csv", headers, rows, mapping: guessColumnMapping(headers) };
+}
+
+// --- Barcode formats ---
+
+const normalizeFormatName = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Maps a barcode format name as other apps write it ("EAN_13", "ean-13",
+ * "PDF_417", "QR Code") or a numeric ML Kit format to a symbology.
+ */
+export function parseFormatName(value: string): Symbology | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (/^\d+$/.test(trimmed)) return getSymbologyFromCodeFormat(trimmed);
+
+  const normalized = normalizeFormatName(trimmed);
+  return SYMBOLOGY_VALUES.find(
+    (symbology) =>
+      symbology === normalized ||
+      normalizeFormatName(SYMBOLOGIES[symbology].label) === normalized ||
+      normalizeFormatName(SYMBOLOGIES[symbology].mlKitName) === normalized
+  );
+}
+
+const GTIN_SYMBOLOGIES: Record<number, Symbology> = {
+  8: "ean8",
+  12: "upca",
+  13: "ean13",
+};
+
+/**
+ * Most loyalty cards carry a linear barcode, so without a format column a
+ * number is drawn as EAN/UPC when it checks out as one, Code 128 when it
+ * fits its character set, and QR otherwise.
+ */
+function guessSymbology(number: string): Symbology {
+  const gtin = /^\d+$/.test(number) ? GTIN_SYMBOLOGIES[number.length] : undefined;
+  if (gtin && !validateSymbologyValue(gtin, number).issue) return gtin;
+  if (!validateSymbologyValue("code128", number).issue) return "code128";
+  return "qr";
+}
+
+// --- Brand matching ---
+
+const normalizeName = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/**
+ * Looks the card name up among the store brands. A brand whose name equals
+ * the card name wins; otherwise the longest brand name contained in the card
+ * name ("Circle K Vietnam" → Circle K). Searches that only turn up several
+ * unrelated brands are left unresolved rather than guessed.
+ */
+export function guessBrand(name: string): ImportBrand | null {
+  const target = normalizeName(name);
+  if (!target) return null;
+
+  const matches = returnItems(name, ["store"]);
+  const words = name.split(/[\s\-_,.&/]+/).filter((word) => word.length >= 3);
+  const candidates = new Map(
+    [...matches, ...words.flatMap((word) => returnItems(word, ["store"]))].map(
+      (item) => [item.code, item]
+    )
+  );
+
+  let best: ImportBrand | null = null;
+  let bestLength = 0;
+  for (const item of candidates.values()) {
+    const names = [item.name, item.normalized_full_name, item.code].map(
+      normalizeName
+    );
+    if (names.includes(target)) return { code: item.code, name: item.name };
+
+    const contained = names
+      .filter((candidate) => candidate.length >= 3 && target.includes(candidate))
+      .reduce((longest, candidate) => Math.max(longest, candidate.length), 0);
+    if (contained > bestLength) {
+      best = { code: item.code, name: item.name };
+      bestLength = contained;
+    }
+  }
+  if (best) return best;
+
+  // Word matches alone are too loose to trust, but a single hit for the
+  // whole name is.
+  return matches.length === 1
+    ? { code: matches[0].code, name: matches[0].name }
+    : null;
+}
+
+// --- Mapping ---
+
+const cell = (row: string[], index: number | null) =>
+  index === null ? "" : (row[index] ?? "").trim();
+
+// Catima stores validity as epoch milliseconds.
+function parseCatimaDate(value: string): string {
+  if (!/^\d+$/.test(value)) return "";
+  const date = new Date(Number(value));
+  return Number.isNaN(date.getTime()) ? "" : formatValidityDate(date);
+}
+
+/**
+ * Turns table rows into cards for the preview. Rows without a number are
+ * dropped. In Catima exports a separate barcode value, when set, is what the
+ * barcode encodes, so it takes the place of the card id.
+ */
+export async function mapImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  userId: string
+): Promise<ImportedCard[]> {
+  const existing = new Set(
+    (await getQrCodesByUserId(userId)).map((card) => card.metadata)
+  );
+  const columns = table.headers.map(normalizeHeader);
+  const catimaColumn = (name: string) =>
+    table.format === "catima" && columns.includes(name)
+      ? columns.indexOf(name)
+      : null;
+
+  const seen = new Set<string>();
+  const cards: ImportedCard[] = [];
+
+  table.rows.forEach((row, index) => {
+    const number = cell(row, catimaColumn("barcodeid")) || cell(row, mapping.number);
+    if (!number) return;
+
+    const name = cell(row, mapping.name);
+    const symbology =
+      parseFormatName(cell(row, mapping.format)) ?? guessSymbology(number);
+
+    cards.push({
+      row: index + 1,
+      name,
+      number,
+      symbology,
+      notes: cell(row, mapping.notes),
+      validFrom: parseCatimaDate(cell(row, catimaColumn("validfrom"))),
+      validUntil: parseCatimaDate(cell(row, catimaColumn("expiry"))),
+      brand: name ? guessBrand(name) : null,
+      isDuplicate: existing.has(number) || seen.has(number),
+    });
+    seen.add(number);
+  });
+
+  return cards;
+}
+
+// --- Reading and committing ---
+
+/**
+ * Lets the user choose an export file. Resolves to `null` when cancelled.
+ */
+export async function pickImportFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: IMPORT_MIME_TYPES,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+  return result.assets[0].uri;
+}
+
+export async function readImportFile(fileUri: string): Promise<ImportTable> {
+  let text: string;
+  try {
+    text = await FileSystem.readAsStringAsync(fileUri);
+  } catch {
+    throw createWalletImportError("invalid_file", "Could not read file");
+  }
+
+  const table = parseImportText(text);
+  if (table.rows.length === 0) {
+    throw createWalletImportError("no_cards", "File has a header but no rows");
+  }
+  return table;
+}
+
+/**
+ * Saves the non-duplicate cards as store cards in one transaction, after
+ * the user's existing cards. Cards without a brand keep their name as the
+ * label so they can still be told apart.
+ */
+export async function commitImport(
+  cards: ImportedCard[],
+  userId: string
+): Promise<ImportSummary> {
+  const toImport = cards.filter((card) => !card.isDuplicate);
+  if (toImport.length === 0) {
+    throw createWalletImportError("no_cards", "Nothing to import");
+  }
+
+  let nextIndex = await getNextQrIndex(userId);
+  const isSynced = userId === GUEST_USER_ID;
+  const now = new Date().toISOString();
+
+  const records: QRRecord[] = toImport.map((card) => ({
+    id: generateUniqueId(),
+    qr_index: nextIndex++,
+    user_id: userId,
+    code: card.brand?.code ?? "",
+    metadata: card.number,
+    metadata_type: card.symbology,
+    account_name: "",
+    account_number: "",
+    label:
+      card.brand && normalizeName(card.brand.name) === normalizeName(card.name)
+        ? ""
+        : card.name,
+    notes: card.notes,
+    valid_from: card.validFrom,
+    valid_until: card.validUntil,
+    type: "store",
+    created: now,
+    updated: now,
+    is_synced: isSynced,
+    is_deleted: false,
+  }));
+
+  await insertOrUpdateQrCodes(records);
+
+  const summary: ImportSummary = {
+    imported: records.length,
+    unresolved: toImport.filter((card) => !card.brand).length,
+    skipped: cards.length - records.length,
+  };
+  console.log(
+    `${LOG_PREFIX} Imported ${summary.imported} cards, ${summary.unresolved} without a brand, ${summary.skipped} skipped`
+  );
+  return summary;
+}
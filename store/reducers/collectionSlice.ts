@@ -0,0 +1,31 @@
+import { createSlice } from '@reduxjs/toolkit';
+import CollectionRecord from '@/types/collectionType';
+import CollectionItemRecord from '@/types/collectionItemType';
+
+const collectionSlice = createSlice({
+  name: 'collection',
+  initialState: {
+    collections: [] as CollectionRecord[],
+    items: [] as CollectionItemRecord[]
+  },
+  reducers: {
+    setCollections: (state, action) => {
+      state.collections = action.payload;
+    },
+    setCollectionItems: (state, action) => {
+      state.items = action.payload;
+    },
+    removeAllCollectionData: (state) => {
+      state.collections = [];
+      state.items = [];
+    }
+  }
+});
+
+export const {
+  setCollections,
+  setCollectionItems,
+  removeAllCollectionData
+} = collectionSlice.actions;
+
+export default collectionSlice.reducer;
@@ -3,6 +3,7 @@ import authSlice from "./reducers/authSlice";
 import networkSlice from "./reducers/networkSlice";
 import errorSlice from "./reducers/errorSlice";
 import qrSlice from "./reducers/qrSlice";
+import collectionSlice from "./reducers/collectionSlice";
 import authStatusSlice from "./reducers/authStatusSlice"
 import { configureStore } from '@reduxjs/toolkit';
 
@@ -12,6 +13,7 @@ const rootReducer = combineReducers({
     network: networkSlice,
     error: errorSlice,
     qr: qrSlice,
+    collection: collectionSlice,
     authStatus: authStatusSlice,
 });
 
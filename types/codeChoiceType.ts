@@ -0,0 +1,13 @@
+import { ScanResult } from "@/utils/qrUtils";
+import { CodeFrame } from "@/utils/imageDecode";
+
+// One of several codes found in the same camera frame or gallery image.
+interface CodeChoice {
+    codeValue: string;
+    codeFormat?: number;
+    result: ScanResult;
+    // Where the code sits in a gallery image, for the preview. Unset when it
+    // could not be located.
+    frame?: CodeFrame;
+}
+export default CodeChoice
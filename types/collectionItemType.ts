@@ -0,0 +1,12 @@
+interface CollectionItemRecord {
+    id: string;
+    collection_id: string;
+    qr_id: string;
+    user_id: string;
+    item_index: number;
+    created: string;
+    updated: string;
+    is_synced: boolean;
+    is_deleted: boolean;
+}
+export default CollectionItemRecord
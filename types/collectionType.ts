@@ -0,0 +1,12 @@
+interface CollectionRecord {
+    id: string;
+    collection_index: number;
+    user_id: string;
+    name: string;
+    icon: string;
+    created: string;
+    updated: string;
+    is_synced: boolean;
+    is_deleted: boolean;
+}
+export default CollectionRecord
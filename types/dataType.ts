@@ -1,3 +1,3 @@
-type DataType = 'bank' | 'store' | 'ewallet' | 'vietqr';
+type DataType = 'bank' | 'store' | 'ewallet' | 'wifi' | 'flight' | 'vietqr';
 
 export default DataType;
\ No newline at end of file
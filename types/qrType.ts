@@ -1,13 +1,19 @@
+import { MetadataType } from "@/utils/symbology";
+
 interface QRRecord {
     id: string;
     qr_index: number;
     user_id: string;
     code: string;
     metadata: string;
-    metadata_type: "qr" | "barcode";
+    metadata_type: MetadataType;
     account_name: string;
     account_number: string;
-    type: "bank" | "store" | "ewallet";
+    label?: string;
+    notes?: string;
+    valid_from?: string;
+    valid_until?: string;
+    type: "bank" | "store" | "ewallet" | "wifi" | "flight";
     created: string;
     updated: string;
     is_synced: boolean;
@@ -0,0 +1,10 @@
+interface ScanHistoryRecord {
+    id: string;
+    user_id: string;
+    raw_value: string;
+    code_format: number | null;
+    result_type: string;
+    scanned_at: string;
+    is_saved: boolean;
+}
+export default ScanHistoryRecord
@@ -1,3 +1,3 @@
-type SheetType = 'linking' | 'setting' | 'wifi' | null;
+type SheetType = 'linking' | 'setting' | 'wifi' | 'collection' | 'contact' | 'event' | 'boardingPass' | 'gs1' | 'action' | 'payment' | 'batchReview' | 'codeChooser' | null;
 
 export default SheetType
\ No newline at end of file
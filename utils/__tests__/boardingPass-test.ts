@@ -0,0 +1,111 @@
+import {
+  formatFlightDesignator,
+  formatRoute,
+  isBoardingPassCode,
+  parseBoardingPass,
+  resolveJulianDate,
+} from '@/utils/boardingPass';
+
+const hexSize = (section: string) =>
+  section.length.toString(16).toUpperCase().padStart(2, '0');
+
+const withSize = (section: string) => hexSize(section) + section;
+
+// Header: format, leg count, passenger name, e-ticket indicator.
+const HEADER = 'M1DESMARAIS/LUC       E';
+// PNR, from, to, carrier, flight, day of year, compartment, seat, sequence, status.
+const LEG = 'ABC123 YULFRAAC 0834 326J001A0025 1';
+
+// Passenger description, check-in and issuance source, issue date (year
+// digit + day), document type, issuer.
+const UNIQUE = '1WW5320BAC ';
+// Airline code, document number, selectee, doc check, marketing carrier,
+// frequent flyer airline and number, ID/AD, baggage, fast track.
+const REPEATED = '0140123456789' + '0' + ' ' + 'AC ' + 'AC ' + '1234567890123   ' + ' ' + '20K' + 'Y';
+
+const buildPass = (variable: string) => HEADER + LEG + withSize(variable);
+
+describe('parseBoardingPass', () => {
+  const reference = new Date(2025, 10, 20);
+
+  it('reads the mandatory items of a single leg', () => {
+    const pass = parseBoardingPass(buildPass(''), reference);
+    expect(pass).toMatchObject({
+      firstName: 'LUC',
+      lastName: 'DESMARAIS',
+      isElectronicTicket: true,
+      legs: [
+        {
+          pnr: 'ABC123',
+          from: 'YUL',
+          to: 'FRA',
+          carrier: 'AC',
+          flightNumber: '834',
+          julianDate: 326,
+          seat: '1A',
+          sequenceNumber: '25',
+        },
+      ],
+    });
+    expect(pass && formatFlightDesignator(pass.legs[0])).toBe('AC 834');
+    expect(pass && formatRoute(pass)).toContain('YUL');
+  });
+
+  it('reads the unique and repeated conditional blocks', () => {
+    const pass = parseBoardingPass(
+      buildPass('>5' + withSize(UNIQUE) + withSize(REPEATED)),
+      reference
+    );
+    expect(pass).toMatchObject({
+      version: '5',
+      documentType: 'B',
+      issuer: 'AC',
+      legs: [
+        {
+          airlineNumericCode: '014',
+          documentNumber: '0123456789',
+          frequentFlyerNumber: '1234567890123',
+          baggageAllowance: '20K',
+          fastTrack: true,
+        },
+      ],
+    });
+    // Issued on day 320 of 2025, flying on day 326 of the same year.
+    expect(pass?.issueDate).toEqual(new Date(2025, 10, 16));
+    expect(pass?.legs[0].date).toEqual(new Date(2025, 10, 22));
+  });
+
+  it('never places the issue date after the scan', () => {
+    const unique = '1WW6225BAC ';
+    const pass = parseBoardingPass(
+      buildPass('>5' + withSize(unique)),
+      new Date(2025, 0, 10)
+    );
+    expect(pass?.issueDate?.getFullYear()).toBe(2016);
+  });
+
+  it('rejects codes too short for the mandatory items', () => {
+    expect(isBoardingPassCode(HEADER + 'ABC123')).toBe(false);
+    expect(parseBoardingPass(HEADER + 'ABC123')).toBeNull();
+    expect(parseBoardingPass('https://example.com')).toBeNull();
+  });
+});
+
+describe('resolveJulianDate', () => {
+  it('picks the year closest to the reference around New Year', () => {
+    expect(resolveJulianDate(2, new Date(2025, 11, 30))).toEqual(new Date(2026, 0, 2));
+    expect(resolveJulianDate(364, new Date(2026, 0, 2))).toEqual(new Date(2025, 11, 30));
+  });
+
+  it('resolves issue dates to the latest matching year up to the reference', () => {
+    const reference = new Date(2025, 5, 1);
+    expect(resolveJulianDate(225, reference, 6)).toEqual(new Date(2016, 7, 12));
+    expect(resolveJulianDate(100, reference, 5)?.getFullYear()).toBe(2025);
+    expect(resolveJulianDate(100, reference, 4)?.getFullYear()).toBe(2024);
+  });
+
+  it('rejects days outside the year', () => {
+    expect(resolveJulianDate(0)).toBeUndefined();
+    expect(resolveJulianDate(367)).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  NAPAS_GUID,
+  crc16CCITT,
+  findBankAccount,
+  formatEMVAmount,
+  getCurrencyAlphaCode,
+  parseEMVQR,
+} from '@/utils/emvQR';
+
+const tlv = (tag: string, value: string) =>
+  `${tag}${String(value.length).padStart(2, '0')}${value}`;
+
+const withCrc = (body: string) => `${body}6304${crc16CCITT(`${body}6304`)}`;
+
+const merchantAccount = tlv(
+  '38',
+  tlv('00', NAPAS_GUID) +
+    tlv('01', tlv('00', '970436') + tlv('01', '0011001932418')) +
+    tlv('02', 'QRIBFTTA')
+);
+
+const VALID_BODY =
+  tlv('00', '01') +
+  tlv('01', '12') +
+  merchantAccount +
+  tlv('53', '704') +
+  tlv('54', '50000') +
+  tlv('58', 'VN') +
+  tlv('59', 'NGUYEN VAN A') +
+  tlv('60', 'HA NOI') +
+  tlv('62', tlv('01', 'INV42') + tlv('08', 'Lunch')) +
+  tlv('64', tlv('00', 'VI') + tlv('01', 'Nguyễn Văn A'));
+
+const errorCodes = (payload: string) => parseEMVQR(payload).errors.map(({ code }) => code);
+
+describe('crc16CCITT', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16CCITT('123456789')).toBe('29B1');
+  });
+});
+
+describe('parseEMVQR', () => {
+  it('decodes top-level fields and nested templates', () => {
+    const result = parseEMVQR(withCrc(VALID_BODY));
+    expect(result).toMatchObject({
+      isValid: true,
+      isCrcValid: true,
+      errors: [],
+      pointOfInitiation: 'dynamic',
+      currency: '704',
+      amount: '50000',
+      countryCode: 'VN',
+      merchantName: 'NGUYEN VAN A',
+      merchantCity: 'HA NOI',
+      additionalData: { billNumber: 'INV42', purpose: 'Lunch' },
+      languageTemplate: { languagePreference: 'VI', merchantName: 'Nguyễn Văn A' },
+    });
+    expect(findBankAccount(result)).toMatchObject({
+      tag: '38',
+      guid: NAPAS_GUID,
+      bin: '970436',
+      accountNumber: '0011001932418',
+      serviceCode: 'QRIBFTTA',
+    });
+  });
+
+  it('accepts a lowercase CRC', () => {
+    const payload = withCrc(VALID_BODY);
+    expect(parseEMVQR(payload.slice(0, -4) + payload.slice(-4).toLowerCase()).isCrcValid).toBe(
+      true
+    );
+  });
+
+  it('reports a malformed TLV header', () => {
+    expect(errorCodes(withCrc(tlv('00', '01') + 'XY02ab'))).toContain('MALFORMED_TLV');
+  });
+
+  it('reports a value shorter than its declared length', () => {
+    const result = parseEMVQR(tlv('00', '01') + '5920SHORT');
+    expect(result.errors[0]).toMatchObject({ code: 'TRUNCATED_VALUE', tag: '59', position: 6 });
+    expect(result.isValid).toBe(false);
+  });
+
+  it('reports a truncated value inside a template with its full tag', () => {
+    const body = tlv('00', '01') + tlv('62', '0810Lunch');
+    expect(parseEMVQR(withCrc(body)).errors).toContainEqual(
+      expect.objectContaining({ code: 'TRUNCATED_VALUE', tag: '62.08' })
+    );
+  });
+
+  it('reports duplicate tags', () => {
+    const body = tlv('00', '01') + tlv('58', 'VN') + tlv('58', 'SG');
+    expect(parseEMVQR(withCrc(body))).toMatchObject({
+      countryCode: 'VN',
+      errors: [expect.objectContaining({ code: 'DUPLICATE_TAG', tag: '58' })],
+    });
+  });
+
+  it('requires the payload format indicator first', () => {
+    expect(errorCodes(withCrc(tlv('58', 'VN') + tlv('00', '01')))).toContain(
+      'INVALID_PAYLOAD_FORMAT'
+    );
+    expect(errorCodes(withCrc(tlv('00', '02')))).toEqual(['INVALID_PAYLOAD_FORMAT']);
+  });
+
+  it('reports a missing CRC', () => {
+    expect(errorCodes(VALID_BODY)).toEqual(['MISSING_CRC']);
+  });
+
+  it('requires the CRC to be the last field', () => {
+    const payload = withCrc(tlv('00', '01')) + tlv('58', 'VN');
+    expect(errorCodes(payload)).toEqual(['CRC_NOT_LAST']);
+  });
+
+  it('reports a CRC that does not match the payload', () => {
+    const payload = withCrc(VALID_BODY).replace('50000', '90000');
+    const result = parseEMVQR(payload);
+    expect(result).toMatchObject({ isValid: false, isCrcValid: false, amount: '90000' });
+    expect(result.errors).toEqual([expect.objectContaining({ code: 'CRC_MISMATCH', tag: '63' })]);
+  });
+});
+
+describe('amount formatting', () => {
+  it('groups thousands and names the currency', () => {
+    expect(formatEMVAmount('1250000', '704')).toBe('1,250,000 VND');
+    expect(formatEMVAmount('1250.50', 'CHF')).toBe('1,250.50 CHF');
+    expect(formatEMVAmount('12')).toBe('12');
+  });
+
+  it('keeps unknown currency codes as given', () => {
+    expect(getCurrencyAlphaCode('999')).toBe('999');
+    expect(getCurrencyAlphaCode()).toBeUndefined();
+  });
+});
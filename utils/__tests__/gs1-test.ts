@@ -0,0 +1,107 @@
+import {
+  calculateGS1CheckDigit,
+  isGS1Code,
+  isGS1DigitalLink,
+  isGS1ElementString,
+  isValidGtin,
+  parseGS1,
+} from '@/utils/gs1';
+
+const GS = '\x1d';
+const GTIN = '09506000134352';
+
+describe('check digits', () => {
+  it('computes the GS1 mod-10 check digit', () => {
+    expect(calculateGS1CheckDigit('0950600013435')).toBe(2);
+    expect(calculateGS1CheckDigit('400638133393')).toBe(1);
+    expect(calculateGS1CheckDigit('9638507')).toBe(4);
+  });
+
+  it('validates GTIN-8, -12, -13 and -14', () => {
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('036000291452')).toBe(true);
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin(GTIN)).toBe(true);
+  });
+
+  it('rejects wrong check digits and lengths', () => {
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('400638133393')).toBe(false);
+    expect(isValidGtin('40063813339A1')).toBe(false);
+  });
+});
+
+describe('detection', () => {
+  it('recognises element strings by their GS1 markers', () => {
+    expect(isGS1ElementString(`]C1${'01' + GTIN}`)).toBe(true);
+    expect(isGS1ElementString(`01${GTIN}10ABC${GS}21XYZ`)).toBe(true);
+    expect(isGS1ElementString(`(01)${GTIN}`)).toBe(true);
+    expect(isGS1ElementString(`01${GTIN}17260331`)).toBe(true);
+  });
+
+  it('does not mistake plain numbers for element strings', () => {
+    expect(isGS1ElementString(`01${GTIN}`)).toBe(false);
+    expect(isGS1ElementString('0140063813339321')).toBe(false);
+  });
+
+  it('requires a valid GTIN in Digital Link URLs', () => {
+    expect(isGS1DigitalLink(`https://id.gs1.org/01/${GTIN}`)).toBe(true);
+    expect(isGS1DigitalLink('https://example.com/gtin/4006381333931?lot=1')).toBe(true);
+    expect(isGS1DigitalLink('https://example.com/01/12345678')).toBe(false);
+    expect(isGS1Code('https://example.com/news/01/2025')).toBe(false);
+  });
+});
+
+describe('parseGS1', () => {
+  it('parses raw element strings with FNC1 separators', () => {
+    expect(parseGS1(`]d2${'01' + GTIN}17260300` + `10ABC123${GS}3103000750`)).toEqual({
+      source: 'elementString',
+      gtin: GTIN,
+      isGtinValid: true,
+      elements: [
+        { ai: '01', value: GTIN, title: 'gtin', displayValue: GTIN },
+        { ai: '17', value: '260300', title: 'expiry', displayValue: '2026-03-31' },
+        { ai: '10', value: 'ABC123', title: 'batch', displayValue: 'ABC123' },
+        { ai: '3103', value: '000750', title: 'netWeight', displayValue: '0.750 kg' },
+      ],
+    });
+  });
+
+  it('parses the bracketed human-readable form', () => {
+    expect(parseGS1(`(01)${GTIN}(21)SER 42`)?.elements).toEqual([
+      expect.objectContaining({ ai: '01', value: GTIN }),
+      expect.objectContaining({ ai: '21', value: 'SER 42', title: 'serial' }),
+    ]);
+  });
+
+  it('skips unknown AIs whose length is predefined', () => {
+    expect(parseGS1(`01${GTIN}18123456`)?.elements[1]).toEqual({
+      ai: '18',
+      value: '123456',
+      title: undefined,
+      displayValue: '123456',
+    });
+  });
+
+  it('rejects element strings it cannot split', () => {
+    expect(parseGS1(`01${GTIN}99ABC`)).toBeNull();
+    expect(parseGS1(`(01)${GTIN}(10`)).toBeNull();
+    expect(parseGS1(`]C1${'01' + GTIN.slice(0, 10)}`)).toBeNull();
+  });
+
+  it('parses Digital Link paths and query parameters', () => {
+    expect(
+      parseGS1('https://example.com/01/4006381333931/10/LOT%2001?exp=260331&3103=000500')
+    ).toMatchObject({
+      source: 'digitalLink',
+      gtin: '04006381333931',
+      isGtinValid: true,
+      elements: [
+        { ai: '01', value: '04006381333931' },
+        { ai: '10', value: 'LOT 01' },
+        { ai: '17', displayValue: '2026-03-31' },
+        { ai: '3103', displayValue: '0.500 kg' },
+      ],
+    });
+  });
+});
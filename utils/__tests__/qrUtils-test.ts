@@ -0,0 +1,83 @@
+import {
+  MATCH_CONFIDENCE,
+  ScanPattern,
+  analyzeCode,
+  getScanPattern,
+  registerScanPattern,
+  unregisterScanPattern,
+} from '@/utils/qrUtils';
+import fixtures from './fixtures/scanPayloads.json';
+
+interface ScanFixture {
+  name: string;
+  payload: string;
+  expected: Record<string, unknown>;
+}
+
+// Fixtures are grouped by the id of the pattern expected to claim them;
+// "unknown" holds payloads that no pattern should claim.
+const groups = Object.entries(fixtures as Record<string, ScanFixture[]>);
+
+describe.each(groups)('%s pattern', (id, cases) => {
+  if (id !== 'unknown') {
+    it('is registered', () => {
+      expect(getScanPattern(id)).toBeDefined();
+    });
+  }
+
+  it.each(cases)('$name', ({ payload, expected }) => {
+    expect(analyzeCode(payload, {})).toMatchObject({
+      rawCodeValue: payload,
+      ...expected,
+    });
+  });
+});
+
+describe('scan pattern registry', () => {
+  const customPattern: ScanPattern = {
+    id: 'Ticket',
+    iconName: 'confirmation-number',
+    priority: 100,
+    match: (code) =>
+      code.startsWith('TKT-') ? MATCH_CONFIDENCE.exact : MATCH_CONFIDENCE.none,
+    extract: (code, options) => ({
+      codeType: 'alphanumeric',
+      iconName: 'confirmation-number',
+      codeFormat: options.codeFormat,
+      rawCodeValue: code,
+    }),
+  };
+
+  afterEach(() => {
+    unregisterScanPattern(customPattern.id);
+  });
+
+  it('lets a registered pattern claim payloads', () => {
+    registerScanPattern(customPattern);
+    expect(analyzeCode('TKT-0042', { codeFormat: 256 })).toEqual({
+      codeType: 'alphanumeric',
+      iconName: 'confirmation-number',
+      codeFormat: 256,
+      rawCodeValue: 'TKT-0042',
+    });
+  });
+
+  it('prefers confidence over priority', () => {
+    registerScanPattern({
+      ...customPattern,
+      match: () => MATCH_CONFIDENCE.fallback,
+    });
+    expect(analyzeCode('tel:+84901234567', {}).codeType).toBe('phone');
+  });
+
+  it('falls back to the next match when extraction fails', () => {
+    registerScanPattern({ ...customPattern, extract: () => null });
+    expect(analyzeCode('TKT-0042', {}).codeType).toBe('unknown');
+  });
+
+  it('restores the built-in result once unregistered', () => {
+    registerScanPattern(customPattern);
+    unregisterScanPattern(customPattern.id);
+    expect(analyzeCode('TKT-0042', {}).codeType).toBe('unknown');
+  });
+});
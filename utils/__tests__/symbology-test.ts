@@ -0,0 +1,137 @@
+import {
+  getCodeFormatFromCameraType,
+  getSymbologyFromCodeFormat,
+  isWideSymbology,
+  normalizeSymbology,
+  toSymbologySvg,
+  validateSymbologyValue,
+} from '@/utils/symbology';
+
+describe('validateSymbologyValue', () => {
+  it('accepts valid EAN and UPC codes', () => {
+    expect(validateSymbologyValue('ean13', '4006381333931')).toEqual({ suggestions: [] });
+    expect(validateSymbologyValue('ean8', '96385074')).toEqual({ suggestions: [] });
+    expect(validateSymbologyValue('upca', '036000291452')).toEqual({ suggestions: [] });
+    expect(validateSymbologyValue('upce', '01234565')).toEqual({ suggestions: [] });
+  });
+
+  it('appends the check digit to values without one', () => {
+    expect(validateSymbologyValue('ean13', '400638133393')).toEqual({
+      suggestions: [],
+      renderedValue: '4006381333931',
+    });
+    expect(validateSymbologyValue('upce', '123456').renderedValue).toBe('01234565');
+  });
+
+  it('suggests swapped digits and the computed check digit', () => {
+    // The last two digits of 4006381333931 swapped.
+    expect(validateSymbologyValue('ean13', '4006381333913')).toEqual({
+      issue: 'checkDigit',
+      suggestions: ['4003681333913', '4006381333931', '4006381333917'],
+    });
+  });
+
+  it('offers to drop separators from grouped digits', () => {
+    expect(validateSymbologyValue('ean13', '4006 3813-3393 1')).toEqual({
+      issue: 'digitsOnly',
+      suggestions: ['4006381333931'],
+    });
+    expect(validateSymbologyValue('ean8', '12AB')).toEqual({
+      issue: 'digitsOnly',
+      suggestions: [],
+    });
+  });
+
+  it('rejects wrong lengths and UPC-E number systems', () => {
+    expect(validateSymbologyValue('ean13', '12345').issue).toBe('length');
+    expect(validateSymbologyValue('upce', '1234').issue).toBe('length');
+    expect(validateSymbologyValue('upce', '21234565').issue).toBe('numberSystem');
+  });
+
+  it('pads ITF values to an even length', () => {
+    expect(validateSymbologyValue('itf', '12345')).toEqual({
+      issue: 'evenLength',
+      suggestions: ['012345'],
+    });
+    expect(validateSymbologyValue('itf', '12 34')).toEqual({
+      issue: 'digitsOnly',
+      suggestions: ['1234'],
+    });
+    expect(validateSymbologyValue('itf', '1234')).toEqual({ suggestions: [] });
+  });
+
+  it('upper-cases Code 39 and asks before changing Code 93', () => {
+    expect(validateSymbologyValue('code39', 'abc-1')).toEqual({
+      suggestions: [],
+      renderedValue: 'ABC-1',
+    });
+    expect(validateSymbologyValue('code93', 'abc')).toEqual({
+      issue: 'charset',
+      suggestions: ['ABC'],
+    });
+    expect(validateSymbologyValue('code39', 'AB*C')).toEqual({
+      issue: 'charset',
+      suggestions: ['ABC'],
+    });
+  });
+
+  it('folds diacritics out of Code 128 values', () => {
+    expect(validateSymbologyValue('code128', 'Nguyễn Đức')).toEqual({
+      issue: 'charset',
+      suggestions: ['Nguyen Duc'],
+    });
+    expect(validateSymbologyValue('code128', '€€')).toEqual({
+      issue: 'charset',
+      suggestions: [],
+    });
+  });
+
+  it('checks Codabar start and stop characters', () => {
+    expect(validateSymbologyValue('codabar', 'A12-34B')).toEqual({ suggestions: [] });
+    expect(validateSymbologyValue('codabar', '12A34')).toEqual({
+      issue: 'charset',
+      suggestions: ['1234'],
+    });
+  });
+
+  it('lets 2D symbologies and empty values through', () => {
+    expect(validateSymbologyValue('qr', 'anything — ✓')).toEqual({ suggestions: [] });
+    expect(validateSymbologyValue('ean13', '')).toEqual({ suggestions: [] });
+  });
+});
+
+describe('format lookup', () => {
+  it('maps scanner formats to symbologies', () => {
+    expect(getSymbologyFromCodeFormat(32)).toBe('ean13');
+    expect(getSymbologyFromCodeFormat('32')).toBe('ean13');
+    expect(getSymbologyFromCodeFormat('data_matrix')).toBe('datamatrix');
+    expect(getSymbologyFromCodeFormat('')).toBeUndefined();
+    expect(getCodeFormatFromCameraType('itf-14')).toBe(128);
+  });
+
+  it('draws legacy barcodes as Code 128 and unknown types as QR', () => {
+    expect(normalizeSymbology('barcode')).toBe('code128');
+    expect(normalizeSymbology('pdf417')).toBe('pdf417');
+    expect(normalizeSymbology('unknown')).toBe('qr');
+    expect(normalizeSymbology(null)).toBe('qr');
+  });
+});
+
+describe('toSymbologySvg', () => {
+  it('draws 2D codes without a native renderer as SVG', () => {
+    expect(toSymbologySvg('pdf417', 'LOYALTY-42')).toMatch(/^<svg/);
+    expect(toSymbologySvg('datamatrix', 'LOYALTY-42')).toMatch(/^<svg/);
+  });
+
+  it('leaves the other symbologies and empty values to their renderers', () => {
+    expect(toSymbologySvg('qr', 'LOYALTY-42')).toBeNull();
+    expect(toSymbologySvg('ean13', '4006381333931')).toBeNull();
+    expect(toSymbologySvg('aztec', '')).toBeNull();
+  });
+
+  it('lays out linear codes and PDF417 in a wide box', () => {
+    expect(isWideSymbology('code128')).toBe(true);
+    expect(isWideSymbology('pdf417')).toBe(true);
+    expect(isWideSymbology('qr')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  decodePunycode,
+  getEffectiveDomain,
+  inspectUrl,
+} from '@/utils/urlSafety';
+
+const issuesOf = (url: string) => inspectUrl(url).findings.map(({ issue }) => issue);
+
+describe('inspectUrl', () => {
+  it('rates official bank domains as safe', () => {
+    expect(inspectUrl('https://vietcombank.com.vn/login')).toMatchObject({
+      level: 'safe',
+      findings: [],
+    });
+    expect(inspectUrl('https://online.agribank.com.vn').level).toBe('safe');
+  });
+
+  it('does not mistake one bank for a typo of another', () => {
+    expect(inspectUrl('https://www.vpbank.com.vn').level).toBe('safe');
+    expect(inspectUrl('https://tpb.vn').level).toBe('safe');
+  });
+
+  it.each([
+    ['https://vietcombank.top/login', 'Vietcombank'],
+    ['https://agribank.click', 'Agribank'],
+    ['https://vcb.top', 'Vietcombank'],
+    ['https://vietcornbank.com.vn', 'Vietcombank'],
+  ])('flags %s as a lookalike of %s', (url, brand) => {
+    expect(inspectUrl(url)).toMatchObject({
+      level: 'danger',
+      findings: [{ issue: 'lookalike', detail: brand }],
+    });
+  });
+
+  it('flags a brand name placed in front of another domain', () => {
+    expect(issuesOf('https://vietcombank.com.vn.verify-login.top')).toContain('brandMention');
+    expect(inspectUrl('https://vcb.secure-login.top').findings).toContainEqual({
+      issue: 'brandMention',
+      level: 'danger',
+      detail: 'Vietcombank',
+    });
+  });
+
+  it('matches short brand codes only as whole labels', () => {
+    expect(inspectUrl('https://evcbx.com').level).toBe('safe');
+    expect(inspectUrl('https://mail.acbd.org').level).toBe('safe');
+  });
+
+  it('flags scripts and schemes that hide the destination', () => {
+    expect(issuesOf('javascript:alert(1)')).toEqual(['dangerousScheme']);
+    expect(issuesOf('https://bank.com@evil.example')).toContain('credentials');
+    expect(issuesOf('http://192.168.1.1:8080')).toEqual(['insecure', 'ipHost', 'port']);
+    expect(issuesOf('https://bit.ly/abc')).toEqual(['shortener']);
+  });
+
+  it('flags labels mixing Latin and Cyrillic letters', () => {
+    // "pаypal" with a Cyrillic "а".
+    expect(issuesOf('https://xn--pypal-4ve.com')).toEqual(['punycode', 'mixedScript']);
+  });
+
+  it('leaves action schemes alone', () => {
+    expect(inspectUrl('tel:+84901234567').level).toBe('safe');
+  });
+});
+
+describe('domain helpers', () => {
+  it('decodes punycode labels', () => {
+    expect(decodePunycode('pypal-4ve')).toBe('pаypal');
+    expect(decodePunycode('!!')).toBeNull();
+  });
+
+  it('keeps second-level suffixes in the registrable domain', () => {
+    expect(getEffectiveDomain('online.vietcombank.com.vn')).toBe('vietcombank.com.vn');
+    expect(getEffectiveDomain('a.b.example.com')).toBe('example.com');
+  });
+});
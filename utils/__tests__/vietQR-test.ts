@@ -0,0 +1,75 @@
+import { buildVietQRPayload } from '@/utils/vietQR';
+import { findBankAccount, parseEMVQR } from '@/utils/emvQR';
+
+describe('buildVietQRPayload', () => {
+  it('builds a static transfer code without an amount', () => {
+    const payload = buildVietQRPayload({ bin: '970436', accountNumber: '0011 0019 32418' });
+    const result = parseEMVQR(payload);
+
+    expect(result).toMatchObject({
+      isValid: true,
+      pointOfInitiation: 'static',
+      currency: '704',
+      countryCode: 'VN',
+    });
+    expect(result.amount).toBeUndefined();
+    expect(result.additionalData).toBeUndefined();
+    expect(findBankAccount(result)).toMatchObject({
+      bin: '970436',
+      accountNumber: '0011001932418',
+      serviceCode: 'QRIBFTTA',
+    });
+  });
+
+  it('builds a dynamic code with amount, bill number and purpose', () => {
+    const result = parseEMVQR(
+      buildVietQRPayload({
+        bin: '970436',
+        accountNumber: '0011001932418',
+        amount: 150000,
+        message: 'Tiền ăn trưa',
+        billNumber: 'HD-01',
+      })
+    );
+
+    expect(result).toMatchObject({
+      isValid: true,
+      pointOfInitiation: 'dynamic',
+      amount: '150000',
+      additionalData: { billNumber: 'HD-01', purpose: 'Tien an trua' },
+    });
+  });
+
+  it('strips diacritics and caps the purpose length', () => {
+    const result = parseEMVQR(
+      buildVietQRPayload({
+        bin: '970436',
+        accountNumber: '123',
+        message: 'Đóng học phí tháng mười hai năm nay',
+      })
+    );
+    expect(result.additionalData?.purpose).toBe('Dong hoc phi thang muoi h');
+  });
+
+  it('ends with a valid CRC', () => {
+    const payload = buildVietQRPayload({ bin: '970436', accountNumber: '123' });
+    expect(payload).toMatch(/6304[0-9A-F]{4}$/);
+    expect(parseEMVQR(payload).isCrcValid).toBe(true);
+  });
+
+  it.each([
+    [{ bin: '97043', accountNumber: '123' }, 'Invalid bank BIN'],
+    [{ bin: 'ABCDEF', accountNumber: '123' }, 'Invalid bank BIN'],
+    [{ bin: '970436', accountNumber: '' }, 'Invalid account number'],
+    [{ bin: '970436', accountNumber: '12-34' }, 'Invalid account number'],
+    [{ bin: '970436', accountNumber: '123', amount: 10.5 }, 'Invalid amount format'],
+  ])('rejects %o', (options, message) => {
+    expect(() => buildVietQRPayload(options)).toThrow(message);
+  });
+
+  it('rejects fields longer than a TLV can hold', () => {
+    expect(() =>
+      buildVietQRPayload({ bin: '970436', accountNumber: '1'.repeat(100) })
+    ).toThrow('exceeds 99 characters');
+  });
+});
@@ -0,0 +1,221 @@
+import { Platform } from 'react-native';
+
+// --- Types ---
+
+export interface PhoneAction {
+  number: string;
+}
+
+export interface SMSAction {
+  number: string;
+  body?: string;
+}
+
+export interface EmailAction {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject?: string;
+  body?: string;
+}
+
+export interface GeoAction {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  query?: string;
+}
+
+// --- Detection ---
+
+export const isPhoneCode = (code: string): boolean => /^tel:/i.test(code.trim());
+
+export const isSMSCode = (code: string): boolean =>
+  /^(sms|smsto|mms|mmsto):/i.test(code.trim());
+
+export const isEmailCode = (code: string): boolean =>
+  /^(mailto|MATMSG):/i.test(code.trim());
+
+export const isGeoCode = (code: string): boolean => /^geo:/i.test(code.trim());
+
+// --- Helpers ---
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Query values may use "+" for spaces (form encoding).
+const decodeQueryValue = (value: string): string =>
+  safeDecode(value.replace(/\+/g, ' '));
+
+// Phone numbers keep digits, a leading "+" and dial characters (* # , ;).
+const cleanPhoneNumber = (value: string): string =>
+  safeDecode(value).replace(/[^\d+*#,;pPwW]/g, '');
+
+const parseQuery = (query: string): Map<string, string> => {
+  const params = new Map<string, string>();
+  query
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, ...rest] = pair.split('=');
+      params.set(safeDecode(key).toLowerCase(), decodeQueryValue(rest.join('=')));
+    });
+  return params;
+};
+
+const splitAddresses = (value?: string): string[] =>
+  (value ?? '')
+    .split(',')
+    .map((address) => safeDecode(address).trim())
+    .filter(Boolean);
+
+const splitAtQuery = (value: string): [string, string] => {
+  const index = value.indexOf('?');
+  return index === -1 ? [value, ''] : [value.slice(0, index), value.slice(index + 1)];
+};
+
+// --- Parsers ---
+
+export const parsePhone = (code: string): PhoneAction | null => {
+  if (!isPhoneCode(code)) return null;
+  const number = cleanPhoneNumber(code.trim().slice('tel:'.length));
+  return number ? { number } : null;
+};
+
+/**
+ * Reads "sms:+123?body=Hi" (RFC 5724) and the ZXing "SMSTO:+123:Hi" form.
+ */
+export const parseSMS = (code: string): SMSAction | null => {
+  if (!isSMSCode(code)) return null;
+  const trimmed = code.trim();
+  const payload = trimmed.slice(trimmed.indexOf(':') + 1);
+
+  if (/^(smsto|mmsto):/i.test(trimmed)) {
+    const separator = payload.indexOf(':');
+    const number = cleanPhoneNumber(
+      separator === -1 ? payload : payload.slice(0, separator)
+    );
+    const body = separator === -1 ? undefined : payload.slice(separator + 1);
+    return number ? { number, body: body || undefined } : null;
+  }
+
+  const [recipients, query] = splitAtQuery(payload);
+  // Only the first recipient is kept; most apps ignore the rest anyway.
+  const number = cleanPhoneNumber(recipients.split(',')[0] ?? '');
+  const body = parseQuery(query).get('body');
+  return number ? { number, body: body || undefined } : null;
+};
+
+const parseMailto = (code: string): EmailAction | null => {
+  const [recipients, query] = splitAtQuery(code.trim().slice('mailto:'.length));
+  const params = parseQuery(query);
+  const email: EmailAction = {
+    to: [...splitAddresses(recipients), ...splitAddresses(params.get('to'))],
+    cc: splitAddresses(params.get('cc')),
+    bcc: splitAddresses(params.get('bcc')),
+    subject: params.get('subject') || undefined,
+    body: params.get('body') || undefined,
+  };
+  return email.to.length > 0 || email.subject || email.body ? email : null;
+};
+
+/**
+ * Reads the DoCoMo "MATMSG:TO:a@b.c;SUB:Hi;BODY:Text;;" format.
+ */
+const parseMatmsg = (code: string): EmailAction | null => {
+  const fields = new Map<string, string>();
+  const body = code.trim().slice('MATMSG:'.length);
+  // Fields end at an unescaped ";".
+  (body.match(/(?:\\.|[^;\\])+/g) ?? []).forEach((field) => {
+    const separator = field.indexOf(':');
+    if (separator <= 0) return;
+    fields.set(
+      field.slice(0, separator).trim().toUpperCase(),
+      field.slice(separator + 1).replace(/\\([\\;:,])/g, '$1')
+    );
+  });
+
+  const email: EmailAction = {
+    to: (fields.get('TO') ?? '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean),
+    cc: [],
+    bcc: [],
+    subject: fields.get('SUB') || undefined,
+    body: fields.get('BODY') || undefined,
+  };
+  return email.to.length > 0 || email.subject || email.body ? email : null;
+};
+
+export const parseEmail = (code: string): EmailAction | null => {
+  if (!isEmailCode(code)) return null;
+  return /^mailto:/i.test(code.trim()) ? parseMailto(code) : parseMatmsg(code);
+};
+
+/**
+ * Reads "geo:lat,lng[,alt][;params][?q=query]" (RFC 5870 plus the Android
+ * query extension).
+ */
+export const parseGeo = (code: string): GeoAction | null => {
+  if (!isGeoCode(code)) return null;
+  const [location, query] = splitAtQuery(code.trim().slice('geo:'.length));
+  const [coordinates] = location.split(';');
+  const [latitude, longitude, altitude] = coordinates
+    .split(',')
+    .map((value) => Number(value.trim()));
+
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+
+  return {
+    latitude,
+    longitude,
+    altitude: Number.isFinite(altitude) ? altitude : undefined,
+    query: parseQuery(query).get('q') || undefined,
+  };
+};
+
+// --- URL builders ---
+
+export const buildPhoneUrl = ({ number }: PhoneAction): string => `tel:${number}`;
+
+export const buildSMSUrl = ({ number, body }: SMSAction): string => {
+  if (!body) return `sms:${number}`;
+  // iOS expects "&body=" after the recipient, Android the usual "?body=".
+  const separator = Platform.OS === 'ios' ? '&' : '?';
+  return `sms:${number}${separator}body=${encodeURIComponent(body)}`;
+};
+
+export const buildEmailUrl = ({ to, cc, bcc, subject, body }: EmailAction): string => {
+  const params = [
+    cc.length > 0 ? `cc=${encodeURIComponent(cc.join(','))}` : '',
+    bcc.length > 0 ? `bcc=${encodeURIComponent(bcc.join(','))}` : '',
+    subject ? `subject=${encodeURIComponent(subject)}` : '',
+    body ? `body=${encodeURIComponent(body)}` : '',
+  ].filter(Boolean);
+  const recipients = encodeURI(to.join(','));
+  return params.length > 0
+    ? `mailto:${recipients}?${params.join('&')}`
+    : `mailto:${recipients}`;
+};
+
+export const buildMapsUrl = ({ latitude, longitude, query }: GeoAction): string => {
+  const coordinates = `${latitude},${longitude}`;
+  if (Platform.OS === 'ios') {
+    const q = encodeURIComponent(query ?? coordinates);
+    return `https://maps.apple.com/?ll=${coordinates}&q=${q}`;
+  }
+  return `geo:${coordinates}?q=${encodeURIComponent(query ?? coordinates)}`;
+};
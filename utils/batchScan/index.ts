@@ -0,0 +1,143 @@
+import QRRecord from '@/types/qrType';
+import { ScanResult } from '@/utils/qrUtils';
+import { returnItemCodeByBin, returnItemData } from '@/utils/returnItemData';
+import { formatFlightDesignator, formatRoute } from '@/utils/boardingPass';
+import { getSymbologyFromCodeFormat } from '@/utils/symbology';
+import { formatValidityDate } from '@/utils/cardValidity';
+
+// --- Types ---
+
+export type BatchCategory = QRRecord['type'];
+
+export interface BatchScanItem {
+  codeValue: string; // Also the de-duplication key
+  codeFormat?: number;
+  result: ScanResult;
+  category: BatchCategory;
+  brandCode: string | null;
+}
+
+// --- Categories ---
+
+const getBrandCode = (result: ScanResult): string | null => {
+  switch (result.codeType) {
+    case 'bank':
+    case 'ewallet':
+      return result.provider || returnItemCodeByBin(result.bin);
+    case 'WIFI':
+      return 'WIFI';
+    case 'boardingPass':
+      return 'FLIGHT';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Categories a captured code can be saved as. Anything can be a store card;
+ * bank and e-wallet cards need a brand, which only payment codes carry.
+ * Enterprise Wi-Fi needs credentials a card cannot hold.
+ */
+export const getBatchCategories = (item: BatchScanItem): BatchCategory[] => {
+  const { result } = item;
+  switch (result.codeType) {
+    case 'bank':
+    case 'ewallet':
+      return item.brandCode ? ['bank', 'ewallet', 'store'] : ['store'];
+    case 'WIFI':
+      return result.security === 'EAP' ? ['store'] : ['wifi', 'store'];
+    case 'boardingPass':
+      return ['flight', 'store'];
+    default:
+      return ['store'];
+  }
+};
+
+export const createBatchItem = (
+  codeValue: string,
+  result: ScanResult,
+  codeFormat?: number
+): BatchScanItem => {
+  const item: BatchScanItem = {
+    codeValue,
+    codeFormat,
+    result,
+    category: 'store',
+    brandCode: getBrandCode(result),
+  };
+  const [category] = getBatchCategories(item);
+  if (result.codeType === 'ewallet' && category === 'bank') {
+    return { ...item, category: 'ewallet' };
+  }
+  return { ...item, category };
+};
+
+/** Brand name when one was detected, otherwise null. */
+export const getBatchBrandName = (item: BatchScanItem): string | null =>
+  item.brandCode ? returnItemData(item.brandCode)?.name ?? null : null;
+
+// --- Records ---
+
+type BatchRecordFields = Pick<
+  QRRecord,
+  'account_name' | 'account_number' | 'label' | 'valid_from' | 'valid_until'
+>;
+
+const EMPTY_FIELDS: BatchRecordFields = {
+  account_name: '',
+  account_number: '',
+  label: '',
+  valid_from: '',
+  valid_until: '',
+};
+
+const getAccountFields = (item: BatchScanItem): BatchRecordFields => {
+  const { result, category } = item;
+  if ((category === 'bank' || category === 'ewallet') &&
+    (result.codeType === 'bank' || result.codeType === 'ewallet')) {
+    return {
+      ...EMPTY_FIELDS,
+      account_name: result.merchantName ?? '',
+      account_number: result.merchantNumber ?? '',
+    };
+  }
+  if (category === 'wifi' && result.codeType === 'WIFI') {
+    return { ...EMPTY_FIELDS, account_name: result.ssid };
+  }
+  if (category === 'flight' && result.codeType === 'boardingPass') {
+    // Like the add screen, the card is valid from the first to the last flight.
+    const { boardingPass } = result;
+    const dates = boardingPass.legs.flatMap((leg) => (leg.date ? [leg.date] : []));
+    return {
+      account_name: boardingPass.passengerName,
+      account_number: formatFlightDesignator(boardingPass.legs[0]),
+      label: formatRoute(boardingPass),
+      valid_from: dates.length > 0 ? formatValidityDate(dates[0]) : '',
+      valid_until: dates.length > 0 ? formatValidityDate(dates[dates.length - 1]) : '',
+    };
+  }
+  if (result.codeType === 'payment') {
+    return { ...EMPTY_FIELDS, label: result.payment.beneficiary ?? '' };
+  }
+  return EMPTY_FIELDS;
+};
+
+/**
+ * Builds the card saved for a captured code. Store cards keep no brand;
+ * the other categories keep the brand detected while scanning. Whether the
+ * card counts as synced depends on the user, so the caller passes it in.
+ */
+export const buildBatchRecord = (
+  item: BatchScanItem,
+  fields: Pick<QRRecord, 'id' | 'qr_index' | 'user_id' | 'created' | 'is_synced'>
+): QRRecord => ({
+  ...fields,
+  code: item.category === 'store' ? '' : item.brandCode ?? '',
+  metadata: item.codeValue,
+  metadata_type: getSymbologyFromCodeFormat(item.codeFormat) ?? 'qr',
+  ...getAccountFields(item),
+  notes: '',
+  type: item.category,
+  updated: fields.created,
+  is_deleted: false,
+});
@@ -0,0 +1,253 @@
+// --- Types ---
+
+export interface BoardingPassLeg {
+  pnr: string; // Operating carrier booking reference
+  from: string; // IATA airport codes
+  to: string;
+  carrier: string; // Operating carrier designator, e.g. "VN"
+  flightNumber: string; // Leading zeros removed, e.g. "213" or "1234A"
+  julianDate: number; // Day of the year, 1–366
+  date?: Date; // `julianDate` resolved to a calendar date
+  compartment: string;
+  seat: string; // Leading zeros removed, e.g. "12A"
+  sequenceNumber: string;
+  passengerStatus: string;
+  // Conditional items, present when the airline encodes them.
+  airlineNumericCode?: string;
+  documentNumber?: string;
+  selectee?: string;
+  marketingCarrier?: string;
+  frequentFlyerAirline?: string;
+  frequentFlyerNumber?: string;
+  baggageAllowance?: string;
+  fastTrack?: boolean;
+  airlineData?: string; // "For individual airline use"
+}
+
+export interface BoardingPass {
+  passengerName: string; // As printed: "SMITH/JOHN MR"
+  lastName: string;
+  firstName: string;
+  isElectronicTicket: boolean;
+  legs: BoardingPassLeg[];
+  version?: string;
+  passengerDescription?: string;
+  checkInSource?: string;
+  issuanceSource?: string;
+  issueDate?: Date;
+  documentType?: string;
+  issuer?: string;
+  baggageTags: string[];
+  securityData?: string;
+}
+
+// --- Detection ---
+
+// Format code "M", leg count, 20-char name, e-ticket flag, 7-char PNR,
+// then the two airport codes of the first leg.
+const BCBP_HEADER = /^M[1-9].{20}[A-Z ].{7}[A-Z]{3}[A-Z]{3}/;
+
+// Mandatory items of one leg, including its 2-digit variable size field.
+const LEG_MANDATORY_LENGTH = 37;
+const HEADER_LENGTH = 23;
+
+export const isBoardingPassCode = (code: string): boolean =>
+  code.length >= HEADER_LENGTH + LEG_MANDATORY_LENGTH && BCBP_HEADER.test(code);
+
+// --- Dates ---
+
+const dayOfYearToDate = (year: number, day: number): Date =>
+  new Date(year, 0, day);
+
+/**
+ * Resolves a day of the year against `reference`. BCBP dates carry no year,
+ * so the candidate closest to the reference date wins; this keeps passes
+ * scanned around New Year on the right side of it. With `yearDigit`, the
+ * last digit of the issue year, the date is an issue date and cannot lie
+ * after the scan, so the latest matching year up to the reference year wins.
+ */
+export const resolveJulianDate = (
+  day: number,
+  reference: Date = new Date(),
+  yearDigit?: number
+): Date | undefined => {
+  if (!Number.isInteger(day) || day < 1 || day > 366) return undefined;
+  const year = reference.getFullYear();
+
+  if (yearDigit !== undefined) {
+    return dayOfYearToDate(year - ((year % 10) - yearDigit + 10) % 10, day);
+  }
+
+  return [year - 1, year, year + 1]
+    .map((candidate) => dayOfYearToDate(candidate, day))
+    // Day 366 only exists in leap years; Date would roll it over.
+    .filter((date) => date.getMonth() !== 0 || day <= 31)
+    .sort(
+      (a, b) =>
+        Math.abs(a.getTime() - reference.getTime()) -
+        Math.abs(b.getTime() - reference.getTime())
+    )[0];
+};
+
+// --- Parsing ---
+
+interface FieldReader {
+  remaining: () => number;
+  peek: () => string;
+  read: (length: number) => string;
+  readOptional: (length: number) => string | undefined;
+  readSection: () => FieldReader;
+  rest: () => string;
+}
+
+/**
+ * Reads fixed-width items left to right. Conditional sections are bounded
+ * by hexadecimal size fields, so each one gets its own sub-reader.
+ */
+const createFieldReader = (data: string): FieldReader => {
+  let position = 0;
+
+  const remaining = () => data.length - position;
+
+  const read = (length: number): string => {
+    const value = data.slice(position, position + length);
+    position += length;
+    return value;
+  };
+
+  return {
+    remaining,
+    peek: () => data.charAt(position),
+    read,
+    // Trailing conditional items may be left out, so missing ones are undefined.
+    readOptional: (length) => (remaining() > 0 ? read(length).trim() || undefined : undefined),
+    readSection: () => {
+      const size = parseInt(read(2), 16);
+      return createFieldReader(read(Number.isNaN(size) ? 0 : size));
+    },
+    rest: () => read(remaining()),
+  };
+};
+
+const stripLeadingZeros = (value: string): string =>
+  value.trim().replace(/^0+(?=\w)/, '');
+
+const splitPassengerName = (name: string): { lastName: string; firstName: string } => {
+  const [lastName, firstName = ''] = name.split('/');
+  return { lastName: lastName.trim(), firstName: firstName.trim() };
+};
+
+const readMandatoryLeg = (reader: FieldReader): BoardingPassLeg => ({
+  pnr: reader.read(7).trim(),
+  from: reader.read(3).trim(),
+  to: reader.read(3).trim(),
+  carrier: reader.read(3).trim(),
+  flightNumber: stripLeadingZeros(reader.read(5)),
+  julianDate: Number(reader.read(3)),
+  compartment: reader.read(1).trim(),
+  seat: stripLeadingZeros(reader.read(4)),
+  sequenceNumber: stripLeadingZeros(reader.read(5)),
+  passengerStatus: reader.read(1).trim(),
+});
+
+const readRepeatedConditional = (reader: FieldReader, leg: BoardingPassLeg) => {
+  const section = reader.readSection();
+  leg.airlineNumericCode = section.readOptional(3);
+  leg.documentNumber = section.readOptional(10);
+  leg.selectee = section.readOptional(1);
+  section.readOptional(1); // International documentation verification
+  leg.marketingCarrier = section.readOptional(3);
+  leg.frequentFlyerAirline = section.readOptional(3);
+  leg.frequentFlyerNumber = section.readOptional(16);
+  section.readOptional(1); // ID/AD indicator
+  leg.baggageAllowance = section.readOptional(3);
+  leg.fastTrack = section.readOptional(1) === 'Y' || undefined;
+};
+
+/**
+ * Parses an IATA Bar Coded Boarding Pass (Resolution 792, "M" format):
+ * the mandatory items of every leg, the unique conditional block that
+ * follows the first leg, each leg's repeated conditional block and the
+ * trailing security data. Returns null when the mandatory items do not fit.
+ */
+export const parseBoardingPass = (
+  code: string,
+  reference: Date = new Date()
+): BoardingPass | null => {
+  if (!isBoardingPassCode(code)) return null;
+  const reader = createFieldReader(code);
+
+  reader.read(1); // Format code
+  const legCount = Number(reader.read(1));
+  const passengerName = reader.read(20).trim();
+  const isElectronicTicket = reader.read(1) === 'E';
+
+  const pass: BoardingPass = {
+    passengerName,
+    ...splitPassengerName(passengerName),
+    isElectronicTicket,
+    legs: [],
+    baggageTags: [],
+  };
+
+  for (let index = 0; index < legCount; index++) {
+    if (reader.remaining() < LEG_MANDATORY_LENGTH) return null;
+    const leg = readMandatoryLeg(reader);
+    const variable = reader.readSection();
+    const hasUniqueBlock = index === 0 && variable.peek() === '>';
+
+    if (hasUniqueBlock) {
+      variable.read(1);
+      pass.version = variable.readOptional(1);
+      const unique = variable.readSection();
+      pass.passengerDescription = unique.readOptional(1);
+      pass.checkInSource = unique.readOptional(1);
+      pass.issuanceSource = unique.readOptional(1);
+      const issueDate = unique.readOptional(4);
+      if (issueDate && /^\d{4}$/.test(issueDate)) {
+        pass.issueDate = resolveJulianDate(
+          Number(issueDate.slice(1)),
+          reference,
+          Number(issueDate[0])
+        );
+      }
+      pass.documentType = unique.readOptional(1);
+      pass.issuer = unique.readOptional(3);
+      for (let tag = 0; tag < 3; tag++) {
+        const baggageTag = unique.readOptional(13);
+        if (baggageTag) pass.baggageTags.push(baggageTag);
+      }
+    }
+    if (index === 0 && !hasUniqueBlock) {
+      // Without the ">" marker the first leg carries airline data only.
+      leg.airlineData = variable.rest().trim() || undefined;
+    } else if (variable.remaining() > 0) {
+      // Legs after the first start straight at the repeated block.
+      readRepeatedConditional(variable, leg);
+      leg.airlineData = variable.rest().trim() || undefined;
+    }
+
+    pass.legs.push(leg);
+  }
+
+  if (reader.peek() === '^') {
+    reader.read(2); // Marker and type of security data
+    pass.securityData = reader.readSection().rest() || undefined;
+  }
+
+  // Flights happen on or after the issue date, so resolve against it.
+  const flightReference = pass.issueDate ?? reference;
+  pass.legs.forEach((leg) => {
+    leg.date = resolveJulianDate(leg.julianDate, flightReference);
+  });
+
+  return pass.legs.length > 0 ? pass : null;
+};
+
+// --- Display ---
+
+export const formatFlightDesignator = (leg: BoardingPassLeg): string =>
+  `${leg.carrier} ${leg.flightNumber}`;
+
+export const formatRoute = (pass: BoardingPass): string =>
+  [pass.legs[0].from, ...pass.legs.map((leg) => leg.to)].join(' → ');
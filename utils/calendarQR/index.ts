@@ -0,0 +1,268 @@
+// --- Types ---
+
+export interface EventDateTime {
+  date: Date;
+  // All-day values carry a calendar date only (VALUE=DATE).
+  allDay: boolean;
+  // Set when DTSTART/DTEND had a TZID parameter.
+  timeZone?: string;
+}
+
+export interface CalendarEvent {
+  summary: string;
+  start: EventDateTime;
+  end: EventDateTime;
+  location?: string;
+  description?: string;
+  url?: string;
+  // Recurrence rule, kept verbatim (e.g. "FREQ=WEEKLY;BYDAY=MO").
+  rrule?: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Detection ---
+
+export const isCalendarEvent = (code: string): boolean =>
+  /^BEGIN:(VEVENT|VCALENDAR)/i.test(code.trim()) &&
+  /BEGIN:VEVENT/i.test(code);
+
+// --- Content lines ---
+
+const unfoldLines = (code: string): string[] =>
+  code
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.length > 0);
+
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex <= 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+const unescapeText = (value: string): string =>
+  value
+    .replace(/\\([\\;,nN])/g, (_, char: string) =>
+      char === 'n' || char === 'N' ? '\n' : char
+    )
+    .trim();
+
+// --- Dates ---
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds.
+ * Returns null when the runtime does not know the zone.
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number | null => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((part) => part.type === type)?.value);
+    const wallTime = Date.UTC(
+      value('year'),
+      value('month') - 1,
+      value('day'),
+      value('hour'),
+      value('minute'),
+      value('second')
+    );
+    return Number.isNaN(wallTime) ? null : wallTime - instant;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses DATE ("20250301") and DATE-TIME ("20250301T090000", with an
+ * optional "Z") values. Times with a TZID are converted from that zone;
+ * floating times and unknown zones are read as device-local time.
+ */
+const parseEventDate = (line?: ContentLine): EventDateTime | null => {
+  if (!line) return null;
+  const match =
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i.exec(
+      line.value.trim()
+    );
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const fields = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+  ] as const;
+
+  if (hour === undefined || line.params.VALUE === 'DATE') {
+    return { date: new Date(fields[0], fields[1], fields[2]), allDay: true };
+  }
+  if (utc) {
+    return { date: new Date(Date.UTC(...fields)), allDay: false };
+  }
+
+  const timeZone = line.params.TZID;
+  if (timeZone) {
+    const wallTime = Date.UTC(...fields);
+    const offset = getTimeZoneOffset(wallTime, timeZone);
+    if (offset !== null) {
+      // Re-check the offset at the corrected instant for DST boundaries.
+      const corrected =
+        getTimeZoneOffset(wallTime - offset, timeZone) ?? offset;
+      return {
+        date: new Date(wallTime - corrected),
+        allDay: false,
+        timeZone,
+      };
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+};
+
+/**
+ * Parses DURATION values such as "PT1H30M", "P1D" or "P2W".
+ */
+const parseDuration = (value?: string): number | null => {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(
+      value?.trim() ?? ''
+    );
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * 60 * 60 * 1000 +
+    Number(minutes ?? 0) * 60 * 1000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+// --- Parser ---
+
+export const parseCalendarEvent = (code: string): CalendarEvent | null => {
+  if (!isCalendarEvent(code)) return null;
+
+  // Only the first VEVENT is read; VTIMEZONE and VALARM blocks are skipped.
+  const lines: ContentLine[] = [];
+  let depth = 0;
+  let inEvent = false;
+  for (const rawLine of unfoldLines(code.trim())) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const component = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN') {
+      if (inEvent) depth++;
+      else if (component === 'VEVENT') inEvent = true;
+      continue;
+    }
+    if (line.name === 'END' && inEvent) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      break;
+    }
+    if (inEvent && depth === 0) lines.push(line);
+  }
+
+  const first = (name: string) => lines.find((line) => line.name === name);
+  const text = (name: string) => {
+    const line = first(name);
+    return line ? unescapeText(line.value) || undefined : undefined;
+  };
+
+  const start = parseEventDate(first('DTSTART'));
+  if (!start) return null;
+
+  let end = parseEventDate(first('DTEND'));
+  if (!end) {
+    const duration = parseDuration(first('DURATION')?.value);
+    end = {
+      ...start,
+      date: new Date(
+        start.date.getTime() + (duration ?? (start.allDay ? DAY_MS : 0))
+      ),
+    };
+  }
+
+  return {
+    summary: text('SUMMARY') ?? '',
+    start,
+    end,
+    location: text('LOCATION'),
+    description: text('DESCRIPTION'),
+    url: first('URL')?.value.trim() || undefined,
+    rrule: first('RRULE')?.value.trim() || undefined,
+  };
+};
+
+// --- Helpers ---
+
+/**
+ * The last calendar day the event covers. All-day DTEND values are
+ * exclusive, so an event ending on 2025-03-02 is over after 2025-03-01.
+ */
+export const getEventLastDay = (event: CalendarEvent): Date => {
+  const end = event.end.date;
+  if (event.end.allDay && end.getTime() > event.start.date.getTime()) {
+    return new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1);
+  }
+  return end;
+};
+
+export const isEventOver = (event: CalendarEvent, now = new Date()): boolean =>
+  event.end.allDay
+    ? event.end.date.getTime() <= now.getTime()
+    : event.end.date.getTime() < now.getTime();
+
+/**
+ * Wraps a bare VEVENT in a VCALENDAR so calendar apps accept the file.
+ */
+export const buildICalendar = (code: string): string => {
+  const body = code.trim().replace(/\r?\n/g, '\r\n');
+  if (/^BEGIN:VCALENDAR/i.test(body)) return `${body}\r\n`;
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Orange Pass//Scanned Event//EN',
+    body,
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+};
@@ -0,0 +1,52 @@
+// Validity dates are stored as calendar dates ("YYYY-MM-DD") without a time
+// zone, and compared against the device's local date.
+const VALIDITY_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const parseValidityDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const match = VALIDITY_DATE_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = Number(match[3]);
+  const date = new Date(year, month, day);
+
+  // Reject rolled-over dates such as 2024-02-31.
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+};
+
+export const formatValidityDate = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+export const isValidityDate = (value?: string | null): boolean =>
+  parseValidityDate(value) !== null;
+
+const startOfToday = (): Date => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+/**
+ * A card stays valid through the whole of its `valid_until` day.
+ */
+export const isCardExpired = (validUntil?: string | null): boolean => {
+  const until = parseValidityDate(validUntil);
+  return until !== null && until < startOfToday();
+};
+
+export const isCardNotYetValid = (validFrom?: string | null): boolean => {
+  const from = parseValidityDate(validFrom);
+  return from !== null && from > startOfToday();
+};
@@ -0,0 +1,277 @@
+// --- Types ---
+
+export type ContactSource = 'vcard' | 'mecard' | 'bizcard';
+
+export interface ContactInfo {
+  source: ContactSource;
+  name: string;
+  phones: string[];
+  emails: string[];
+  organization?: string;
+  title?: string;
+  urls: string[];
+  address?: string;
+  note?: string;
+}
+
+interface VCardProperty {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+// --- Detection ---
+
+export const isVCard = (code: string): boolean =>
+  /^BEGIN:VCARD/i.test(code.trim());
+
+export const isMeCard = (code: string): boolean => /^MECARD:/i.test(code.trim());
+
+export const isBizCard = (code: string): boolean =>
+  /^BIZCARD:/i.test(code.trim());
+
+export const isContactCode = (code: string): boolean =>
+  isVCard(code) || isMeCard(code) || isBizCard(code);
+
+// --- Shared helpers ---
+
+const compact = (values: (string | undefined)[]): string[] =>
+  values.map((value) => value?.trim() ?? '').filter(Boolean);
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+/**
+ * Splits on a separator that is not preceded by a backslash. Escapes are
+ * kept so the caller can unescape each part.
+ */
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeValue = (value: string): string =>
+  value.replace(/\\([\\;,:nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+
+const hasContent = (contact: ContactInfo): boolean =>
+  Boolean(
+    contact.name ||
+      contact.phones.length ||
+      contact.emails.length ||
+      contact.organization ||
+      contact.urls.length
+  );
+
+// --- vCard (2.1 / 3.0 / 4.0) ---
+
+/**
+ * Decodes quoted-printable text. Bytes are interpreted as UTF-8, falling
+ * back to Latin-1 when the sequence is not valid UTF-8.
+ */
+const decodeQuotedPrintable = (value: string): string => {
+  const withoutSoftBreaks = value.replace(/=\r?\n/g, '');
+  const percentEncoded = withoutSoftBreaks.replace(
+    /=([0-9A-Fa-f]{2})|%/g,
+    (match, hex?: string) => (hex ? `%${hex.toUpperCase()}` : '%25')
+  );
+  try {
+    return decodeURIComponent(percentEncoded);
+  } catch {
+    return withoutSoftBreaks.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+  }
+};
+
+const isQuotedPrintable = (params: string[]): boolean =>
+  params.some((param) => /^(ENCODING=)?QUOTED-PRINTABLE$/i.test(param));
+
+/**
+ * Joins folded lines: 3.0/4.0 continuation lines start with whitespace,
+ * 2.1 quoted-printable values continue after a trailing "=".
+ */
+const unfoldVCardLines = (code: string): string[] => {
+  const rawLines = code.replace(/\r\n?/g, '\n').split('\n');
+  const lines: string[] = [];
+
+  for (const rawLine of rawLines) {
+    const previous = lines[lines.length - 1];
+    if (
+      previous !== undefined &&
+      previous.endsWith('=') &&
+      /QUOTED-PRINTABLE/i.test(previous.slice(0, previous.indexOf(':')))
+    ) {
+      lines[lines.length - 1] = previous.slice(0, -1) + rawLine;
+    } else if (previous !== undefined && /^[ \t]/.test(rawLine)) {
+      lines[lines.length - 1] = previous + rawLine.slice(1);
+    } else if (rawLine.length > 0) {
+      lines.push(rawLine);
+    }
+  }
+  return lines;
+};
+
+const parseVCardLine = (line: string): VCardProperty | null => {
+  // The first colon outside a quoted parameter value ends the property name.
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex <= 0) return null;
+
+  const [nameWithGroup, ...params] = line.slice(0, colonIndex).split(';');
+  // Drop the optional "group." prefix (e.g. "item1.TEL").
+  const name = nameWithGroup.split('.').pop()!.toUpperCase();
+  const rawValue = line.slice(colonIndex + 1);
+  const value = isQuotedPrintable(params)
+    ? decodeQuotedPrintable(rawValue)
+    : rawValue;
+
+  return { name, params, value };
+};
+
+const stripUriScheme = (value: string, scheme: string): string =>
+  value.toLowerCase().startsWith(`${scheme}:`)
+    ? value.slice(scheme.length + 1)
+    : value;
+
+export const parseVCard = (code: string): ContactInfo | null => {
+  if (!isVCard(code)) return null;
+
+  const properties = unfoldVCardLines(code.trim())
+    .map(parseVCardLine)
+    .filter((property): property is VCardProperty => property !== null);
+
+  const first = (name: string) =>
+    properties.find((property) => property.name === name);
+  const all = (name: string) =>
+    properties.filter((property) => property.name === name);
+  const structured = (property?: VCardProperty) =>
+    property
+      ? splitUnescaped(property.value, ';').map((part) =>
+          unescapeValue(part).trim()
+        )
+      : [];
+
+  // N is Family;Given;Additional;Prefix;Suffix.
+  const [family, given, additional, prefix, suffix] = structured(first('N'));
+  const formattedName = first('FN');
+  const name = formattedName
+    ? unescapeValue(formattedName.value).trim()
+    : compact([prefix, given, additional, family, suffix]).join(' ');
+
+  const address = first('ADR');
+  const note = first('NOTE');
+  const title = first('TITLE');
+
+  const contact: ContactInfo = {
+    source: 'vcard',
+    name,
+    phones: unique(
+      compact(all('TEL').map((p) => stripUriScheme(unescapeValue(p.value), 'tel')))
+    ),
+    emails: unique(
+      compact(
+        all('EMAIL').map((p) => stripUriScheme(unescapeValue(p.value), 'mailto'))
+      )
+    ),
+    organization:
+      compact(structured(first('ORG'))).join(', ') || undefined,
+    title: title ? unescapeValue(title.value).trim() || undefined : undefined,
+    urls: unique(compact(all('URL').map((p) => unescapeValue(p.value)))),
+    address: compact(structured(address)).join(', ') || undefined,
+    note: note ? unescapeValue(note.value).trim() || undefined : undefined,
+  };
+
+  return hasContent(contact) ? contact : null;
+};
+
+// --- MeCard / BizCard ---
+
+/**
+ * Reads "KEY:value;KEY:value;;" fields after the scheme prefix. Keys can
+ * repeat (several TEL entries), so values are collected per key.
+ */
+const parseKeyValueFields = (
+  code: string,
+  prefixLength: number
+): Map<string, string[]> => {
+  const fields = new Map<string, string[]>();
+  const body = code.trim().slice(prefixLength);
+
+  for (const field of splitUnescaped(body, ';')) {
+    const separator = splitUnescaped(field, ':');
+    if (separator.length < 2) continue;
+    const key = separator[0].trim().toUpperCase();
+    // Values such as URLs may contain further colons.
+    const value = unescapeValue(separator.slice(1).join(':')).trim();
+    if (!key || !value) continue;
+    fields.set(key, [...(fields.get(key) ?? []), value]);
+  }
+  return fields;
+};
+
+export const parseMeCard = (code: string): ContactInfo | null => {
+  if (!isMeCard(code)) return null;
+  const fields = parseKeyValueFields(code, 'MECARD:'.length);
+  const first = (key: string) => fields.get(key)?.[0];
+
+  // N is "Last,First".
+  const [last, firstName] = (first('N') ?? '').split(',');
+  const contact: ContactInfo = {
+    source: 'mecard',
+    name: compact([firstName, last]).join(' '),
+    phones: unique(compact([...(fields.get('TEL') ?? []), ...(fields.get('TEL-AV') ?? [])])),
+    emails: unique(fields.get('EMAIL') ?? []),
+    organization: first('ORG'),
+    title: first('TITLE'),
+    urls: unique(fields.get('URL') ?? []),
+    address: first('ADR'),
+    note: first('NOTE'),
+  };
+
+  return hasContent(contact) ? contact : null;
+};
+
+export const parseBizCard = (code: string): ContactInfo | null => {
+  if (!isBizCard(code)) return null;
+  const fields = parseKeyValueFields(code, 'BIZCARD:'.length);
+  const first = (key: string) => fields.get(key)?.[0];
+
+  // N is the first name, X the last name; B is the phone, E the email.
+  const contact: ContactInfo = {
+    source: 'bizcard',
+    name: compact([first('N'), first('X')]).join(' '),
+    phones: unique(fields.get('B') ?? []),
+    emails: unique(fields.get('E') ?? []),
+    organization: first('C'),
+    title: first('T'),
+    urls: [],
+    address: first('A'),
+  };
+
+  return hasContent(contact) ? contact : null;
+};
+
+export const parseContact = (code: string): ContactInfo | null =>
+  parseVCard(code) ?? parseMeCard(code) ?? parseBizCard(code);
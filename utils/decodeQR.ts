@@ -1,16 +1,25 @@
 import BarcodeScanning from '@react-native-ml-kit/barcode-scanning';
 
-export const decodeQR = async (uri: string) => {
+export interface DecodedCode {
+    value: string;
+    format: number;
+}
+
+/**
+ * Decodes every code in an image. The same value printed twice is returned
+ * once; an empty array means nothing could be read.
+ */
+export const decodeQR = async (uri: string): Promise<DecodedCode[]> => {
     try {
-        // setIsDecoding(true);
         const result = await BarcodeScanning.scan(uri);
-        if (result?.length > 0) {
-            return { value: result[0].value, format: result[0].format };
-        } else {
-            return null;
-        }
+        const seen = new Set<string>();
+        return (result ?? []).flatMap(({ value, format }) => {
+            if (!value || seen.has(value)) return [];
+            seen.add(value);
+            return [{ value, format }];
+        });
     } catch (error) {
         console.error('Error decoding QR code:', error);
-        return null;  // You might want to throw the error instead depending on your error-handling strategy
+        return [];
     }
-};
\ No newline at end of file
+};
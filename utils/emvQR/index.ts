@@ -0,0 +1,350 @@
+// --- Types ---
+
+export type EMVParseErrorCode =
+  | 'MALFORMED_TLV'
+  | 'TRUNCATED_VALUE'
+  | 'DUPLICATE_TAG'
+  | 'INVALID_PAYLOAD_FORMAT'
+  | 'MISSING_CRC'
+  | 'CRC_NOT_LAST'
+  | 'CRC_MISMATCH';
+
+export interface EMVParseError {
+  code: EMVParseErrorCode;
+  message: string;
+  tag?: string;
+  position?: number;
+}
+
+export interface EMVMerchantAccount {
+  tag: string;
+  guid?: string;
+  fields: Record<string, string>;
+  bin?: string;
+  accountNumber?: string;
+  serviceCode?: string;
+}
+
+export interface EMVAdditionalData {
+  billNumber?: string;
+  mobileNumber?: string;
+  storeLabel?: string;
+  loyaltyNumber?: string;
+  referenceLabel?: string;
+  customerLabel?: string;
+  terminalLabel?: string;
+  purpose?: string;
+  consumerDataRequest?: string;
+}
+
+export interface EMVLanguageTemplate {
+  languagePreference?: string;
+  merchantName?: string;
+  merchantCity?: string;
+}
+
+export interface EMVParseResult {
+  fields: Record<string, string>;
+  isValid: boolean;
+  payloadFormatIndicator?: string;
+  pointOfInitiation?: 'static' | 'dynamic';
+  merchantAccounts: EMVMerchantAccount[];
+  merchantCategoryCode?: string;
+  currency?: string;
+  amount?: string;
+  countryCode?: string;
+  merchantName?: string;
+  merchantCity?: string;
+  postalCode?: string;
+  additionalData?: EMVAdditionalData;
+  languageTemplate?: EMVLanguageTemplate;
+  crc?: string;
+  isCrcValid: boolean;
+  errors: EMVParseError[];
+}
+
+// --- Constants ---
+
+export const NAPAS_GUID = 'A000000727';
+// Singapore PayNow and Thai PromptPay reuse the EMVCo layout with their own
+// merchant account templates.
+export const PAYNOW_GUID = 'SG.PAYNOW';
+export const PROMPTPAY_TRANSFER_GUID = 'A000000677010111';
+export const PROMPTPAY_BILL_GUID = 'A000000677010112';
+
+const CURRENCY_ALPHA_CODES: Record<string, string> = {
+  '036': 'AUD',
+  '116': 'KHR',
+  '156': 'CNY',
+  '344': 'HKD',
+  '360': 'IDR',
+  '392': 'JPY',
+  '410': 'KRW',
+  '418': 'LAK',
+  '458': 'MYR',
+  '608': 'PHP',
+  '702': 'SGD',
+  '704': 'VND',
+  '764': 'THB',
+  '826': 'GBP',
+  '840': 'USD',
+  '978': 'EUR',
+};
+
+const isTemplateTag = (tag: string): boolean => {
+  const id = parseInt(tag, 10);
+  return (id >= 26 && id <= 51) || id === 62 || id === 64;
+};
+
+// --- CRC ---
+
+/**
+ * CRC16-CCITT (poly 0x1021, init 0xFFFF) as required by EMVCo tag 63.
+ */
+export const crc16CCITT = (data: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// --- TLV ---
+
+interface TLVEntry {
+  tag: string;
+  value: string;
+  position: number;
+}
+
+const readTLV = (
+  data: string,
+  errors: EMVParseError[],
+  offset: number = 0,
+  parentTag?: string
+): TLVEntry[] => {
+  const entries: TLVEntry[] = [];
+  let position = 0;
+
+  while (position < data.length) {
+    const tag = data.slice(position, position + 2);
+    const lengthText = data.slice(position + 2, position + 4);
+    const label = parentTag ? `${parentTag}.${tag}` : tag;
+
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(lengthText)) {
+      errors.push({
+        code: 'MALFORMED_TLV',
+        message: `Malformed TLV header at position ${offset + position}`,
+        tag: parentTag,
+        position: offset + position,
+      });
+      break;
+    }
+
+    const length = parseInt(lengthText, 10);
+    const value = data.slice(position + 4, position + 4 + length);
+    if (value.length < length) {
+      errors.push({
+        code: 'TRUNCATED_VALUE',
+        message: `Tag ${label} declares ${length} characters but only ${value.length} remain`,
+        tag: label,
+        position: offset + position,
+      });
+      break;
+    }
+
+    entries.push({ tag, value, position: offset + position });
+    position += 4 + length;
+  }
+
+  return entries;
+};
+
+const toRecord = (
+  entries: TLVEntry[],
+  errors: EMVParseError[],
+  parentTag?: string
+): Record<string, string> => {
+  const record: Record<string, string> = {};
+  for (const entry of entries) {
+    if (entry.tag in record) {
+      const label = parentTag ? `${parentTag}.${entry.tag}` : entry.tag;
+      errors.push({
+        code: 'DUPLICATE_TAG',
+        message: `Tag ${label} appears more than once`,
+        tag: label,
+        position: entry.position,
+      });
+      continue;
+    }
+    record[entry.tag] = entry.value;
+  }
+  return record;
+};
+
+// --- Template decoders ---
+
+const parseMerchantAccount = (
+  tag: string,
+  fields: Record<string, string>
+): EMVMerchantAccount => {
+  const account: EMVMerchantAccount = {
+    tag,
+    guid: fields['00'],
+    fields,
+    serviceCode: fields['02'],
+  };
+
+  // NAPAS nests the beneficiary (BIN + account) as its own TLV in sub-tag 01.
+  const beneficiary = fields['01'];
+  if (beneficiary) {
+    const nestedErrors: EMVParseError[] = [];
+    const nested = toRecord(readTLV(beneficiary, nestedErrors), nestedErrors);
+    if (nestedErrors.length === 0 && /^\d{6}$/.test(nested['00'] ?? '')) {
+      account.bin = nested['00'];
+      account.accountNumber = nested['01'];
+    }
+  }
+
+  return account;
+};
+
+const parseAdditionalData = (fields: Record<string, string>): EMVAdditionalData => ({
+  billNumber: fields['01'],
+  mobileNumber: fields['02'],
+  storeLabel: fields['03'],
+  loyaltyNumber: fields['04'],
+  referenceLabel: fields['05'],
+  customerLabel: fields['06'],
+  terminalLabel: fields['07'],
+  purpose: fields['08'],
+  consumerDataRequest: fields['09'],
+});
+
+const parseLanguageTemplate = (fields: Record<string, string>): EMVLanguageTemplate => ({
+  languagePreference: fields['00'],
+  merchantName: fields['01'],
+  merchantCity: fields['02'],
+});
+
+// --- Public API ---
+
+/**
+ * Parses an EMVCo Merchant-Presented Mode payload, decoding nested templates
+ * and validating the tag 63 checksum. Never throws; problems are reported in
+ * `errors` and reflected by `isValid`.
+ */
+export const parseEMVQR = (payload: string): EMVParseResult => {
+  const errors: EMVParseError[] = [];
+  const entries = readTLV(payload, errors);
+  const fields = toRecord(entries, errors);
+
+  const result: EMVParseResult = {
+    fields,
+    isValid: false,
+    merchantAccounts: [],
+    isCrcValid: false,
+    errors,
+  };
+
+  result.payloadFormatIndicator = fields['00'];
+  if (entries[0]?.tag !== '00' || fields['00'] !== '01') {
+    errors.push({
+      code: 'INVALID_PAYLOAD_FORMAT',
+      message: 'Payload must start with format indicator 01',
+      tag: '00',
+    });
+  }
+
+  if (fields['01'] === '11') result.pointOfInitiation = 'static';
+  else if (fields['01'] === '12') result.pointOfInitiation = 'dynamic';
+
+  for (const entry of entries) {
+    if (!isTemplateTag(entry.tag)) continue;
+    const template = toRecord(
+      readTLV(entry.value, errors, entry.position + 4, entry.tag),
+      errors,
+      entry.tag
+    );
+
+    if (entry.tag === '62') {
+      result.additionalData = parseAdditionalData(template);
+    } else if (entry.tag === '64') {
+      result.languageTemplate = parseLanguageTemplate(template);
+    } else {
+      result.merchantAccounts.push(parseMerchantAccount(entry.tag, template));
+    }
+  }
+
+  result.merchantCategoryCode = fields['52'];
+  result.currency = fields['53'];
+  result.amount = fields['54'];
+  result.countryCode = fields['58'];
+  result.merchantName = fields['59'];
+  result.merchantCity = fields['60'];
+  result.postalCode = fields['61'];
+
+  const crcEntry = entries.find((entry) => entry.tag === '63');
+  if (!crcEntry) {
+    errors.push({ code: 'MISSING_CRC', message: 'Tag 63 (CRC) is missing', tag: '63' });
+  } else if (crcEntry.position + 8 !== payload.length || crcEntry.value.length !== 4) {
+    errors.push({
+      code: 'CRC_NOT_LAST',
+      message: 'Tag 63 (CRC) must be the last 4-character field',
+      tag: '63',
+      position: crcEntry.position,
+    });
+  } else {
+    result.crc = crcEntry.value.toUpperCase();
+    const expected = crc16CCITT(payload.slice(0, crcEntry.position + 4));
+    result.isCrcValid = expected === result.crc;
+    if (!result.isCrcValid) {
+      errors.push({
+        code: 'CRC_MISMATCH',
+        message: `CRC mismatch: expected ${expected}, found ${result.crc}`,
+        tag: '63',
+        position: crcEntry.position,
+      });
+    }
+  }
+
+  result.isValid = errors.length === 0;
+  return result;
+};
+
+/**
+ * Returns the first merchant account that carries a bank BIN, preferring NAPAS.
+ */
+export const findBankAccount = (
+  result: EMVParseResult
+): EMVMerchantAccount | undefined =>
+  result.merchantAccounts.find((account) => account.guid === NAPAS_GUID && account.bin) ??
+  result.merchantAccounts.find((account) => account.bin);
+
+export const findMerchantAccount = (
+  result: EMVParseResult,
+  guid: string
+): EMVMerchantAccount | undefined =>
+  result.merchantAccounts.find(
+    (account) => account.guid?.toUpperCase() === guid.toUpperCase()
+  );
+
+export const getCurrencyAlphaCode = (numericCode?: string): string | undefined =>
+  numericCode ? CURRENCY_ALPHA_CODES[numericCode] ?? numericCode : undefined;
+
+/**
+ * Formats an amount (e.g. "50000" or "12.5") with thousands separators and
+ * the alpha currency code, e.g. "50,000 VND". Takes the numeric code from
+ * EMV tag 53 or an alpha code as other payment codes carry it.
+ */
+export const formatEMVAmount = (amount: string, numericCurrency?: string): string => {
+  const [integerPart, fractionPart] = amount.split('.');
+  const grouped = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const currency = getCurrencyAlphaCode(numericCurrency);
+  const formatted = fractionPart ? `${grouped}.${fractionPart}` : grouped;
+  return currency ? `${formatted} ${currency}` : formatted;
+};
@@ -0,0 +1,317 @@
+// --- Types ---
+
+export type GS1ValueFormat = 'numeric' | 'text' | 'date' | 'decimal';
+
+export interface GS1AIDefinition {
+  title: string; // Key under `gs1Sheet.ai`
+  format: GS1ValueFormat;
+  length?: number; // Fixed data length; variable-length AIs use maxLength
+  maxLength?: number;
+  unit?: string;
+}
+
+export interface GS1Element {
+  ai: string;
+  value: string;
+  title?: string;
+  // Dates as YYYY-MM-DD, decimals with the implied point applied.
+  displayValue: string;
+}
+
+export interface GS1Data {
+  source: 'elementString' | 'digitalLink';
+  elements: GS1Element[];
+  gtin?: string;
+  isGtinValid?: boolean;
+}
+
+// --- AI table ---
+
+// Group separator that stands in for FNC1 between variable-length fields.
+const GS = '\x1d';
+
+// Symbology identifiers some scanners prepend (GS1-128, DataMatrix, QR, DotCode).
+const SYMBOLOGY_PREFIX = /^\](C1|e0|d2|Q3|J1)/;
+
+const AI_DEFINITIONS: Record<string, GS1AIDefinition> = {
+  '00': { title: 'sscc', format: 'numeric', length: 18 },
+  '01': { title: 'gtin', format: 'numeric', length: 14 },
+  '02': { title: 'content', format: 'numeric', length: 14 },
+  '10': { title: 'batch', format: 'text', maxLength: 20 },
+  '11': { title: 'productionDate', format: 'date', length: 6 },
+  '12': { title: 'dueDate', format: 'date', length: 6 },
+  '13': { title: 'packagingDate', format: 'date', length: 6 },
+  '15': { title: 'bestBefore', format: 'date', length: 6 },
+  '16': { title: 'sellBy', format: 'date', length: 6 },
+  '17': { title: 'expiry', format: 'date', length: 6 },
+  '20': { title: 'variant', format: 'numeric', length: 2 },
+  '21': { title: 'serial', format: 'text', maxLength: 20 },
+  '22': { title: 'consumerVariant', format: 'text', maxLength: 20 },
+  '30': { title: 'count', format: 'numeric', maxLength: 8 },
+  '37': { title: 'count', format: 'numeric', maxLength: 8 },
+  '240': { title: 'additionalId', format: 'text', maxLength: 30 },
+  '241': { title: 'customerPart', format: 'text', maxLength: 30 },
+  '250': { title: 'secondarySerial', format: 'text', maxLength: 30 },
+  '254': { title: 'glnExtension', format: 'text', maxLength: 20 },
+  '400': { title: 'orderNumber', format: 'text', maxLength: 30 },
+  '410': { title: 'shipTo', format: 'numeric', length: 13 },
+  '414': { title: 'location', format: 'numeric', length: 13 },
+  '422': { title: 'origin', format: 'numeric', length: 3 },
+  '8200': { title: 'productUrl', format: 'text', maxLength: 70 },
+};
+
+// 4-digit AIs whose last digit is the number of decimal places.
+const DECIMAL_AI_DEFINITIONS: Record<string, GS1AIDefinition> = {
+  '310': { title: 'netWeight', format: 'decimal', length: 6, unit: 'kg' },
+  '311': { title: 'length', format: 'decimal', length: 6, unit: 'm' },
+  '320': { title: 'netWeight', format: 'decimal', length: 6, unit: 'lb' },
+  '330': { title: 'grossWeight', format: 'decimal', length: 6, unit: 'kg' },
+  '390': { title: 'amount', format: 'decimal', maxLength: 15 },
+  '392': { title: 'price', format: 'decimal', maxLength: 15 },
+};
+
+/**
+ * AIs whose data length is fixed by their first two digits (GS1 General
+ * Specifications, figure 7.8.5-2). They are never followed by FNC1, so
+ * unknown AIs in this range can still be skipped over.
+ */
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+  '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+  '20': 2,
+  '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6,
+  '41': 13,
+};
+
+// Measure AIs (31–36) carry a decimal digit; 41x location AIs have three.
+const getAILength = (prefix: string): number => {
+  if (/^3[1-6]$/.test(prefix)) return 4;
+  return prefix === '41' ? 3 : 2;
+};
+
+// Digital Link path keys and their legacy short names.
+const DIGITAL_LINK_KEYS: Record<string, string> = {
+  gtin: '01',
+  cpv: '22',
+  lot: '10',
+  ser: '21',
+  exp: '17',
+};
+
+const findDefinition = (ai: string): GS1AIDefinition | undefined =>
+  AI_DEFINITIONS[ai] ?? (ai.length === 4 ? DECIMAL_AI_DEFINITIONS[ai.slice(0, 3)] : undefined);
+
+/**
+ * Reads the AI at the start of `data`, trying 2, 3 and 4 digits.
+ */
+const matchAI = (data: string): string | undefined => {
+  for (const length of [2, 3, 4]) {
+    const candidate = data.slice(0, length);
+    if (/^\d+$/.test(candidate) && candidate.length === length && findDefinition(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+// --- Formatting ---
+
+/**
+ * Expands a YYMMDD date with the GS1 sliding century window. Day "00" means
+ * the last day of the month.
+ */
+const formatGS1Date = (value: string, now = new Date()): string | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12 || day > 31) return undefined;
+
+  const currentYear = now.getFullYear();
+  const difference = yy - (currentYear % 100);
+  let century = currentYear - (currentYear % 100);
+  if (difference >= 51) century -= 100;
+  else if (difference <= -50) century += 100;
+  const year = century + yy;
+
+  if (day === 0) day = new Date(year, month, 0).getDate();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const formatDecimal = (ai: string, value: string, unit?: string): string => {
+  const decimals = Number(ai[3]);
+  const digits = value.replace(/^0+(?=\d)/, '');
+  const padded = digits.padStart(decimals + 1, '0');
+  const number = decimals > 0
+    ? `${padded.slice(0, -decimals)}.${padded.slice(-decimals)}`
+    : padded;
+  return unit ? `${number} ${unit}` : number;
+};
+
+const toElement = (ai: string, value: string): GS1Element => {
+  const definition = findDefinition(ai);
+  let displayValue = value;
+  if (definition?.format === 'date') {
+    displayValue = formatGS1Date(value) ?? value;
+  } else if (definition?.format === 'decimal') {
+    displayValue = formatDecimal(ai, value, definition.unit);
+  }
+  return { ai, value, title: definition?.title, displayValue };
+};
+
+// --- Check digits ---
+
+/**
+ * GS1 mod-10 check: weights 3 and 1 alternate from the rightmost data digit.
+ */
+export const calculateGS1CheckDigit = (digits: string): number => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidGtin = (gtin: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(gtin)) return false;
+  return calculateGS1CheckDigit(gtin.slice(0, -1)) === Number(gtin.slice(-1));
+};
+
+// --- Detection ---
+
+const DIGITAL_LINK_PATH = /\/(01|gtin)\/(\d{8}|\d{12,14})(?=[/?#]|$)/;
+
+// Any domain may host a Digital Link, so the check digit is what keeps
+// ordinary URLs with a "/01/…" path segment from matching.
+export const isGS1DigitalLink = (code: string): boolean => {
+  const trimmed = code.trim();
+  if (!/^https?:\/\//i.test(trimmed)) return false;
+  const match = trimmed.split(/[?#]/)[0].match(DIGITAL_LINK_PATH);
+  return !!match && isValidGtin(match[2]);
+};
+
+/**
+ * Matches element strings that announce themselves as GS1: a symbology
+ * identifier, a leading or embedded FNC1, the "(01)…" human-readable form,
+ * or a bare "01" + valid GTIN-14 run.
+ */
+export const isGS1ElementString = (code: string): boolean => {
+  const trimmed = code.trim();
+  if (SYMBOLOGY_PREFIX.test(trimmed) || trimmed.includes(GS)) return true;
+  if (/^\(\d{2,4}\)/.test(trimmed)) return true;
+  return /^01\d{14}/.test(trimmed) && trimmed.length > 16 && isValidGtin(trimmed.slice(2, 16));
+};
+
+export const isGS1Code = (code: string): boolean =>
+  isGS1ElementString(code) || isGS1DigitalLink(code);
+
+// --- Parsing ---
+
+const parseBracketed = (data: string): GS1Element[] | null => {
+  const elements: GS1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(data)) !== null) {
+    if (match.index !== consumed) return null;
+    consumed = pattern.lastIndex;
+    elements.push(toElement(match[1], match[2].trim()));
+  }
+  return consumed === data.length && elements.length > 0 ? elements : null;
+};
+
+const parseRaw = (data: string): GS1Element[] | null => {
+  const elements: GS1Element[] = [];
+  let rest = data.replace(new RegExp(`^${GS}+`), '');
+
+  while (rest.length > 0) {
+    const prefix = rest.slice(0, 2);
+    const predefined = PREDEFINED_LENGTHS[prefix];
+    // Unknown AIs are only skippable when their length is predefined.
+    const ai = matchAI(rest) ?? (predefined !== undefined ? rest.slice(0, getAILength(prefix)) : undefined);
+    if (!ai) return null;
+
+    const definition = findDefinition(ai);
+    const fixedLength = definition ? definition.length : predefined;
+    const body = rest.slice(ai.length);
+    let value: string;
+
+    if (fixedLength !== undefined) {
+      value = body.slice(0, fixedLength);
+      if (value.length !== fixedLength) return null;
+      rest = body.slice(fixedLength);
+    } else {
+      const end = body.indexOf(GS);
+      value = end === -1 ? body : body.slice(0, end);
+      rest = end === -1 ? '' : body.slice(end);
+    }
+    // Some encoders still emit FNC1 after fixed-length fields.
+    rest = rest.replace(new RegExp(`^${GS}+`), '');
+    elements.push(toElement(ai, value));
+  }
+  return elements.length > 0 ? elements : null;
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseDigitalLink = (code: string): GS1Element[] | null => {
+  let url: URL;
+  try {
+    url = new URL(code.trim());
+  } catch {
+    return null;
+  }
+  const segments = url.pathname.split('/').filter(Boolean).map(safeDecode);
+  const start = segments.findIndex((segment) => segment === '01' || segment === 'gtin');
+  if (start === -1) return null;
+
+  const elements: GS1Element[] = [];
+  for (let i = start; i + 1 < segments.length; i += 2) {
+    const ai = DIGITAL_LINK_KEYS[segments[i]] ?? segments[i];
+    if (!/^\d{2,4}$/.test(ai)) break;
+    let value = segments[i + 1];
+    // Digital Link allows GTIN-8/12/13; the element string form is GTIN-14.
+    if (ai === '01') value = value.padStart(14, '0');
+    elements.push(toElement(ai, value));
+  }
+
+  url.searchParams.forEach((value, key) => {
+    const ai = DIGITAL_LINK_KEYS[key] ?? key;
+    if (/^\d{2,4}$/.test(ai)) elements.push(toElement(ai, value));
+  });
+
+  return elements.length > 0 ? elements : null;
+};
+
+/**
+ * Splits a GS1 element string or Digital Link URL into its Application
+ * Identifiers. Returns null when the code is not valid GS1 data.
+ */
+export const parseGS1 = (code: string): GS1Data | null => {
+  let elements: GS1Element[] | null = null;
+  let source: GS1Data['source'] = 'elementString';
+
+  if (isGS1DigitalLink(code)) {
+    elements = parseDigitalLink(code);
+    source = 'digitalLink';
+  } else if (isGS1ElementString(code)) {
+    const data = code.trim().replace(SYMBOLOGY_PREFIX, '');
+    elements = data.startsWith('(') ? parseBracketed(data) : parseRaw(data);
+  }
+  if (!elements) return null;
+
+  const gtin = elements.find((element) => element.ai === '01')?.value;
+  return {
+    source,
+    elements,
+    gtin,
+    isGtinValid: gtin ? isValidGtin(gtin) : undefined,
+  };
+};
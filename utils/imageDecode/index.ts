@@ -0,0 +1,376 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  ImageManipulator,
+  SaveFormat,
+  type ImageManipulatorContext,
+  type ImageRef,
+} from 'expo-image-manipulator';
+import { decode as decodePng, encode as encodePng } from 'fast-png';
+import { DecodedCode, decodeQR } from '@/utils/decodeQR';
+
+// --- Types ---
+
+// Rectangle in pixels of the decoded image.
+export interface CodeFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LocatedCode extends DecodedCode {
+  // Approximate: where the tiles that read the code overlap. `null` when the
+  // tiles did not run or none read the code on its own.
+  frame: CodeFrame | null;
+}
+
+export interface DecodedImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageDecodeResult {
+  image: DecodedImage;
+  codes: LocatedCode[];
+}
+
+// --- Constants ---
+
+// Large screenshots are scaled down once; every pass works on that copy.
+const MAX_IMAGE_SIDE = 2048;
+
+// 3x3 tiles, each half the image wide and high, overlapping by half a tile,
+// so any code smaller than a quarter of the image fits wholly in one.
+const TILE_GRID = 3;
+
+// Tiles are scaled up to this so small codes get enough pixels per module.
+const MIN_TILE_SIDE = 1024;
+
+// Slanted 1D barcodes are often only read once straightened.
+const RETRY_ROTATIONS = [90, 45, -45];
+
+const ENHANCE_MAX_SIDE = 1024;
+
+// Histogram tails ignored when stretching contrast.
+const CONTRAST_CLIP = 0.02;
+
+// --- Image helpers ---
+
+/** Saves the context to the cache and releases its native image memory. */
+const render = async (
+  context: ImageManipulatorContext,
+  format: SaveFormat = SaveFormat.JPEG
+): Promise<DecodedImage & { base64?: string }> => {
+  let ref: ImageRef | null = null;
+  try {
+    ref = await context.renderAsync();
+    const saved = await ref.saveAsync({
+      format,
+      compress: 0.95,
+      base64: format === SaveFormat.PNG,
+    });
+    return {
+      uri: saved.uri,
+      width: saved.width,
+      height: saved.height,
+      base64: saved.base64,
+    };
+  } finally {
+    ref?.release();
+    context.release();
+  }
+};
+
+const deleteRender = (image: DecodedImage) =>
+  FileSystem.deleteAsync(image.uri, { idempotent: true });
+
+/** Renders a temporary copy, decodes it and deletes it again. */
+const decodeRender = async (
+  context: ImageManipulatorContext
+): Promise<DecodedCode[]> => {
+  const rendered = await render(context);
+  try {
+    return await decodeQR(rendered.uri);
+  } finally {
+    await deleteRender(rendered);
+  }
+};
+
+const measureImage = async (uri: string): Promise<DecodedImage> => {
+  const context = ImageManipulator.manipulate(uri);
+  let ref: ImageRef | null = null;
+  try {
+    ref = await context.renderAsync();
+    return { uri, width: ref.width, height: ref.height };
+  } finally {
+    ref?.release();
+    context.release();
+  }
+};
+
+/**
+ * Returns the gallery image itself when it is small enough, otherwise a
+ * downscaled copy in the cache that the caller deletes when done.
+ */
+const prepareImage = async (original: DecodedImage): Promise<DecodedImage> => {
+  const longestSide = Math.max(original.width, original.height);
+  if (longestSide <= MAX_IMAGE_SIDE) return original;
+
+  const scale = MAX_IMAGE_SIDE / longestSide;
+  return render(
+    ImageManipulator.manipulate(original.uri).resize({
+      width: Math.round(original.width * scale),
+    })
+  );
+};
+
+const getTiles = ({ width, height }: DecodedImage): CodeFrame[] => {
+  const tileWidth = Math.floor((width * 2) / (TILE_GRID + 1));
+  const tileHeight = Math.floor((height * 2) / (TILE_GRID + 1));
+  const tiles: CodeFrame[] = [];
+
+  for (let row = 0; row < TILE_GRID; row++) {
+    for (let column = 0; column < TILE_GRID; column++) {
+      tiles.push({
+        x: Math.min(Math.round((column * tileWidth) / 2), width - tileWidth),
+        y: Math.min(Math.round((row * tileHeight) / 2), height - tileHeight),
+        width: tileWidth,
+        height: tileHeight,
+      });
+    }
+  }
+  return tiles;
+};
+
+const intersectFrames = (a: CodeFrame, b: CodeFrame): CodeFrame | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return right > x && bottom > y
+    ? { x, y, width: right - x, height: bottom - y }
+    : null;
+};
+
+const scaleFrame = (frame: CodeFrame, scale: number): CodeFrame => ({
+  x: Math.round(frame.x * scale),
+  y: Math.round(frame.y * scale),
+  width: Math.round(frame.width * scale),
+  height: Math.round(frame.height * scale),
+});
+
+// --- Passes ---
+
+/**
+ * Scans each tile on its own. A code read from several overlapping tiles is
+ * placed where those tiles intersect.
+ */
+const decodeTiles = async (image: DecodedImage): Promise<LocatedCode[]> => {
+  const located = new Map<string, LocatedCode>();
+
+  // One tile at a time; decoding them in parallel spikes memory on large images.
+  for (const tile of getTiles(image)) {
+    let context = ImageManipulator.manipulate(image.uri).crop({
+      originX: tile.x,
+      originY: tile.y,
+      width: tile.width,
+      height: tile.height,
+    });
+    if (Math.max(tile.width, tile.height) < MIN_TILE_SIDE) {
+      const scale = MIN_TILE_SIDE / Math.max(tile.width, tile.height);
+      context = context.resize({ width: Math.round(tile.width * scale) });
+    }
+
+    for (const code of await decodeRender(context)) {
+      const existing = located.get(code.value);
+      const frame = existing?.frame
+        ? intersectFrames(existing.frame, tile) ?? existing.frame
+        : tile;
+      located.set(code.value, { ...code, frame });
+    }
+  }
+
+  return [...located.values()];
+};
+
+const decodeRotations = async (image: DecodedImage): Promise<DecodedCode[]> => {
+  for (const degrees of RETRY_ROTATIONS) {
+    const codes = await decodeRender(
+      ImageManipulator.manipulate(image.uri).rotate(degrees)
+    );
+    if (codes.length > 0) return codes;
+  }
+  return [];
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so String.fromCharCode stays under the argument limit.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Grayscale copy with the luminance histogram stretched to the full range,
+ * which brings out faded receipts and low-contrast screenshots.
+ */
+const enhanceContrast = async (
+  image: DecodedImage
+): Promise<DecodedImage | null> => {
+  const scale = Math.min(1, ENHANCE_MAX_SIDE / Math.max(image.width, image.height));
+  const source = await render(
+    ImageManipulator.manipulate(image.uri).resize({
+      width: Math.round(image.width * scale),
+    }),
+    SaveFormat.PNG
+  );
+  await deleteRender(source);
+  if (!source.base64 || !FileSystem.cacheDirectory) return null;
+
+  const png = decodePng(base64ToBytes(source.base64));
+  const { width, height, channels, data } = png;
+  const maxValue = png.depth === 16 ? 65535 : 255;
+  const pixelCount = width * height;
+  const gray = new Uint8Array(pixelCount);
+  const histogram = new Array<number>(256).fill(0);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * channels;
+    const luminance =
+      channels >= 3
+        ? 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+        : data[offset];
+    const value = Math.round((luminance / maxValue) * 255);
+    gray[i] = value;
+    histogram[value]++;
+  }
+
+  let low = 0;
+  let high = 255;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= pixelCount * CONTRAST_CLIP; low++) {
+    seen += histogram[low];
+  }
+  for (let seen = 0; high > 0 && seen + histogram[high] <= pixelCount * CONTRAST_CLIP; high--) {
+    seen += histogram[high];
+  }
+  if (high <= low) return null;
+
+  const range = high - low;
+  for (let i = 0; i < pixelCount; i++) {
+    gray[i] = Math.max(0, Math.min(255, Math.round(((gray[i] - low) * 255) / range)));
+  }
+
+  const uri = `${FileSystem.cacheDirectory}gallery-enhanced-${Date.now()}.png`;
+  await FileSystem.writeAsStringAsync(
+    uri,
+    bytesToBase64(encodePng({ width, height, data: gray, channels: 1, depth: 8 })),
+    { encoding: FileSystem.EncodingType.Base64 }
+  );
+  return { uri, width, height };
+};
+
+const unlocated = (codes: DecodedCode[]): LocatedCode[] =>
+  codes.map((code) => ({ ...code, frame: null }));
+
+/**
+ * Places codes found by a whole-image pass using the tile pass, and adds
+ * codes only the tiles could read.
+ */
+const locateCodes = (
+  codes: DecodedCode[],
+  tiled: LocatedCode[]
+): LocatedCode[] => {
+  const framesByValue = new Map(tiled.map((code) => [code.value, code.frame]));
+  const located = codes.map((code) => ({
+    ...code,
+    frame: framesByValue.get(code.value) ?? null,
+  }));
+  const extra = tiled.filter(
+    (code) => !codes.some(({ value }) => value === code.value)
+  );
+  return [...located, ...extra];
+};
+
+/**
+ * Whole-image pass, with the tiles only when it read nothing or more than one
+ * code. A single code needs no locating, so it skips the nine tile decodes.
+ */
+const decodeWithTiles = async (image: DecodedImage): Promise<LocatedCode[]> => {
+  const direct = await decodeQR(image.uri);
+  if (direct.length === 1) return unlocated(direct);
+  return locateCodes(direct, await decodeTiles(image));
+};
+
+/** Runs the passes on the working copy; frames are in its pixels. */
+const decodePasses = async (image: DecodedImage): Promise<LocatedCode[]> => {
+  const located = await decodeWithTiles(image);
+  if (located.length > 0) return located;
+
+  const rotated = await decodeRotations(image);
+  if (rotated.length > 0) return unlocated(rotated);
+
+  const enhanced = await enhanceContrast(image);
+  if (!enhanced) return [];
+
+  try {
+    const scale = image.width / enhanced.width;
+    return (await decodeWithTiles(enhanced)).map((code) => ({
+      ...code,
+      frame: code.frame && scaleFrame(code.frame, scale),
+    }));
+  } finally {
+    await deleteRender(enhanced);
+  }
+};
+
+// --- Public API ---
+
+/**
+ * Reads every code in a gallery image. Passes run from cheapest to most
+ * expensive and stop at the first that finds something: the whole image,
+ * overlapping tiles for small codes, rotations, then a contrast-boosted
+ * grayscale copy. When the whole image reads a single code the tiles are
+ * skipped and the code comes back unlocated; with several codes the tiles
+ * run to give each an approximate frame for the chooser. Every copy rendered
+ * on the way is deleted, so frames refer to the original image.
+ */
+export const decodeImage = async (uri: string): Promise<ImageDecodeResult> => {
+  let image: DecodedImage | null = null;
+
+  try {
+    image = await measureImage(uri);
+    const working = await prepareImage(image);
+    try {
+      const scale = image.width / working.width;
+      const codes = await decodePasses(working);
+      return {
+        image,
+        codes: codes.map((code) => ({
+          ...code,
+          frame: code.frame && scaleFrame(code.frame, scale),
+        })),
+      };
+    } finally {
+      if (working !== image) await deleteRender(working);
+    }
+  } catch (error) {
+    console.error('Error decoding gallery image:', error);
+    // Without the manipulator we can still try the plain ML Kit pass.
+    return {
+      image: image ?? { uri, width: 0, height: 0 },
+      codes: unlocated(await decodeQR(uri)),
+    };
+  }
+};
@@ -0,0 +1,400 @@
+import {
+  PAYNOW_GUID,
+  PROMPTPAY_BILL_GUID,
+  PROMPTPAY_TRANSFER_GUID,
+  findMerchantAccount,
+  getCurrencyAlphaCode,
+  parseEMVQR,
+} from '@/utils/emvQR';
+
+// --- Types ---
+
+export type PaymentScheme =
+  | 'bitcoin'
+  | 'ethereum'
+  | 'sepa'
+  | 'swissQr'
+  | 'paynow'
+  | 'promptpay';
+
+export type PaymentAccountType =
+  | 'address'
+  | 'iban'
+  | 'mobile'
+  | 'uen'
+  | 'nationalId'
+  | 'eWallet'
+  | 'billerId';
+
+export interface PaymentRequest {
+  scheme: PaymentScheme;
+  account: string; // Address, IBAN or proxy the money is sent to
+  accountType: PaymentAccountType;
+  beneficiary?: string;
+  beneficiaryAddress?: string;
+  bic?: string;
+  amount?: string; // Decimal string in `currency` units
+  currency?: string; // Alpha code, e.g. "EUR" or "BTC"
+  reference?: string;
+  message?: string;
+  network?: string; // Ethereum chain name
+  tokenContract?: string; // ERC-20 contract for token transfers
+  tokenAmount?: string; // Raw token units; the URI does not carry decimals
+  isAmountEditable?: boolean;
+}
+
+// --- Constants ---
+
+const EPC_HEADER = 'BCD';
+const SWISS_QR_HEADER = 'SPC';
+
+const BIP21_PARAMS = new Set(['amount', 'label', 'message', 'lightning']);
+
+const ETHEREUM_CHAINS: Record<string, { name: string; currency: string }> = {
+  '1': { name: 'Ethereum', currency: 'ETH' },
+  '10': { name: 'Optimism', currency: 'ETH' },
+  '56': { name: 'BNB Smart Chain', currency: 'BNB' },
+  '137': { name: 'Polygon', currency: 'POL' },
+  '8453': { name: 'Base', currency: 'ETH' },
+  '42161': { name: 'Arbitrum One', currency: 'ETH' },
+  '11155111': { name: 'Sepolia', currency: 'ETH' },
+};
+
+const WEI_DECIMALS = 18;
+
+// --- Shared helpers ---
+
+const splitLines = (code: string): string[] =>
+  code.split(/\r\n|\r|\n/).map((line) => line.trim());
+
+const emptyToUndefined = (value?: string): string | undefined => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+};
+
+const isDecimalAmount = (value: string): boolean => /^\d+(\.\d+)?$/.test(value);
+
+const parseQuery = (query: string): Record<string, string> | null => {
+  const params: Record<string, string> = {};
+  if (!query) return params;
+
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const [key, ...rest] = pair.split('=');
+    try {
+      params[decodeURIComponent(key)] = decodeURIComponent(
+        rest.join('=').replace(/\+/g, ' ')
+      );
+    } catch {
+      return null;
+    }
+  }
+  return params;
+};
+
+/**
+ * ISO 13616 check: move the country code and check digits to the end, map
+ * letters to numbers and verify the remainder mod 97 is 1.
+ */
+export const isValidIban = (iban: string): boolean => {
+  const normalized = iban.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(normalized)) return false;
+
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+/** Groups an IBAN in blocks of four, e.g. "DE89 3704 0044 0532 0130 00". */
+export const formatIban = (iban: string): string =>
+  iban.replace(/\s+/g, '').replace(/(.{4})(?=.)/g, '$1 ');
+
+/**
+ * Turns an EIP-681 number ("2014000000000000000", "2.014e18") into a plain
+ * integer string, or null when it is not a whole number.
+ */
+const toIntegerString = (value: string): string | null => {
+  const match = value.match(/^(\d+)(?:\.(\d+))?(?:e(\d+))?$/i);
+  if (!match) return null;
+
+  const [, integerPart, fractionPart = '', exponent = '0'] = match;
+  const shift = Number(exponent) - fractionPart.length;
+  if (shift < 0) {
+    const kept = fractionPart.slice(0, fractionPart.length + shift);
+    const dropped = fractionPart.slice(fractionPart.length + shift);
+    if (/[1-9]/.test(dropped)) return null;
+    return (integerPart + kept).replace(/^0+(?=\d)/, '');
+  }
+  return (integerPart + fractionPart + '0'.repeat(shift)).replace(/^0+(?=\d)/, '');
+};
+
+const formatUnits = (integer: string, decimals: number): string => {
+  const padded = integer.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+};
+
+// --- Crypto URIs ---
+
+const isBitcoinAddress = (address: string): boolean =>
+  /^[13mn2][a-km-zA-HJ-NP-Z1-9]{25,34}$/.test(address) ||
+  /^(bc|tb)1[ac-hj-np-z02-9]{8,87}$/.test(address.toLowerCase());
+
+/** BIP21: bitcoin:<address>[?amount=<btc>][&label=][&message=] */
+export const parseBitcoinUri = (code: string): PaymentRequest | null => {
+  const match = code.trim().match(/^bitcoin:([^?]*)(?:\?(.*))?$/i);
+  if (!match) return null;
+
+  const address = match[1];
+  const params = parseQuery(match[2] ?? '');
+  if (!params || !isBitcoinAddress(address)) return null;
+
+  // Unknown required parameters mean we cannot honour the request.
+  if (Object.keys(params).some((key) => key.startsWith('req-') && !BIP21_PARAMS.has(key.slice(4)))) {
+    return null;
+  }
+
+  const amount = emptyToUndefined(params.amount);
+  if (amount && !isDecimalAmount(amount)) return null;
+
+  return {
+    scheme: 'bitcoin',
+    account: address,
+    accountType: 'address',
+    beneficiary: emptyToUndefined(params.label),
+    amount,
+    currency: 'BTC',
+    message: emptyToUndefined(params.message),
+  };
+};
+
+/**
+ * EIP-681: ethereum:[pay-]<target>[@chainId][/function][?params]. Plain
+ * transfers carry `value` in wei; ERC-20 transfers call `transfer` on the
+ * token contract with `address` and `uint256`.
+ */
+export const parseEthereumUri = (code: string): PaymentRequest | null => {
+  const match = code
+    .trim()
+    .match(/^ethereum:(?:pay-)?([^@/?]+)(?:@(\d+))?(?:\/([^?]+))?(?:\?(.*))?$/i);
+  if (!match) return null;
+
+  const [, target, chainId, functionName, query] = match;
+  const params = parseQuery(query ?? '');
+  if (!params) return null;
+
+  const chain = ETHEREUM_CHAINS[chainId ?? '1'];
+  const network = chain?.name ?? `Chain ${chainId}`;
+
+  if (functionName) {
+    if (functionName !== 'transfer' || !params.address) return null;
+    const tokenAmount = params.uint256 ? toIntegerString(params.uint256) : undefined;
+    return {
+      scheme: 'ethereum',
+      account: params.address,
+      accountType: 'address',
+      network,
+      tokenContract: target,
+      tokenAmount: tokenAmount ?? undefined,
+    };
+  }
+
+  const wei = params.value ? toIntegerString(params.value) : undefined;
+  if (wei === null) return null;
+
+  return {
+    scheme: 'ethereum',
+    account: target,
+    accountType: 'address',
+    network,
+    amount: wei ? formatUnits(wei, WEI_DECIMALS) : undefined,
+    currency: chain?.currency,
+  };
+};
+
+// --- Bank transfer forms ---
+
+/**
+ * EPC069-12 (SEPA credit transfer "GiroCode"): one field per line, starting
+ * with the BCD service tag.
+ */
+export const parseEPCCode = (code: string): PaymentRequest | null => {
+  const lines = splitLines(code);
+  if (lines[0] !== EPC_HEADER || lines.length < 7) return null;
+
+  const [, version, , identification, bic, name, iban, amountField, , structuredRef, text] = lines;
+  if (!/^00[12]$/.test(version) || !/^(SCT|INST)$/.test(identification)) return null;
+  if (!name || !isValidIban(iban)) return null;
+
+  let amount: string | undefined;
+  if (amountField) {
+    const amountMatch = amountField.match(/^EUR(\d+(?:\.\d{1,2})?)$/);
+    if (!amountMatch) return null;
+    amount = amountMatch[1];
+  }
+
+  return {
+    scheme: 'sepa',
+    account: iban.replace(/\s+/g, '').toUpperCase(),
+    accountType: 'iban',
+    beneficiary: name,
+    bic: emptyToUndefined(bic),
+    amount,
+    currency: 'EUR',
+    reference: emptyToUndefined(structuredRef),
+    message: emptyToUndefined(text),
+  };
+};
+
+/**
+ * Swiss QR-bill (SPC, version 02xx). Fields are positional; unused ones are
+ * present but empty.
+ */
+export const parseSwissQRBill = (code: string): PaymentRequest | null => {
+  const lines = splitLines(code);
+  if (lines[0] !== SWISS_QR_HEADER || lines.length < 31) return null;
+  if (!/^02\d{2}$/.test(lines[1]) || !isValidIban(lines[3])) return null;
+
+  const name = lines[5];
+  if (!name) return null;
+
+  // Structured (S) addresses split street/number and postcode/town; combined
+  // (K) ones carry two free-form lines.
+  const addressType = lines[4];
+  const [line1, line2, postalCode, town, country] = lines.slice(6, 11);
+  const locality = [postalCode, town].filter(Boolean).join(' ');
+  const beneficiaryAddress =
+    addressType === 'K'
+      ? [line1, line2, country]
+      : [[line1, line2].filter(Boolean).join(' '), locality, country];
+
+  const amount = emptyToUndefined(lines[18]);
+  if (amount && !isDecimalAmount(amount)) return null;
+
+  return {
+    scheme: 'swissQr',
+    account: lines[3].replace(/\s+/g, '').toUpperCase(),
+    accountType: 'iban',
+    beneficiary: name,
+    beneficiaryAddress: emptyToUndefined(beneficiaryAddress.filter(Boolean).join(', ')),
+    amount,
+    currency: emptyToUndefined(lines[19]),
+    reference: lines[27] !== 'NON' ? emptyToUndefined(lines[28]) : undefined,
+    message: emptyToUndefined(lines[29]),
+  };
+};
+
+// --- EMV variants ---
+
+const PAYNOW_PROXY_TYPES: Record<string, PaymentAccountType> = {
+  '0': 'mobile',
+  '2': 'uen',
+};
+
+const PROMPTPAY_PROXY_TYPES: Record<string, PaymentAccountType> = {
+  '01': 'mobile',
+  '02': 'nationalId',
+  '03': 'eWallet',
+};
+
+/** PromptPay stores mobiles as 0066XXXXXXXXX; show them the way Thais dial. */
+const formatPromptPayMobile = (value: string): string =>
+  value.replace(/^0066/, '0');
+
+export const isInternationalEMVCode = (code: string): boolean =>
+  code.startsWith('000201') &&
+  [PAYNOW_GUID, PROMPTPAY_TRANSFER_GUID, PROMPTPAY_BILL_GUID].some((guid) =>
+    code.toUpperCase().includes(guid)
+  );
+
+/**
+ * PayNow (Singapore) and PromptPay (Thailand) codes: EMVCo payloads whose
+ * merchant account template identifies a proxy instead of a bank account.
+ */
+export const parseInternationalEMV = (code: string): PaymentRequest | null => {
+  const parsed = parseEMVQR(code);
+  const { additionalData } = parsed;
+  const common = {
+    beneficiary: emptyToUndefined(parsed.merchantName),
+    amount: emptyToUndefined(parsed.amount),
+    currency: getCurrencyAlphaCode(parsed.currency),
+    message: emptyToUndefined(additionalData?.purpose),
+  };
+
+  const payNow = findMerchantAccount(parsed, PAYNOW_GUID);
+  if (payNow) {
+    const account = payNow.fields['02'];
+    if (!account) return null;
+    return {
+      ...common,
+      scheme: 'paynow',
+      account,
+      accountType: PAYNOW_PROXY_TYPES[payNow.fields['01']] ?? 'mobile',
+      reference: emptyToUndefined(additionalData?.billNumber ?? additionalData?.referenceLabel),
+      isAmountEditable: payNow.fields['03'] !== '0',
+    };
+  }
+
+  const transfer = findMerchantAccount(parsed, PROMPTPAY_TRANSFER_GUID);
+  if (transfer) {
+    const tag = Object.keys(PROMPTPAY_PROXY_TYPES).find((key) => transfer.fields[key]);
+    if (!tag) return null;
+    const accountType = PROMPTPAY_PROXY_TYPES[tag];
+    const value = transfer.fields[tag];
+    return {
+      ...common,
+      scheme: 'promptpay',
+      account: accountType === 'mobile' ? formatPromptPayMobile(value) : value,
+      accountType,
+      reference: emptyToUndefined(additionalData?.billNumber ?? additionalData?.referenceLabel),
+    };
+  }
+
+  const bill = findMerchantAccount(parsed, PROMPTPAY_BILL_GUID);
+  if (bill?.fields['01']) {
+    const references = [bill.fields['02'], bill.fields['03']].filter(Boolean);
+    return {
+      ...common,
+      scheme: 'promptpay',
+      account: bill.fields['01'],
+      accountType: 'billerId',
+      reference: emptyToUndefined(references.join(' / ')),
+    };
+  }
+
+  return null;
+};
+
+// --- Public API ---
+
+export const isPaymentCode = (code: string): boolean => {
+  const trimmed = code.trim();
+  return (
+    /^(bitcoin|ethereum):/i.test(trimmed) ||
+    trimmed.startsWith(`${EPC_HEADER}\n`) ||
+    trimmed.startsWith(`${EPC_HEADER}\r`) ||
+    trimmed.startsWith(`${SWISS_QR_HEADER}\n`) ||
+    trimmed.startsWith(`${SWISS_QR_HEADER}\r`) ||
+    isInternationalEMVCode(trimmed)
+  );
+};
+
+export const parsePaymentCode = (code: string): PaymentRequest | null => {
+  const trimmed = code.trim();
+  if (/^bitcoin:/i.test(trimmed)) return parseBitcoinUri(trimmed);
+  if (/^ethereum:/i.test(trimmed)) return parseEthereumUri(trimmed);
+  if (trimmed.startsWith(EPC_HEADER)) return parseEPCCode(code);
+  if (trimmed.startsWith(SWISS_QR_HEADER)) return parseSwissQRBill(code);
+  return parseInternationalEMV(trimmed);
+};
+
+/** Human-readable account: IBANs grouped, everything else as scanned. */
+export const formatPaymentAccount = (payment: PaymentRequest): string =>
+  payment.accountType === 'iban' ? formatIban(payment.account) : payment.account;
@@ -1,4 +1,29 @@
 import { MaterialIcons } from '@expo/vector-icons';
+import { EMVParseError, findBankAccount, parseEMVQR } from '@/utils/emvQR';
+import { WifiNetwork, isWifiCode, parseWifi } from '@/utils/wifiQR';
+import { ContactInfo, isContactCode, parseContact } from '@/utils/contactQR';
+import { CalendarEvent, isCalendarEvent, parseCalendarEvent } from '@/utils/calendarQR';
+import {
+  EmailAction,
+  GeoAction,
+  PhoneAction,
+  SMSAction,
+  buildEmailUrl,
+  buildMapsUrl,
+  buildPhoneUrl,
+  buildSMSUrl,
+  isEmailCode,
+  isGeoCode,
+  isPhoneCode,
+  isSMSCode,
+  parseEmail,
+  parseGeo,
+  parsePhone,
+  parseSMS,
+} from '@/utils/actionQR';
+import { GS1Data, isGS1Code, parseGS1 } from '@/utils/gs1';
+import { BoardingPass, isBoardingPassCode, parseBoardingPass } from '@/utils/boardingPass';
+import { PaymentRequest, isPaymentCode, parsePaymentCode } from '@/utils/paymentQR';
 
 type MaterialIconsIconName = keyof typeof MaterialIcons.glyphMap;
 
@@ -9,12 +34,10 @@ export interface BaseScanResult {
   rawCodeValue: string;
 }
 
-export interface WifiScanResult extends BaseScanResult {
+// ssid, password, security, isWEP, isHidden and enterprise come from the
+// shared Wi-Fi parser.
+export interface WifiScanResult extends BaseScanResult, WifiNetwork {
   codeType: 'WIFI';
-  ssid: string;
-  password: string; // Changed from 'pass' to 'password' for clarity
-  isWEP: boolean;    // No longer optional.  It's always a boolean.
-  isHidden: boolean; // Added isHidden
 }
 
 export interface URLScanResult extends BaseScanResult {
@@ -28,12 +51,70 @@ export interface VietQRScanResult extends BaseScanResult {
   provider?: string;
   merchantNumber?: string;
   merchantName?: string;
+  merchantCity?: string;
+  pointOfInitiation?: 'static' | 'dynamic';
+  currency?: string;
+  amount?: string;
+  countryCode?: string;
+  message?: string;
+  isCrcValid: boolean;
+  parseErrors: EMVParseError[];
   additionalData?: {
     billNumber?: string;
     reference?: string;
+    mobileNumber?: string;
+    storeLabel?: string;
+    terminalLabel?: string;
   };
 }
 
+export interface ContactScanResult extends BaseScanResult {
+  codeType: 'contact';
+  contact: ContactInfo;
+}
+
+export interface EventScanResult extends BaseScanResult {
+  codeType: 'event';
+  event: CalendarEvent;
+}
+
+export interface BoardingPassScanResult extends BaseScanResult {
+  codeType: 'boardingPass';
+  boardingPass: BoardingPass;
+}
+
+export interface GS1ScanResult extends BaseScanResult {
+  codeType: 'gs1';
+  gs1: GS1Data;
+}
+
+// Crypto URIs and foreign payment forms (SEPA, Swiss QR-bill, PayNow,
+// PromptPay) that do not map onto a Vietnamese bank.
+export interface PaymentScanResult extends BaseScanResult {
+  codeType: 'payment';
+  payment: PaymentRequest;
+}
+
+export interface PhoneScanResult extends BaseScanResult {
+  codeType: 'phone';
+  phone: PhoneAction;
+}
+
+export interface SMSScanResult extends BaseScanResult {
+  codeType: 'sms';
+  sms: SMSAction;
+}
+
+export interface EmailScanResult extends BaseScanResult {
+  codeType: 'email';
+  email: EmailAction;
+}
+
+export interface GeoScanResult extends BaseScanResult {
+  codeType: 'geo';
+  geo: GeoAction;
+}
+
 export interface AlphanumericScanResult extends BaseScanResult {
   codeType: 'alphanumeric';
 }
@@ -46,22 +127,94 @@ export type ScanResult =
   | WifiScanResult
   | URLScanResult
   | VietQRScanResult
+  | ContactScanResult
+  | EventScanResult
+  | BoardingPassScanResult
+  | GS1ScanResult
+  | PaymentScanResult
+  | PhoneScanResult
+  | SMSScanResult
+  | EmailScanResult
+  | GeoScanResult
   | AlphanumericScanResult
   | UnknownScanResult;
 
+// Codes that hand off to another app (dialer, messages, mail, maps).
+export type ActionScanResult =
+  | PhoneScanResult
+  | SMSScanResult
+  | EmailScanResult
+  | GeoScanResult;
+
+// Results that open a detail sheet in the scan screen.
+export type DetailScanResult =
+  | ContactScanResult
+  | EventScanResult
+  | BoardingPassScanResult
+  | GS1ScanResult
+  | PaymentScanResult
+  | ActionScanResult;
+
+export const isActionScanResult = (
+  result: ScanResult
+): result is ActionScanResult =>
+  result.codeType === 'phone' ||
+  result.codeType === 'sms' ||
+  result.codeType === 'email' ||
+  result.codeType === 'geo';
+
+/**
+ * URL that hands an action code to the dialer, messages, mail or maps app.
+ */
+export const buildActionUrl = (result: ActionScanResult): string => {
+  switch (result.codeType) {
+    case 'phone':
+      return buildPhoneUrl(result.phone);
+    case 'sms':
+      return buildSMSUrl(result.sms);
+    case 'email':
+      return buildEmailUrl(result.email);
+    case 'geo':
+      return buildMapsUrl(result.geo);
+  }
+};
+
 export interface ExtractionOptions {
   codeFormat?: number;
   t?: (key: string) => string; // For internationalization, optional
   setIsConnecting?: (connecting: boolean) => void;  // For Wifi connection, optional - Consider removing if unused
 }
 
+/**
+ * How sure a pattern is that a payload belongs to it. Prefixes defined by a
+ * spec ("WIFI:", "BEGIN:VCARD") are exact; looser shapes score lower so a
+ * more specific pattern wins when both match.
+ */
+export const MATCH_CONFIDENCE = {
+  none: 0,
+  fallback: 0.1,
+  likely: 0.6,
+  strong: 0.8,
+  exact: 1,
+} as const;
+
 export interface ScanPattern {
-  type: string;
+  id: string;
   iconName: MaterialIconsIconName;
-  match: (code: string) => boolean;
-  extract: (code: string, options: ExtractionOptions) => ScanResult;
+  // Breaks ties between equally confident matches; higher runs first.
+  priority: number;
+  // Confidence between 0 and 1; 0 means the pattern does not apply.
+  match: (code: string) => number;
+  // Null when the payload looked right but could not be parsed, so the
+  // next best match gets a chance.
+  extract: (code: string, options: ExtractionOptions) => ScanResult | null;
 }
 
+const matchWhen =
+  (test: (code: string) => boolean, confidence: number) =>
+  (code: string): number =>
+    test(code) ? confidence : MATCH_CONFIDENCE.none;
+
 // Consider using an enum for providers:
 export enum ProviderId {
   MOMO = 'MOMO',
@@ -91,27 +244,6 @@ export const PROVIDERS = {
   }
 } as const;
 
-export const parseEMVQR = (qrData: string) => {
-  const fields: { [key: string]: string } = {};
-  let position = 0;
-
-  while (position < qrData.length) {
-    try {
-      const id = qrData.substr(position, 2);
-      const length = parseInt(qrData.substr(position + 2, 2), 10); // Specify radix 10
-      if (isNaN(length)) break;
-      const value = qrData.substr(position + 4, length);
-      fields[id] = value;
-      position += 4 + length;
-    } catch (e) {
-      console.error('Error parsing EMV QR code field:', e);
-      break;
-    }
-  }
-
-  return fields;
-};
-
 export const detectProvider = (qrData: string, fields: { [key: string]: string }): string | undefined => {
     for (const provider of Object.values(PROVIDERS)) { // Iterate over provider objects directly
         if (provider.identifiers.some(id => qrData.includes(id))) {
@@ -132,72 +264,58 @@ export const detectProvider = (qrData: string, fields: { [key: string]: string }
 
     return undefined;
 };
-//extractBIN and extractBankMerchantNumber are redundant, if you're not using the bin from other provider, you should remove both.
-export const extractBIN = (merchantInfo: string): string => {
-  const binMatch = merchantInfo.match(/(?:27|38)\d{8}(\d{6})/);
-  if (binMatch) return binMatch[1];
 
-  const altBinMatch = merchantInfo.match(/\d{6}/);
-  return altBinMatch ? altBinMatch[0] : 'Unknown BIN';
-};
-
-export const extractMerchantName = (field62?: string): string | undefined => {
-  if (!field62) return undefined;
-
-  const nameMatch = field62.match(/08([^]+?)(?=\d{2}|$)/);
-  return nameMatch ? nameMatch[1].trim() : undefined;
-};
-
-export const extractBankMerchantNumber = (merchantInfo: string, bin: string): string | undefined => {
-  if (bin === 'Unknown BIN') return undefined;
-
-  const regex = new RegExp(`${bin}(\\d{6,})`);
-  const match = merchantInfo.match(regex);
-  return match ? match[1] : undefined;
-};
-
-export const extractField = (fieldData: string, fieldId: string): string | undefined => {
-  const regex = new RegExp(`${fieldId}([^]+?)(?=\\d{2}|$)`); // Improved regex
-  const match = fieldData.match(regex);
-  return match ? match[1].trim() : undefined;
-};
-
-
-export const SCAN_PATTERNS: ScanPattern[] = [
+const BUILT_IN_SCAN_PATTERNS: ScanPattern[] = [
   {
-    type: 'WIFI',
+    id: 'WIFI',
     iconName: 'wifi',
-    match: (code) => code.startsWith('WIFI:'),
+    priority: 90,
+    match: matchWhen(isWifiCode, MATCH_CONFIDENCE.exact),
     extract: (code, options) => {
-      // More robust Wi-Fi parsing, handling optional parameters and escaping:
-      const wifiRegex = /^WIFI:S:(?<ssid>[^;]*);T:(?<type>[^;]*);P:(?<password>[^;]*)(?:;H:(?<hidden>true|false))?;;$/;
-      const match = code.match(wifiRegex);
-
-      if (!match?.groups) {
-        return { // Return an unknown type if parsing fails
-            codeType: 'unknown',
-            iconName: 'help',
-            rawCodeValue: code
-        }
+      const network = parseWifi(code);
+
+      if (!network) {
+        return null;
       }
-      const { ssid, type, password, hidden } = match.groups;
 
       return {
         codeType: 'WIFI',
         iconName: 'wifi',
         codeFormat: options.codeFormat,
         rawCodeValue: code,
-        ssid: ssid || '', // Handle missing SSID
-        password: password || '', // Handle missing password
-        isWEP: (type?.toUpperCase() ?? '') === 'WEP',
-        isHidden: hidden === 'true', // Convert string to boolean, defaults to false
+        ...network,
+      };
+    },
+  },
+  {  // Outranks URL, so GS1 Digital Link URLs are read as product data
+    id: 'GS1',
+    iconName: 'inventory',
+    priority: 85,
+    match: matchWhen(isGS1Code, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const gs1 = parseGS1(code);
+
+      if (!gs1) {
+        return null;
+      }
+
+      return {
+        codeType: 'gs1',
+        iconName: 'inventory',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        gs1,
       };
     },
   },
   {
-    type: 'URL',
+    id: 'URL',
     iconName: 'explore',
-    match: (code) => code.startsWith('http://') || code.startsWith('https://'),
+    priority: 50,
+    match: matchWhen(
+      (code) => code.startsWith('http://') || code.startsWith('https://'),
+      MATCH_CONFIDENCE.strong
+    ),
     extract: (code, options) => ({
       codeType: 'URL',
       iconName: 'explore',
@@ -206,13 +324,39 @@ export const SCAN_PATTERNS: ScanPattern[] = [
       url: code, // No need to remove "https://" anymore
     }),
   },
+  {  // Outranks VietQR, which would also claim PayNow/PromptPay EMV payloads
+    id: 'Payment',
+    iconName: 'payments',
+    priority: 80,
+    match: matchWhen(isPaymentCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const payment = parsePaymentCode(code);
+
+      if (!payment) {
+        return null;
+      }
+
+      return {
+        codeType: 'payment',
+        iconName: 'payments',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        payment,
+      };
+    },
+  },
   {
-    type: 'VietQR',
+    id: 'VietQR',
     iconName: 'qr-code',
-    match: (code) => code.startsWith('0002010102'),
+    priority: 70,
+    match: matchWhen(
+      (code) => code.startsWith('0002010102'),
+      MATCH_CONFIDENCE.strong
+    ),
     extract: (code, options) => {
-      const fields = parseEMVQR(code);
-      const merchantInfo = fields['38'] || fields['27'] || '';
+      const parsed = parseEMVQR(code);
+      const { fields, additionalData } = parsed;
+      const bankAccount = findBankAccount(parsed);
       const provider = detectProvider(code, fields);
       const providerConfig = provider ? PROVIDERS[provider as keyof typeof PROVIDERS] : undefined;
 
@@ -220,22 +364,16 @@ export const SCAN_PATTERNS: ScanPattern[] = [
       let bin;
 
       if (providerConfig) {
-        merchantNumber = providerConfig.extractMerchantNumber(fields);
+        merchantNumber = providerConfig.extractMerchantNumber(fields) ?? bankAccount?.accountNumber;
         bin = providerConfig.bin;
       } else {
-        bin = extractBIN(merchantInfo);
-        merchantNumber = extractBankMerchantNumber(merchantInfo, bin);
+        bin = bankAccount?.bin;
+        merchantNumber = bankAccount?.accountNumber;
       }
 
-      const field62 = fields['62'];
-      const merchantName = extractMerchantName(field62);
-
-      const additionalData = field62
-        ? {
-          billNumber: extractField(field62, '01'),
-          reference: extractField(field62, '05'),
-        }
-        : undefined;
+      if (!parsed.isValid) {
+        console.warn('EMV QR parsed with errors:', parsed.errors);
+      }
 
       return {
         codeType: provider ? 'ewallet' : 'bank',
@@ -245,15 +383,174 @@ export const SCAN_PATTERNS: ScanPattern[] = [
         bin: bin || 'Unknown',
         provider: provider,
         merchantNumber: merchantNumber,
-        merchantName: merchantName,
-        additionalData: additionalData,
+        merchantName: parsed.merchantName,
+        merchantCity: parsed.merchantCity,
+        pointOfInitiation: parsed.pointOfInitiation,
+        currency: parsed.currency,
+        amount: parsed.amount,
+        countryCode: parsed.countryCode,
+        message: additionalData?.purpose,
+        isCrcValid: parsed.isCrcValid,
+        parseErrors: parsed.errors,
+        additionalData: additionalData
+          ? {
+            billNumber: additionalData.billNumber,
+            reference: additionalData.referenceLabel,
+            mobileNumber: additionalData.mobileNumber,
+            storeLabel: additionalData.storeLabel,
+            terminalLabel: additionalData.terminalLabel,
+          }
+          : undefined,
+      };
+    },
+  },
+  {
+    id: 'Contact',
+    iconName: 'contact-page',
+    priority: 60,
+    match: matchWhen(isContactCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const contact = parseContact(code);
+
+      if (!contact) {
+        return null;
+      }
+
+      return {
+        codeType: 'contact',
+        iconName: 'contact-page',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        contact,
+      };
+    },
+  },
+  {
+    id: 'Event',
+    iconName: 'event',
+    priority: 60,
+    match: matchWhen(isCalendarEvent, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const event = parseCalendarEvent(code);
+
+      if (!event) {
+        return null;
+      }
+
+      return {
+        codeType: 'event',
+        iconName: 'event',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        event,
+      };
+    },
+  },
+  {
+    id: 'BoardingPass',
+    iconName: 'flight',
+    priority: 60,
+    match: matchWhen(isBoardingPassCode, MATCH_CONFIDENCE.strong),
+    extract: (code, options) => {
+      const boardingPass = parseBoardingPass(code);
+
+      if (!boardingPass) {
+        return null;
+      }
+
+      return {
+        codeType: 'boardingPass',
+        iconName: 'flight',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        boardingPass,
       };
     },
   },
   {
-    type: 'Alphanumeric',
+    id: 'Phone',
+    iconName: 'phone',
+    priority: 40,
+    match: matchWhen(isPhoneCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const phone = parsePhone(code);
+      if (!phone) {
+        return null;
+      }
+      return {
+        codeType: 'phone',
+        iconName: 'phone',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        phone,
+      };
+    },
+  },
+  {
+    id: 'SMS',
+    iconName: 'sms',
+    priority: 40,
+    match: matchWhen(isSMSCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const sms = parseSMS(code);
+      if (!sms) {
+        return null;
+      }
+      return {
+        codeType: 'sms',
+        iconName: 'sms',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        sms,
+      };
+    },
+  },
+  {
+    id: 'Email',
+    iconName: 'email',
+    priority: 40,
+    match: matchWhen(isEmailCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const email = parseEmail(code);
+      if (!email) {
+        return null;
+      }
+      return {
+        codeType: 'email',
+        iconName: 'email',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        email,
+      };
+    },
+  },
+  {
+    id: 'Geo',
+    iconName: 'place',
+    priority: 40,
+    match: matchWhen(isGeoCode, MATCH_CONFIDENCE.exact),
+    extract: (code, options) => {
+      const geo = parseGeo(code);
+      if (!geo) {
+        return null;
+      }
+      return {
+        codeType: 'geo',
+        iconName: 'place',
+        codeFormat: options.codeFormat,
+        rawCodeValue: code,
+        geo,
+      };
+    },
+  },
+  {
+    id: 'Alphanumeric',
     iconName: 'text-fields',
-    match: (code) => /^[a-zA-Z0-9:; +]+$/.test(code), // Consider a broader regex if needed
+    priority: 0,
+    match: matchWhen(
+      (code) => /^[a-zA-Z0-9:; +]+$/.test(code),
+      MATCH_CONFIDENCE.fallback
+    ),
     extract: (code, options) => ({
       codeType: 'alphanumeric',
       iconName: 'text-fields',
@@ -261,36 +558,56 @@ export const SCAN_PATTERNS: ScanPattern[] = [
       rawCodeValue: code,
     }),
   },
-  {  // unknown type should always be the last
-    type: 'unknown',
-    iconName: 'help',
-    match: () => true, // Always matches as the last resort
-    extract: (code, options) => ({
-      codeType: 'unknown',
-      iconName: 'help',
-      rawCodeValue: code,
-    }),
-  },
 ];
 
-// This function is likely unnecessary now, as you can directly access SCAN_PATTERNS
-export const findPatternByType = (codeType: string): ScanPattern | undefined => {
-  return SCAN_PATTERNS.find(pattern => pattern.type === codeType);
+// --- Registry ---
+
+const scanPatterns = new Map<string, ScanPattern>();
+
+/**
+ * Adds a pattern, replacing any registered under the same id. Order of
+ * registration does not matter; `analyzeCode` ranks by confidence.
+ */
+export const registerScanPattern = (pattern: ScanPattern): void => {
+  scanPatterns.set(pattern.id, pattern);
+};
+
+export const unregisterScanPattern = (id: string): void => {
+  scanPatterns.delete(id);
 };
 
+export const getScanPattern = (id: string): ScanPattern | undefined =>
+  scanPatterns.get(id);
+
+/** Registered patterns, highest priority first. */
+export const getScanPatterns = (): ScanPattern[] =>
+  [...scanPatterns.values()].sort((a, b) => b.priority - a.priority);
+
+BUILT_IN_SCAN_PATTERNS.forEach(registerScanPattern);
+
+/**
+ * Runs every registered matcher and extracts with the most confident one,
+ * using priority to break ties. A pattern whose extractor rejects the
+ * payload hands over to the next candidate; when none is left the code is
+ * reported as unknown.
+ */
 export const analyzeCode = (
   codeMetadata: string,
   options: ExtractionOptions
 ): ScanResult => {
-  const pattern = SCAN_PATTERNS.find((p) => p.match(codeMetadata));
-
-  if (pattern) {
-    return pattern.extract(codeMetadata, options);
+  const candidates = getScanPatterns()
+    .map((pattern) => ({ pattern, confidence: pattern.match(codeMetadata) }))
+    .filter(({ confidence }) => confidence > MATCH_CONFIDENCE.none)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  for (const { pattern } of candidates) {
+    const result = pattern.extract(codeMetadata, options);
+    if (result) return result;
   }
-  // This should never happen, as the last pattern always match
+
   return {
     codeType: 'unknown',
     iconName: 'help',
     rawCodeValue: codeMetadata,
   } as UnknownScanResult;
-};
\ No newline at end of file
+};
@@ -95,6 +95,8 @@ const createDataManager = (primaryLocale: string = 'vi') => { // Use 'vi' as def
     bank: {},
     store: {},
     ewallet: {},
+    wifi: {},
+    flight: {},
     vietqr: {}, // Initialize vietqr section
   };
 
@@ -103,6 +105,8 @@ const createDataManager = (primaryLocale: string = 'vi') => { // Use 'vi' as def
     bank: new Map(),
     store: new Map(),
     ewallet: new Map(),
+    wifi: new Map(),
+    flight: new Map(),
     vietqr: new Map(), // Initialize vietqr section
   };
 
@@ -224,7 +228,7 @@ const createDataManager = (primaryLocale: string = 'vi') => { // Use 'vi' as def
   const initializeData = (): void => {
     const initStartTime = performance.now();
     // Process standard types from Datas.json
-    const dataTypes: DataType[] = ['bank', 'store', 'ewallet'];
+    const dataTypes: DataType[] = ['bank', 'store', 'ewallet', 'wifi', 'flight'];
     for (const type of dataTypes) {
       processDataItems(type);
     }
@@ -240,7 +244,7 @@ const createDataManager = (primaryLocale: string = 'vi') => { // Use 'vi' as def
   // --- Public Methods ---
 
   const getItemData = (code: string, type?: DataType): ItemDataWithType | null => {
-    const typesToSearch: DataType[] = type ? [type] : ['bank', 'store', 'ewallet', 'vietqr'];
+    const typesToSearch: DataType[] = type ? [type] : ['bank', 'store', 'ewallet', 'wifi', 'flight', 'vietqr'];
 
     for (const currentType of typesToSearch) {
       const itemData = dataByCode[currentType]?.[code];
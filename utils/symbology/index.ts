@@ -0,0 +1,428 @@
+import { toSVG } from 'bwip-js/generic';
+import { calculateGS1CheckDigit } from '@/utils/gs1';
+
+// --- Types ---
+
+export type Symbology =
+  | 'qr'
+  | 'aztec'
+  | 'pdf417'
+  | 'datamatrix'
+  | 'code128'
+  | 'code39'
+  | 'code93'
+  | 'ean8'
+  | 'ean13'
+  | 'upca'
+  | 'upce'
+  | 'itf'
+  | 'codabar';
+
+/**
+ * What `QRRecord.metadata_type` may hold. Cards saved before symbologies
+ * were tracked store "barcode", which was always drawn as Code 128.
+ */
+export type MetadataType = Symbology | 'barcode';
+
+export interface SymbologyDefinition {
+  label: string;
+  dimension: '1d' | '2d';
+  mlKitFormat: number; // Barcode.FORMAT_* as reported by ML Kit
+  mlKitName: string;
+  cameraTypes: string[]; // react-native-vision-camera code types
+  jsBarcodeFormat?: string; // react-native-barcode-svg format
+  bwipId?: string; // bwip-js encoder for 2D codes without an RN renderer
+}
+
+// --- Definitions ---
+
+export const SYMBOLOGIES: Record<Symbology, SymbologyDefinition> = {
+  qr: {
+    label: 'QR Code',
+    dimension: '2d',
+    mlKitFormat: 256,
+    mlKitName: 'QR_CODE',
+    cameraTypes: ['qr'],
+  },
+  aztec: {
+    label: 'Aztec',
+    dimension: '2d',
+    mlKitFormat: 4096,
+    mlKitName: 'AZTEC',
+    cameraTypes: ['aztec'],
+    bwipId: 'azteccode',
+  },
+  pdf417: {
+    label: 'PDF417',
+    dimension: '2d',
+    mlKitFormat: 2048,
+    mlKitName: 'PDF417',
+    cameraTypes: ['pdf-417'],
+    bwipId: 'pdf417',
+  },
+  datamatrix: {
+    label: 'Data Matrix',
+    dimension: '2d',
+    mlKitFormat: 16,
+    mlKitName: 'DATA_MATRIX',
+    cameraTypes: ['data-matrix'],
+    bwipId: 'datamatrix',
+  },
+  code128: {
+    label: 'Code 128',
+    dimension: '1d',
+    mlKitFormat: 1,
+    mlKitName: 'CODE_128',
+    cameraTypes: ['code-128'],
+    jsBarcodeFormat: 'CODE128',
+  },
+  code39: {
+    label: 'Code 39',
+    dimension: '1d',
+    mlKitFormat: 2,
+    mlKitName: 'CODE_39',
+    cameraTypes: ['code-39'],
+    jsBarcodeFormat: 'CODE39',
+  },
+  code93: {
+    label: 'Code 93',
+    dimension: '1d',
+    mlKitFormat: 4,
+    mlKitName: 'CODE_93',
+    cameraTypes: ['code-93'],
+    jsBarcodeFormat: 'CODE93',
+  },
+  ean8: {
+    label: 'EAN-8',
+    dimension: '1d',
+    mlKitFormat: 64,
+    mlKitName: 'EAN_8',
+    cameraTypes: ['ean-8'],
+    jsBarcodeFormat: 'EAN8',
+  },
+  ean13: {
+    label: 'EAN-13',
+    dimension: '1d',
+    mlKitFormat: 32,
+    mlKitName: 'EAN_13',
+    cameraTypes: ['ean-13'],
+    jsBarcodeFormat: 'EAN13',
+  },
+  upca: {
+    label: 'UPC-A',
+    dimension: '1d',
+    mlKitFormat: 512,
+    mlKitName: 'UPC_A',
+    cameraTypes: ['upc-a'],
+    jsBarcodeFormat: 'UPC',
+  },
+  upce: {
+    label: 'UPC-E',
+    dimension: '1d',
+    mlKitFormat: 1024,
+    mlKitName: 'UPC_E',
+    cameraTypes: ['upc-e'],
+    jsBarcodeFormat: 'UPCE',
+  },
+  itf: {
+    label: 'ITF',
+    dimension: '1d',
+    mlKitFormat: 128,
+    mlKitName: 'ITF',
+    cameraTypes: ['itf', 'itf-14'],
+    jsBarcodeFormat: 'ITF',
+  },
+  codabar: {
+    label: 'Codabar',
+    dimension: '1d',
+    mlKitFormat: 8,
+    mlKitName: 'CODABAR',
+    cameraTypes: ['codabar'],
+    jsBarcodeFormat: 'codabar',
+  },
+};
+
+export const SYMBOLOGY_VALUES = Object.keys(SYMBOLOGIES) as Symbology[];
+
+export const METADATA_TYPE_VALUES: MetadataType[] = [...SYMBOLOGY_VALUES, 'barcode'];
+
+// --- Lookup ---
+
+export const isSymbology = (value: unknown): value is Symbology =>
+  typeof value === 'string' && value in SYMBOLOGIES;
+
+/**
+ * Resolves a stored `metadata_type` to the symbology to draw. The legacy
+ * "barcode" value maps to Code 128 and anything unrecognized to QR.
+ */
+export const normalizeSymbology = (metadataType?: string | null): Symbology => {
+  if (metadataType === 'barcode') return 'code128';
+  return isSymbology(metadataType) ? metadataType : 'qr';
+};
+
+export const isTwoDimensional = (symbology: Symbology): boolean =>
+  SYMBOLOGIES[symbology].dimension === '2d';
+
+// Linear codes and stacked PDF417 are laid out in a wide box, the rest square.
+export const isWideSymbology = (symbology: Symbology): boolean =>
+  !isTwoDimensional(symbology) || symbology === 'pdf417';
+
+/**
+ * Maps a scanner format to a symbology. Accepts the numeric ML Kit format,
+ * either as a number or as the string it becomes in route params, and the
+ * ML Kit constant name ("EAN_13").
+ */
+export const getSymbologyFromCodeFormat = (
+  codeFormat?: number | string | null
+): Symbology | undefined => {
+  if (codeFormat === undefined || codeFormat === null || codeFormat === '') {
+    return undefined;
+  }
+  const numeric = Number(codeFormat);
+  const name = String(codeFormat).toUpperCase();
+  return SYMBOLOGY_VALUES.find((symbology) =>
+    Number.isNaN(numeric)
+      ? SYMBOLOGIES[symbology].mlKitName === name
+      : SYMBOLOGIES[symbology].mlKitFormat === numeric
+  );
+};
+
+/** ML Kit format number for a vision-camera code type, e.g. "ean-13" → 32. */
+export const getCodeFormatFromCameraType = (type: string): number | undefined =>
+  SYMBOLOGY_VALUES.map((symbology) => SYMBOLOGIES[symbology]).find((definition) =>
+    definition.cameraTypes.includes(type)
+  )?.mlKitFormat;
+
+// --- Validation ---
+
+export type SymbologyIssue =
+  | 'digitsOnly'
+  | 'length'
+  | 'numberSystem'
+  | 'checkDigit'
+  | 'evenLength'
+  | 'charset';
+
+export interface SymbologyValidation {
+  issue?: SymbologyIssue;
+  // Corrected values, most likely first.
+  suggestions: string[];
+  // What the renderer actually encodes, when that differs from the input.
+  renderedValue?: string;
+}
+
+const MAX_SUGGESTIONS = 3;
+
+// Lengths without and with the check digit.
+const GTIN_LENGTHS: Partial<Record<Symbology, [number, number]>> = {
+  ean8: [7, 8],
+  ean13: [12, 13],
+  upca: [11, 12],
+};
+
+const CODE39_CHARSET = /^[0-9A-Z\-. $/+%]+$/;
+const CODABAR_CHARSET = /^([A-D][0-9\-$:./+]+[A-D]|[0-9\-$:./+]+)$/;
+const ASCII_CHARSET = /^[\x00-\x7F]+$/;
+
+/** Expands the six middle digits of a UPC-E code to the 11 UPC-A data digits. */
+const expandUpcE = (middle: string, numberSystem: string): string => {
+  const [d1, d2, d3, d4, d5, last] = middle.split('');
+  switch (last) {
+    case '0':
+    case '1':
+    case '2':
+      return `${numberSystem}${d1}${d2}${last}0000${d3}${d4}${d5}`;
+    case '3':
+      return `${numberSystem}${d1}${d2}${d3}00000${d4}${d5}`;
+    case '4':
+      return `${numberSystem}${d1}${d2}${d3}${d4}00000${d5}`;
+    default:
+      return `${numberSystem}${d1}${d2}${d3}${d4}${d5}0000${last}`;
+  }
+};
+
+const upcECheckDigit = (digits: string): number =>
+  calculateGS1CheckDigit(expandUpcE(digits.slice(1, 7), digits[0]));
+
+const uniqueSuggestions = (value: string, candidates: string[]): string[] =>
+  Array.from(new Set(candidates))
+    .filter((candidate) => candidate !== value)
+    .slice(0, MAX_SUGGESTIONS);
+
+/**
+ * Corrections for a full-length code whose check digit does not match:
+ * swapped neighbours first, the most common typing slip, then the same
+ * payload with the computed check digit.
+ */
+const suggestCheckDigitFixes = (
+  value: string,
+  checkDigitOf: (payload: string) => number
+): string[] => {
+  const isValid = (candidate: string) =>
+    checkDigitOf(candidate.slice(0, -1)) === Number(candidate.slice(-1));
+  const transpositions: string[] = [];
+  for (let index = 0; index < value.length - 1; index++) {
+    if (value[index] === value[index + 1]) continue;
+    const swapped =
+      value.slice(0, index) + value[index + 1] + value[index] + value.slice(index + 2);
+    if (isValid(swapped)) transpositions.push(swapped);
+  }
+  const payload = value.slice(0, -1);
+  return uniqueSuggestions(value, [...transpositions, `${payload}${checkDigitOf(payload)}`]);
+};
+
+// Spaces and dashes are how printed loyalty numbers are usually grouped.
+const stripSeparators = (value: string): string => value.replace(/[\s-]/g, '');
+
+const validateGtin = (
+  value: string,
+  [shortLength, fullLength]: [number, number]
+): SymbologyValidation => {
+  if (!/^\d+$/.test(value)) {
+    const stripped = stripSeparators(value);
+    const isFixable =
+      /^\d+$/.test(stripped) &&
+      (stripped.length === shortLength || stripped.length === fullLength);
+    return { issue: 'digitsOnly', suggestions: isFixable ? [stripped] : [] };
+  }
+  if (value.length === shortLength) {
+    return {
+      suggestions: [],
+      renderedValue: `${value}${calculateGS1CheckDigit(value)}`,
+    };
+  }
+  if (value.length !== fullLength) {
+    return { issue: 'length', suggestions: [] };
+  }
+  if (calculateGS1CheckDigit(value.slice(0, -1)) !== Number(value.slice(-1))) {
+    return {
+      issue: 'checkDigit',
+      suggestions: suggestCheckDigitFixes(value, calculateGS1CheckDigit),
+    };
+  }
+  return { suggestions: [] };
+};
+
+const validateUpcE = (value: string): SymbologyValidation => {
+  if (!/^\d+$/.test(value)) {
+    const stripped = stripSeparators(value);
+    const isFixable = /^(\d{6}|[01]\d{7})$/.test(stripped);
+    return { issue: 'digitsOnly', suggestions: isFixable ? [stripped] : [] };
+  }
+  // Six digits are the compressed number alone; number system 0 is assumed.
+  if (value.length === 6) {
+    const full = `0${value}`;
+    return { suggestions: [], renderedValue: `${full}${upcECheckDigit(full)}` };
+  }
+  if (value.length !== 8) {
+    return { issue: 'length', suggestions: [] };
+  }
+  if (value[0] !== '0' && value[0] !== '1') {
+    return { issue: 'numberSystem', suggestions: [] };
+  }
+  if (upcECheckDigit(value.slice(0, -1)) !== Number(value.slice(-1))) {
+    return {
+      issue: 'checkDigit',
+      suggestions: suggestCheckDigitFixes(value, upcECheckDigit).filter((candidate) =>
+        /^[01]/.test(candidate)
+      ),
+    };
+  }
+  return { suggestions: [] };
+};
+
+const validateItf = (value: string): SymbologyValidation => {
+  if (!/^\d+$/.test(value)) {
+    const stripped = stripSeparators(value);
+    return {
+      issue: 'digitsOnly',
+      suggestions: /^(\d{2})+$/.test(stripped) ? [stripped] : [],
+    };
+  }
+  // Interleaved 2 of 5 encodes digits in pairs; a leading zero keeps the value.
+  if (value.length % 2 !== 0) {
+    return { issue: 'evenLength', suggestions: [`0${value}`] };
+  }
+  return { suggestions: [] };
+};
+
+const validateCode39 = (value: string, symbology: Symbology): SymbologyValidation => {
+  if (CODE39_CHARSET.test(value)) return { suggestions: [] };
+  const upperCase = value.toUpperCase();
+  if (CODE39_CHARSET.test(upperCase)) {
+    // JsBarcode upper-cases Code 39 itself, Code 93 rejects lower case.
+    return symbology === 'code39'
+      ? { suggestions: [], renderedValue: upperCase }
+      : { issue: 'charset', suggestions: [upperCase] };
+  }
+  const cleaned = upperCase.replace(/[^0-9A-Z\-. $/+%]/g, '');
+  return { issue: 'charset', suggestions: uniqueSuggestions(value, cleaned ? [cleaned] : []) };
+};
+
+const validateCode128 = (value: string): SymbologyValidation => {
+  if (ASCII_CHARSET.test(value)) return { suggestions: [] };
+  // Drop diacritics ("Nguyễn" → "Nguyen") before giving up on a character.
+  const ascii = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x00-\x7F]/g, '');
+  return { issue: 'charset', suggestions: uniqueSuggestions(value, ascii ? [ascii] : []) };
+};
+
+const validateCodabar = (value: string): SymbologyValidation => {
+  const upperCase = value.toUpperCase();
+  if (CODABAR_CHARSET.test(upperCase)) return { suggestions: [] };
+  const cleaned = upperCase.replace(/[^0-9\-$:./+]/g, '');
+  return { issue: 'charset', suggestions: uniqueSuggestions(value, cleaned ? [cleaned] : []) };
+};
+
+/**
+ * Checks a manually entered value against the rules of its symbology:
+ * EAN/UPC length and mod-10 check digit, ITF even length and the Code 39,
+ * Code 93, Code 128 and Codabar character sets. 2D symbologies take any
+ * text. Empty values pass; whether one is required is up to the form.
+ */
+export const validateSymbologyValue = (
+  symbology: Symbology,
+  value: string
+): SymbologyValidation => {
+  if (!value) return { suggestions: [] };
+  const gtinLengths = GTIN_LENGTHS[symbology];
+  if (gtinLengths) return validateGtin(value, gtinLengths);
+
+  switch (symbology) {
+    case 'upce':
+      return validateUpcE(value);
+    case 'itf':
+      return validateItf(value);
+    case 'code39':
+    case 'code93':
+      return validateCode39(value, symbology);
+    case 'code128':
+      return validateCode128(value);
+    case 'codabar':
+      return validateCodabar(value);
+    default:
+      return { suggestions: [] };
+  }
+};
+
+// --- Rendering ---
+
+/**
+ * Encodes 2D symbologies that have no React Native renderer (Aztec, PDF417,
+ * Data Matrix) to an SVG string for `SvgXml`. Returns null for the others,
+ * or when the value cannot be encoded in the symbology.
+ */
+export const toSymbologySvg = (symbology: Symbology, value: string): string | null => {
+  const { bwipId } = SYMBOLOGIES[symbology];
+  if (!bwipId || !value) return null;
+  try {
+    return toSVG({ bcid: bwipId, text: value, scale: 2 });
+  } catch (error) {
+    console.error(`Error encoding ${symbology}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,440 @@
+import { returnItemsByType } from '@/utils/returnItemData';
+
+// --- Types ---
+
+export type UrlRiskLevel = 'safe' | 'caution' | 'danger';
+
+export type UrlIssue =
+  | 'dangerousScheme' // javascript:, data: and friends run or embed content
+  | 'otherApp' // Any scheme other than the web and action schemes
+  | 'insecure' // Plain http
+  | 'credentials' // "https://bank.com@evil.com" reads as bank.com
+  | 'ipHost'
+  | 'port'
+  | 'punycode' // International domain, shown decoded
+  | 'mixedScript' // Latin mixed with Cyrillic, Greek or Armenian in one label
+  | 'homograph' // Non-Latin label that reads as a Latin word
+  | 'lookalike' // Almost the name of a bank or e-wallet
+  | 'brandMention' // A bank or e-wallet name used outside its own domain
+  | 'shortener'; // The real destination is hidden
+
+export interface UrlFinding {
+  issue: UrlIssue;
+  level: Exclude<UrlRiskLevel, 'safe'>;
+  detail?: string; // Decoded host, brand name or port, depending on the issue
+}
+
+export interface UrlInspection {
+  url: string;
+  scheme: string; // Lowercase, without ":"
+  host: string; // Unicode form, punycode labels decoded
+  effectiveDomain: string; // Registrable part of `host`, e.g. "example.com.vn"
+  level: UrlRiskLevel;
+  findings: UrlFinding[];
+}
+
+// --- Schemes ---
+
+const DANGEROUS_SCHEMES = ['javascript', 'data', 'vbscript', 'file', 'blob'];
+const WEB_SCHEMES = ['http', 'https'];
+// Handed to the dialer, messages, mail or maps app by the action sheets.
+const ACTION_SCHEMES = ['tel', 'sms', 'smsto', 'mailto', 'geo'];
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443' };
+
+// --- Parsing ---
+
+interface ParsedUrl {
+  scheme: string;
+  userInfo?: string;
+  host: string;
+  port?: string;
+}
+
+const URL_PARTS = /^([a-z][a-z0-9+.-]*):(?:\/\/([^/?#]*))?/i;
+
+const parseUrl = (url: string): ParsedUrl | null => {
+  const match = URL_PARTS.exec(url.trim());
+  if (!match) return null;
+  const [, scheme, authority = ''] = match;
+
+  const at = authority.lastIndexOf('@');
+  const userInfo = at >= 0 ? authority.slice(0, at) : undefined;
+  const hostPort = at >= 0 ? authority.slice(at + 1) : authority;
+
+  // IPv6 hosts are bracketed, so their colons are not a port separator.
+  const hostMatch = /^(\[[^\]]*\]|[^:]*)(?::(\d*))?$/.exec(hostPort);
+  return {
+    scheme: scheme.toLowerCase(),
+    userInfo,
+    host: (hostMatch?.[1] ?? hostPort).toLowerCase().replace(/\.$/, ''),
+    port: hostMatch?.[2] || undefined,
+  };
+};
+
+// --- Punycode ---
+
+// RFC 3492 parameters.
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+
+const adaptBias = (delta: number, numPoints: number, firstTime: boolean): number => {
+  let scaled = firstTime ? Math.floor(delta / DAMP) : Math.floor(delta / 2);
+  scaled += Math.floor(scaled / numPoints);
+  let k = 0;
+  while (scaled > ((BASE - T_MIN) * T_MAX) >> 1) {
+    scaled = Math.floor(scaled / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * scaled) / (scaled + SKEW));
+};
+
+const punycodeDigit = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 0x30 && code <= 0x39) return code - 22; // 0-9 are 26-35
+  if (code >= 0x61 && code <= 0x7a) return code - 0x61; // a-z are 0-25
+  return BASE;
+};
+
+/** Decodes one punycode label (without "xn--"); null when it is malformed. */
+export const decodePunycode = (input: string): string | null => {
+  const basicEnd = input.lastIndexOf('-');
+  const output = Array.from(input.slice(0, Math.max(basicEnd, 0)), (char) => char.charCodeAt(0));
+  if (output.some((code) => code >= 0x80)) return null;
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  let index = basicEnd > 0 ? basicEnd + 1 : 0;
+
+  while (index < input.length) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const digit = punycodeDigit(input[index++]);
+      if (digit >= BASE) return null;
+      i += digit * weight;
+      const threshold = k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+      if (digit < threshold) break;
+      weight *= BASE - threshold;
+    }
+    const length = output.length + 1;
+    bias = adaptBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+export const toUnicodeHost = (host: string): string =>
+  host
+    .split('.')
+    .map((label) => (label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label))
+    .join('.');
+
+// --- Domains ---
+
+// Second-level suffixes under which sites register their own name.
+const MULTI_PART_SUFFIXES = new Set([
+  'com.vn', 'net.vn', 'org.vn', 'edu.vn', 'gov.vn', 'biz.vn', 'info.vn', 'name.vn',
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk',
+  'com.au', 'net.au', 'org.au',
+  'co.jp', 'ne.jp', 'or.jp',
+  'co.kr', 'or.kr',
+  'com.cn', 'com.hk', 'com.tw', 'com.sg', 'com.my', 'co.th', 'co.id', 'com.ph',
+  'co.in', 'com.br', 'com.mx', 'co.nz', 'co.za', 'com.tr',
+]);
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd',
+  'buff.ly', 'cutt.ly', 'rebrand.ly', 'shorturl.at', 'rb.gy', 's.id', 't.ly',
+  'tiny.cc', 'bl.ink', 'lnkd.in', 'qrco.de', 'short.io', 'shorte.st', 'adf.ly',
+  'urlz.fr', 'y2u.be', 'surl.li', 'tiny.one',
+]);
+
+const IPV4_HOST = /^\d{1,3}(\.\d{1,3}){3}$/;
+// Browsers also accept a whole address as one decimal or hex number.
+const NUMERIC_HOST = /^(0x[0-9a-f]+|\d+)$/;
+
+const isIpHost = (host: string): boolean =>
+  host.startsWith('[') || IPV4_HOST.test(host) || NUMERIC_HOST.test(host);
+
+/** Registrable domain of a host: the part its owner actually controls. */
+export const getEffectiveDomain = (host: string): string => {
+  if (!host || isIpHost(host)) return host;
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+  const suffix = labels.slice(-2).join('.');
+  return labels.slice(MULTI_PART_SUFFIXES.has(suffix) ? -3 : -2).join('.');
+};
+
+// --- Scripts ---
+
+type Script = 'latin' | 'greek' | 'cyrillic' | 'armenian' | 'other' | 'common';
+
+const getScript = (codePoint: number): Script => {
+  if ((codePoint >= 0x30 && codePoint <= 0x39) || codePoint === 0x2d) return 'common';
+  if (codePoint >= 0x61 && codePoint <= 0x7a) return 'latin';
+  if ((codePoint >= 0xc0 && codePoint <= 0x24f) || (codePoint >= 0x1e00 && codePoint <= 0x1eff)) {
+    return 'latin'; // Includes Vietnamese letters
+  }
+  if ((codePoint >= 0x370 && codePoint <= 0x3ff) || (codePoint >= 0x1f00 && codePoint <= 0x1fff)) {
+    return 'greek';
+  }
+  if (codePoint >= 0x400 && codePoint <= 0x52f) return 'cyrillic';
+  if (codePoint >= 0x530 && codePoint <= 0x58f) return 'armenian';
+  return 'other';
+};
+
+// Scripts whose letters pass for Latin ones. CJK or Thai next to Latin is
+// common in real domains and not flagged.
+const CONFUSABLE_SCRIPTS: Script[] = ['latin', 'greek', 'cyrillic', 'armenian'];
+
+const getLabelScripts = (label: string): Set<Script> =>
+  new Set(
+    Array.from(label, (char) => getScript(char.codePointAt(0) ?? 0)).filter((script) =>
+      CONFUSABLE_SCRIPTS.includes(script)
+    )
+  );
+
+// Letters and digits that render like a Latin letter.
+const CONFUSABLES: Record<string, string> = {
+  а: 'a', в: 'b', е: 'e', ё: 'e', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p', с: 'c',
+  т: 't', у: 'y', х: 'x', і: 'i', ї: 'i', ј: 'j', ѕ: 's', ԁ: 'd', ԛ: 'q', ԝ: 'w',
+  һ: 'h', ӏ: 'l', ү: 'y', ɡ: 'g', ı: 'i',
+  α: 'a', β: 'b', ε: 'e', ι: 'i', κ: 'k', ν: 'v', ο: 'o', ρ: 'p', τ: 't', υ: 'u',
+  χ: 'x', ω: 'w',
+  օ: 'o', ս: 'u', ց: 'g', հ: 'h', ո: 'n',
+  '0': 'o', '1': 'l',
+};
+
+/**
+ * What a label looks like to a reader: confusable letters mapped to Latin,
+ * diacritics and hyphens dropped, and "rn" read as "m".
+ */
+export const getSkeleton = (label: string): string =>
+  Array.from(label.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+    .map((char) => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/-/g, '');
+
+// --- Brands ---
+
+// Short names such as "ACB" or "CAKE" appear inside unrelated words, so
+// they only count when they are a whole label.
+const MIN_BRAND_MENTION_LENGTH = 5;
+const MIN_BRAND_TYPO_LENGTH = 6;
+const MIN_BRAND_TOKEN_LENGTH = 3;
+
+// Registrable domains each bank and e-wallet serves its sites from, by brand
+// code. A host named after a brand anywhere else is treated as a lookalike.
+const OFFICIAL_DOMAINS: Record<string, string[]> = {
+  ACB: ['acb.com.vn'],
+  VBA: ['agribank.com.vn'],
+  ABB: ['abbank.vn'],
+  BAB: ['bacabank.com.vn'],
+  BVB: ['baovietbank.vn'],
+  BIDV: ['bidv.com.vn'],
+  CAKE: ['cake.vn'],
+  CBB: ['cbbank.vn'],
+  CIMB: ['cimb.com.vn', 'cimb.com'],
+  CITIBANK: ['citibank.com.vn', 'citi.com'],
+  COOPBANK: ['co-opbank.vn'],
+  DAB: ['dongabank.com.vn'],
+  EIB: ['eximbank.com.vn'],
+  GPB: ['gpbank.com.vn'],
+  HDB: ['hdbank.com.vn'],
+  HLBVN: ['hlbank.com.vn'],
+  HSBC: ['hsbc.com.vn', 'hsbc.com'],
+  IVB: ['indovinabank.com.vn'],
+  KLB: ['kienlongbank.com'],
+  KBHN: ['kbfg.com', 'kbstar.com'],
+  KEBHANAHCM: ['kebhana.com.vn', 'hanabank.com'],
+  MB: ['mbbank.com.vn'],
+  MSB: ['msb.com.vn'],
+  NAB: ['namabank.com.vn'],
+  NCB: ['ncb-bank.vn'],
+  OCB: ['ocb.com.vn'],
+  Oceanbank: ['oceanbank.vn'],
+  PGB: ['pgbank.com.vn'],
+  PBVN: ['publicbank.com.vn'],
+  PVCB: ['pvcombank.com.vn'],
+  SCB: ['scb.com.vn'],
+  SHB: ['shb.com.vn'],
+  SHBVN: ['shinhan.com.vn'],
+  SGICB: ['saigonbank.com.vn'],
+  TCB: ['techcombank.com', 'techcombank.com.vn'],
+  TIM: ['timo.vn'],
+  TPB: ['tpb.vn', 'tpbank.vn', 'tpbank.com.vn'],
+  UBB: ['ubank.vn'],
+  VIB: ['vib.com.vn'],
+  VIETBANK: ['vietbank.com.vn'],
+  VCB: ['vietcombank.com.vn'],
+  VAB: ['vietabank.com.vn'],
+  ICB: ['vietinbank.vn'],
+  VPB: ['vpbank.com.vn'],
+  WVN: ['woori.com.vn', 'wooribank.com'],
+  MOMO: ['momo.vn'],
+  ZALOPAY: ['zalopay.vn'],
+  SPP: ['shopeepay.vn'],
+  VNP: ['vnpay.vn'],
+  VTP: ['viettelmoney.vn', 'viettelpay.vn'],
+};
+
+const OFFICIAL_DOMAIN_SET = new Set(Object.values(OFFICIAL_DOMAINS).flat());
+
+interface BrandToken {
+  name: string;
+  token: string; // Skeleton of the brand name or code, e.g. "vietcombank", "vcb"
+}
+
+let brandTokens: BrandToken[] | null = null;
+
+// Built on first use from the bank and e-wallet lists in Datas.json. Each
+// brand is known by its name and by its code ("Vietcombank", "VCB").
+const getBrandTokens = (): BrandToken[] => {
+  if (!brandTokens) {
+    brandTokens = [...returnItemsByType('bank'), ...returnItemsByType('ewallet')]
+      .flatMap(({ name, code }) =>
+        [...new Set([name, code].map((value) => getSkeleton(value.replace(/[^a-z0-9]/gi, ''))))].map(
+          (token) => ({ name, token })
+        )
+      )
+      .filter(({ token }) => token.length >= MIN_BRAND_TOKEN_LENGTH);
+  }
+  return brandTokens;
+};
+
+// Optimal string alignment distance: edits plus adjacent swaps.
+const getEditDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const findBrandFindings = (host: string, effectiveDomain: string): UrlFinding[] => {
+  // Brands can be one letter apart ("VPBank", "TPBank"), so a bank's own
+  // domain must not be read as a typo of another's.
+  if (OFFICIAL_DOMAIN_SET.has(effectiveDomain)) return [];
+
+  const siteSkeleton = getSkeleton(effectiveDomain.split('.')[0]);
+  const subdomainSkeletons = host
+    .slice(0, Math.max(host.length - effectiveDomain.length - 1, 0))
+    .split('.')
+    .filter(Boolean)
+    .map(getSkeleton);
+
+  for (const { name, token } of getBrandTokens()) {
+    // "vietcombank.top" carries the name, but not on the bank's own domain.
+    const looksLikeBrand =
+      siteSkeleton === token ||
+      (token.length >= MIN_BRAND_TYPO_LENGTH && getEditDistance(siteSkeleton, token) === 1);
+    if (looksLikeBrand) {
+      return [{ issue: 'lookalike', level: 'danger', detail: name }];
+    }
+
+    const isMentioned = (label: string) =>
+      token.length >= MIN_BRAND_MENTION_LENGTH ? label.includes(token) : label === token;
+    // "vietcombank.com.vn.verify-login.top" puts the brand where the domain should be.
+    if (subdomainSkeletons.some(isMentioned)) {
+      return [{ issue: 'brandMention', level: 'danger', detail: name }];
+    }
+    if (token.length >= MIN_BRAND_MENTION_LENGTH && siteSkeleton.includes(token)) {
+      return [{ issue: 'brandMention', level: 'caution', detail: name }];
+    }
+  }
+  return [];
+};
+
+// --- Inspection ---
+
+const findHostFindings = (host: string, asciiHost: string): UrlFinding[] => {
+  const findings: UrlFinding[] = [];
+  const labels = host.split('.');
+
+  if (asciiHost.split('.').some((label) => label.startsWith('xn--')) || /[^\x00-\x7f]/.test(host)) {
+    findings.push({ issue: 'punycode', level: 'caution', detail: host });
+  }
+
+  for (const label of labels) {
+    const scripts = getLabelScripts(label);
+    if (scripts.size > 1) {
+      findings.push({ issue: 'mixedScript', level: 'danger', detail: label });
+      break;
+    }
+    const skeleton = getSkeleton(label);
+    if (!scripts.has('latin') && scripts.size === 1 && /^[a-z0-9]+$/.test(skeleton)) {
+      findings.push({ issue: 'homograph', level: 'danger', detail: skeleton });
+      break;
+    }
+  }
+  return findings;
+};
+
+const getRiskLevel = (findings: UrlFinding[]): UrlRiskLevel =>
+  findings.some((finding) => finding.level === 'danger')
+    ? 'danger'
+    : findings.length > 0
+      ? 'caution'
+      : 'safe';
+
+/**
+ * Inspects a URL offline before it is opened. Nothing is fetched: the
+ * findings come from the URL text alone, so a clean result means "nothing
+ * suspicious in the address", not "verified safe".
+ */
+export const inspectUrl = (url: string): UrlInspection => {
+  const parsed = parseUrl(url);
+  if (!parsed) {
+    const finding: UrlFinding = { issue: 'otherApp', level: 'caution' };
+    return { url, scheme: '', host: '', effectiveDomain: '', level: 'caution', findings: [finding] };
+  }
+
+  const { scheme, userInfo, port } = parsed;
+  const host = toUnicodeHost(parsed.host);
+  const effectiveDomain = getEffectiveDomain(host);
+  const findings: UrlFinding[] = [];
+
+  if (DANGEROUS_SCHEMES.includes(scheme)) {
+    findings.push({ issue: 'dangerousScheme', level: 'danger', detail: scheme });
+  } else if (WEB_SCHEMES.includes(scheme)) {
+    if (scheme === 'http') findings.push({ issue: 'insecure', level: 'caution' });
+    if (userInfo !== undefined) {
+      findings.push({ issue: 'credentials', level: 'danger', detail: userInfo });
+    }
+    if (isIpHost(host)) findings.push({ issue: 'ipHost', level: 'caution', detail: host });
+    if (port && port !== DEFAULT_PORTS[scheme]) {
+      findings.push({ issue: 'port', level: 'caution', detail: port });
+    }
+    if (SHORTENERS.has(effectiveDomain) || SHORTENERS.has(host)) {
+      findings.push({ issue: 'shortener', level: 'caution', detail: effectiveDomain });
+    }
+    if (!isIpHost(host)) {
+      findings.push(...findHostFindings(host, parsed.host));
+      findings.push(...findBrandFindings(host, effectiveDomain));
+    }
+  } else if (!ACTION_SCHEMES.includes(scheme)) {
+    findings.push({ issue: 'otherApp', level: 'caution', detail: scheme });
+  }
+
+  return { url, scheme, host, effectiveDomain, level: getRiskLevel(findings), findings };
+};
@@ -1,9 +1,18 @@
 import * as Yup from "yup";
 import { t } from "@/i18n";
+import { isValidityDate, parseValidityDate } from "@/utils/cardValidity";
+import { WifiSecurity, isWifiPasswordValid } from "@/utils/wifiQR";
+import { parseBoardingPass } from "@/utils/boardingPass";
+import {
+  METADATA_TYPE_VALUES,
+  MetadataType,
+  normalizeSymbology,
+  validateSymbologyValue,
+} from "@/utils/symbology";
 
 // --- Helper Types for qrCodeSchema (Ideally, import from your actual types) ---
 interface CategoryItemValue {
-  value: "bank" | "ewallet" | "store";
+  value: "bank" | "ewallet" | "store" | "wifi" | "flight";
   display: string;
 }
 
@@ -11,12 +20,12 @@ interface BrandItemShape {
   code: string;
   name: string;
   full_name: string;
-  type: "bank" | "ewallet" | "store";
+  type: "bank" | "ewallet" | "store" | "wifi" | "flight";
   bin?: string;
 }
 
 interface MetadataTypeItemShape {
-  value: "qr" | "barcode";
+  value: MetadataType;
   display: string;
 }
 // --- End Helper Types ---
@@ -54,7 +63,7 @@ export const qrCodeSchema = Yup.object({
   category: Yup.object<CategoryItemValue>()
     .shape({
       value: Yup.string()
-        .oneOf(["bank", "ewallet", "store"] as const)
+        .oneOf(["bank", "ewallet", "store", "wifi", "flight"] as const)
         .required(() => t("addScreen.errors.categoryRequired")),
       display: Yup.string().required(() =>
         t("addScreen.errors.categoryRequired"),
@@ -67,7 +76,10 @@ export const qrCodeSchema = Yup.object({
     .nullable()
     .when("category", {
       is: (category: CategoryItemValue | null) =>
-        category?.value === "bank" || category?.value === "ewallet",
+        category?.value === "bank" ||
+        category?.value === "ewallet" ||
+        category?.value === "wifi" ||
+        category?.value === "flight",
       then: (schema) =>
         schema
           .shape({
@@ -75,7 +87,7 @@ export const qrCodeSchema = Yup.object({
             name: Yup.string().required(),
             full_name: Yup.string().required(),
             type: Yup.string()
-              .oneOf(["bank", "ewallet", "store"] as const)
+              .oneOf(["bank", "ewallet", "store", "wifi", "flight"] as const)
               .required(),
             bin: Yup.string().optional(),
           })
@@ -86,41 +98,153 @@ export const qrCodeSchema = Yup.object({
   metadataType: Yup.object<MetadataTypeItemShape>()
     .shape({
       value: Yup.string()
-        .oneOf(["qr", "barcode"] as const)
+        .oneOf(METADATA_TYPE_VALUES)
         .required(),
       display: Yup.string().required(),
     })
     .required(() => t("addScreen.errors.metadataTypeRequired")),
 
-  metadata: Yup.string().when("category", {
-    is: (category: CategoryItemValue | null) =>
-      !!category && // Ensure category is not null
-      (category.value === "store" ||
-        category.value === "ewallet" ||
-        category.value === "bank"),
-    then: (schema) =>
-      schema.trim().required(() => t("addScreen.errors.metadataRequired")),
-    otherwise: (schema) => schema.optional().nullable().strip(),
-  }),
+  metadata: Yup.string().when(
+    "category",
+    ([category]: (CategoryItemValue | null)[], schema) => {
+      // Flight cards keep the boarding pass barcode data as scanned.
+      if (category?.value === "flight") {
+        return schema
+          .trim()
+          .required(() => t("addScreen.errors.metadataRequired"))
+          .test(
+            "boarding-pass",
+            () => t("addScreen.errors.boardingPassInvalid"),
+            (value) => !!value && parseBoardingPass(value) !== null
+          );
+      }
+      // Store and e-wallet codes are often typed in by hand, so check them
+      // against the chosen symbology before a cashier's scanner does.
+      if (category?.value === "store" || category?.value === "ewallet") {
+        return schema
+          .trim()
+          .required(() => t("addScreen.errors.metadataRequired"))
+          .test("symbology", function (value) {
+            const metadataType: MetadataTypeItemShape | undefined =
+              this.parent.metadataType;
+            if (!value || !metadataType) return true;
+            const { issue } = validateSymbologyValue(
+              normalizeSymbology(metadataType.value),
+              value
+            );
+            return issue
+              ? this.createError({
+                  message: t(`addScreen.errors.barcode.${issue}`),
+                })
+              : true;
+          });
+      }
+      if (category?.value === "bank" || category?.value === "wifi") {
+        return schema
+          .trim()
+          .required(() => t("addScreen.errors.metadataRequired"));
+      }
+      return schema.optional().nullable().strip();
+    }
+  ),
+
+  accountName: Yup.string().when(
+    "category",
+    ([category]: (CategoryItemValue | null)[], schema) => {
+      if (category?.value === "bank" || category?.value === "ewallet") {
+        return schema
+          .trim()
+          .required(() => t("addScreen.errors.accountNameRequired"));
+      }
+      // Wi-Fi cards keep the network name (SSID) in accountName.
+      if (category?.value === "wifi") {
+        return schema.required(() => t("addScreen.errors.ssidRequired"));
+      }
+      // Flight cards keep the passenger name, read from the boarding pass.
+      if (category?.value === "flight") {
+        return schema.optional();
+      }
+      return schema.optional().nullable().strip();
+    }
+  ),
 
-  accountName: Yup.string().when("category", {
-    is: (category: CategoryItemValue | null) =>
-      category?.value === "bank" || category?.value === "ewallet",
+  accountNumber: Yup.string().when(
+    "category",
+    ([category]: (CategoryItemValue | null)[], schema) => {
+      if (category?.value === "bank" || category?.value === "ewallet") {
+        return schema
+          .trim()
+          .required(() => t("addScreen.errors.accountNumberRequired"))
+          .matches(/^[0-9]+$/, t("addScreen.errors.accountNumberNumeric"));
+      }
+      // Flight cards keep the flight number, e.g. "VN 213".
+      if (category?.value === "flight") {
+        return schema.optional();
+      }
+      return schema.optional().nullable().strip();
+    }
+  ),
+
+  wifiSecurity: Yup.string<WifiSecurity>().when("category", {
+    is: (category: CategoryItemValue | null) => category?.value === "wifi",
     then: (schema) =>
-      schema.trim().required(() => t("addScreen.errors.accountNameRequired")),
-    otherwise: (schema) => schema.optional().nullable().strip(),
+      schema
+        .oneOf(["nopass", "WEP", "WPA", "WPA3"] as const)
+        .required(() => t("addScreen.errors.wifiSecurityRequired")),
+    otherwise: (schema) => schema.optional(),
   }),
 
-  accountNumber: Yup.string().when("category", {
-    is: (category: CategoryItemValue | null) =>
-      category?.value === "bank" || category?.value === "ewallet",
+  wifiPassword: Yup.string().when("category", {
+    is: (category: CategoryItemValue | null) => category?.value === "wifi",
     then: (schema) =>
-      schema
-        .trim()
-        .required(() => t("addScreen.errors.accountNumberRequired"))
-        .matches(/^[0-9]+$/, t("addScreen.errors.accountNumberNumeric")),
-    otherwise: (schema) => schema.optional().nullable().strip(),
+      schema.test(
+        "wifi-password",
+        () => t("addScreen.errors.wifiPasswordInvalid"),
+        function (value) {
+          return isWifiPasswordValid({
+            ssid: this.parent.accountName ?? "",
+            password: value ?? "",
+            security: this.parent.wifiSecurity,
+            isWEP: this.parent.wifiSecurity === "WEP",
+            isHidden: !!this.parent.wifiHidden,
+          });
+        }
+      ),
+    otherwise: (schema) => schema.optional(),
   }),
+
+  label: Yup.string()
+    .trim()
+    .max(40, () => t("addScreen.errors.labelTooLong"))
+    .optional(),
+
+  notes: Yup.string()
+    .trim()
+    .max(500, () => t("addScreen.errors.notesTooLong"))
+    .optional(),
+
+  validFrom: Yup.string()
+    .trim()
+    .optional()
+    .test("valid-date", () => t("addScreen.errors.invalidDate"), (value) =>
+      !value || isValidityDate(value)
+    ),
+
+  validUntil: Yup.string()
+    .trim()
+    .optional()
+    .test("valid-date", () => t("addScreen.errors.invalidDate"), (value) =>
+      !value || isValidityDate(value)
+    )
+    .test(
+      "after-valid-from",
+      () => t("addScreen.errors.validUntilBeforeValidFrom"),
+      function (value) {
+        const from = parseValidityDate(this.parent.validFrom);
+        const until = parseValidityDate(value);
+        return !from || !until || until >= from;
+      }
+    ),
 });
 
 export const editProfileSchema = Yup.object().shape({
@@ -1,40 +1,84 @@
-import axios from 'axios';
-
-export const getVietQRData = async (
-  accountNo: string,
-  accountName: string,
-  acqId: string,
-  amount?: number,
-  addInfo?: string // Make addInfo optional
-) => {
-  const vietQRUrl = process.env.EXPO_PUBLIC_VIETQR_API_URL_GENERATE || 'default_url';
-  const vietQRClientSecret = process.env.EXPO_PUBLIC_VIETQR_API_CLIENT_SECRET;
-  const vietQRClientId = process.env.EXPO_PUBLIC_VIETQR_API_CLIENT_ID;
-
-  try {
-    const response = await axios.post(
-      vietQRUrl,
-      {
-        accountNo: accountNo,
-        accountName: accountName,
-        acqId: acqId,
-        amount: amount,
-        addInfo: addInfo || `chuyen tien toi ${accountName}`, // Set default value if addInfo is empty
-        template: 'compact',
-      },
-      {
-        headers: {
-          'x-client-id': vietQRClientId,
-          'x-api-key': vietQRClientSecret,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    return response.data;
-
-    // Rest of your code
-  } catch (error) {
-    console.error('Error generating VietQR:', error);
+import { crc16CCITT, NAPAS_GUID } from '@/utils/emvQR';
+
+// --- EMVCo / NAPAS constants ---
+
+const SERVICE_ACCOUNT_TRANSFER = 'QRIBFTTA';
+const CURRENCY_VND = '704';
+const COUNTRY_VN = 'VN';
+// Most banking apps reject a purpose of transaction longer than this.
+const MAX_PURPOSE_LENGTH = 25;
+
+export interface VietQRPayloadOptions {
+  bin: string;
+  accountNumber: string;
+  amount?: number;
+  message?: string;
+  billNumber?: string;
+}
+
+// --- Encoding helpers ---
+
+const tlv = (id: string, value: string): string => {
+  if (value.length > 99) {
+    throw new Error(`VietQR field ${id} exceeds 99 characters`);
   }
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+// Bank apps only accept plain ASCII in tag 62, so strip Vietnamese diacritics.
+const toAsciiText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim();
+
+/**
+ * Builds a NAPAS VietQR (EMVCo merchant-presented) transfer payload locally,
+ * so transfer codes can be generated without network access.
+ */
+export const buildVietQRPayload = ({
+  bin,
+  accountNumber,
+  amount,
+  message,
+  billNumber,
+}: VietQRPayloadOptions): string => {
+  const cleanBin = bin.trim();
+  const cleanAccount = accountNumber.replace(/\s/g, '');
+
+  if (!/^\d{6}$/.test(cleanBin)) {
+    throw new Error('Invalid bank BIN');
+  }
+  if (!cleanAccount || !/^[0-9A-Za-z]+$/.test(cleanAccount)) {
+    throw new Error('Invalid account number');
+  }
+
+  const hasAmount = amount !== undefined && amount > 0;
+  if (hasAmount && !Number.isInteger(amount)) {
+    throw new Error('Invalid amount format');
+  }
+
+  const beneficiary = tlv('00', cleanBin) + tlv('01', cleanAccount);
+  const merchantAccount =
+    tlv('00', NAPAS_GUID) + tlv('01', beneficiary) + tlv('02', SERVICE_ACCOUNT_TRANSFER);
+
+  const purpose = message ? toAsciiText(message).slice(0, MAX_PURPOSE_LENGTH) : '';
+  const bill = billNumber ? toAsciiText(billNumber) : '';
+  const additionalData =
+    (bill ? tlv('01', bill) : '') + (purpose ? tlv('08', purpose) : '');
+
+  let payload =
+    tlv('00', '01') +
+    tlv('01', hasAmount ? '12' : '11') +
+    tlv('38', merchantAccount) +
+    tlv('53', CURRENCY_VND) +
+    (hasAmount ? tlv('54', String(amount)) : '') +
+    tlv('58', COUNTRY_VN) +
+    (additionalData ? tlv('62', additionalData) : '');
+
+  payload += '6304';
+  return payload + crc16CCITT(payload);
 };
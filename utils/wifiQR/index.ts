@@ -0,0 +1,199 @@
+import { Platform } from 'react-native';
+import WifiManager from 'react-native-wifi-reborn';
+
+// --- Types ---
+
+/**
+ * Normalized `T:` value. WPA and WPA2 personal share a connection path,
+ * SAE is WPA3 personal, and any EAP variant is enterprise.
+ */
+export type WifiSecurity = 'nopass' | 'WEP' | 'WPA' | 'WPA3' | 'EAP';
+
+export interface WifiEnterpriseConfig {
+  method?: string; // E: e.g. PEAP, TTLS
+  anonymousIdentity?: string; // A:
+  identity?: string; // I:
+  phase2?: string; // PH2: e.g. MSCHAPV2
+}
+
+export interface WifiNetwork {
+  ssid: string;
+  password: string;
+  security: WifiSecurity;
+  isWEP: boolean;
+  isHidden: boolean;
+  enterprise?: WifiEnterpriseConfig;
+}
+
+// --- Parsing ---
+
+export const isWifiCode = (code: string): boolean => /^WIFI:/i.test(code.trim());
+
+/**
+ * Splits the payload into KEY:value fields. Per the ZXing format, "\"
+ * escapes the next character (so "\;", "\:", "\," and "\\" are literal),
+ * fields end at an unescaped ";" and may appear in any order.
+ */
+const tokenizeWifiFields = (payload: string): Map<string, string> => {
+  const fields = new Map<string, string>();
+  let key = '';
+  let value = '';
+  let inValue = false;
+
+  const commit = () => {
+    const name = key.trim().toUpperCase();
+    // The first occurrence wins, as in ZXing.
+    if (inValue && name && !fields.has(name)) fields.set(name, value);
+    key = '';
+    value = '';
+    inValue = false;
+  };
+
+  for (let i = 0; i < payload.length; i++) {
+    const char = payload[i];
+    if (char === '\\' && i + 1 < payload.length) {
+      const escaped = payload[++i];
+      if (inValue) value += escaped;
+      else key += escaped;
+    } else if (char === ';') {
+      commit();
+    } else if (char === ':' && !inValue) {
+      inValue = true;
+    } else if (inValue) {
+      value += char;
+    } else {
+      key += char;
+    }
+  }
+  commit();
+  return fields;
+};
+
+// Some generators wrap SSIDs and passwords in double quotes.
+const unquote = (value: string): string =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+
+const normalizeSecurity = (
+  type: string | undefined,
+  password: string,
+  hasEnterpriseFields: boolean
+): WifiSecurity => {
+  const normalized = (type ?? '').trim().toUpperCase();
+  if (normalized.includes('EAP') || (hasEnterpriseFields && !normalized)) {
+    return 'EAP';
+  }
+  if (normalized === 'WEP') return 'WEP';
+  if (normalized === 'WPA3' || normalized === 'SAE') return 'WPA3';
+  if (normalized === 'NOPASS') return 'nopass';
+  if (normalized.startsWith('WPA')) return 'WPA';
+  // A missing type means an open network unless a password was given.
+  return password ? 'WPA' : 'nopass';
+};
+
+export const parseWifi = (code: string): WifiNetwork | null => {
+  if (!isWifiCode(code)) return null;
+  const fields = tokenizeWifiFields(code.trim().slice('WIFI:'.length));
+
+  const ssid = unquote(fields.get('S') ?? '');
+  if (!ssid) return null;
+
+  const enterprise: WifiEnterpriseConfig = {
+    method: fields.get('E') || undefined,
+    anonymousIdentity: fields.get('A') || undefined,
+    identity: fields.get('I') || undefined,
+    phase2: fields.get('PH2') || undefined,
+  };
+  const hasEnterpriseFields = Object.values(enterprise).some(Boolean);
+
+  const rawPassword = unquote(fields.get('P') ?? '');
+  const security = normalizeSecurity(fields.get('T'), rawPassword, hasEnterpriseFields);
+  const password = security === 'nopass' ? '' : rawPassword;
+
+  return {
+    ssid,
+    password,
+    security,
+    isWEP: security === 'WEP',
+    isHidden: (fields.get('H') ?? '').trim().toLowerCase() === 'true',
+    enterprise: security === 'EAP' ? enterprise : undefined,
+  };
+};
+
+// --- Building ---
+
+// Escapes the characters the tokenizer above treats as syntax.
+const escapeWifiValue = (value: string): string => value.replace(/([\\;,:"])/g, '\\$1');
+
+const SECURITY_TYPES: Record<WifiSecurity, string> = {
+  nopass: 'nopass',
+  WEP: 'WEP',
+  WPA: 'WPA',
+  WPA3: 'SAE',
+  EAP: 'WPA2-EAP',
+};
+
+/**
+ * Builds the `WIFI:` payload for a network so other phones can join it
+ * by scanning the generated QR code.
+ */
+export const buildWifiPayload = (network: WifiNetwork): string => {
+  const fields = [
+    `T:${SECURITY_TYPES[network.security]}`,
+    `S:${escapeWifiValue(network.ssid)}`,
+  ];
+  if (network.security !== 'nopass' && network.password) {
+    fields.push(`P:${escapeWifiValue(network.password)}`);
+  }
+  if (network.security === 'EAP' && network.enterprise) {
+    const { method, anonymousIdentity, identity, phase2 } = network.enterprise;
+    if (method) fields.push(`E:${escapeWifiValue(method)}`);
+    if (anonymousIdentity) fields.push(`A:${escapeWifiValue(anonymousIdentity)}`);
+    if (identity) fields.push(`I:${escapeWifiValue(identity)}`);
+    if (phase2) fields.push(`PH2:${escapeWifiValue(phase2)}`);
+  }
+  if (network.isHidden) fields.push('H:true');
+  return `WIFI:${fields.join(';')};;`;
+};
+
+/**
+ * Checks the password length against the network's security type.
+ */
+export const isWifiPasswordValid = (network: WifiNetwork): boolean => {
+  switch (network.security) {
+    case 'nopass':
+    case 'EAP':
+      return true;
+    case 'WEP':
+      // 40/104-bit keys: 5 or 13 ASCII characters, 10 or 26 hex digits.
+      return [5, 10, 13, 26].includes(network.password.length);
+    default:
+      return network.password.length >= 8 && network.password.length <= 63;
+  }
+};
+
+// --- Connecting ---
+
+export const WIFI_ENTERPRISE_UNSUPPORTED = 'enterpriseUnsupported';
+
+/**
+ * Joins the network with react-native-wifi-reborn. Enterprise networks
+ * need certificates and credentials the library cannot set, so they are
+ * rejected with `WIFI_ENTERPRISE_UNSUPPORTED`.
+ */
+export const connectToWifiNetwork = async (network: WifiNetwork): Promise<void> => {
+  if (network.security === 'EAP') {
+    throw new Error(WIFI_ENTERPRISE_UNSUPPORTED);
+  }
+  if (network.security === 'nopass' && Platform.OS === 'ios') {
+    await WifiManager.connectToSSID(network.ssid);
+    return;
+  }
+  await WifiManager.connectToProtectedSSID(
+    network.ssid,
+    network.security === 'nopass' ? null : network.password,
+    network.isWEP,
+    network.isHidden
+  );
+};